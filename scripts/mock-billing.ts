@@ -0,0 +1,229 @@
+/**
+ * Local Billing Simulator
+ *
+ * Stands in for Stripe's checkout, billing portal and webhooks, so upgrading,
+ * renewing and cancelling can be tried without an account or network access.
+ * Events are signed with STRIPE_WEBHOOK_SECRET like real webhooks.
+ *
+ *   STRIPE_WEBHOOK_SECRET=whsec_local npx tsx scripts/mock-billing.ts   # listens on :4020
+ *
+ *   # .env.local
+ *   STRIPE_API_URL=http://localhost:4020
+ *   STRIPE_SECRET_KEY=sk_test_local
+ *   STRIPE_PRO_PRICE_ID=price_pro
+ *   STRIPE_WEBHOOK_SECRET=whsec_local
+ *
+ * "Upgrade to Pro" opens a checkout page here that pays immediately. Then move
+ * the subscription along (its id is logged at checkout):
+ *
+ *   curl -X POST localhost:4020/__mock/subscriptions/<id> -d '{"event":"renewed"}'
+ *   curl -X POST localhost:4020/__mock/subscriptions/<id> -d '{"event":"past_due"}'
+ *   curl -X POST localhost:4020/__mock/subscriptions/<id> -d '{"event":"cancelled"}'
+ */
+
+import { createHmac } from "crypto";
+import { createServer, IncomingMessage, ServerResponse } from "http";
+
+export {};
+
+const PORT = Number(process.env.MOCK_BILLING_PORT || 4020);
+const WEBHOOK_URL = process.env.BILLING_WEBHOOK_URL || "http://localhost:3000/api/billing-webhook";
+const WEBHOOK_SECRET = process.env.STRIPE_WEBHOOK_SECRET || "whsec_local";
+const PERIOD_SECONDS = 30 * 24 * 60 * 60;
+
+interface MockSession {
+  id: string;
+  userId: string;
+  customer: string;
+  successUrl: string;
+  cancelUrl: string;
+}
+
+interface MockSubscription {
+  id: string;
+  userId: string;
+  customer: string;
+  status: "active" | "past_due" | "canceled";
+  cancelAtPeriodEnd: boolean;
+  currentPeriodEnd: number; // Seconds
+}
+
+const sessions = new Map<string, MockSession>();
+const subscriptions = new Map<string, MockSubscription>();
+let nextId = 1;
+
+function send(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function redirect(res: ServerResponse, location: string) {
+  res.writeHead(303, { Location: location });
+  res.end();
+}
+
+async function readBody(req: IncomingMessage): Promise<Record<string, string>> {
+  let data = "";
+  for await (const chunk of req) data += chunk;
+  if (!data) return {};
+  try {
+    return JSON.parse(data);
+  } catch {
+    // The app sends form-encoded bodies, like Stripe's API expects
+    return Object.fromEntries(new URLSearchParams(data));
+  }
+}
+
+// Same shape as a Stripe subscription object
+function toSubscriptionObject(sub: MockSubscription) {
+  return {
+    id: sub.id,
+    object: "subscription",
+    customer: sub.customer,
+    status: sub.status,
+    cancel_at_period_end: sub.cancelAtPeriodEnd,
+    current_period_end: sub.currentPeriodEnd,
+    metadata: { userId: sub.userId },
+  };
+}
+
+function toInvoiceObject(sub: MockSubscription) {
+  return {
+    id: `in_${nextId++}`,
+    object: "invoice",
+    customer: sub.customer,
+    subscription: sub.id,
+    lines: { data: [{ period: { end: sub.currentPeriodEnd } }] },
+  };
+}
+
+// Delivers a signed event to the app's webhook, the way Stripe does
+async function sendEvent(type: string, object: Record<string, unknown>) {
+  const payload = JSON.stringify({
+    id: `evt_${nextId++}`,
+    object: "event",
+    type,
+    created: Math.floor(Date.now() / 1000),
+    data: { object },
+  });
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature = createHmac("sha256", WEBHOOK_SECRET).update(`${timestamp}.${payload}`).digest("hex");
+
+  try {
+    const res = await fetch(WEBHOOK_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "Stripe-Signature": `t=${timestamp},v1=${signature}` },
+      body: payload,
+    });
+    console.log(`  -> ${type}: ${res.status} ${await res.text()}`);
+  } catch (error) {
+    console.error(`  -> ${type}: webhook unreachable at ${WEBHOOK_URL}`, error);
+  }
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url || "/", `http://localhost:${PORT}`);
+  const parts = url.pathname.split("/").filter(Boolean);
+  console.log(`${req.method} ${url.pathname}`);
+
+  // POST /v1/checkout/sessions
+  if (req.method === "POST" && url.pathname === "/v1/checkout/sessions") {
+    const body = await readBody(req);
+    if (!body.client_reference_id || !body.success_url) {
+      return send(res, 400, { error: { message: "client_reference_id and success_url are required" } });
+    }
+    const session: MockSession = {
+      id: `cs_${nextId++}`,
+      userId: body.client_reference_id,
+      customer: body.customer || `cus_${nextId++}`,
+      successUrl: body.success_url,
+      cancelUrl: body.cancel_url || body.success_url,
+    };
+    sessions.set(session.id, session);
+    return send(res, 200, { id: session.id, url: `http://localhost:${PORT}/checkout/${session.id}` });
+  }
+
+  // POST /v1/billing_portal/sessions
+  if (req.method === "POST" && url.pathname === "/v1/billing_portal/sessions") {
+    const body = await readBody(req);
+    const portalUrl = new URL(`http://localhost:${PORT}/portal/${body.customer}`);
+    portalUrl.searchParams.set("return_url", body.return_url || "");
+    return send(res, 200, { url: portalUrl.toString() });
+  }
+
+  // Hosted checkout: GET /checkout/{id} pays, ?cancel=1 abandons
+  if (req.method === "GET" && parts[0] === "checkout" && parts.length === 2) {
+    const session = sessions.get(parts[1]);
+    if (!session) return send(res, 404, { error: { message: "No such checkout session" } });
+    sessions.delete(session.id);
+    if (url.searchParams.has("cancel")) return redirect(res, session.cancelUrl);
+
+    const sub: MockSubscription = {
+      id: `sub_${nextId++}`,
+      userId: session.userId,
+      customer: session.customer,
+      status: "active",
+      cancelAtPeriodEnd: false,
+      currentPeriodEnd: Math.floor(Date.now() / 1000) + PERIOD_SECONDS,
+    };
+    subscriptions.set(sub.id, sub);
+    console.log(`  Subscription ${sub.id} for ${sub.userId} (${sub.customer})`);
+
+    await sendEvent("checkout.session.completed", {
+      id: session.id,
+      object: "checkout.session",
+      client_reference_id: session.userId,
+      customer: session.customer,
+      subscription: sub.id,
+      payment_status: "paid",
+      metadata: { userId: session.userId },
+    });
+    await sendEvent("customer.subscription.created", toSubscriptionObject(sub));
+    return redirect(res, session.successUrl);
+  }
+
+  // Billing portal: GET /portal/{customer} cancels the customer's subscription at period end
+  if (req.method === "GET" && parts[0] === "portal" && parts.length === 2) {
+    for (const sub of subscriptions.values()) {
+      if (sub.customer === parts[1] && sub.status !== "canceled") {
+        sub.cancelAtPeriodEnd = true;
+        await sendEvent("customer.subscription.updated", toSubscriptionObject(sub));
+      }
+    }
+    return redirect(res, url.searchParams.get("return_url") || "http://localhost:3000/account");
+  }
+
+  // Test hook: POST /__mock/subscriptions/{id} {"event": "renewed" | "past_due" | "cancelled"}
+  if (req.method === "POST" && parts[0] === "__mock" && parts[1] === "subscriptions" && parts.length === 3) {
+    const sub = subscriptions.get(parts[2]);
+    if (!sub) return send(res, 404, { error: { message: "No such subscription" } });
+    const body = await readBody(req);
+
+    switch (body.event) {
+      case "renewed":
+        sub.status = "active";
+        sub.currentPeriodEnd += PERIOD_SECONDS;
+        await sendEvent("invoice.paid", toInvoiceObject(sub));
+        await sendEvent("customer.subscription.updated", toSubscriptionObject(sub));
+        break;
+      case "past_due":
+        sub.status = "past_due";
+        await sendEvent("invoice.payment_failed", toInvoiceObject(sub));
+        await sendEvent("customer.subscription.updated", toSubscriptionObject(sub));
+        break;
+      case "cancelled":
+        sub.status = "canceled";
+        await sendEvent("customer.subscription.deleted", toSubscriptionObject(sub));
+        break;
+      default:
+        return send(res, 400, { error: { message: 'event must be "renewed", "past_due" or "cancelled"' } });
+    }
+    return send(res, 200, toSubscriptionObject(sub));
+  }
+
+  send(res, 404, { error: { message: "Not Found" } });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock billing on http://localhost:${PORT}, sending webhooks to ${WEBHOOK_URL}`);
+});
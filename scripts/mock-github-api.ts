@@ -0,0 +1,121 @@
+/**
+ * Local Mock of the GitHub REST API
+ *
+ * Serves the endpoints the GitHub integration reads, from in-memory fixtures,
+ * so linking and syncing can be tried without network access or a token.
+ *
+ *   npx tsx scripts/mock-github-api.ts           # listens on :4010
+ *   GITHUB_API_URL=http://localhost:4010 npm run dev
+ *
+ * Connect the repository "acme/webapp", then change an item's state to see
+ * the next sync pick it up (syncs are throttled to one per 5 minutes per space):
+ *
+ *   curl -X POST localhost:4010/__mock/acme/webapp/423 -d '{"state":"merged"}'
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from "http";
+
+export {};
+
+const PORT = Number(process.env.MOCK_GITHUB_PORT || 4010);
+
+interface MockItem {
+  number: number;
+  title: string;
+  kind: "issue" | "pull";
+  state: "open" | "closed" | "merged";
+  updatedAt: string;
+}
+
+const repos: Record<string, MockItem[]> = {
+  "acme/webapp": [
+    { number: 12, title: "Login button does nothing on Safari", kind: "issue", state: "open", updatedAt: "2026-01-05T10:00:00Z" },
+    { number: 57, title: "Dark mode colors are off in settings", kind: "issue", state: "closed", updatedAt: "2026-01-02T09:30:00Z" },
+    { number: 423, title: "Add rate limiting to the API", kind: "pull", state: "open", updatedAt: "2026-01-06T15:20:00Z" },
+    { number: 430, title: "Refactor auth middleware", kind: "pull", state: "merged", updatedAt: "2026-01-04T18:45:00Z" },
+  ],
+};
+
+function send(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function findRepo(owner: string, repo: string): [string, MockItem[]] | undefined {
+  const key = Object.keys(repos).find(k => k.toLowerCase() === `${owner}/${repo}`.toLowerCase());
+  return key ? [key, repos[key]] : undefined;
+}
+
+// Same shape as GET /repos/{owner}/{repo}/issues/{number} - PRs carry pull_request
+function toIssueResponse(fullName: string, item: MockItem) {
+  const path = item.kind === "pull" ? "pull" : "issues";
+  return {
+    number: item.number,
+    title: item.title,
+    html_url: `https://github.com/${fullName}/${path}/${item.number}`,
+    state: item.state === "merged" ? "closed" : item.state,
+    updated_at: item.updatedAt,
+    ...(item.kind === "pull"
+      ? { pull_request: { merged_at: item.state === "merged" ? item.updatedAt : null } }
+      : {}),
+  };
+}
+
+async function readBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  let data = "";
+  for await (const chunk of req) data += chunk;
+  try {
+    return data ? JSON.parse(data) : {};
+  } catch {
+    return {};
+  }
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url || "/", `http://localhost:${PORT}`);
+  const parts = url.pathname.split("/").filter(Boolean);
+  console.log(`${req.method} ${url.pathname}`);
+
+  // Test hook: POST /__mock/{owner}/{repo}/{number} {"state": "...", "title"?: "..."}
+  if (req.method === "POST" && parts[0] === "__mock" && parts.length === 4) {
+    const found = findRepo(parts[1], parts[2]);
+    if (!found) return send(res, 404, { message: "Not Found" });
+    const body = await readBody(req);
+    const number = Number(parts[3]);
+    let item = found[1].find(i => i.number === number);
+    if (!item) {
+      item = { number, title: `Item #${number}`, kind: body.kind === "issue" ? "issue" : "pull", state: "open", updatedAt: "" };
+      found[1].push(item);
+    }
+    if (typeof body.title === "string") item.title = body.title;
+    if (body.state === "open" || body.state === "closed" || body.state === "merged") item.state = body.state;
+    item.updatedAt = new Date().toISOString();
+    return send(res, 200, toIssueResponse(found[0], item));
+  }
+
+  if (req.method !== "GET" || parts[0] !== "repos" || parts.length < 3) {
+    return send(res, 404, { message: "Not Found" });
+  }
+
+  const found = findRepo(parts[1], parts[2]);
+  if (!found) return send(res, 404, { message: "Not Found" });
+  const [fullName, items] = found;
+
+  // GET /repos/{owner}/{repo}
+  if (parts.length === 3) {
+    const [owner, name] = fullName.split("/");
+    return send(res, 200, { name, full_name: fullName, owner: { login: owner }, private: false });
+  }
+
+  // GET /repos/{owner}/{repo}/issues/{number}
+  if (parts.length === 5 && parts[3] === "issues") {
+    const item = items.find(i => i.number === Number(parts[4]));
+    return item ? send(res, 200, toIssueResponse(fullName, item)) : send(res, 404, { message: "Not Found" });
+  }
+
+  send(res, 404, { message: "Not Found" });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock GitHub API on http://localhost:${PORT} (repositories: ${Object.keys(repos).join(", ")})`);
+});
@@ -5,6 +5,8 @@
  */
 
 const BASE_URL = "http://localhost:3000";
+// Space owned by the test user - conversation turns are stored server-side under it
+const TEST_SPACE_ID = process.env.TEST_SPACE_ID;
 
 export {};
 
@@ -329,7 +331,7 @@ const simpleTests: SimpleTest[] = [
   { name: "Date: EOD", input: "Finish tests EOD", tasks: [], expect: { action: "create", hasDueDate: true } },
 ];
 
-async function callAPI(input: string, tasks: any[] = []): Promise<any> {
+async function callAPI(input: string, tasks: any[] = [], conversationId?: string): Promise<any> {
   const response = await fetch(`${BASE_URL}/api/parse-task`, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
@@ -337,6 +339,8 @@ async function callAPI(input: string, tasks: any[] = []): Promise<any> {
       text: input,
       tasks,
       spaceName: "Test Space",
+      spaceId: TEST_SPACE_ID,
+      conversationId,
     }),
   });
   return response.json();
@@ -409,15 +413,17 @@ async function runConversationTests(): Promise<{ passed: number; failed: number
     console.log(`   ${test.description}`);
     
     let context = "";
+    let conversationId: string | undefined;
     let testPassed = true;
     let stepNum = 0;
     
     for (const step of test.steps) {
       stepNum++;
-      const input = context ? `${context}. User clarified: ${step.input}` : step.input;
+      // With a conversation the server resumes the pending task; otherwise replay the context
+      const input = context && !conversationId ? `${context}. User clarified: ${step.input}` : step.input;
       
       try {
-        const data = await callAPI(input, test.initialTasks);
+        const data = await callAPI(input, test.initialTasks, conversationId);
         const failures: string[] = [];
         
         // Check expected action
@@ -477,6 +483,7 @@ async function runConversationTests(): Promise<{ passed: number; failed: number
         // Accumulate context for next step
         if (data.action === "clarify") {
           context = input;
+          conversationId = data.conversationId;
         }
         
       } catch (error) {
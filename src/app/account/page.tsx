@@ -8,10 +8,15 @@ import { motion } from "framer-motion";
 import { Loader2, LogOut, User, Pencil, Check, X, ArrowLeft } from "lucide-react";
 import { auth } from "@/lib/firebase";
 import { updateProfile } from "firebase/auth";
+import { useEntitlements } from "@/lib/hooks/useEntitlements";
+import CalendarSettingsPanel from "@/components/CalendarSettingsPanel";
+import PlanPanel from "@/components/PlanPanel";
+import UsagePanel from "@/components/UsagePanel";
 
 export default function AccountPage() {
     const { user, loading, logout } = useAuth();
     const router = useRouter();
+    const { plan, limits, refresh } = useEntitlements();
     
     // Edit name state
     const [isEditingName, setIsEditingName] = useState(false);
@@ -137,6 +142,30 @@ export default function AccountPage() {
                 {/* Divider */}
                 <div className="border-t border-white/10" />
 
+                {/* Plan Section */}
+                {plan && (
+                    <>
+                        <PlanPanel userId={user.uid} plan={plan} onRefresh={refresh} />
+                        <div className="border-t border-white/10" />
+                    </>
+                )}
+
+                {/* Usage Section */}
+                {plan && limits && (
+                    <>
+                        <UsagePanel userId={user.uid} plan={plan} limits={limits} />
+                        <div className="border-t border-white/10" />
+                    </>
+                )}
+
+                {/* Calendar Section */}
+                {limits && (
+                    <>
+                        <CalendarSettingsPanel userId={user.uid} hasIntegration={limits.hasCalendarIntegration} />
+                        <div className="border-t border-white/10" />
+                    </>
+                )}
+
                 {/* Actions */}
                 <div className="space-y-3">
                     <motion.button
@@ -0,0 +1,177 @@
+"use client";
+
+/**
+ * AI Logs Page (admins)
+ *
+ * Recent AI requests from the aiLogs collection, for finding
+ * misclassifications: requests users undid or rejected, and requests where
+ * an agent never produced valid output. Input is shown as stored - redacted.
+ * Admins are listed in ADMIN_USER_IDS; everyone else gets a 403 from /api/ai-logs.
+ */
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { AlertTriangle, ArrowLeft, Loader2, Undo2 } from "lucide-react";
+import { useAuth } from "@/context/AuthContext";
+import { ApiError } from "@/lib/apiClient";
+import { getAiLogs } from "@/lib/services/aiLogService";
+import { AiLog, AiLogFilter } from "@/types";
+
+const FILTERS: { value: AiLogFilter; label: string }[] = [
+    { value: "corrected", label: "Undone / rejected" },
+    { value: "parse_failed", label: "Parse failures" },
+    { value: "all", label: "All" },
+];
+
+function formatTime(timestamp: number): string {
+    return new Date(timestamp).toLocaleString("en-US", {
+        month: "short",
+        day: "numeric",
+        hour: "numeric",
+        minute: "2-digit",
+    });
+}
+
+export default function AiLogsPage() {
+    const { user, loading } = useAuth();
+    const router = useRouter();
+    const [filter, setFilter] = useState<AiLogFilter>("corrected");
+    const [logs, setLogs] = useState<AiLog[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!loading && !user) {
+            router.push("/login");
+        }
+    }, [user, loading, router]);
+
+    useEffect(() => {
+        if (!user) return;
+        let cancelled = false;
+        getAiLogs(user.uid, filter)
+            .then((loaded) => {
+                if (!cancelled) setLogs(loaded);
+            })
+            .catch((err) => {
+                console.error("Failed to load AI logs:", err);
+                if (cancelled) return;
+                setError(
+                    err instanceof ApiError && err.statusCode === 403
+                        ? "Only admins can view AI logs."
+                        : "Couldn't load AI logs."
+                );
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [user, filter]);
+
+    const handleFilterChange = (value: AiLogFilter) => {
+        setFilter(value);
+        setLogs(null);
+        setError(null);
+    };
+
+    if (loading || !user) {
+        return (
+            <div className="flex min-h-screen items-center justify-center">
+                <Loader2 className="h-8 w-8 animate-spin text-white/50" />
+            </div>
+        );
+    }
+
+    return (
+        <div className="mx-auto max-w-4xl space-y-6 p-4 md:p-8">
+            <div className="flex items-center justify-between">
+                <h1 className="text-2xl font-bold text-white">AI Logs</h1>
+                <button
+                    onClick={() => router.push("/")}
+                    className="flex items-center gap-2 text-sm text-white/60 hover:text-white transition-colors"
+                >
+                    <ArrowLeft className="h-4 w-4" />
+                    Back to Spaces
+                </button>
+            </div>
+
+            {/* Filters */}
+            <div className="flex gap-2">
+                {FILTERS.map((option) => (
+                    <button
+                        key={option.value}
+                        onClick={() => handleFilterChange(option.value)}
+                        className={`rounded-lg px-3 py-1.5 text-sm transition-colors ${
+                            filter === option.value
+                                ? "bg-blue-500/20 text-blue-300"
+                                : "bg-white/5 text-white/60 hover:bg-white/10"
+                        }`}
+                    >
+                        {option.label}
+                    </button>
+                ))}
+            </div>
+
+            {error ? (
+                <p className="text-sm text-red-300">{error}</p>
+            ) : logs === null ? (
+                <Loader2 className="h-5 w-5 animate-spin text-white/40" />
+            ) : logs.length === 0 ? (
+                <p className="text-sm text-white/40">No AI requests match this filter.</p>
+            ) : (
+                <ul className="space-y-3">
+                    {logs.map((log) => (
+                        <li key={log.id} className="glass-card space-y-2 rounded-xl p-4 text-sm">
+                            <div className="flex flex-wrap items-center justify-between gap-2">
+                                <div className="flex items-center gap-2 text-white">
+                                    <span className="font-medium">{log.route}</span>
+                                    {log.intent && (
+                                        <span className="rounded bg-white/10 px-1.5 py-0.5 text-xs text-white/70">
+                                            {log.intent}
+                                            {log.confidence !== undefined && ` · ${Math.round(log.confidence * 100)}%`}
+                                        </span>
+                                    )}
+                                    {log.status >= 400 && (
+                                        <span className="text-xs text-red-300">HTTP {log.status}</span>
+                                    )}
+                                </div>
+                                <span className="text-xs text-white/40">
+                                    {formatTime(log.createdAt)} · {log.latencyMs} ms · {log.totalTokens.toLocaleString("en-US")} tokens
+                                </span>
+                            </div>
+
+                            {log.input && (
+                                <p className="whitespace-pre-wrap rounded-lg bg-white/5 px-3 py-2 text-white/80">{log.input}</p>
+                            )}
+
+                            {log.correction && (
+                                <p className="flex items-center gap-1.5 text-amber-300">
+                                    <Undo2 className="h-3.5 w-3.5" />
+                                    {log.correction.type === "undone" ? "Undone" : "Rejected"}
+                                    {log.correction.detail && `: ${log.correction.detail}`}
+                                </p>
+                            )}
+
+                            {log.parses.filter(parse => !parse.success).map((parse, index) => (
+                                <p key={index} className="flex items-center gap-1.5 text-red-300">
+                                    <AlertTriangle className="h-3.5 w-3.5" />
+                                    {parse.agent} gave no valid output after {parse.attempts} attempts ({parse.errorCode || "unknown"})
+                                </p>
+                            ))}
+
+                            {/* Model calls, in order */}
+                            <ul className="space-y-0.5 text-xs text-white/50">
+                                {log.calls.map((call, index) => (
+                                    <li key={index}>
+                                        {call.agent} · {call.provider}/{call.model} · {call.latencyMs} ms
+                                        {call.totalTokens !== undefined && ` · ${call.totalTokens} tokens`}
+                                        {call.error && <span className="text-red-300"> · {call.error}</span>}
+                                    </li>
+                                ))}
+                            </ul>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
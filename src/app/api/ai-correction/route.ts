@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { verifyUserOwnership, AuthError } from "@/lib/auth/verifyToken";
+import { AiLogError, recordAiCorrection } from "@/lib/services/aiLogServiceServer";
+
+// Request validation schema
+const AiCorrectionRequestSchema = z.object({
+  userId: z.string().min(1, "User ID is required"),
+  aiLogId: z.string().min(1, "AI log ID is required").max(100),
+  type: z.enum(["undone", "rejected"]),
+  detail: z.string().max(500).optional(),
+});
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+    const { userId, aiLogId, type, detail } = AiCorrectionRequestSchema.parse(body);
+
+    // SERVER-SIDE SECURITY: Users can only correct their own AI requests
+    await verifyUserOwnership(req, userId);
+
+    await recordAiCorrection(aiLogId, userId, { type, detail });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    if (error instanceof AuthError || error instanceof AiLogError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("[AI-Correction] Error:", error);
+    return NextResponse.json({ error: "Failed to record the correction" }, { status: 500 });
+  }
+}
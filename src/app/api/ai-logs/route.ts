@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { verifyAdmin, AuthError } from "@/lib/auth/verifyToken";
+import { getAiLogs } from "@/lib/services/aiLogServiceServer";
+
+// Request validation schema
+const AiLogsRequestSchema = z.object({
+  userId: z.string().min(1, "User ID is required"),
+  filter: z.enum(["corrected", "parse_failed", "all"]).default("corrected"),
+  limit: z.number().int().min(1).max(100).optional(),
+});
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+    const { userId, filter, limit } = AiLogsRequestSchema.parse(body);
+
+    // SERVER-SIDE SECURITY: Logs cover every user - admins only (ADMIN_USER_IDS)
+    await verifyAdmin(req, userId);
+
+    const logs = await getAiLogs(filter, limit);
+
+    return NextResponse.json({ logs });
+
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("[AI-Logs] Error:", error);
+    return NextResponse.json({ error: "Failed to load AI logs" }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { verifyUserOwnership, AuthError } from "@/lib/auth/verifyToken";
+import { archiveSpace, keepSpaces, SpaceAccessError, unarchiveSpace } from "@/lib/services/spaceServiceServer";
+
+// Request validation schema - "keep" takes the spaces to keep editable on a plan with a space limit
+const ArchiveSpaceRequestSchema = z.discriminatedUnion("action", [
+  z.object({
+    userId: z.string().min(1, "User ID is required"),
+    action: z.enum(["archive", "unarchive"]),
+    spaceId: z.string().min(1, "Space ID is required"),
+  }),
+  z.object({
+    userId: z.string().min(1, "User ID is required"),
+    action: z.literal("keep"),
+    spaceIds: z.array(z.string().min(1)).max(100),
+  }),
+]);
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+    const request = ArchiveSpaceRequestSchema.parse(body);
+
+    // SERVER-SIDE SECURITY: Only the space owner can archive or unarchive it
+    await verifyUserOwnership(req, request.userId);
+
+    if (request.action === "keep") {
+      await keepSpaces(request.userId, request.spaceIds);
+    } else if (request.action === "archive") {
+      await archiveSpace(request.spaceId, request.userId);
+    } else {
+      await unarchiveSpace(request.spaceId, request.userId);
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    if (error instanceof AuthError || error instanceof SpaceAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("[Archive-Space] Error:", error);
+    return NextResponse.json({ error: "Failed to update the space" }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  BillingError,
+  BillingEventSchema,
+  handleBillingEvent,
+  verifyWebhookSignature,
+} from "@/lib/services/billingServiceServer";
+
+/**
+ * Subscription events from the payment provider. There's no Firebase token -
+ * the Stripe-Signature header is checked against the raw body instead.
+ * Any 5xx makes the provider retry the delivery; applying an event twice is a no-op.
+ */
+export async function POST(req: Request) {
+  try {
+    // The signature covers the exact bytes sent, so read the body as text before parsing
+    const payload = await req.text();
+    verifyWebhookSignature(payload, req.headers.get("stripe-signature"));
+
+    const event = BillingEventSchema.parse(JSON.parse(payload));
+    const result = await handleBillingEvent(event);
+    console.log("[Billing-Webhook]", event.type, event.id, result);
+
+    return NextResponse.json({ received: true, result });
+
+  } catch (error) {
+    if (error instanceof BillingError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+
+    if (error instanceof z.ZodError || error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: "Invalid event", ...(error instanceof z.ZodError ? { details: error.issues } : {}) },
+        { status: 400 }
+      );
+    }
+
+    console.error("[Billing-Webhook] Error:", error);
+    return NextResponse.json({ error: "Failed to process event" }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { canPerformServer } from "@/lib/entitlementsServer";
+import { buildTaskFeed, getUserIdForFeedToken } from "@/lib/services/calendarServiceServer";
+
+/**
+ * ICS feed of the user's tasks with a due date.
+ *
+ * The only GET route: calendar apps poll the feed URL and can't send a Firebase
+ * token, so the secret token in the URL is the credential. Rotating it through
+ * /api/calendar-settings revokes the old URL.
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ token: string }> }) {
+  try {
+    // Apps are given ".../calendar-feed/{token}.ics"
+    const { token } = await params;
+    const feedToken = token.replace(/\.ics$/i, "");
+
+    const userId = feedToken ? await getUserIdForFeedToken(feedToken) : null;
+    if (!userId) {
+      return NextResponse.json({ error: "Calendar feed not found" }, { status: 404 });
+    }
+
+    // Stops serving tasks once the plan no longer includes the integration
+    const entitlement = await canPerformServer(userId, "access_calendar_integration");
+    if (!entitlement.allowed) {
+      return NextResponse.json({ error: entitlement.reason }, { status: 403 });
+    }
+
+    const ics = await buildTaskFeed(userId, new URL(req.url).origin);
+
+    return new NextResponse(ics, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="tasks.ics"',
+        "Cache-Control": "private, no-store",
+      },
+    });
+
+  } catch (error) {
+    console.error("[Calendar-Feed] Error:", error);
+    return NextResponse.json({ error: "Failed to build calendar feed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { AuthError } from "@/lib/auth/verifyToken";
+import { checkEntitlement } from "@/lib/middleware/entitlementMiddleware";
+import {
+  CalendarError,
+  getCalendarSettings,
+  rotateFeedToken,
+  setImportUrl,
+} from "@/lib/services/calendarServiceServer";
+import { CalendarSettings } from "@/types";
+
+// Request validation schema - importUrl null removes the subscribed calendar
+const CalendarSettingsRequestSchema = z.object({
+  userId: z.string().min(1, "User ID is required"),
+  action: z.enum(["get", "rotate_feed", "set_import_url"]),
+  importUrl: z.string().max(2000).nullable().optional(),
+});
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+    const { userId, action, importUrl } = CalendarSettingsRequestSchema.parse(body);
+
+    // SERVER-SIDE SECURITY: Verify auth and check the plan includes the integration
+    const entitlementCheck = await checkEntitlement(req, userId, "access_calendar_integration");
+    if (!entitlementCheck.allowed) {
+      return entitlementCheck.error!;
+    }
+
+    let settings: CalendarSettings;
+    if (action === "rotate_feed") {
+      settings = await rotateFeedToken(entitlementCheck.userId);
+    } else if (action === "set_import_url") {
+      settings = await setImportUrl(entitlementCheck.userId, importUrl || null);
+    } else {
+      settings = await getCalendarSettings(entitlementCheck.userId);
+    }
+
+    // The token itself stays on the server - the client only needs the URL
+    return NextResponse.json({
+      success: true,
+      feedUrl: `${new URL(req.url).origin}/api/calendar-feed/${settings.feedToken}.ics`,
+      importUrl: settings.importUrl ?? null,
+    });
+
+  } catch (error) {
+    if (error instanceof AuthError || error instanceof CalendarError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("[Calendar-Settings] Error:", error);
+    return NextResponse.json({ error: "Failed to update calendar settings" }, { status: 500 });
+  }
+}
@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { verifyUserOwnership, AuthError } from "@/lib/auth/verifyToken";
+import { checkEntitlement } from "@/lib/middleware/entitlementMiddleware";
+import { getSpaceForUser, SpaceAccessError } from "@/lib/services/spaceServiceServer";
+import { getRepository, GitHubError } from "@/lib/services/githubServiceServer";
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import { parseRepository } from "@/lib/githubUtils";
+import { GitHubRepo } from "@/types";
+
+// Request validation schema - a null repository disconnects
+const ConnectGitHubRequestSchema = z.object({
+  userId: z.string().min(1, "User ID is required"),
+  spaceId: z.string().min(1, "Space ID is required"),
+  repository: z.string().min(1).nullable(),
+});
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+    const { userId, spaceId, repository } = ConnectGitHubRequestSchema.parse(body);
+
+    // SERVER-SIDE SECURITY: Connecting needs the Pro plan; disconnecting is always allowed
+    if (repository) {
+      const entitlementCheck = await checkEntitlement(req, userId, "access_github_integration");
+      if (!entitlementCheck.allowed) {
+        return entitlementCheck.error!;
+      }
+    } else {
+      await verifyUserOwnership(req, userId);
+    }
+
+    const { role } = await getSpaceForUser(spaceId, userId);
+    if (role !== "owner") {
+      throw new SpaceAccessError("Only the space owner can connect a repository", 403);
+    }
+
+    const spaceRef = getAdminDb().collection("spaces").doc(spaceId);
+    if (!repository) {
+      await spaceRef.update({ githubRepo: null });
+      return NextResponse.json({ success: true, githubRepo: null });
+    }
+
+    const parsed = parseRepository(repository);
+    if (!parsed) {
+      return NextResponse.json(
+        { error: "Enter a repository as owner/name or a GitHub URL" },
+        { status: 400 }
+      );
+    }
+
+    const { owner, repo } = await getRepository(parsed.owner, parsed.repo);
+    const githubRepo: GitHubRepo = { owner, repo, connectedBy: userId, connectedAt: Date.now() };
+    await spaceRef.update({ githubRepo });
+
+    return NextResponse.json({ success: true, githubRepo });
+
+  } catch (error) {
+    if (error instanceof AuthError || error instanceof SpaceAccessError || error instanceof GitHubError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("[Connect-GitHub] Error:", error);
+    return NextResponse.json({ error: "Failed to connect repository" }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { verifyUserOwnership, AuthError } from "@/lib/auth/verifyToken";
+import { BillingError, createCheckoutSession } from "@/lib/services/billingServiceServer";
+
+// Request validation schema
+const CreateCheckoutRequestSchema = z.object({
+  userId: z.string().min(1, "User ID is required"),
+});
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+    const { userId } = CreateCheckoutRequestSchema.parse(body);
+
+    // SERVER-SIDE SECURITY: Verify auth - the plan only changes once the webhook confirms payment
+    const user = await verifyUserOwnership(req, userId);
+
+    const url = await createCheckoutSession(user, new URL(req.url).origin);
+
+    return NextResponse.json({ success: true, url });
+
+  } catch (error) {
+    if (error instanceof AuthError || error instanceof BillingError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("[Create-Checkout] Error:", error);
+    return NextResponse.json({ error: "Failed to start checkout" }, { status: 500 });
+  }
+}
@@ -0,0 +1,105 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { DailyPlanItem, DailySummary } from "@/types";
+import { checkEntitlement, commitUsage, refundUsage, reserveUsage } from "@/lib/middleware/entitlementMiddleware";
+import { withAiLog } from "@/lib/services/aiLogServiceServer";
+import { getSpacesForUser } from "@/lib/services/spaceServiceServer";
+import { getOpenTasksServer } from "@/lib/services/taskServiceServer";
+import { generateDailySummary } from "@/lib/agents/summaryAgent";
+import { buildFallbackSummary, rankTasksForToday } from "@/lib/summaryUtils";
+
+// Tasks in the plan
+const PLAN_SIZE = 5;
+
+// Request validation schema
+const DailySummaryRequestSchema = z.object({
+  userId: z.string().min(1, "User ID is required"),
+  today: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD").optional(), // The user's local date
+});
+
+async function buildDailySummary(req: Request) {
+  try {
+    const body = await req.json();
+    const { userId, today = new Date().toISOString().split("T")[0] } = DailySummaryRequestSchema.parse(body);
+
+    // SERVER-SIDE SECURITY: Verify auth and check the plan includes summaries
+    const entitlementCheck = await checkEntitlement(req, userId, "access_daily_summary");
+    if (!entitlementCheck.allowed) {
+      return entitlementCheck.error!;
+    }
+
+    const spaces = await getSpacesForUser(entitlementCheck.userId);
+    const spaceNames = Object.fromEntries(spaces.map(space => [space.id, space.name]));
+    const tasks = (await Promise.all(spaces.map(space => getOpenTasksServer(space.id)))).flat();
+    const ranked = rankTasksForToday(tasks, today, entitlementCheck.userId, PLAN_SIZE);
+
+    const toItem = (taskId: string, reason?: string): DailyPlanItem | null => {
+      const entry = ranked.find(r => r.task.id === taskId);
+      if (!entry) return null;
+      return {
+        taskId,
+        spaceId: entry.task.spaceId,
+        spaceName: spaceNames[entry.task.spaceId] || "",
+        title: entry.task.title,
+        reason: reason || entry.reasons.join(", ") || "Next up in your open tasks",
+        dueDate: entry.task.dueDate ?? null,
+        ...(entry.task.priority ? { priority: entry.task.priority } : {}),
+      };
+    };
+
+    // Deterministic plan - used as is when there's nothing to plan or the agent fails
+    let summary = buildFallbackSummary(ranked);
+    let items = ranked.map(r => toItem(r.task.id)!);
+
+    // The agent uses an AI request - without one left the ranked plan is returned
+    const { reservation, error } = ranked.length > 0
+      ? await reserveUsage(req, entitlementCheck.userId, "create_ai_request")
+      : {};
+    if (error) {
+      return error;
+    }
+
+    if (reservation) {
+      try {
+        const plan = await generateDailySummary(ranked, spaceNames, today, tasks.length);
+        const planned = plan.items
+          .map(item => toItem(item.taskId, item.reason))
+          .filter((item): item is DailyPlanItem => item !== null);
+        // Keep any task the agent left out, after the ones it ordered
+        const plannedIds = new Set(planned.map(item => item.taskId));
+        summary = plan.summary;
+        items = [...planned, ...items.filter(item => !plannedIds.has(item.taskId))];
+
+        await commitUsage(reservation, { route: "/api/daily-summary" });
+      } catch (error) {
+        console.error("[Daily-Summary] Agent failed, using ranked plan:", error);
+        await refundUsage(reservation);
+      }
+    }
+
+    const result: DailySummary = {
+      summary,
+      items,
+      openTaskCount: tasks.length,
+      generatedAt: Date.now(),
+    };
+
+    return NextResponse.json({ success: true, summary: result });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("[Daily-Summary] Error:", error);
+    return NextResponse.json({ error: "Failed to build daily summary" }, { status: 500 });
+  }
+}
+
+// Traced for the usage ledger and the AI log
+export function POST(req: Request) {
+  return withAiLog("/api/daily-summary", () => buildDailySummary(req));
+}
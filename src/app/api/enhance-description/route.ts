@@ -1,7 +1,9 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
 import { getGeminiModel } from "@/lib/gemini";
-import { checkEntitlement, incrementUsage } from "@/lib/middleware/entitlementMiddleware";
+import { UsageReservation } from "@/types";
+import { checkEntitlement, commitUsage, refundUsage } from "@/lib/middleware/entitlementMiddleware";
+import { withAiLog } from "@/lib/services/aiLogServiceServer";
 
 // Request validation schema
 const EnhanceDescriptionRequestSchema = z.object({
@@ -17,7 +19,8 @@ const EnhanceDescriptionResponseSchema = z.object({
   enhancedDescription: z.string(),
 });
 
-export async function POST(req: Request) {
+async function enhanceDescription(req: Request) {
+  let reservation: UsageReservation | undefined;
   try {
     // Parse and validate request body
     const body = await req.json();
@@ -30,8 +33,9 @@ export async function POST(req: Request) {
     if (!entitlementCheck.allowed) {
       return entitlementCheck.error!;
     }
+    reservation = entitlementCheck.reservation;
 
-    const model = getGeminiModel();
+    const model = getGeminiModel("enhanceDescription");
 
     const prompt = `You are enhancing a task description with new information provided by the user.
 
@@ -66,13 +70,14 @@ Return ONLY the enhanced description text, nothing else.`;
       enhancedDescription,
     });
 
-    // Increment usage AFTER successful validation (atomic, server-side)
-    await incrementUsage(entitlementCheck.userId, "ai_request");
+    // Keep the reserved usage AFTER successful validation
+    await commitUsage(reservation, { route: "/api/enhance-description" });
 
     return NextResponse.json(response);
     
   } catch (error) {
     console.error("[Enhance-Description] Error:", error);
+    await refundUsage(reservation);
     
     // Handle Zod validation errors
     if (error instanceof z.ZodError) {
@@ -99,3 +104,8 @@ Return ONLY the enhanced description text, nothing else.`;
     );
   }
 }
+
+// Traced for the usage ledger and the AI log
+export function POST(req: Request) {
+  return withAiLog("/api/enhance-description", () => enhanceDescription(req));
+}
@@ -1,23 +1,100 @@
 import { NextResponse } from "next/server";
+import { z } from "zod";
 import { generatePolishedDescription } from "@/lib/agents/descriptionAgent";
-import { Task } from "@/types";
+import { checkEntitlement, commitUsage, refundUsage } from "@/lib/middleware/entitlementMiddleware";
+import { withAiLog } from "@/lib/services/aiLogServiceServer";
+import { getSpaceForUser, SpaceAccessError } from "@/lib/services/spaceServiceServer";
+import { getTaskTimelineServer } from "@/lib/services/taskServiceServer";
+import { UsageReservation } from "@/types";
 
-export async function POST(req: Request) {
-    try {
-        const { task } = await req.json();
+// Newest timeline entries the agent reads
+const TIMELINE_ENTRIES = 50;
 
-        if (!task) {
-            return NextResponse.json({ error: "Task is required" }, { status: 400 });
-        }
+// Request validation schema - only the fields the description is written from
+const GenerateDescriptionRequestSchema = z.object({
+  task: z.object({
+    title: z.string().min(1, "Task title is required").max(500),
+    description: z.string().max(10000).optional(),
+    status: z.string().max(50).optional(),
+    priority: z.string().max(50).optional(),
+    dueDate: z.string().max(50).nullish(),
+  }),
+  taskId: z.string().optional(), // With spaceId: the timeline is read from the task's subcollection
+  spaceId: z.string().optional(),
+  userId: z.string().min(1, "User ID is required"),
+});
 
-        const description = await generatePolishedDescription(task as Task);
+// Response validation schema
+const GenerateDescriptionResponseSchema = z.object({
+  description: z.string(),
+});
 
-        return NextResponse.json({ description });
-    } catch (error) {
-        console.error("Error generating description:", error);
-        return NextResponse.json(
-            { error: "Failed to generate description" },
-            { status: 500 }
-        );
+async function generateDescription(req: Request) {
+  let reservation: UsageReservation | undefined;
+  try {
+    // Parse and validate request body
+    const body = await req.json();
+    const { task, taskId, spaceId, userId } = GenerateDescriptionRequestSchema.parse(body);
+
+    // SERVER-SIDE SECURITY: Verify auth and check entitlement
+    const entitlementCheck = await checkEntitlement(req, userId, "create_ai_request");
+    if (!entitlementCheck.allowed) {
+      return entitlementCheck.error!;
+    }
+    reservation = entitlementCheck.reservation;
+
+    // The task's activity, as stored - only for spaces the user can access
+    let updates;
+    if (spaceId && taskId) {
+      await getSpaceForUser(spaceId, entitlementCheck.userId);
+      updates = await getTaskTimelineServer(spaceId, taskId, TIMELINE_ENTRIES);
     }
+
+    const description = (await generatePolishedDescription({ ...task, updates })).trim();
+
+    // Validate response
+    const response = GenerateDescriptionResponseSchema.parse({ description });
+
+    // Keep the reserved usage AFTER successful validation
+    await commitUsage(reservation, { route: "/api/generate-description", spaceId });
+
+    return NextResponse.json(response);
+
+  } catch (error) {
+    console.error("[Generate-Description] Error:", error);
+    await refundUsage(reservation);
+
+    if (error instanceof SpaceAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+
+    // Handle Zod validation errors
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: "Invalid request data",
+          details: error.issues
+        },
+        { status: 400 }
+      );
+    }
+
+    // Handle Gemini API errors
+    if (error instanceof Error && error.message.includes("API")) {
+      return NextResponse.json(
+        { error: "AI service temporarily unavailable. Please try again." },
+        { status: 503 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to generate description" },
+      { status: 500 }
+    );
+  }
+}
+
+// Traced for the usage ledger and the AI log
+export function POST(req: Request) {
+  return withAiLog("/api/generate-description", () => generateDescription(req));
 }
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { AuthError } from "@/lib/auth/verifyToken";
+import { checkEntitlement } from "@/lib/middleware/entitlementMiddleware";
+import {
+  CalendarError,
+  fetchCalendar,
+  MAX_CALENDAR_BYTES,
+  normalizeCalendarUrl,
+  readCalendar,
+} from "@/lib/services/calendarServiceServer";
+import { getDateInTimeZone, getUpcomingEvents, isValidTimeZone } from "@/lib/icsUtils";
+
+// Request validation schema - events come from an uploaded file or a link
+const ImportCalendarRequestSchema = z.object({
+  userId: z.string().min(1, "User ID is required"),
+  ics: z.string().max(MAX_CALENDAR_BYTES, "That calendar is too large to import").optional(),
+  url: z.string().max(2000).optional(),
+  timeZone: z.string().refine(isValidTimeZone, "Unknown timezone").optional(),
+  days: z.number().int().min(1).max(90).default(30),
+}).refine(data => !!data.ics !== !!data.url, "Provide either an ICS file or a calendar link");
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+    const { userId, ics, url, timeZone, days } = ImportCalendarRequestSchema.parse(body);
+
+    // SERVER-SIDE SECURITY: Verify auth and check the plan includes the integration
+    const entitlementCheck = await checkEntitlement(req, userId, "access_calendar_integration");
+    if (!entitlementCheck.allowed) {
+      return entitlementCheck.error!;
+    }
+
+    const text = ics ?? await fetchCalendar(normalizeCalendarUrl(url!));
+    const events = getUpcomingEvents(readCalendar(text, timeZone), getDateInTimeZone(timeZone), days);
+
+    // Nothing is saved here - the client creates tasks for the events the user picks
+    return NextResponse.json({ success: true, events });
+
+  } catch (error) {
+    if (error instanceof AuthError || error instanceof CalendarError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("[Import-Calendar] Error:", error);
+    return NextResponse.json({ error: "Failed to import calendar" }, { status: 500 });
+  }
+}
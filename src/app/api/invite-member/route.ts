@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { verifyUserOwnership, AuthError } from "@/lib/auth/verifyToken";
+import { inviteMember, SpaceAccessError } from "@/lib/services/spaceServiceServer";
+
+// Request validation schema
+const InviteMemberRequestSchema = z.object({
+  userId: z.string().min(1, "User ID is required"),
+  spaceId: z.string().min(1, "Space ID is required"),
+  email: z.string().email("A valid email is required"),
+  role: z.enum(["editor", "viewer"]),
+});
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+    const { userId, spaceId, email, role } = InviteMemberRequestSchema.parse(body);
+
+    // SERVER-SIDE SECURITY: Only the authenticated owner can invite
+    const user = await verifyUserOwnership(req, userId);
+
+    const invitation = await inviteMember({ spaceId, owner: user, email, role });
+
+    return NextResponse.json({ success: true, invitation });
+
+  } catch (error) {
+    if (error instanceof AuthError || error instanceof SpaceAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("[Invite-Member] Error:", error);
+    return NextResponse.json({ error: "Failed to send invitation" }, { status: 500 });
+  }
+}
@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { AuthError } from "@/lib/auth/verifyToken";
+import { checkEntitlement } from "@/lib/middleware/entitlementMiddleware";
+import { getSpaceForUser, SpaceAccessError } from "@/lib/services/spaceServiceServer";
+import { getGitHubLink, GitHubError, resolveGitHubMentions } from "@/lib/services/githubServiceServer";
+import { canEditTasks } from "@/lib/memberUtils";
+import { parseGitHubMentions } from "@/lib/githubUtils";
+
+// Request validation schema - "423", "#423", "PR #423" or a GitHub URL
+const LinkGitHubRequestSchema = z.object({
+  userId: z.string().min(1, "User ID is required"),
+  spaceId: z.string().min(1, "Space ID is required"),
+  reference: z.string().min(1, "Enter an issue or PR number"),
+});
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+    const { userId, spaceId, reference } = LinkGitHubRequestSchema.parse(body);
+
+    // SERVER-SIDE SECURITY: Verify auth and check the plan includes the integration
+    const entitlementCheck = await checkEntitlement(req, userId, "access_github_integration");
+    if (!entitlementCheck.allowed) {
+      return entitlementCheck.error!;
+    }
+
+    const { space, role } = await getSpaceForUser(spaceId, entitlementCheck.userId);
+    if (!canEditTasks(role, space)) {
+      throw new SpaceAccessError(space.archivedAt ? "This space is archived and read-only" : "Viewers can't link tasks", 403);
+    }
+    if (!space.githubRepo) {
+      return NextResponse.json({ error: "Connect a repository to this space first" }, { status: 400 });
+    }
+
+    // Resolved here; the client saves the links on the task like any other edit
+    const number = reference.trim().match(/^#?(\d+)$/)?.[1];
+    const links = number
+      ? [await getGitHubLink(space.githubRepo, Number(number))]
+      : await resolveGitHubMentions(space.githubRepo, parseGitHubMentions(reference));
+    if (links.length === 0) {
+      return NextResponse.json(
+        { error: `No issue or PR of ${space.githubRepo.owner}/${space.githubRepo.repo} found in "${reference}"` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, links });
+
+  } catch (error) {
+    if (error instanceof AuthError || error instanceof SpaceAccessError || error instanceof GitHubError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("[Link-GitHub] Error:", error);
+    return NextResponse.json({ error: "Failed to link issue or PR" }, { status: 500 });
+  }
+}
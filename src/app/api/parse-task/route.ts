@@ -1,12 +1,88 @@
 import { NextResponse } from "next/server";
 import { orchestrateIntent } from "@/lib/agents/orchestrator";
 import { handleUpdateTask } from "@/lib/agents/updater";
-import { Task } from "@/types";
-import { checkEntitlement, incrementUsage } from "@/lib/middleware/entitlementMiddleware";
+import { answerQuery } from "@/lib/agents/queryAgent";
+import { parseTaskActions } from "@/lib/agents/actionParser";
+import { Conversation, PendingTask, Task, UsageReservation } from "@/types";
+import { checkEntitlement, commitUsage, refundUsage } from "@/lib/middleware/entitlementMiddleware";
+import { AgentOutputError } from "@/lib/agents/structuredOutput";
+import {
+  getOpenConversation,
+  recordClarification,
+  resolveConversation,
+  formatConversationHistory,
+  enrichFollowUpText,
+  mergePendingTask,
+} from "@/lib/services/conversationServiceServer";
+import { getSpaceMembersServer } from "@/lib/services/spaceServiceServer";
+import { resolveSpaceMentions } from "@/lib/services/githubServiceServer";
+import { getTodaysEvents } from "@/lib/services/calendarServiceServer";
+import { annotateAiTrace, getAiTrace } from "@/lib/aiTrace";
+import { withAiLog } from "@/lib/services/aiLogServiceServer";
 
-export async function POST(req: Request) {
+interface ConversationContext {
+  spaceId?: string;
+  userId: string;
+  conversation: Conversation | null;
+  userText: string;
+}
+
+/**
+ * Ask a clarifying question and record it on the space's conversation,
+ * so the answer resumes the pending task from any device or the voice path
+ */
+async function replyWithClarification(
+  ctx: ConversationContext,
+  body: { question?: string; pendingTask?: PendingTask; [key: string]: unknown }
+) {
+  let conversationId: string | null = null;
+
+  if (ctx.spaceId && body.question) {
+    try {
+      conversationId = await recordClarification({
+        spaceId: ctx.spaceId,
+        userId: ctx.userId,
+        conversation: ctx.conversation,
+        userText: ctx.userText,
+        question: body.question,
+        pendingTask: body.pendingTask,
+      });
+    } catch (error) {
+      // The question is still useful without persistence - the answer just won't resume it
+      console.error("[Parse-Task] Failed to record conversation:", error);
+    }
+  }
+
+  annotateAiTrace({ intent: "clarify" });
+  return NextResponse.json({
+    action: "clarify",
+    ...body,
+    ...(conversationId ? { conversationId } : {}),
+    aiLogId: getAiTrace()?.id,
+  });
+}
+
+/**
+ * Return a final action, closing the conversation it answered
+ */
+async function replyWithAction(ctx: ConversationContext, body: Record<string, unknown>) {
+  if (ctx.spaceId && ctx.conversation) {
+    try {
+      await resolveConversation(ctx.spaceId, ctx.conversation.id, ctx.userText);
+    } catch (error) {
+      console.error("[Parse-Task] Failed to resolve conversation:", error);
+    }
+  }
+
+  // The final action, after any fallback - what a user correction is judged against
+  if (typeof body.action === "string") annotateAiTrace({ intent: body.action });
+  return NextResponse.json({ ...body, aiLogId: getAiTrace()?.id });
+}
+
+async function parseTask(req: Request) {
+  let reservation: UsageReservation | undefined;
   try {
-    const { text, tasks, spaceName, recentActivity, userId } = await req.json();
+    const { text, tasks, spaceName, recentActivity, userId, spaceId, conversationId, timeZone } = await req.json();
 
     if (!text) {
       return NextResponse.json({ error: "Text is required" }, { status: 400 });
@@ -21,6 +97,24 @@ export async function POST(req: Request) {
     if (!entitlementCheck.allowed) {
       return entitlementCheck.error!;
     }
+    reservation = entitlementCheck.reservation;
+    annotateAiTrace({ spaceId, input: text });
+
+    // Resume an open clarification conversation - the answer is read as part of its pending task
+    const conversation = spaceId && conversationId
+      ? await getOpenConversation(spaceId, conversationId, entitlementCheck.userId)
+      : null;
+    const pendingTask = conversation?.pendingTask;
+    const members = spaceId ? await getSpaceMembersServer(spaceId, entitlementCheck.userId) : [];
+    // Today's meetings let "after standup" resolve to a time (Pro, with a subscribed calendar)
+    const calendarEvents = await getTodaysEvents(entitlementCheck.userId, timeZone);
+    const inputText = enrichFollowUpText(conversation, text);
+    const ctx: ConversationContext = {
+      spaceId,
+      userId: entitlementCheck.userId,
+      conversation,
+      userText: text,
+    };
 
     const currentDate = new Date().toLocaleString("en-US", {
       weekday: 'long',
@@ -32,17 +126,22 @@ export async function POST(req: Request) {
     });
 
     // 1. Smart Orchestration with full context (NO fuzzy matching!)
-    console.log("[Parse-Task] Input:", text);
-    console.log("[Parse-Task] Context:", { taskCount: tasks?.length || 0, spaceName });
+    console.log("[Parse-Task] Input:", inputText);
+    console.log("[Parse-Task] Context:", { taskCount: tasks?.length || 0, spaceName, conversationId: conversation?.id });
     
     const orchestration = await orchestrateIntent(
-      text, 
+      inputText, 
       tasks || [], 
       currentDate,
       spaceName,
-      recentActivity
+      recentActivity,
+      conversation ? formatConversationHistory(conversation) : undefined,
+      members,
+      calendarEvents
     );
     
+    annotateAiTrace({ intent: orchestration.intent, confidence: orchestration.confidence });
+
     console.log("[Parse-Task] Classification:", {
       intent: orchestration.intent,
       confidence: orchestration.confidence,
@@ -53,11 +152,10 @@ export async function POST(req: Request) {
 
     // 2. Handle clarify intent or low confidence
     if (orchestration.intent === "clarify") {
-      // Increment usage AFTER successful AI processing, before returning response
-      await incrementUsage(entitlementCheck.userId, "ai_request");
+      // Keep the reserved usage AFTER successful AI processing, before returning response
+      await commitUsage(reservation, { route: "/api/parse-task", spaceId });
       
-      return NextResponse.json({
-        action: "clarify",
+      return replyWithClarification(ctx, {
         question: orchestration.clarifyingQuestion,
         missingInfo: orchestration.classification.missingInfo,
         confidence: orchestration.confidence,
@@ -71,7 +169,10 @@ export async function POST(req: Request) {
       // Use task details from classifier
       const taskDetails = orchestration.taskDetails;
       const followUps = orchestration.followUpQuestions || [];
-      const title = taskDetails?.title || text;
+      const merged = mergePendingTask(taskDetails, pendingTask);
+      const title = merged.title || inputText;
+      const priority = merged.priority || "medium";
+      const { description, tags, checklist, blockedBy, recurrence, assigneeId } = merged;
       const vaguenessScore = orchestration.classification.vaguenessScore ?? 50;
       
       console.log("[Parse-Task] Vagueness score:", vaguenessScore, "Reason:", orchestration.classification.vagueReason);
@@ -117,16 +218,20 @@ export async function POST(req: Request) {
           combinedQuestion = `${allQuestions.map(q => q.replace(/\?$/, '')).join(', ')}, and ${lastQ.toLowerCase()}`;
         }
         
-        // Increment usage AFTER successful AI processing, before returning response
-        await incrementUsage(entitlementCheck.userId, "ai_request");
+        // Keep the reserved usage AFTER successful AI processing, before returning response
+        await commitUsage(reservation, { route: "/api/parse-task", spaceId });
         
-        return NextResponse.json({
-          action: "clarify",
+        return replyWithClarification(ctx, {
           question: combinedQuestion,
           pendingTask: {
             title: title,
-            description: taskDetails?.description,
-            priority: taskDetails?.priority || "medium",
+            description: description,
+            priority: priority,
+            tags: tags,
+            checklist: checklist,
+            blockedBy: blockedBy,
+            recurrence: recurrence,
+            assigneeId: assigneeId,
           },
           vaguenessScore: vaguenessScore,
           confidence: orchestration.confidence,
@@ -134,19 +239,56 @@ export async function POST(req: Request) {
         });
       }
       
+      // Suggestions from an earlier turn carry over if this turn produced none
+      const suggestedImprovements = contextQuestions.length > 0
+        ? contextQuestions
+        : pendingTask?.suggestedImprovements;
+
+      // Answering a follow-up without a date - don't ask again, default to today
+      if (!taskDetails?.dueDate && conversation) {
+        console.log("[Parse-Task] Follow-up answered without due date, defaulting to today");
+        await commitUsage(reservation, { route: "/api/parse-task", spaceId });
+
+        return replyWithAction(ctx, {
+          action: "create",
+          task: {
+            title: title,
+            description: description,
+            priority: priority,
+            tags: tags,
+            checklist: checklist,
+            blockedBy: blockedBy,
+            recurrence: recurrence,
+            assigneeId: assigneeId,
+            dueDate: new Date().toISOString().split('T')[0],
+            dueTime: taskDetails?.dueTime,
+            suggestedImprovements,
+            githubLinks: await resolveSpaceMentions(spaceId, ctx.userId, taskDetails?.githubRefs),
+          },
+          confidence: orchestration.confidence,
+          reasoning: orchestration.reasoning,
+        });
+      }
+      
       // MEDIUM/LOW VAGUENESS: Only ask for due date if missing
       if (!taskDetails?.dueDate) {
         console.log("[Parse-Task] Missing due date, asking user");
         const dateQuestion = dateQuestions[0] || "When do you need this done by?";
+        // Charged like every clarifying question - the classifier did its work
+        await commitUsage(reservation, { route: "/api/parse-task", spaceId });
         
         // If there are context questions but task isn't super vague, store them as suggestions
-        return NextResponse.json({
-          action: "clarify",
+        return replyWithClarification(ctx, {
           question: dateQuestion,
           pendingTask: {
             title: title,
-            description: taskDetails?.description,
-            priority: taskDetails?.priority || "medium",
+            description: description,
+            priority: priority,
+            tags: tags,
+            checklist: checklist,
+            blockedBy: blockedBy,
+            recurrence: recurrence,
+            assigneeId: assigneeId,
             // Pass remaining context questions as optional improvements
             suggestedImprovements: contextQuestions.length > 0 ? contextQuestions : undefined,
           },
@@ -157,18 +299,26 @@ export async function POST(req: Request) {
       
       // We have due date - create the task immediately
       // Include improvement suggestions as optional enhancements user can answer later
-      // Increment usage AFTER successful AI processing, before returning response
-      await incrementUsage(entitlementCheck.userId, "ai_request");
+      // Keep the reserved usage AFTER successful AI processing, before returning response
+      await commitUsage(reservation, { route: "/api/parse-task", spaceId });
       
-      return NextResponse.json({ 
+      return replyWithAction(ctx, { 
         action: "create", 
         task: {
           title: taskDetails.title,
-          description: taskDetails.description,
-          priority: taskDetails.priority || "medium",
+          description: description,
+          priority: priority,
           dueDate: taskDetails.dueDate,
+          dueTime: taskDetails.dueTime,
+          tags: tags,
+          checklist: checklist,
+          blockedBy: blockedBy,
+          recurrence: recurrence,
+          assigneeId: assigneeId,
           // Store suggestions on the task - user can optionally answer these later
-          suggestedImprovements: contextQuestions.length > 0 ? contextQuestions : undefined,
+          suggestedImprovements,
+          // "Review PR #423" links the PR if the space has a connected repository
+          githubLinks: await resolveSpaceMentions(spaceId, ctx.userId, taskDetails.githubRefs),
         },
         confidence: orchestration.confidence,
         reasoning: orchestration.reasoning,
@@ -182,12 +332,12 @@ export async function POST(req: Request) {
         // Classifier couldn't find a matching task - this shouldn't happen
         // but if it does, fall back to create
         console.log("[Parse-Task] No target task for update, falling back to create");
-        // Increment usage AFTER successful AI processing, before returning response
-        await incrementUsage(entitlementCheck.userId, "ai_request");
+        // Keep the reserved usage AFTER successful AI processing, before returning response
+        await commitUsage(reservation, { route: "/api/parse-task", spaceId });
         
-        return NextResponse.json({
+        return replyWithAction(ctx, {
           action: "create",
-          task: { title: text },
+          task: { title: inputText },
           followUpQuestions: ["I couldn't find the task you're referring to. Want me to create a new task instead?"],
           confidence: 50,
           reasoning: "Could not identify target task for update",
@@ -195,23 +345,24 @@ export async function POST(req: Request) {
       }
 
       const result = await handleUpdateTask(
-        text,
+        inputText,
         tasks || [],
         currentDate,
         targetTaskId
       );
       
-      // Merge updates from classifier
-      if (orchestration.updates) {
-        result.updates = { ...result.updates, ...orchestration.updates };
-      }
+      // Merge updates from classifier - mentions go back as resolved links instead
+      const { githubRefs, ...classifierUpdates } = orchestration.updates || {};
+      result.updates = { ...result.updates, ...classifierUpdates };
+      const githubLinks = await resolveSpaceMentions(spaceId, ctx.userId, githubRefs);
 
-      // Increment usage AFTER successful AI processing, before returning response
-      await incrementUsage(entitlementCheck.userId, "ai_request");
+      // Keep the reserved usage AFTER successful AI processing, before returning response
+      await commitUsage(reservation, { route: "/api/parse-task", spaceId });
 
-      return NextResponse.json({ 
+      return replyWithAction(ctx, { 
         action: "update", 
         ...result,
+        githubLinks,
         followUpQuestions: orchestration.followUpQuestions,
         confidence: orchestration.confidence,
         reasoning: orchestration.reasoning,
@@ -221,8 +372,8 @@ export async function POST(req: Request) {
       const targetTaskId = orchestration.suggestedTaskId;
       
       if (!targetTaskId) {
-        return NextResponse.json({
-          action: "clarify",
+        await commitUsage(reservation, { route: "/api/parse-task", spaceId });
+        return replyWithClarification(ctx, {
           question: "Which task would you like to delete?",
           confidence: 50,
         });
@@ -230,10 +381,10 @@ export async function POST(req: Request) {
 
       const targetTask = tasks?.find((t: Task) => t.id === targetTaskId);
 
-      // Increment usage AFTER successful AI processing, before returning response
-      await incrementUsage(entitlementCheck.userId, "ai_request");
+      // Keep the reserved usage AFTER successful AI processing, before returning response
+      await commitUsage(reservation, { route: "/api/parse-task", spaceId });
 
-      return NextResponse.json({ 
+      return replyWithAction(ctx, { 
         action: "delete", 
         taskId: targetTaskId,
         taskTitle: targetTask?.title,
@@ -241,31 +392,81 @@ export async function POST(req: Request) {
         reasoning: orchestration.reasoning,
       });
 
+    } else if (orchestration.intent === "multi") {
+      // Several actions in one message - split them with the same parser voice logs use
+      const actions = await parseTaskActions(
+        inputText,
+        (tasks || []).map((t: Task) => ({ id: t.id, title: t.title, status: t.status, tags: t.tags })),
+        "text"
+      );
+
+      if (actions.length === 0) {
+        await refundUsage(reservation);
+        return replyWithClarification(ctx, {
+          question: "I couldn't pick out the individual tasks. Could you list them one at a time?",
+          confidence: orchestration.confidence,
+        });
+      }
+
+      // Keep the reserved usage AFTER successful AI processing, before returning response
+      await commitUsage(reservation, { route: "/api/parse-task", spaceId });
+
+      return replyWithAction(ctx, {
+        action: "multi",
+        actions,
+        confidence: orchestration.confidence,
+        reasoning: orchestration.reasoning,
+      });
+
     } else if (orchestration.intent === "query") {
-      // Increment usage AFTER successful AI processing, before returning response
-      await incrementUsage(entitlementCheck.userId, "ai_request");
+      const queryType = orchestration.classification.queryType;
+      const result = await answerQuery(text, tasks || [], queryType, members);
+
+      // Keep the reserved usage AFTER successful AI processing, before returning response
+      await commitUsage(reservation, { route: "/api/parse-task", spaceId });
       
-      return NextResponse.json({
+      return replyWithAction(ctx, {
         action: "query",
-        queryType: orchestration.classification.queryType,
-        message: "Query support coming soon! For now I can create and update tasks.",
-        followUpQuestions: ["Would you like me to create a task instead?"],
+        queryType,
+        answer: result.answer,
+        taskIds: result.taskIds,
+        confidence: orchestration.confidence,
+        reasoning: orchestration.reasoning,
       });
     }
 
     // Fallback
-    // Increment usage AFTER successful AI processing, before returning response
-    await incrementUsage(entitlementCheck.userId, "ai_request");
+    // Keep the reserved usage AFTER successful AI processing, before returning response
+    await commitUsage(reservation, { route: "/api/parse-task", spaceId });
     
-    return NextResponse.json({
+    return replyWithAction(ctx, {
       action: "create",
-      task: { title: text },
+      task: { title: inputText },
       confidence: 50,
       reasoning: "Unknown intent, defaulting to create",
     });
 
   } catch (error) {
     console.error("[Parse-Task] Error:", error);
+    await refundUsage(reservation);
+
+    // Model never produced valid output - report it instead of guessing an action
+    if (error instanceof AgentOutputError) {
+      return NextResponse.json(
+        {
+          error: "I couldn't make sense of that. Could you rephrase it?",
+          code: "AI_OUTPUT_INVALID",
+          agent: error.agent,
+        },
+        { status: 502 }
+      );
+    }
+
     return NextResponse.json({ error: "Failed to parse task" }, { status: 500 });
   }
 }
+
+// Traced for the usage ledger and the AI log
+export function POST(req: Request) {
+  return withAiLog("/api/parse-task", () => parseTask(req));
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { verifyUserOwnership, AuthError } from "@/lib/auth/verifyToken";
+import { respondToInvitation, SpaceAccessError } from "@/lib/services/spaceServiceServer";
+
+// Request validation schema
+const RespondInvitationRequestSchema = z.object({
+  userId: z.string().min(1, "User ID is required"),
+  invitationId: z.string().min(1, "Invitation ID is required"),
+  accept: z.boolean(),
+});
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+    const { userId, invitationId, accept } = RespondInvitationRequestSchema.parse(body);
+
+    // SERVER-SIDE SECURITY: The invitation must be addressed to the authenticated user's email
+    const user = await verifyUserOwnership(req, userId);
+
+    const spaceId = await respondToInvitation({ invitationId, user, accept });
+
+    return NextResponse.json({ success: true, spaceId });
+
+  } catch (error) {
+    if (error instanceof AuthError || error instanceof SpaceAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("[Respond-Invitation] Error:", error);
+    return NextResponse.json({ error: "Failed to respond to invitation" }, { status: 500 });
+  }
+}
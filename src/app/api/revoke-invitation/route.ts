@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { verifyUserOwnership, AuthError } from "@/lib/auth/verifyToken";
+import { revokeInvitation, SpaceAccessError } from "@/lib/services/spaceServiceServer";
+
+// Request validation schema
+const RevokeInvitationRequestSchema = z.object({
+  userId: z.string().min(1, "User ID is required"),
+  invitationId: z.string().min(1, "Invitation ID is required"),
+});
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+    const { userId, invitationId } = RevokeInvitationRequestSchema.parse(body);
+
+    // SERVER-SIDE SECURITY: Only the space owner can revoke
+    await verifyUserOwnership(req, userId);
+
+    await revokeInvitation(invitationId, userId);
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    if (error instanceof AuthError || error instanceof SpaceAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("[Revoke-Invitation] Error:", error);
+    return NextResponse.json({ error: "Failed to revoke invitation" }, { status: 500 });
+  }
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { AuthError } from "@/lib/auth/verifyToken";
+import { checkEntitlement } from "@/lib/middleware/entitlementMiddleware";
+import { getSpaceForUser, SpaceAccessError } from "@/lib/services/spaceServiceServer";
+import { GitHubError, SYNC_INTERVAL_MS, syncGitHubLinks } from "@/lib/services/githubServiceServer";
+
+// Request validation schema
+const SyncGitHubRequestSchema = z.object({
+  userId: z.string().min(1, "User ID is required"),
+  spaceId: z.string().min(1, "Space ID is required"),
+});
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+    const { userId, spaceId } = SyncGitHubRequestSchema.parse(body);
+
+    // SERVER-SIDE SECURITY: Verify auth and check the plan includes the integration
+    const entitlementCheck = await checkEntitlement(req, userId, "access_github_integration");
+    if (!entitlementCheck.allowed) {
+      return entitlementCheck.error!;
+    }
+
+    // Any member may trigger a refresh - it only mirrors GitHub's state
+    const { space } = await getSpaceForUser(spaceId, entitlementCheck.userId);
+    const repo = space.githubRepo;
+    if (!repo) {
+      return NextResponse.json({ error: "No repository is connected to this space" }, { status: 400 });
+    }
+
+    // Every open space page asks; GitHub is only polled once per interval.
+    // Archived spaces are read-only, so their links aren't refreshed
+    if (space.archivedAt || repo.lastSyncedAt && Date.now() - repo.lastSyncedAt < SYNC_INTERVAL_MS) {
+      return NextResponse.json({ success: true, synced: false, changed: 0 });
+    }
+
+    const changed = await syncGitHubLinks(spaceId, repo);
+
+    return NextResponse.json({ success: true, synced: true, changed });
+
+  } catch (error) {
+    if (error instanceof AuthError || error instanceof SpaceAccessError || error instanceof GitHubError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("[Sync-GitHub] Error:", error);
+    return NextResponse.json({ error: "Failed to sync GitHub links" }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { verifyUserOwnership, AuthError } from "@/lib/auth/verifyToken";
+import { updateMember, SpaceAccessError } from "@/lib/services/spaceServiceServer";
+
+// Request validation schema - either a new role or removal (removing yourself = leaving)
+const UpdateMemberRequestSchema = z.object({
+  userId: z.string().min(1, "User ID is required"),
+  spaceId: z.string().min(1, "Space ID is required"),
+  memberId: z.string().min(1, "Member ID is required"),
+  role: z.enum(["editor", "viewer"]).optional(),
+  remove: z.boolean().optional(),
+}).refine((data) => data.role || data.remove, { message: "Provide a role or remove" });
+
+export async function POST(req: Request) {
+  try {
+    const body = await req.json();
+    const { userId, spaceId, memberId, role, remove } = UpdateMemberRequestSchema.parse(body);
+
+    // SERVER-SIDE SECURITY: Owner manages members; members can only remove themselves
+    await verifyUserOwnership(req, userId);
+
+    await updateMember({ spaceId, actorId: userId, memberId, role, remove });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    if (error instanceof AuthError || error instanceof SpaceAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.statusCode });
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error("[Update-Member] Error:", error);
+    return NextResponse.json({ error: "Failed to update member" }, { status: 500 });
+  }
+}
@@ -7,14 +7,25 @@
  * 1. Receive audio blob from client
  * 2. Client checks entitlements before calling
  * 3. Transcribe using Gemini
- * 4. Parse transcript into actions
+ * 4. Parse transcript into actions (as an answer to the open clarification, if any)
  * 5. Return parsed actions for user confirmation
  */
 
 import { NextResponse } from "next/server";
 import { z } from "zod";
 import { transcribeWithGemini, parseVoiceLogActions, VoiceLogAction } from "@/lib/services/speechToText";
-import { checkEntitlement, incrementUsage } from "@/lib/middleware/entitlementMiddleware";
+import { checkEntitlement, commitUsage, refundUsage } from "@/lib/middleware/entitlementMiddleware";
+import { getVoiceLogUnits } from "@/lib/entitlementsServer";
+import { AgentOutputError } from "@/lib/agents/structuredOutput";
+import {
+    getOpenConversation,
+    resolveConversation,
+    enrichFollowUpText,
+    mergePendingTask,
+} from "@/lib/services/conversationServiceServer";
+import { annotateAiTrace, getAiTrace } from "@/lib/aiTrace";
+import { withAiLog } from "@/lib/services/aiLogServiceServer";
+import { UsageReservation } from "@/types";
 
 // Request validation schema
 const VoiceLogRequestSchema = z.object({
@@ -22,10 +33,12 @@ const VoiceLogRequestSchema = z.object({
     mimeType: z.string().min(1, "MIME type is required"),
     spaceId: z.string().min(1, "Space ID is required"),
     userId: z.string().min(1, "User ID is required"),
+    conversationId: z.string().optional(),
     existingTasks: z.array(z.object({
         id: z.string(),
         title: z.string(),
         status: z.string(),
+        tags: z.array(z.string()).optional(),
     })).optional().default([]),
 });
 
@@ -34,28 +47,34 @@ const VoiceLogResponseSchema = z.object({
     success: z.boolean(),
     transcript: z.string().optional(),
     actions: z.array(z.any()).optional(),
+    resolvedConversationId: z.string().optional(),
+    aiLogId: z.string().optional(),
     error: z.string().optional(),
 });
 
-export async function POST(request: Request) {
+async function processVoiceLog(request: Request) {
+    let reservation: UsageReservation | undefined;
     try {
         // Parse and validate request body
         const body = await request.json();
         const validatedData = VoiceLogRequestSchema.parse(body);
         
-        const { audioBase64, mimeType, existingTasks, userId } = validatedData;
+        const { audioBase64, mimeType, existingTasks, userId, spaceId, conversationId } = validatedData;
         
-        // SERVER-SIDE SECURITY: Verify auth and check entitlement
-        const entitlementCheck = await checkEntitlement(request, userId, "create_voice_log");
+        // SERVER-SIDE SECURITY: Verify auth and check entitlement - a voice log per started minute of audio
+        const entitlementCheck = await checkEntitlement(request, userId, "create_voice_log", getVoiceLogUnits(audioBase64));
         if (!entitlementCheck.allowed) {
             return entitlementCheck.error!;
         }
+        reservation = entitlementCheck.reservation;
+        annotateAiTrace({ spaceId });
         
         // Step 1: Transcribe audio
         console.log("[Voice Log] Transcribing audio...");
         const transcription = await transcribeWithGemini(audioBase64, mimeType);
         
         if (!transcription.transcript) {
+            await refundUsage(reservation);
             return NextResponse.json(
                 VoiceLogResponseSchema.parse({
                     success: false,
@@ -66,30 +85,59 @@ export async function POST(request: Request) {
         }
         
         console.log("[Voice Log] Transcript:", transcription.transcript);
+        annotateAiTrace({ input: transcription.transcript });
+        
+        // A spoken answer to an open clarifying question continues its pending task
+        const conversation = conversationId
+            ? await getOpenConversation(spaceId, conversationId, entitlementCheck.userId)
+            : null;
         
         // Step 2: Parse transcript into actions
         console.log("[Voice Log] Parsing actions...");
         const actions = await parseVoiceLogActions(
-            transcription.transcript,
+            enrichFollowUpText(conversation, transcription.transcript),
             existingTasks || []
         );
         
+        // Merged like a typed answer in /api/parse-task; an answer without a date isn't asked again
+        if (conversation?.pendingTask) {
+            const createAction = actions.find(a => a.type === "CREATE" && a.task);
+            if (createAction?.task) {
+                const merged = mergePendingTask(createAction.task, conversation.pendingTask);
+                createAction.task = {
+                    ...createAction.task,
+                    ...merged,
+                    title: merged.title || createAction.task.title,
+                    dueDate: createAction.task.dueDate || new Date().toISOString().split("T")[0],
+                    suggestedImprovements: conversation.pendingTask.suggestedImprovements,
+                };
+            }
+        }
+        
+        if (conversation) {
+            await resolveConversation(spaceId, conversation.id, transcription.transcript);
+        }
+        
         console.log("[Voice Log] Parsed actions:", actions);
+        annotateAiTrace({ intent: actions.map(a => a.type).join(",") || "none" });
         
-        // Increment usage AFTER successful transcription (atomic, server-side)
-        await incrementUsage(entitlementCheck.userId, "voice_log");
+        // Keep the reserved usage AFTER successful transcription
+        await commitUsage(reservation, { route: "/api/voice-log", spaceId });
         
         // Validate and return response
         const response = VoiceLogResponseSchema.parse({
             success: true,
             transcript: transcription.transcript,
             actions,
+            resolvedConversationId: conversation?.id,
+            aiLogId: getAiTrace()?.id,
         });
         
         return NextResponse.json(response);
         
     } catch (error) {
         console.error("[Voice Log] Error:", error);
+        await refundUsage(reservation);
         
         // Handle Zod validation errors
         if (error instanceof z.ZodError) {
@@ -102,6 +150,17 @@ export async function POST(request: Request) {
             );
         }
         
+        // Handle invalid action output from the model (after repair attempts)
+        if (error instanceof AgentOutputError) {
+            return NextResponse.json(
+                VoiceLogResponseSchema.parse({
+                    success: false,
+                    error: "Couldn't work out what to do from that recording. Please try again.",
+                }),
+                { status: 502 }
+            );
+        }
+        
         // Handle NO_SPEECH error from transcription
         if (error && typeof error === "object" && "code" in error) {
             const typedError = error as { code: string; message: string };
@@ -137,3 +196,8 @@ export async function POST(request: Request) {
         );
     }
 }
+
+// Traced for the usage ledger and the AI log
+export function POST(request: Request) {
+    return withAiLog("/api/voice-log", () => processVoiceLog(request));
+}
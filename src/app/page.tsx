@@ -3,19 +3,38 @@
 
 import { useRouter } from "next/navigation";
 import SpaceCard from "@/components/SpaceCard";
-import { Space } from "@/types";
+import { Space, SpaceInvitation } from "@/types";
 import { useState, useEffect } from "react";
 import { motion } from "framer-motion";
 import EditSpaceModal from "@/components/EditSpaceModal";
 import { useAuth } from "@/context/AuthContext";
-import { Loader2 } from "lucide-react";
+import { Loader2, Trash2 } from "lucide-react";
 import { FolderIcon } from "@/components/icons/CustomIcons";
 import { SpaceGridSkeleton } from "@/components/Skeleton";
 import EmptyState from "@/components/EmptyState";
 import DeleteConfirmModal from "@/components/DeleteConfirmModal";
-import { collection, query, where, onSnapshot, addDoc, deleteDoc, doc, updateDoc } from "firebase/firestore";
+import TrashModal from "@/components/TrashModal";
+import InvitationBanner from "@/components/InvitationBanner";
+import DailySummaryCard from "@/components/DailySummaryCard";
+import ChooseSpacesModal from "@/components/ChooseSpacesModal";
+import { doc, updateDoc } from "firebase/firestore";
 import { db } from "@/lib/firebase";
 import { useEntitlements } from "@/lib/hooks/useEntitlements";
+import {
+    archiveSpace,
+    createSpace,
+    keepSpaces,
+    purgeSpace,
+    respondToInvitation,
+    restoreSpace,
+    subscribeToInvitations,
+    subscribeToSpaces,
+    trashSpace,
+    unarchiveSpace,
+} from "@/lib/services/spaceService";
+import { isPastRetention } from "@/lib/trashUtils";
+import { getSpacesCountingTowardsLimit } from "@/lib/spaceLimitUtils";
+import { PLAN_LIMITS } from "@/types";
 import UpgradePrompt, { QuotaDisplay } from "@/components/UpgradePrompt";
 
 export default function Home() {
@@ -28,6 +47,24 @@ export default function Home() {
     const [showUpgradePrompt, setShowUpgradePrompt] = useState(false);
     const [upgradeMessage, setUpgradeMessage] = useState("");
     const [deletingSpaceId, setDeletingSpaceId] = useState<string | null>(null);
+    const [trashOpen, setTrashOpen] = useState(false);
+    const [invitations, setInvitations] = useState<SpaceInvitation[]>([]);
+    const [choosingSpaces, setChoosingSpaces] = useState(false);
+
+    // Trashed spaces stay in the query but are only shown in the trash;
+    // archived (read-only) spaces are listed after the others
+    const activeSpaces = spaces
+        .filter(space => !space.deletedAt)
+        .sort((a, b) => Number(!!a.archivedAt) - Number(!!b.archivedAt));
+    const trashedSpaces = spaces
+        .filter(space => space.deletedAt && space.ownerId === user?.uid)
+        .sort((a, b) => (b.deletedAt || 0) - (a.deletedAt || 0));
+    const ownedSpaces = activeSpaces.filter(space => space.ownerId === user?.uid);
+    // Spaces shared with the user and archived ones don't count towards their plan's space limit
+    const ownedSpaceCount = getSpacesCountingTowardsLimit(activeSpaces, user?.uid ?? "").length;
+    // Read-only since Pro ended - unlocked by upgrading or choosing them instead
+    const lockedSpaces = ownedSpaces.filter(space => space.archivedReason === "plan_limit");
+    const trashRetentionDays = limits?.trashRetentionDays ?? PLAN_LIMITS.free.trashRetentionDays;
 
     useEffect(() => {
         if (!loading && !user) {
@@ -35,23 +72,11 @@ export default function Home() {
         }
     }, [user, loading, router]);
 
-    // Fetch spaces from Firestore
+    // Fetch owned and shared spaces from Firestore
     useEffect(() => {
         if (!user) return;
 
-        const q = query(
-            collection(db, "spaces"),
-            where("ownerId", "==", user.uid)
-            // orderBy("createdAt", "desc") // Temporarily removed to avoid missing index error
-        );
-
-        const unsubscribe = onSnapshot(q, (snapshot) => {
-            const spacesData = snapshot.docs.map(doc => ({
-                id: doc.id,
-                ...doc.data()
-            })) as Space[];
-            // Client-side sort since we removed the server-side sort
-            spacesData.sort((a, b) => (b.createdAt || 0) - (a.createdAt || 0));
+        const unsubscribe = subscribeToSpaces(user.uid, (spacesData) => {
             setSpaces(spacesData);
             setIsLoadingSpaces(false);
         }, (error) => {
@@ -62,6 +87,26 @@ export default function Home() {
         return () => unsubscribe();
     }, [user]);
 
+    // Pending invitations to other people's spaces
+    useEffect(() => {
+        // Invitations are only readable with a verified email
+        if (!user?.email || !user.emailVerified) return;
+        return subscribeToInvitations(user.email, setInvitations);
+    }, [user]);
+
+    // Purge spaces that have been in the trash longer than the plan allows
+    useEffect(() => {
+        if (!limits || !user) return;
+        const expired = spaces.filter(space =>
+            space.ownerId === user.uid && space.deletedAt && isPastRetention(space.deletedAt, limits.trashRetentionDays)
+        );
+        for (const space of expired) {
+            purgeSpace(space.id).catch((error) => {
+                console.error("Error purging space:", error);
+            });
+        }
+    }, [spaces, limits, user]);
+
     if (loading || isLoadingSpaces) {
         return (
             <div className="flex min-h-screen items-center justify-center">
@@ -76,7 +121,7 @@ export default function Home() {
         if (!user) return;
 
         // Check entitlement before creating
-        const entitlement = await checkCanCreateSpace(spaces.length);
+        const entitlement = await checkCanCreateSpace(ownedSpaceCount);
         if (!entitlement.allowed) {
             setUpgradeMessage(entitlement.reason || "Space limit reached.");
             setShowUpgradePrompt(true);
@@ -84,13 +129,7 @@ export default function Home() {
         }
 
         try {
-            const newSpace = {
-                name: `New Space ${spaces.length + 1}`,
-                theme: "blue",
-                ownerId: user.uid,
-                createdAt: Date.now(),
-            };
-            await addDoc(collection(db, "spaces"), newSpace);
+            await createSpace(user, `New Space ${ownedSpaceCount + 1}`);
         } catch (error) {
             console.error("Error creating space:", error);
         }
@@ -105,7 +144,7 @@ export default function Home() {
         if (!deletingSpaceId) return;
         
         try {
-            await deleteDoc(doc(db, "spaces", deletingSpaceId));
+            await trashSpace(deletingSpaceId);
         } catch (error) {
             console.error("Error deleting space:", error);
         } finally {
@@ -113,6 +152,73 @@ export default function Home() {
         }
     };
 
+    const handleRestoreSpace = async (id: string) => {
+        const space = trashedSpaces.find(s => s.id === id);
+        if (!space) return;
+
+        // A restored space counts towards the plan's space limit again, unless it's archived
+        if (!space.archivedAt) {
+            const entitlement = await checkCanCreateSpace(ownedSpaceCount);
+            if (!entitlement.allowed) {
+                setUpgradeMessage(entitlement.reason || "Space limit reached.");
+                setShowUpgradePrompt(true);
+                return;
+            }
+        }
+
+        try {
+            await restoreSpace(space);
+        } catch (error) {
+            console.error("Error restoring space:", error);
+        }
+    };
+
+    const handleArchiveSpace = async (space: Space) => {
+        if (!space.archivedAt) {
+            try {
+                await archiveSpace(user.uid, space.id);
+            } catch (error) {
+                console.error("Error archiving space:", error);
+            }
+            return;
+        }
+
+        // An unarchived space counts towards the plan's space limit again
+        const entitlement = await checkCanCreateSpace(ownedSpaceCount);
+        if (!entitlement.allowed) {
+            setUpgradeMessage(entitlement.reason || "Space limit reached.");
+            setShowUpgradePrompt(true);
+            return;
+        }
+
+        try {
+            await unarchiveSpace(user.uid, space.id);
+        } catch (error) {
+            console.error("Error unarchiving space:", error);
+        }
+    };
+
+    const handlePurgeSpaces = async (ids: string[]) => {
+        for (const id of ids) {
+            try {
+                await purgeSpace(id);
+            } catch (error) {
+                console.error("Error purging space:", error);
+            }
+        }
+    };
+
+    const handleRespondToInvitation = async (invitation: SpaceInvitation, accept: boolean) => {
+        try {
+            const spaceId = await respondToInvitation(user.uid, invitation.id, accept);
+            if (accept) {
+                router.push(`/space/${spaceId}`);
+            }
+        } catch (error) {
+            console.error("Error responding to invitation:", error);
+        }
+    };
+
     const handleUpdateSpace = async (id: string, updates: Partial<Space>) => {
         try {
             await updateDoc(doc(db, "spaces", id), updates);
@@ -137,12 +243,22 @@ export default function Home() {
                     {!isPro && limits?.maxSpaces && (
                         <div className="hidden sm:block w-32">
                             <QuotaDisplay
-                                used={spaces.length}
+                                used={ownedSpaceCount}
                                 limit={limits.maxSpaces}
                                 label="Spaces"
                             />
                         </div>
                     )}
+                    {trashedSpaces.length > 0 && (
+                        <button
+                            onClick={() => setTrashOpen(true)}
+                            className="flex items-center gap-1.5 rounded-full bg-white/5 px-3 py-2 text-sm text-white/60 hover:bg-white/10 hover:text-white transition-colors"
+                            title="Trash"
+                        >
+                            <Trash2 className="h-4 w-4" />
+                            {trashedSpaces.length}
+                        </button>
+                    )}
                     <button
                         onClick={() => router.push("/account")}
                         className="h-10 w-10 rounded-full bg-white/10 hover:bg-white/20 transition-colors flex items-center justify-center"
@@ -156,9 +272,29 @@ export default function Home() {
                 </div>
             </header>
 
+            <InvitationBanner invitations={invitations} onRespond={handleRespondToInvitation} />
+
+            {!isPro && limits?.maxSpaces && lockedSpaces.length > 0 && (
+                <div className="mb-6">
+                    <UpgradePrompt
+                        message={`The Free plan includes ${limits.maxSpaces} active spaces, so ${lockedSpaces.length === 1 ? "this space is" : `these ${lockedSpaces.length} spaces are`} read-only. You can still open them, but not change their tasks.`}
+                        locked={lockedSpaces.map(space => space.name)}
+                        action={{ label: "Choose spaces to keep", onClick: () => setChoosingSpaces(true) }}
+                    />
+                </div>
+            )}
+
+            {limits && activeSpaces.length > 0 && (
+                <DailySummaryCard
+                    userId={user.uid}
+                    isPro={limits.hasDailySummary}
+                    onOpenSpace={(spaceId) => router.push(`/space/${spaceId}`)}
+                />
+            )}
+
             {isLoadingSpaces ? (
                 <SpaceGridSkeleton count={6} />
-            ) : spaces.length === 0 ? (
+            ) : activeSpaces.length === 0 ? (
                 <EmptyState
                     icon={FolderIcon}
                     title="No spaces yet"
@@ -175,16 +311,18 @@ export default function Home() {
                     transition={{ delay: 0.2 }}
                     className="grid grid-cols-1 gap-4 sm:grid-cols-2 md:grid-cols-3"
                 >
-                    {spaces.map((space) => (
+                    {activeSpaces.map((space) => (
                     <SpaceCard
                         key={space.id}
                         space={space}
                         onClick={() => router.push(`/space/${space.id}`)}
-                        onDelete={(e) => handleDeleteSpace(e, space.id)}
-                        onEdit={(e) => {
+                        // Only the owner can rename or delete a shared space
+                        onDelete={space.ownerId === user.uid ? (e) => handleDeleteSpace(e, space.id) : undefined}
+                        onEdit={space.ownerId === user.uid ? (e) => {
                             e.stopPropagation();
                             setEditingSpace(space);
-                        }}
+                        } : undefined}
+                        onArchive={space.ownerId === user.uid ? () => handleArchiveSpace(space) : undefined}
                     />
                     ))}
                     <SpaceCard isNew onClick={handleCreateSpace} />
@@ -203,9 +341,29 @@ export default function Home() {
                 onClose={() => setDeletingSpaceId(null)}
                 onConfirm={confirmDeleteSpace}
                 title="Delete Space?"
-                message="Are you sure you want to delete this space? All tasks within this space will be permanently removed."
+                message={`This space and its tasks will be moved to the trash. You can restore it for ${trashRetentionDays} days before it is deleted permanently.`}
+            />
+
+            <TrashModal
+                isOpen={trashOpen}
+                onClose={() => setTrashOpen(false)}
+                title="Deleted spaces"
+                items={trashedSpaces.map(space => ({ id: space.id, title: space.name, deletedAt: space.deletedAt ?? 0 }))}
+                retentionDays={trashRetentionDays}
+                onRestore={handleRestoreSpace}
+                onPurge={handlePurgeSpaces}
             />
 
+            {limits?.maxSpaces && (
+                <ChooseSpacesModal
+                    isOpen={choosingSpaces}
+                    onClose={() => setChoosingSpaces(false)}
+                    spaces={ownedSpaces}
+                    maxSpaces={limits.maxSpaces}
+                    onSave={(spaceIds) => keepSpaces(user.uid, spaceIds)}
+                />
+            )}
+
             {/* Upgrade prompt modal */}
             {showUpgradePrompt && (
                 <UpgradePrompt
@@ -1,9 +1,9 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { motion, AnimatePresence } from "framer-motion";
-import { ArrowLeft, Loader2, Cloud, CloudOff, AlertCircle } from "lucide-react";
+import { ArrowLeft, Loader2, Cloud, CloudOff, AlertCircle, Search, Tag, Lock, Repeat, History, Trash2, X, Users, Eye, Github, CalendarDays } from "lucide-react";
 import { PlusIcon, CheckCircleIcon } from "@/components/icons/CustomIcons";
 import TaskInput from "@/components/TaskInput";
 import TaskDetailModal from "@/components/TaskDetailModal";
@@ -13,16 +13,47 @@ import AIRequestCounter from "@/components/AIRequestCounter";
 import ManualTaskModal from "@/components/ManualTaskModal";
 import { TaskListSkeleton } from "@/components/Skeleton";
 import EmptyState from "@/components/EmptyState";
-import { Task } from "@/types";
+import ChecklistProgress from "@/components/ChecklistProgress";
+import UndoToast from "@/components/UndoToast";
+import OperationHistoryPanel from "@/components/OperationHistoryPanel";
+import TrashModal from "@/components/TrashModal";
+import ShareSpaceModal from "@/components/ShareSpaceModal";
+import GitHubRepoModal from "@/components/GitHubRepoModal";
+import CalendarImportModal from "@/components/CalendarImportModal";
+import ConflictResolver from "@/components/ConflictResolver";
+import UpgradePrompt from "@/components/UpgradePrompt";
+import { CalendarEvent, PLAN_LIMITS, Space, SpaceInvitation, Task, TaskOperation } from "@/types";
 import { useAuth } from "@/context/AuthContext";
-import { doc, getDoc } from "firebase/firestore";
+import { doc, onSnapshot } from "firebase/firestore";
 import { db } from "@/lib/firebase";
 import { getLoadingMessage } from "@/lib/loadingMessages";
 import { useTasks } from "@/lib/hooks/useTasks";
+import { useOperationHistory } from "@/lib/hooks/useOperationHistory";
+import { useEntitlements } from "@/lib/hooks/useEntitlements";
 import { RecordingResult } from "@/lib/audio/recorder";
 import { blobToBase64 } from "@/lib/audio/recorder";
 import { VoiceLogAction } from "@/lib/services/speechToText";
 import { apiPost, ApiError } from "@/lib/apiClient";
+import { getOpenConversation, getPendingQuestion } from "@/lib/services/conversationService";
+import { collectTags } from "@/lib/tagUtils";
+import { applyChecklistChanges, createChecklist } from "@/lib/checklistUtils";
+import { describeRecurrence } from "@/lib/recurrenceUtils";
+import { getBlockerWarning, isTaskBlocked } from "@/lib/dependencyUtils";
+import { createDeleteOperation, createUpdateOperation } from "@/lib/operationUtils";
+import { reportAiCorrection } from "@/lib/services/aiLogService";
+import { describeSyncConflict } from "@/lib/offlineUtils";
+import { getQueuedVoiceRecording, queueVoiceRecording, removeQueuedVoiceRecording } from "@/lib/services/offlineStore";
+import { canEditTasks, getMemberName, getSpaceMembers, getSpaceRole } from "@/lib/memberUtils";
+import { mergeGitHubLinks } from "@/lib/githubUtils";
+import { connectRepository, resolveGitHubLinks, syncGitHubLinks } from "@/lib/services/githubService";
+import { getTaskFromEvent } from "@/lib/icsUtils";
+import { getCalendarEvents } from "@/lib/services/calendarService";
+import {
+    inviteMember,
+    revokeInvitation,
+    subscribeToSpaceInvitations,
+    updateMember,
+} from "@/lib/services/spaceService";
 
 export default function SpacePage() {
     const params = useParams();
@@ -39,23 +70,92 @@ export default function SpacePage() {
         migrationStatus,
         addTask,
         editTask,
+        addUpdate,
+        mergeTaskEdits,
+        resolveFieldConflict,
         removeTask,
+        setDependencies,
+        restoreFields,
+        restoreDeletedTask,
+        loadTrash,
+        purgeFromTrash,
         clearError,
+        isOnline,
+        pendingChanges,
+        syncConflicts,
+        dismissSyncConflicts,
     } = useTasks({ spaceId, enableMigration: true });
+    const { limits, isPro } = useEntitlements();
+    const trashRetentionDays = limits?.trashRetentionDays ?? PLAN_LIMITS.free.trashRetentionDays;
+
+    // Undoing an AI change tells the AI log the request was likely misread
+    const handleOperationUndone = useCallback((operation: TaskOperation) => {
+        if (user && operation.aiLogId) {
+            reportAiCorrection(user.uid, operation.aiLogId, "undone", operation.summary);
+        }
+    }, [user]);
+
+    // AI-applied updates and deletes can be undone from the toast or the history panel
+    const {
+        history: operationHistory,
+        undone: undoneOperations,
+        latest: latestOperation,
+        isReverting,
+        record: recordOperation,
+        undo,
+        redo,
+    } = useOperationHistory({
+        tasks,
+        editTask,
+        removeTask,
+        setDependencies,
+        restoreFields,
+        restoreDeletedTask,
+        onUndone: handleOperationUndone,
+    });
+    const [historyOpen, setHistoryOpen] = useState(false);
+
+    // Trash state - deleted tasks stay restorable until purged
+    const [trashOpen, setTrashOpen] = useState(false);
+    const [trashedTasks, setTrashedTasks] = useState<Task[]>([]);
+    const [trashLoading, setTrashLoading] = useState(false);
 
     const [isProcessing, setIsProcessing] = useState(false);
     const [aiQuestion, setAiQuestion] = useState<string | null>(null);
     const [loadingMessage, setLoadingMessage] = useState("");
-    const [context, setContext] = useState<string>("");
-    const [pendingTask, setPendingTask] = useState<Partial<Task> | null>(null); // Task waiting for clarification
+    const [conversationId, setConversationId] = useState<string | null>(null); // Open clarification, stored server-side
     const [selectedTask, setSelectedTask] = useState<Task | null>(null);
+    const [space, setSpace] = useState<Space | null>(null);
     const [spaceName, setSpaceName] = useState<string>("");
+
+    // Sharing - viewers can read tasks but not change them, and nobody can in an archived space
+    const [shareOpen, setShareOpen] = useState(false);
+    const [spaceInvitations, setSpaceInvitations] = useState<SpaceInvitation[]>([]);
+    const [githubOpen, setGithubOpen] = useState(false);
+    const [calendarOpen, setCalendarOpen] = useState(false);
+    const role = space && user ? getSpaceRole(space, user.uid) : null;
+    const isOwner = role === "owner";
+    const canEdit = !space || canEditTasks(role, space); // Editable until the space has loaded
+    const members = space ? getSpaceMembers(space) : [];
+    const hasGitHub = !!limits?.hasGitHubIntegration;
+    const hasGitHubRepo = !!space?.githubRepo;
+    const hasCalendar = !!limits?.hasCalendarIntegration;
+    // Assignees are only shown once the space is shared
+    const memberNames: Record<string, string> = members.length > 1
+        ? Object.fromEntries(members.map(m => [m.userId, getMemberName(m)]))
+        : {};
+    
+    // Query answer state - matching tasks are shown as a filtered view
+    const [queryResult, setQueryResult] = useState<{ question: string; answer: string; taskIds: string[] } | null>(null);
+    const [tagFilter, setTagFilter] = useState<string | null>(null);
     
     // Voice log state
     const [isVoiceProcessing, setIsVoiceProcessing] = useState(false);
     const [voicePreviewOpen, setVoicePreviewOpen] = useState(false);
     const [voiceTranscript, setVoiceTranscript] = useState("");
     const [voiceActions, setVoiceActions] = useState<VoiceLogAction[]>([]);
+    const [previewSource, setPreviewSource] = useState<"voice" | "text">("voice"); // Multi-action text shares the preview
+    const previewAiLogId = useRef<string | undefined>(undefined); // AI request behind the preview, until it is confirmed or dismissed
     
     // Manual task creation state
     const [manualTaskModalOpen, setManualTaskModalOpen] = useState(false);
@@ -66,24 +166,64 @@ export default function SpacePage() {
         }
     }, [user, authLoading, router]);
 
-    // Fetch Space Details
+    // Subscribe to Space Details - members and roles can change while the page is open
     useEffect(() => {
-        if (!spaceId) return;
-        const fetchSpace = async () => {
-            try {
-                const spaceDoc = await getDoc(doc(db, "spaces", spaceId));
-                if (spaceDoc.exists()) {
-                    setSpaceName(spaceDoc.data().name);
-                } else {
-                    setSpaceName(`Space ${spaceId.slice(-4)}`);
-                }
-            } catch (error) {
-                console.error("Error fetching space:", error);
+        if (!spaceId || !user) return;
+        return onSnapshot(doc(db, "spaces", spaceId), (spaceDoc) => {
+            if (spaceDoc.exists() && spaceDoc.data().deletedAt) {
+                // Trashed spaces are only reachable through the trash on the home page
+                router.push("/");
+            } else if (spaceDoc.exists()) {
+                setSpace({ ...(spaceDoc.data() as Omit<Space, "id">), id: spaceDoc.id });
+                setSpaceName(spaceDoc.data().name);
+            } else {
                 setSpaceName(`Space ${spaceId.slice(-4)}`);
             }
+        }, (error) => {
+            // Removed from a shared space (or it was trashed by its owner)
+            if (error.code === "permission-denied") {
+                router.push("/");
+                return;
+            }
+            console.error("Error fetching space:", error);
+            setSpaceName(`Space ${spaceId.slice(-4)}`);
+        });
+    }, [spaceId, user, router]);
+
+    // Pending invitations, for the owner's share dialog
+    useEffect(() => {
+        if (!spaceId || !user || !isOwner) return;
+        return subscribeToSpaceInvitations(spaceId, user.uid, setSpaceInvitations);
+    }, [spaceId, user, isOwner]);
+
+    // Refresh linked issues and PRs - merges and closes land in the task timelines
+    useEffect(() => {
+        if (!spaceId || !user?.uid || !hasGitHubRepo || !hasGitHub || !isOnline) return;
+        syncGitHubLinks(user.uid, spaceId).catch((error) => {
+            console.error("Error syncing GitHub links:", error);
+        });
+    }, [spaceId, user?.uid, hasGitHubRepo, hasGitHub, isOnline]);
+
+    // Restore an unanswered clarifying question (e.g. after a reload or from another device)
+    useEffect(() => {
+        if (!spaceId || !user?.uid) return;
+        let cancelled = false;
+        getOpenConversation(spaceId, user.uid)
+            .then((conversation) => {
+                if (cancelled || !conversation) return;
+                const question = getPendingQuestion(conversation);
+                if (question) {
+                    setConversationId(conversation.id);
+                    setAiQuestion(question);
+                }
+            })
+            .catch((error) => {
+                console.error("Error restoring conversation:", error);
+            });
+        return () => {
+            cancelled = true;
         };
-        fetchSpace();
-    }, [spaceId]);
+    }, [spaceId, user?.uid]);
 
     // Keep selectedTask in sync with tasks updates
     useEffect(() => {
@@ -110,7 +250,6 @@ export default function SpacePage() {
                 dueDate: today,
                 priority: "medium",
                 status: "todo",
-                updates: [],
             });
 
             if (newTask) {
@@ -129,95 +268,17 @@ export default function SpacePage() {
             return;
         }
         
+        // The AI needs a connection - manual tasks still work offline
+        if (!isOnline) {
+            setAiQuestion("You're offline. Add the task manually (+) or try again once you're back online.");
+            return;
+        }
+        
         setIsProcessing(true);
         setAiQuestion(null);
+        setQueryResult(null);
         setLoadingMessage(getLoadingMessage(text));
 
-        // Check if we have a pending task waiting for clarification
-        if (pendingTask && context) {
-            // User answered the combined question (context + date in one)
-            // Enrich the task with their answer and create
-            const enrichedText = `${pendingTask.title}: ${text}`;
-            
-            console.log(`[Follow-up] User answered: "${text}" for task: "${pendingTask.title}"`);
-            
-            try {
-                const res = await fetch("/api/parse-task", {
-                    method: "POST",
-                    body: JSON.stringify({ 
-                        text: enrichedText, 
-                        tasks,
-                        spaceName,
-                        userId: user.uid,
-                    }),
-                });
-                
-                const data = await res.json();
-                console.log(`[Follow-up] API response:`, data);
-                
-                // Handle quota exceeded (server-side check)
-                if (data.action === "quota_exceeded" || res.status === 403) {
-                    setAiQuestion(data.error || "AI request limit reached. Upgrade to Pro or create tasks manually.");
-                    setPendingTask(null);
-                    setContext("");
-                    setIsProcessing(false);
-                    return;
-                }
-
-                // If STILL vague after user's answer, ask again (but only once more)
-                if (data.action === "clarify" && data.question && data.vaguenessScore > 60) {
-                    console.log(`[Follow-up] Still vague, asking again: ${data.question}`);
-                    setAiQuestion(data.question);
-                    setPendingTask({
-                        ...pendingTask,
-                        title: data.pendingTask?.title || enrichedText,
-                        description: data.pendingTask?.description || pendingTask.description,
-                        priority: data.pendingTask?.priority || pendingTask.priority,
-                    });
-                    setContext(enrichedText);
-                    setIsProcessing(false);
-                    return;
-                }
-                
-                // Ready to create - use today as fallback if no date
-                const today = new Date().toISOString().split('T')[0];
-                const finalDueDate = data.task?.dueDate || data.pendingTask?.dueDate || today;
-                const finalTitle = data.task?.title || data.pendingTask?.title || pendingTask.title || "Untitled Task";
-                const finalPriority = data.task?.priority || pendingTask.priority || "medium";
-                
-                // Get suggested improvements from API response OR from the original pending task
-                const suggestedImprovements = data.task?.suggestedImprovements || 
-                    data.pendingTask?.suggestedImprovements || 
-                    (pendingTask as any).suggestedImprovements;
-                
-                // Create the task
-                const newTask = await addTask({
-                    title: finalTitle,
-                    description: data.task?.description || pendingTask.description,
-                    dueDate: finalDueDate,
-                    dueTime: data.task?.dueTime,
-                    priority: finalPriority,
-                    status: "todo",
-                    updates: [],
-                    suggestedImprovements: suggestedImprovements,
-                });
-
-                if (newTask) {
-                    generateDescription(newTask);
-                }
-                
-                // Clear ALL pending state
-                setPendingTask(null);
-                setContext("");
-            } catch (error) {
-                console.error("Error creating task:", error);
-                setAiQuestion("Sorry, something went wrong creating the task.");
-            } finally {
-                setIsProcessing(false);
-            }
-            return;
-        }
-
         const fullText = text;
 
         // Build recent activity context for smarter classification
@@ -226,7 +287,7 @@ export default function SpacePage() {
         );
         const recentActivity = {
             lastCreatedTask: sortedTasks[0],
-            lastUpdatedTask: tasks.find(t => t.updates?.length),
+            lastUpdatedTask: tasks.find(t => t.updateCount),
             lastCompletedTask: tasks.find(t => t.status === "done"),
         };
 
@@ -239,6 +300,11 @@ export default function SpacePage() {
                     spaceName,
                     recentActivity,
                     userId: user.uid,
+                    spaceId,
+                    // Answers to a clarifying question resume its conversation on the server
+                    conversationId: conversationId || undefined,
+                    // "Today" for the user's calendar events
+                    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
                 }),
             });
 
@@ -248,6 +314,13 @@ export default function SpacePage() {
             if (data.action === "quota_exceeded" || res.status === 403) {
                 console.error("Quota exceeded:", data.error);
                 setAiQuestion(data.error || "AI request limit reached. Upgrade to Pro or create tasks manually.");
+                setConversationId(null);
+                return;
+            }
+
+            // AI couldn't produce a usable answer - keep the conversation so the user can rephrase
+            if (!res.ok) {
+                setAiQuestion(data.error || "Sorry, something went wrong. Please try again.");
                 return;
             }
 
@@ -256,11 +329,30 @@ export default function SpacePage() {
                 console.log(`[New Task] Needs clarification: ${data.question}`);
                 console.log(`[New Task] Vagueness score: ${data.vaguenessScore || 'N/A'}`);
                 setAiQuestion(data.question);
-                setContext(fullText);
-                // Store pending task
-                if (data.pendingTask) {
-                    setPendingTask(data.pendingTask);
-                }
+                setConversationId(data.conversationId || null);
+                return;
+            }
+
+            // Any other action answers (and closes) the open conversation
+            setConversationId(null);
+            
+            // Handle multi-action input - confirm through the same preview as voice logs
+            if (data.action === "multi") {
+                setVoiceTranscript(fullText);
+                setVoiceActions(data.actions || []);
+                setPreviewSource("text");
+                previewAiLogId.current = data.aiLogId;
+                setVoicePreviewOpen(true);
+                return;
+            }
+            
+            // Handle query action - show the answer and filter to the matching tasks
+            if (data.action === "query") {
+                setQueryResult({
+                    question: fullText,
+                    answer: data.answer,
+                    taskIds: data.taskIds || [],
+                });
                 return;
             }
             
@@ -275,12 +367,22 @@ export default function SpacePage() {
                         dueDate: taskData.dueDate,
                         dueTime: taskData.dueTime,
                         priority: taskData.priority || "medium",
+                        tags: taskData.tags,
+                        checklist: createChecklist(taskData.checklist),
+                        recurrence: taskData.recurrence,
+                        assigneeId: taskData.assigneeId,
                         status: "todo",
-                        updates: [],
                         // Save AI-generated improvement suggestions
                         suggestedImprovements: taskData.suggestedImprovements,
+                        // Issues and PRs mentioned in the input
+                        githubLinks: taskData.githubLinks?.length ? taskData.githubLinks : undefined,
                     });
 
+                    // Link the tasks it depends on (also updates their "blocks" lists)
+                    if (newTask && taskData.blockedBy?.length) {
+                        await setDependencies(newTask.id, taskData.blockedBy);
+                    }
+
                     // Generate description in background
                     if (newTask) {
                         generateDescription(newTask);
@@ -318,13 +420,14 @@ export default function SpacePage() {
                         }
                     }
 
-                    // Add timeline entry if provided
-                    if (data.timeline) {
-                        const newUpdates = [
-                            ...(existingTask.updates || []),
-                            { ...data.timeline, id: Date.now().toString(), timestamp: Date.now() }
-                        ];
-                        updates.updates = newUpdates;
+                    // Tick, reopen or add checklist items
+                    if (data.checklist) {
+                        updates.checklist = applyChecklistChanges(existingTask.checklist || [], data.checklist);
+                    }
+
+                    // Issues and PRs mentioned in the input
+                    if (data.githubLinks?.length) {
+                        updates.githubLinks = mergeGitHubLinks(existingTask.githubLinks, data.githubLinks);
                     }
 
                     // Only update fields that are explicitly provided
@@ -344,15 +447,58 @@ export default function SpacePage() {
                         if ('title' in data.updates && data.updates.title) {
                             updates.title = data.updates.title;
                         }
+                        if ('tags' in data.updates && Array.isArray(data.updates.tags)) {
+                            updates.tags = data.updates.tags;
+                        }
+                        if ('recurrence' in data.updates) {
+                            updates.recurrence = data.updates.recurrence;
+                        }
+                        if (data.updates.assigneeId !== undefined) {
+                            updates.assigneeId = data.updates.assigneeId;
+                        }
                     }
 
-                    await editTask(data.taskId, updates);
+                    const hasNewBlockers = !!data.updates && Array.isArray(data.updates.blockedBy);
+                    const operation = createUpdateOperation(
+                        existingTask,
+                        hasNewBlockers ? { ...updates, blockedBy: data.updates.blockedBy } : updates,
+                        "text",
+                        data.aiLogId
+                    );
+
+                    // A note alone only adds a timeline entry
+                    const hasFieldChanges = Object.keys(updates).length > 0;
+                    const applied = hasFieldChanges ? await editTask(data.taskId, updates) : true;
+
+                    // The timeline entry is its own document - undo doesn't remove it
+                    if (applied && data.timeline) {
+                        await addUpdate(data.taskId, { ...data.timeline, timestamp: Date.now() });
+                    }
+
+                    if (hasNewBlockers) {
+                        await setDependencies(data.taskId, data.updates.blockedBy);
+                    }
+
+                    if (applied && (hasFieldChanges || hasNewBlockers)) recordOperation(operation);
+
+                    // Completing is allowed, but point out blockers that are still open
+                    if (updates.status === "done") {
+                        const warning = getBlockerWarning(existingTask, tasks);
+                        if (warning) setAiQuestion(warning);
+                    }
                     
                     // DON'T regenerate description on status/field updates
                     // Description should only be generated on task creation
                 }
+            } else if (data.action === "delete" && data.taskId) {
+                const existingTask = tasks.find(t => t.id === data.taskId);
+                if (existingTask) {
+                    const operation = createDeleteOperation(existingTask, "text", data.aiLogId);
+                    if (await removeTask(existingTask.id)) {
+                        recordOperation(operation);
+                    }
+                }
             }
-            setContext("");
         } catch (error) {
             console.error("Error:", error);
             setAiQuestion("Sorry, something went wrong. Please try again.");
@@ -362,27 +508,40 @@ export default function SpacePage() {
     };
 
     const generateDescription = async (task: Task) => {
+        if (!user?.uid) return;
         try {
-            const res = await fetch("/api/generate-description", {
-                method: "POST",
-                body: JSON.stringify({ task }),
-            });
-            const data = await res.json();
+            // Uses an AI request - the auth token is sent automatically
+            const data = await apiPost<{ description: string }>(
+                "/api/generate-description",
+                {
+                    task: {
+                        title: task.title,
+                        description: task.description,
+                        status: task.status,
+                        priority: task.priority,
+                        dueDate: task.dueDate,
+                    },
+                    // The server reads the task's timeline itself
+                    taskId: task.id,
+                    spaceId,
+                    userId: user.uid,
+                },
+                { maxRetries: 1 }
+            );
             if (data.description) {
                 await editTask(task.id, { description: data.description });
             }
         } catch (error) {
+            // The task keeps its description - e.g. when the AI quota is used up
             console.error("Failed to generate description:", error);
         }
     };
 
     // Voice log handlers
-    const handleVoiceRecordingComplete = useCallback(async (result: RecordingResult) => {
-        if (!user?.uid) {
-            setAiQuestion("Please sign in to use voice logging.");
-            return;
-        }
-        
+    // Transcribes a recording and opens the preview; false if /api/voice-log failed
+    const transcribeVoiceRecording = useCallback(async (result: RecordingResult): Promise<boolean> => {
+        if (!user?.uid) return false;
+
         setIsVoiceProcessing(true);
         setAiQuestion(null);
         
@@ -395,6 +554,7 @@ export default function SpacePage() {
                 id: t.id,
                 title: t.title,
                 status: t.status,
+                tags: t.tags,
             }));
             
             // Call voice-log API with retry logic (auth token sent automatically)
@@ -402,6 +562,8 @@ export default function SpacePage() {
                 success: boolean;
                 transcript?: string;
                 actions?: VoiceLogAction[];
+                resolvedConversationId?: string;
+                aiLogId?: string;
                 error?: string;
             }>(
                 "/api/voice-log",
@@ -411,19 +573,28 @@ export default function SpacePage() {
                     spaceId,
                     userId: user.uid,
                     existingTasks,
+                    conversationId: conversationId || undefined,
                 },
                 { maxRetries: 2, timeout: 30000 }
             );
             
             if (!data.success) {
                 setAiQuestion(data.error || "Failed to process voice log.");
-                return;
+                return false;
+            }
+            
+            // The recording answered the open clarifying question
+            if (data.resolvedConversationId) {
+                setConversationId(null);
             }
             
             // Show preview modal with transcript and actions
             setVoiceTranscript(data.transcript || "");
             setVoiceActions(data.actions || []);
+            setPreviewSource("voice");
+            previewAiLogId.current = data.aiLogId;
             setVoicePreviewOpen(true);
+            return true;
             
         } catch (error) {
             console.error("Voice log error:", error);
@@ -433,12 +604,71 @@ export default function SpacePage() {
             } else {
                 setAiQuestion("Failed to process voice recording. Please try again.");
             }
+            return false;
         } finally {
             setIsVoiceProcessing(false);
         }
-    }, [tasks, spaceId, user]);
+    }, [tasks, spaceId, user, conversationId]);
+
+    const handleVoiceRecordingComplete = useCallback(async (result: RecordingResult) => {
+        if (!user?.uid) {
+            setAiQuestion("Please sign in to use voice logging.");
+            return;
+        }
+        
+        // Keep the recording and transcribe it once the connection returns
+        if (!isOnline) {
+            try {
+                await queueVoiceRecording(spaceId, result.blob, result.mimeType);
+                setAiQuestion("You're offline. Your voice log will be transcribed when you're back online.");
+            } catch (error) {
+                console.error("Failed to queue voice log:", error);
+                setAiQuestion("You're offline and the voice log couldn't be saved. Please try again later.");
+            }
+            return;
+        }
+
+        await transcribeVoiceRecording(result);
+    }, [spaceId, user, isOnline, transcribeVoiceRecording]);
+    
+    // Transcribe voice logs recorded offline, one at a time through the preview.
+    // A recording leaves the queue only once /api/voice-log has handled it; after a
+    // failure the queue waits for the next reconnect instead of retrying in a loop.
+    const isTakingQueuedVoiceLog = useRef(false);
+    const queuedVoiceLogFailed = useRef(false);
+    useEffect(() => {
+        if (!isOnline) queuedVoiceLogFailed.current = false;
+    }, [isOnline]);
+    useEffect(() => {
+        if (!isOnline || !user?.uid || isVoiceProcessing || voicePreviewOpen ||
+            isTakingQueuedVoiceLog.current || queuedVoiceLogFailed.current) return;
+        isTakingQueuedVoiceLog.current = true;
+        getQueuedVoiceRecording(spaceId)
+            .then(async (recording) => {
+                if (!recording) return;
+                const transcribed = await transcribeVoiceRecording({ blob: recording.blob, mimeType: recording.mimeType, duration: 0 });
+                if (transcribed) {
+                    await removeQueuedVoiceRecording(recording.id!);
+                } else {
+                    queuedVoiceLogFailed.current = true;
+                }
+            })
+            .catch((error) => {
+                console.error("Failed to load queued voice log:", error);
+            })
+            .finally(() => {
+                isTakingQueuedVoiceLog.current = false;
+            });
+    }, [isOnline, user?.uid, spaceId, isVoiceProcessing, voicePreviewOpen, transcribeVoiceRecording]);
     
     const handleVoiceActionsConfirm = useCallback(async (actions: VoiceLogAction[]) => {
+        const aiLogId = previewAiLogId.current;
+        previewAiLogId.current = undefined;
+        // Actions removed in the preview were proposed but not wanted
+        if (user && aiLogId && actions.length < voiceActions.length) {
+            reportAiCorrection(user.uid, aiLogId, "rejected", `Kept ${actions.length} of ${voiceActions.length} actions`);
+        }
+
         for (const action of actions) {
             try {
                 switch (action.type) {
@@ -448,10 +678,18 @@ export default function SpacePage() {
                                 title: action.task.title,
                                 description: action.task.description,
                                 dueDate: action.task.dueDate,
+                                dueTime: action.task.dueTime,
                                 priority: action.task.priority || "medium",
+                                tags: action.task.tags,
+                                checklist: createChecklist(action.task.checklist),
+                                recurrence: action.task.recurrence,
+                                assigneeId: action.task.assigneeId,
+                                suggestedImprovements: action.task.suggestedImprovements,
                                 status: "todo",
-                                updates: [],
                             });
+                            if (newTask && action.task.blockedBy?.length) {
+                                await setDependencies(newTask.id, action.task.blockedBy);
+                            }
                             if (newTask) {
                                 generateDescription(newTask);
                             }
@@ -463,38 +701,64 @@ export default function SpacePage() {
                             const updates: Partial<Task> = {};
                             if (action.updates.status) updates.status = action.updates.status;
                             if (action.updates.priority) updates.priority = action.updates.priority;
+                            if (action.updates.tags) updates.tags = action.updates.tags;
+                            const target = tasks.find(t => t.id === action.taskId);
+                            if (Object.keys(updates).length > 0 && await editTask(action.taskId, updates) && target) {
+                                recordOperation(createUpdateOperation(target, updates, previewSource, aiLogId));
+                            }
                             if (action.updates.note) {
-                                const existingTask = tasks.find(t => t.id === action.taskId);
-                                if (existingTask) {
-                                    updates.updates = [
-                                        ...(existingTask.updates || []),
-                                        {
-                                            id: Date.now().toString(),
-                                            type: "note",
-                                            content: action.updates.note,
-                                            timestamp: Date.now(),
-                                        },
-                                    ];
-                                }
+                                await addUpdate(action.taskId, {
+                                    type: "note",
+                                    content: action.updates.note,
+                                    timestamp: Date.now(),
+                                });
                             }
-                            await editTask(action.taskId, updates);
                         }
                         break;
                     
                     case "COMPLETE":
                         if (action.taskId) {
-                            await editTask(action.taskId, { status: "done" });
+                            const target = tasks.find(t => t.id === action.taskId);
+                            if (await editTask(action.taskId, { status: "done" }) && target) {
+                                recordOperation(createUpdateOperation(target, { status: "done" }, previewSource, aiLogId));
+                            }
                         }
                         break;
                 }
+                
+                // Point out completed tasks that still have open blockers
+                const completedTask = tasks.find(t => t.id === action.taskId);
+                if (completedTask && (action.type === "COMPLETE" || action.updates?.status === "done")) {
+                    const warning = getBlockerWarning(completedTask, tasks);
+                    if (warning) setAiQuestion(warning);
+                }
             } catch (error) {
                 console.error(`Failed to execute action ${action.type}:`, error);
             }
         }
-    }, [addTask, editTask, tasks]);
+    }, [addTask, editTask, addUpdate, setDependencies, tasks, previewSource, recordOperation, user, voiceActions]);
+
+    // Closing the preview without confirming (or after removing every action) rejects the whole proposal
+    const handleVoicePreviewClose = useCallback(() => {
+        const aiLogId = previewAiLogId.current;
+        previewAiLogId.current = undefined;
+        if (user && aiLogId && voiceActions.length > 0) {
+            reportAiCorrection(user.uid, aiLogId, "rejected", `Dismissed all ${voiceActions.length} actions`);
+        }
+        setVoicePreviewOpen(false);
+    }, [user, voiceActions]);
 
-    const handleUpdateTask = async (taskId: string, updates: Partial<Task>) => {
-        await editTask(taskId, updates);
+    const handleUpdateTask = async (taskId: string, updates: Partial<Task>, base?: Partial<Task>) => {
+        // Dependencies are written together with the blockers' inverse lists
+        const { blockedBy, ...fieldUpdates } = updates;
+        if (blockedBy) {
+            await setDependencies(taskId, blockedBy);
+        }
+        // Edits from the task editor are merged with changes made elsewhere since it opened
+        if (base) {
+            return mergeTaskEdits(taskId, fieldUpdates, base);
+        }
+        await editTask(taskId, fieldUpdates);
         // Don't regenerate description on updates - it overwrites user's changes
         // Description generation should only happen on task creation
     };
@@ -504,6 +768,90 @@ export default function SpacePage() {
         setSelectedTask(null);
     };
 
+    const handleOpenTrash = async () => {
+        setTrashOpen(true);
+        setTrashLoading(true);
+        setTrashedTasks(await loadTrash(trashRetentionDays));
+        setTrashLoading(false);
+    };
+
+    const handleRestoreFromTrash = async (taskId: string) => {
+        const task = trashedTasks.find(t => t.id === taskId);
+        if (task && await restoreDeletedTask(task)) {
+            setTrashedTasks(prev => prev.filter(t => t.id !== taskId));
+        }
+    };
+
+    const handlePurgeFromTrash = async (taskIds: string[]) => {
+        if (await purgeFromTrash(taskIds)) {
+            setTrashedTasks(prev => prev.filter(t => !taskIds.includes(t.id)));
+        }
+    };
+
+    const handleInvite = async (email: string, inviteRole: SpaceInvitation["role"]) => {
+        if (!user) return;
+        await inviteMember(user.uid, spaceId, email, inviteRole);
+    };
+
+    const handleChangeRole = async (memberId: string, memberRole: SpaceInvitation["role"]) => {
+        if (!user) return;
+        await updateMember(user.uid, spaceId, memberId, { role: memberRole });
+    };
+
+    const handleRemoveMember = async (memberId: string) => {
+        if (!user) return;
+        await updateMember(user.uid, spaceId, memberId, { remove: true });
+        if (memberId === user.uid) {
+            router.push("/");
+        }
+    };
+
+    const handleRevokeInvitation = async (invitationId: string) => {
+        if (!user) return;
+        await revokeInvitation(user.uid, invitationId);
+    };
+
+    const handleConnectRepository = async (repository: string | null) => {
+        if (!user) return;
+        await connectRepository(user.uid, spaceId, repository);
+    };
+
+    const handleLinkGitHub = async (taskId: string, reference: string) => {
+        if (!user) return;
+        const links = await resolveGitHubLinks(user.uid, spaceId, reference);
+        const task = tasks.find(t => t.id === taskId);
+        await editTask(taskId, { githubLinks: mergeGitHubLinks(task?.githubLinks, links) });
+    };
+
+    const handleLoadCalendarEvents = async (source: { ics: string } | { url: string }) => {
+        if (!user) return [];
+        return getCalendarEvents(user.uid, source);
+    };
+
+    // Each picked event becomes a task due at the event's date and time
+    const handleImportCalendarEvents = async (events: CalendarEvent[]) => {
+        for (const event of events) {
+            await addTask({
+                ...getTaskFromEvent(event),
+                priority: "medium",
+                status: "todo",
+            });
+        }
+    };
+
+    // Tasks shown in the list - narrowed to the query's matches when a query answer is active,
+    // then to the selected tag
+    const spaceTags = collectTags(tasks);
+    const queriedTasks = queryResult && queryResult.taskIds.length > 0
+        ? queryResult.taskIds
+            .map(id => tasks.find(t => t.id === id))
+            .filter((t): t is Task => !!t)
+        : tasks;
+    const activeTag = tagFilter && spaceTags.includes(tagFilter) ? tagFilter : null; // Tag may have been removed
+    const visibleTasks = activeTag
+        ? queriedTasks.filter(t => t.tags?.includes(activeTag))
+        : queriedTasks;
+
     if (authLoading) {
         return (
             <div className="flex min-h-screen items-center justify-center">
@@ -530,7 +878,72 @@ export default function SpacePage() {
                 {/* Cloud sync indicator & AI quota */}
                 <div className="flex items-center gap-3 text-sm">
                     <AIRequestCounter />
-                    {tasksLoading ? (
+                    {space && (
+                        <button
+                            onClick={() => setShareOpen(true)}
+                            className="flex h-8 items-center justify-center gap-1.5 rounded-full bg-white/5 px-3 text-white/60 hover:bg-white/10 hover:text-white transition-colors"
+                            title={isOwner ? "Share space" : "Members"}
+                        >
+                            <Users className="h-4 w-4" />
+                            {members.length > 1 && members.length}
+                        </button>
+                    )}
+                    {space && (isOwner || hasGitHubRepo) && (
+                        <button
+                            onClick={() => setGithubOpen(true)}
+                            className={`flex h-8 w-8 items-center justify-center rounded-full bg-white/5 hover:bg-white/10 hover:text-white transition-colors ${hasGitHubRepo ? "text-white/80" : "text-white/40"}`}
+                            title={space.githubRepo ? `${space.githubRepo.owner}/${space.githubRepo.repo}` : "Connect GitHub"}
+                        >
+                            <Github className="h-4 w-4" />
+                        </button>
+                    )}
+                    {space && canEdit && (
+                        <button
+                            onClick={() => setCalendarOpen(true)}
+                            className="flex h-8 w-8 items-center justify-center rounded-full bg-white/5 text-white/60 hover:bg-white/10 hover:text-white transition-colors"
+                            title="Import from calendar"
+                        >
+                            <CalendarDays className="h-4 w-4" />
+                        </button>
+                    )}
+                    {/* Only the owner can see and restore trashed tasks */}
+                    {isOwner && canEdit && (
+                        <button
+                            onClick={handleOpenTrash}
+                            className="flex h-8 w-8 items-center justify-center rounded-full bg-white/5 text-white/60 hover:bg-white/10 hover:text-white transition-colors"
+                            title="Trash"
+                        >
+                            <Trash2 className="h-4 w-4" />
+                        </button>
+                    )}
+                    {(operationHistory.length > 0 || undoneOperations.length > 0) && (
+                        <div className="relative">
+                            <button
+                                onClick={() => setHistoryOpen(!historyOpen)}
+                                className="flex h-8 w-8 items-center justify-center rounded-full bg-white/5 text-white/60 hover:bg-white/10 hover:text-white transition-colors"
+                                title="AI change history"
+                            >
+                                <History className="h-4 w-4" />
+                            </button>
+                            <OperationHistoryPanel
+                                isOpen={historyOpen}
+                                history={operationHistory}
+                                undone={undoneOperations}
+                                onUndo={undo}
+                                onRedo={redo}
+                                disabled={isReverting}
+                            />
+                        </div>
+                    )}
+                    {!isOnline ? (
+                        <span
+                            className="flex items-center gap-1.5 text-amber-400"
+                            title="Changes are saved on this device and synced when you're back online"
+                        >
+                            <CloudOff className="h-4 w-4" />
+                            Offline{pendingChanges > 0 && ` (${pendingChanges} pending)`}
+                        </span>
+                    ) : tasksLoading || pendingChanges > 0 ? (
                         <span className="flex items-center gap-1.5 text-white/40">
                             <Loader2 className="h-4 w-4 animate-spin" />
                             Syncing...
@@ -579,6 +992,44 @@ export default function SpacePage() {
                     </motion.div>
                 )}
 
+                {syncConflicts.length > 0 && (
+                    <motion.div
+                        initial={{ opacity: 0, y: -10 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, y: -10 }}
+                        className="mb-4 rounded-lg border border-amber-500/30 bg-amber-500/10 p-3"
+                    >
+                        <div className="flex items-start gap-2 text-sm text-amber-200">
+                            <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                            <div>
+                                {syncConflicts.map((conflict, i) => (
+                                    <div key={conflict.mutation.id ?? i}>
+                                        <p>{describeSyncConflict(conflict)}</p>
+                                        {conflict.fieldConflicts && canEdit && (
+                                            <div className="my-2">
+                                                <ConflictResolver
+                                                    conflicts={conflict.fieldConflicts}
+                                                    onResolve={async (fieldConflict, useMine) => {
+                                                        await resolveFieldConflict(conflict.mutation.taskId, fieldConflict, useMine);
+                                                    }}
+                                                    memberNames={memberNames}
+                                                    taskTitle={conflict.taskTitle}
+                                                />
+                                            </div>
+                                        )}
+                                    </div>
+                                ))}
+                                <button
+                                    onClick={dismissSyncConflicts}
+                                    className="mt-1 text-amber-400 hover:text-amber-300"
+                                >
+                                    Dismiss
+                                </button>
+                            </div>
+                        </div>
+                    </motion.div>
+                )}
+
                 {tasksError && (
                     <motion.div
                         initial={{ opacity: 0, y: -10 }}
@@ -625,6 +1076,39 @@ export default function SpacePage() {
                     </motion.div>
                 )}
                 
+                {/* Query answer with filtered view toggle */}
+                {queryResult && (
+                    <motion.div
+                        initial={{ opacity: 0, y: -10 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        className="rounded-2xl border border-[var(--accent-blue)]/30 bg-[var(--accent-blue)]/10 px-5 py-4 backdrop-blur-sm shadow-lg shadow-blue-500/10"
+                    >
+                        <div className="flex items-start justify-between gap-3">
+                            <div className="flex items-start gap-2">
+                                <Search className="h-4 w-4 mt-1 flex-shrink-0 text-[var(--accent-blue)]" />
+                                <div>
+                                    <p className="text-xs text-white/40 mb-1">{queryResult.question}</p>
+                                    <p className="text-[15px] font-medium leading-relaxed text-[var(--accent-blue)]">
+                                        {queryResult.answer}
+                                    </p>
+                                    {queryResult.taskIds.length > 0 && (
+                                        <p className="mt-1 text-xs text-white/50">
+                                            Showing {visibleTasks.length} matching task{visibleTasks.length !== 1 ? "s" : ""}
+                                        </p>
+                                    )}
+                                </div>
+                            </div>
+                            <button
+                                onClick={() => setQueryResult(null)}
+                                className="p-1 rounded-lg text-white/40 hover:text-white hover:bg-white/10 transition-colors"
+                                title={queryResult.taskIds.length > 0 ? "Clear filter" : "Dismiss"}
+                            >
+                                <X className="h-4 w-4" />
+                            </button>
+                        </div>
+                    </motion.div>
+                )}
+                
                 {/* Voice processing indicator */}
                 {isVoiceProcessing && (
                     <motion.div
@@ -640,6 +1124,22 @@ export default function SpacePage() {
                 )}
                 
                 {/* Task input with voice button */}
+                {space?.archivedAt && space.archivedReason === "plan_limit" && isOwner && !isPro ? (
+                    <UpgradePrompt
+                        message="This space is read-only: the Free plan includes fewer spaces than you have. Upgrade to Pro, or choose it as one of the spaces you keep on the home page."
+                        locked={[space.name]}
+                    />
+                ) : space?.archivedAt ? (
+                    <div className="flex items-center gap-2 rounded-2xl border border-white/10 bg-white/5 px-5 py-4 text-sm text-white/50">
+                        <Lock className="h-4 w-4" />
+                        This space is archived and read-only
+                    </div>
+                ) : !canEdit ? (
+                    <div className="flex items-center gap-2 rounded-2xl border border-white/10 bg-white/5 px-5 py-4 text-sm text-white/50">
+                        <Eye className="h-4 w-4" />
+                        You have view-only access to this space
+                    </div>
+                ) : (
                 <div className="flex items-center gap-3">
                     <div className="flex-1">
                         <TaskInput onSubmit={handleTaskSubmit} isProcessing={isProcessing} />
@@ -658,15 +1158,69 @@ export default function SpacePage() {
                         maxDuration={120}
                     />
                 </div>
+                )}
             </div>
             
-            {/* Voice Preview Modal */}
+            {/* Action Preview Modal (voice logs and multi-action text) */}
             <VoicePreviewModal
                 isOpen={voicePreviewOpen}
-                onClose={() => setVoicePreviewOpen(false)}
+                onClose={handleVoicePreviewClose}
                 transcript={voiceTranscript}
                 actions={voiceActions}
                 onConfirm={handleVoiceActionsConfirm}
+                source={previewSource}
+            />
+            
+            {/* Undo for the latest AI change */}
+            <UndoToast
+                operation={latestOperation}
+                onUndo={undo}
+                disabled={isReverting}
+            />
+            
+            {/* Trashed tasks */}
+            <TrashModal
+                isOpen={trashOpen}
+                onClose={() => setTrashOpen(false)}
+                title="Deleted tasks"
+                items={trashedTasks.map(t => ({ id: t.id, title: t.title, deletedAt: t.deletedAt ?? 0 }))}
+                retentionDays={trashRetentionDays}
+                loading={trashLoading}
+                onRestore={handleRestoreFromTrash}
+                onPurge={handlePurgeFromTrash}
+            />
+            
+            {/* Members and invitations */}
+            <ShareSpaceModal
+                isOpen={shareOpen}
+                onClose={() => setShareOpen(false)}
+                members={members}
+                invitations={spaceInvitations}
+                currentUserId={user.uid}
+                isOwner={isOwner}
+                onInvite={handleInvite}
+                onChangeRole={handleChangeRole}
+                onRemove={handleRemoveMember}
+                onRevoke={handleRevokeInvitation}
+            />
+            
+            {/* Connected repository */}
+            <GitHubRepoModal
+                isOpen={githubOpen}
+                onClose={() => setGithubOpen(false)}
+                githubRepo={space?.githubRepo}
+                isOwner={isOwner}
+                hasIntegration={hasGitHub}
+                onConnect={handleConnectRepository}
+            />
+            
+            {/* Calendar events to tasks */}
+            <CalendarImportModal
+                isOpen={calendarOpen}
+                onClose={() => setCalendarOpen(false)}
+                hasIntegration={hasCalendar}
+                onLoadEvents={handleLoadCalendarEvents}
+                onImport={handleImportCalendarEvents}
             />
             
             {/* Manual Task Creation Modal */}
@@ -687,16 +1241,44 @@ export default function SpacePage() {
                     icon={PlusIcon}
                     title="No tasks yet"
                     description="Create your first task using AI or add one manually"
-                    action={{
+                    action={canEdit ? {
                         label: "Create Manual Task",
                         onClick: () => setManualTaskModalOpen(true),
-                    }}
+                    } : undefined}
                 />
             )}
 
+            {/* Tag filter */}
+            {spaceTags.length > 0 && (
+                <div className="mb-4 flex flex-wrap items-center gap-2">
+                    <Tag className="h-4 w-4 text-white/30" />
+                    {spaceTags.map((tag) => (
+                        <button
+                            key={tag}
+                            onClick={() => setTagFilter(activeTag === tag ? null : tag)}
+                            className={`rounded-full px-3 py-1 text-xs transition-colors ${
+                                activeTag === tag
+                                    ? "bg-[var(--accent-blue)]/20 text-[var(--accent-blue)] border border-[var(--accent-blue)]/40"
+                                    : "bg-white/5 text-white/50 border border-white/10 hover:bg-white/10 hover:text-white/80"
+                            }`}
+                        >
+                            #{tag}
+                        </button>
+                    ))}
+                    {activeTag && (
+                        <button
+                            onClick={() => setTagFilter(null)}
+                            className="text-xs text-white/40 hover:text-white transition-colors"
+                        >
+                            Clear
+                        </button>
+                    )}
+                </div>
+            )}
+
             {/* Tasks list */}
             <div className="space-y-4">
-                {tasks.map((task) => (
+                {visibleTasks.map((task) => (
                     <motion.div
                         key={task.id}
                         initial={{ opacity: 0, y: 10 }}
@@ -732,16 +1314,47 @@ export default function SpacePage() {
                             <span className={`text-white ${task.status === 'done' ? 'line-through text-gray-400' : ''}`}>
                                 {task.title}
                             </span>
+                            {task.tags && task.tags.length > 0 && (
+                                <span className="hidden sm:flex items-center gap-1.5">
+                                    {task.tags.slice(0, 3).map((tag) => (
+                                        <span key={tag} className="rounded-full bg-white/5 px-2 py-0.5 text-[11px] text-white/40">
+                                            #{tag}
+                                        </span>
+                                    ))}
+                                </span>
+                            )}
+                        </div>
+                        <div className="relative z-10 flex items-center gap-4">
+                            {isTaskBlocked(task, tasks) && (
+                                <span className="flex items-center gap-1 text-xs uppercase tracking-wider text-amber-400/80" title="Waiting on other tasks">
+                                    <Lock className="h-3 w-3" />
+                                    Blocked
+                                </span>
+                            )}
+                            {task.recurrence && (
+                                <span className="hidden sm:flex items-center gap-1 text-xs text-white/40" title={describeRecurrence(task.recurrence)}>
+                                    <Repeat className="h-3 w-3" />
+                                </span>
+                            )}
+                            {task.assigneeId && memberNames[task.assigneeId] && (
+                                <span
+                                    className="flex h-6 w-6 items-center justify-center rounded-full bg-white/10 text-[10px] font-medium uppercase text-white/60"
+                                    title={`Assigned to ${memberNames[task.assigneeId]}`}
+                                >
+                                    {memberNames[task.assigneeId].charAt(0)}
+                                </span>
+                            )}
+                            <ChecklistProgress checklist={task.checklist} />
+                            {task.priority && (
+                                <motion.span 
+                                    initial={{ opacity: 0.4 }}
+                                    whileHover={{ opacity: 1 }}
+                                    className="text-xs uppercase tracking-wider text-white/40"
+                                >
+                                    {task.priority}
+                                </motion.span>
+                            )}
                         </div>
-                        {task.priority && (
-                            <motion.span 
-                                initial={{ opacity: 0.4 }}
-                                whileHover={{ opacity: 1 }}
-                                className="relative z-10 text-xs uppercase tracking-wider text-white/40"
-                            >
-                                {task.priority}
-                            </motion.span>
-                        )}
                     </motion.div>
                 ))}
             </div>
@@ -752,6 +1365,10 @@ export default function SpacePage() {
                 onClose={() => setSelectedTask(null)}
                 onUpdate={handleUpdateTask}
                 onDelete={handleDeleteTask}
+                tasks={tasks}
+                members={members}
+                readOnly={!canEdit}
+                onLinkGitHub={hasGitHubRepo && hasGitHub && canEdit ? handleLinkGitHub : undefined}
             />
         </div>
     );
@@ -0,0 +1,249 @@
+/**
+ * Calendar Import Modal
+ *
+ * Turns calendar events into tasks: the user loads an .ics file or a calendar
+ * link (Pro), picks from the upcoming events, and each one becomes a task due
+ * at the event's date and time.
+ */
+
+import { useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { X, Loader2, CalendarDays, Upload } from "lucide-react";
+import { CalendarEvent } from "@/types";
+import UpgradePrompt from "@/components/UpgradePrompt";
+
+// .ics files over this size are rejected by /api/import-calendar anyway
+const MAX_FILE_BYTES = 2 * 1024 * 1024;
+
+interface CalendarImportModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    hasIntegration: boolean; // The user's plan includes the calendar integration
+    onLoadEvents: (source: { ics: string } | { url: string }) => Promise<CalendarEvent[]>;
+    onImport: (events: CalendarEvent[]) => Promise<void>;
+}
+
+function getEventKey(event: CalendarEvent): string {
+    return `${event.uid}|${event.date}`;
+}
+
+function formatEventDate(event: CalendarEvent): string {
+    const day = new Date(`${event.date}T00:00:00`).toLocaleDateString("en-US", {
+        weekday: "short",
+        month: "short",
+        day: "numeric",
+    });
+    return event.startTime ? `${day}, ${event.startTime}${event.endTime ? `-${event.endTime}` : ""}` : `${day}, all day`;
+}
+
+export default function CalendarImportModal({
+    isOpen,
+    onClose,
+    hasIntegration,
+    onLoadEvents,
+    onImport,
+}: CalendarImportModalProps) {
+    const [url, setUrl] = useState("");
+    const [events, setEvents] = useState<CalendarEvent[] | null>(null);
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [isLoading, setIsLoading] = useState(false);
+    const [isImporting, setIsImporting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleClose = () => {
+        setEvents(null);
+        setSelected(new Set());
+        setUrl("");
+        setError(null);
+        onClose();
+    };
+
+    const loadEvents = async (source: { ics: string } | { url: string }) => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            const loaded = await onLoadEvents(source);
+            setEvents(loaded);
+            setSelected(new Set());
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to load the calendar");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return;
+        if (file.size > MAX_FILE_BYTES) {
+            setError("That calendar is too large to import.");
+            return;
+        }
+        await loadEvents({ ics: await file.text() });
+    };
+
+    const toggleEvent = (key: string) => {
+        setSelected(prev => {
+            const next = new Set(prev);
+            if (next.has(key)) {
+                next.delete(key);
+            } else {
+                next.add(key);
+            }
+            return next;
+        });
+    };
+
+    const handleImport = async () => {
+        if (!events) return;
+        setIsImporting(true);
+        setError(null);
+        try {
+            await onImport(events.filter(event => selected.has(getEventKey(event))));
+            handleClose();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to create tasks");
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <>
+                    {/* Backdrop */}
+                    <motion.div
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        exit={{ opacity: 0 }}
+                        onClick={handleClose}
+                        className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50"
+                    />
+
+                    {/* Modal */}
+                    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 pointer-events-none">
+                        <motion.div
+                            initial={{ opacity: 0, scale: 0.95, y: 10 }}
+                            animate={{ opacity: 1, scale: 1, y: 0 }}
+                            exit={{ opacity: 0, scale: 0.95, y: 10 }}
+                            className="pointer-events-auto w-full max-w-md bg-[#1a1a2e] rounded-2xl border border-white/10 shadow-2xl overflow-hidden"
+                        >
+                            {/* Header */}
+                            <div className="flex items-center justify-between p-6 border-b border-white/10">
+                                <div>
+                                    <h2 className="text-xl font-semibold text-white">Import from calendar</h2>
+                                    <p className="text-sm text-white/50">
+                                        Turn upcoming events into tasks
+                                    </p>
+                                </div>
+                                <button
+                                    onClick={handleClose}
+                                    className="flex h-8 w-8 items-center justify-center rounded-full hover:bg-white/5 text-white/40 hover:text-white/60 transition-colors"
+                                >
+                                    <X className="h-5 w-5" />
+                                </button>
+                            </div>
+
+                            <div className="space-y-4 p-6">
+                                {!hasIntegration ? (
+                                    <UpgradePrompt
+                                        message="Import meetings from your calendar as tasks."
+                                        feature="Calendar integration"
+                                    />
+                                ) : events === null ? (
+                                    <>
+                                        <label className="flex cursor-pointer items-center justify-center gap-2 rounded-lg border border-dashed border-white/20 px-3 py-4 text-sm text-white/60 hover:border-white/40 hover:text-white transition-colors">
+                                            <Upload className="h-4 w-4" />
+                                            Choose an .ics file
+                                            <input
+                                                type="file"
+                                                accept=".ics,text/calendar"
+                                                className="hidden"
+                                                disabled={isLoading}
+                                                onChange={(e) => {
+                                                    handleFile(e.target.files?.[0]);
+                                                    e.target.value = "";
+                                                }}
+                                            />
+                                        </label>
+
+                                        <form
+                                            onSubmit={(e) => {
+                                                e.preventDefault();
+                                                if (url.trim()) loadEvents({ url: url.trim() });
+                                            }}
+                                            className="flex gap-2"
+                                        >
+                                            <input
+                                                value={url}
+                                                onChange={(e) => setUrl(e.target.value)}
+                                                placeholder="or a calendar link (https:// or webcal://)"
+                                                className="min-w-0 flex-1 rounded-lg bg-white/5 px-3 py-2 text-sm text-white placeholder-white/30 outline-none focus:ring-2 focus:ring-[var(--accent-blue)]"
+                                            />
+                                            <button
+                                                type="submit"
+                                                disabled={isLoading || !url.trim()}
+                                                className="flex items-center justify-center rounded-lg bg-blue-500 px-3 py-2 text-sm font-medium text-white hover:bg-blue-400 disabled:opacity-50 transition-colors"
+                                            >
+                                                {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : "Load"}
+                                            </button>
+                                        </form>
+                                    </>
+                                ) : events.length === 0 ? (
+                                    <p className="text-sm text-white/50">No events in the next 30 days.</p>
+                                ) : (
+                                    <ul className="max-h-80 space-y-1 overflow-y-auto">
+                                        {events.map((event) => {
+                                            const key = getEventKey(event);
+                                            return (
+                                                <li key={key}>
+                                                    <label className="flex cursor-pointer items-start gap-3 rounded-lg px-2 py-2 hover:bg-white/5">
+                                                        <input
+                                                            type="checkbox"
+                                                            checked={selected.has(key)}
+                                                            onChange={() => toggleEvent(key)}
+                                                            className="mt-1"
+                                                        />
+                                                        <div className="min-w-0">
+                                                            <p className="truncate text-sm text-white">{event.title}</p>
+                                                            <p className="text-xs text-white/40">
+                                                                {formatEventDate(event)}
+                                                                {event.location && ` · ${event.location}`}
+                                                            </p>
+                                                        </div>
+                                                    </label>
+                                                </li>
+                                            );
+                                        })}
+                                    </ul>
+                                )}
+
+                                {error && <p className="text-sm text-red-400">{error}</p>}
+
+                                {hasIntegration && events !== null && (
+                                    <div className="flex justify-between gap-2">
+                                        <button
+                                            onClick={() => setEvents(null)}
+                                            disabled={isImporting}
+                                            className="rounded-lg px-3 py-2 text-sm text-white/50 hover:bg-white/5 hover:text-white disabled:opacity-50 transition-colors"
+                                        >
+                                            Back
+                                        </button>
+                                        <button
+                                            onClick={handleImport}
+                                            disabled={isImporting || selected.size === 0}
+                                            className="flex items-center gap-2 rounded-lg bg-blue-500 px-3 py-2 text-sm font-medium text-white hover:bg-blue-400 disabled:opacity-50 transition-colors"
+                                        >
+                                            {isImporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <CalendarDays className="h-4 w-4" />}
+                                            Create {selected.size || ""} {selected.size === 1 ? "task" : "tasks"}
+                                        </button>
+                                    </div>
+                                )}
+                            </div>
+                        </motion.div>
+                    </div>
+                </>
+            )}
+        </AnimatePresence>
+    );
+}
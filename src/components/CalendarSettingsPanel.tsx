@@ -0,0 +1,205 @@
+"use client";
+
+/**
+ * CalendarSettingsPanel Component
+ *
+ * Calendar integration on the account page: the ICS feed URL of the user's
+ * tasks to subscribe to in a calendar app (copy or replace it), and the
+ * calendar whose events the AI uses for times like "after standup".
+ * Free users see an upgrade prompt instead.
+ */
+
+import { useEffect, useState } from "react";
+import { CalendarDays, Check, Copy, Loader2, RefreshCw, X } from "lucide-react";
+import {
+    CalendarSettingsView,
+    getCalendarSettings,
+    rotateCalendarFeed,
+    setCalendarImportUrl,
+} from "@/lib/services/calendarService";
+import { ApiError } from "@/lib/apiClient";
+import UpgradePrompt from "@/components/UpgradePrompt";
+
+interface CalendarSettingsPanelProps {
+    userId: string;
+    hasIntegration: boolean;
+}
+
+function getErrorMessage(err: unknown, fallback: string): string {
+    return err instanceof ApiError && err.statusCode && err.statusCode < 500 ? err.message : fallback;
+}
+
+export default function CalendarSettingsPanel({ userId, hasIntegration }: CalendarSettingsPanelProps) {
+    const [settings, setSettings] = useState<CalendarSettingsView | null>(null);
+    const [importUrl, setImportUrl] = useState("");
+    const [isLoading, setIsLoading] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [isRotating, setIsRotating] = useState(false);
+    const [copied, setCopied] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!hasIntegration) return;
+
+        let cancelled = false;
+        setIsLoading(true);
+        getCalendarSettings(userId)
+            .then((loaded) => {
+                if (cancelled) return;
+                setSettings(loaded);
+                setImportUrl(loaded.importUrl || "");
+            })
+            .catch((err) => {
+                console.error("Failed to load calendar settings:", err);
+                if (!cancelled) setError(getErrorMessage(err, "Couldn't load your calendar settings."));
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoading(false);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [userId, hasIntegration]);
+
+    if (!hasIntegration) {
+        return (
+            <UpgradePrompt
+                message="See tasks with due dates in your calendar, and turn meetings into tasks."
+                feature="Calendar integration"
+            />
+        );
+    }
+
+    const handleCopy = async () => {
+        if (!settings) return;
+        try {
+            await navigator.clipboard.writeText(settings.feedUrl);
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        } catch (err) {
+            console.error("Failed to copy feed URL:", err);
+        }
+    };
+
+    const handleRotate = async () => {
+        if (!confirm("Replace the feed URL? Calendars subscribed to the current URL will stop updating.")) return;
+
+        setIsRotating(true);
+        setError(null);
+        try {
+            setSettings(await rotateCalendarFeed(userId));
+        } catch (err) {
+            console.error("Failed to rotate calendar feed:", err);
+            setError(getErrorMessage(err, "Couldn't replace the feed URL. Please try again."));
+        } finally {
+            setIsRotating(false);
+        }
+    };
+
+    const handleSaveImportUrl = async (url: string | null) => {
+        setIsSaving(true);
+        setError(null);
+        try {
+            const updated = await setCalendarImportUrl(userId, url);
+            setSettings(updated);
+            setImportUrl(updated.importUrl || "");
+        } catch (err) {
+            console.error("Failed to save calendar link:", err);
+            setError(getErrorMessage(err, "Couldn't save the calendar link. Please try again."));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="space-y-5">
+            <div className="flex items-center gap-2 text-sm font-medium text-white">
+                <CalendarDays className="h-4 w-4 text-blue-400" />
+                Calendar
+            </div>
+
+            {isLoading ? (
+                <Loader2 className="h-5 w-5 animate-spin text-white/40" />
+            ) : (
+                <>
+                    {/* Task feed */}
+                    <div>
+                        <label className="mb-1.5 block text-xs font-medium text-white/50">
+                            Subscribe to your tasks
+                        </label>
+                        <div className="flex items-center gap-2">
+                            <input
+                                type="text"
+                                readOnly
+                                value={settings?.feedUrl || ""}
+                                onFocus={(e) => e.target.select()}
+                                className="min-w-0 flex-1 rounded-lg bg-black/20 px-3 py-2 text-sm text-white/70 focus:outline-none"
+                            />
+                            <button
+                                onClick={handleCopy}
+                                disabled={!settings}
+                                className="rounded-lg p-2 text-white/50 hover:bg-white/10 hover:text-white disabled:opacity-50 transition-colors"
+                                title="Copy feed URL"
+                            >
+                                {copied ? <Check className="h-4 w-4 text-green-400" /> : <Copy className="h-4 w-4" />}
+                            </button>
+                            <button
+                                onClick={handleRotate}
+                                disabled={!settings || isRotating}
+                                className="rounded-lg p-2 text-white/50 hover:bg-white/10 hover:text-white disabled:opacity-50 transition-colors"
+                                title="Replace feed URL"
+                            >
+                                {isRotating ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+                            </button>
+                        </div>
+                        <p className="mt-1.5 text-xs text-white/40">
+                            Add this URL to Google Calendar, Outlook or Apple Calendar. Open tasks with a due date that
+                            are yours or unassigned show up there. Keep it private - anyone with it can see those tasks.
+                        </p>
+                    </div>
+
+                    {/* Calendar for AI context */}
+                    <div>
+                        <label className="mb-1.5 block text-xs font-medium text-white/50">
+                            Your calendar (ICS link)
+                        </label>
+                        <div className="flex items-center gap-2">
+                            <input
+                                type="url"
+                                value={importUrl}
+                                onChange={(e) => setImportUrl(e.target.value)}
+                                placeholder="https://... or webcal://..."
+                                disabled={isSaving}
+                                className="min-w-0 flex-1 rounded-lg bg-white/10 px-3 py-2 text-sm text-white placeholder:text-white/30 focus:outline-none focus:ring-2 focus:ring-blue-500/50"
+                            />
+                            <button
+                                onClick={() => handleSaveImportUrl(importUrl.trim())}
+                                disabled={isSaving || !importUrl.trim() || importUrl.trim() === settings?.importUrl}
+                                className="rounded-lg bg-blue-500/20 px-3 py-2 text-sm font-medium text-blue-200 hover:bg-blue-500/30 disabled:opacity-50 transition-colors"
+                            >
+                                {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save"}
+                            </button>
+                            {settings?.importUrl && (
+                                <button
+                                    onClick={() => handleSaveImportUrl(null)}
+                                    disabled={isSaving}
+                                    className="rounded-lg p-2 text-white/50 hover:bg-white/10 hover:text-white disabled:opacity-50 transition-colors"
+                                    title="Remove calendar"
+                                >
+                                    <X className="h-4 w-4" />
+                                </button>
+                            )}
+                        </div>
+                        <p className="mt-1.5 text-xs text-white/40">
+                            Today&apos;s events help the AI with times like &quot;after standup&quot;. Use your
+                            calendar&apos;s secret ICS address.
+                        </p>
+                    </div>
+
+                    {error && <p className="text-sm text-red-300">{error}</p>}
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,34 @@
+/**
+ * Checklist Progress Component
+ * 
+ * Compact "done/total" counter with a progress bar for a task's checklist.
+ */
+
+import { ChecklistItem } from "@/types";
+import { getChecklistProgress } from "@/lib/checklistUtils";
+
+interface ChecklistProgressProps {
+    checklist?: ChecklistItem[];
+    className?: string;
+}
+
+export default function ChecklistProgress({ checklist, className = "" }: ChecklistProgressProps) {
+    const { done, total } = getChecklistProgress(checklist);
+    if (total === 0) return null;
+
+    const percent = Math.round((done / total) * 100);
+
+    return (
+        <div className={`flex items-center gap-2 ${className}`} title={`${done} of ${total} steps done`}>
+            <div className="h-1.5 w-16 overflow-hidden rounded-full bg-white/10">
+                <div
+                    className={`h-full rounded-full transition-all duration-500 ${done === total ? "bg-green-400" : "bg-[var(--accent-blue)]"}`}
+                    style={{ width: `${percent}%` }}
+                />
+            </div>
+            <span className="text-xs tabular-nums text-white/40">
+                {done}/{total}
+            </span>
+        </div>
+    );
+}
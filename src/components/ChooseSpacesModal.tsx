@@ -0,0 +1,153 @@
+/**
+ * Choose Spaces Modal
+ *
+ * After a downgrade, the spaces over the Free plan's limit are read-only. The
+ * owner picks which spaces stay editable here; the others are archived until
+ * they upgrade.
+ */
+
+import { useEffect, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { X, Loader2, Lock } from "lucide-react";
+import { Space } from "@/types";
+
+interface ChooseSpacesModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    spaces: Space[]; // The user's own spaces outside the trash, archived ones included
+    maxSpaces: number;
+    onSave: (spaceIds: string[]) => Promise<void>;
+}
+
+function getInitialSelection(spaces: Space[], maxSpaces: number): Set<string> {
+    return new Set(spaces.filter(space => !space.archivedAt).slice(0, maxSpaces).map(space => space.id));
+}
+
+export default function ChooseSpacesModal({
+    isOpen,
+    onClose,
+    spaces,
+    maxSpaces,
+    onSave,
+}: ChooseSpacesModalProps) {
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Start from the spaces that are editable now
+    useEffect(() => {
+        if (isOpen) {
+            setSelected(getInitialSelection(spaces, maxSpaces));
+            setError(null);
+        }
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [isOpen]);
+
+    const toggleSpace = (id: string) => {
+        setSelected(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) {
+                next.delete(id);
+            } else if (next.size < maxSpaces) {
+                next.add(id);
+            }
+            return next;
+        });
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        setError(null);
+        try {
+            await onSave([...selected]);
+            onClose();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to save your choice");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <>
+                    {/* Backdrop */}
+                    <motion.div
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        exit={{ opacity: 0 }}
+                        onClick={onClose}
+                        className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50"
+                    />
+
+                    {/* Modal */}
+                    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 pointer-events-none">
+                        <motion.div
+                            initial={{ opacity: 0, scale: 0.95, y: 10 }}
+                            animate={{ opacity: 1, scale: 1, y: 0 }}
+                            exit={{ opacity: 0, scale: 0.95, y: 10 }}
+                            className="pointer-events-auto w-full max-w-md bg-[#1a1a2e] rounded-2xl border border-white/10 shadow-2xl overflow-hidden"
+                        >
+                            {/* Header */}
+                            <div className="flex items-center justify-between p-6 border-b border-white/10">
+                                <div>
+                                    <h2 className="text-xl font-semibold text-white">Choose spaces to keep</h2>
+                                    <p className="text-sm text-white/50">
+                                        The Free plan includes {maxSpaces} active spaces
+                                    </p>
+                                </div>
+                                <button
+                                    onClick={onClose}
+                                    className="flex h-8 w-8 items-center justify-center rounded-full hover:bg-white/5 text-white/40 hover:text-white/60 transition-colors"
+                                >
+                                    <X className="h-5 w-5" />
+                                </button>
+                            </div>
+
+                            <div className="space-y-4 p-6">
+                                <ul className="max-h-80 space-y-1 overflow-y-auto">
+                                    {spaces.map((space) => {
+                                        const isSelected = selected.has(space.id);
+                                        return (
+                                            <li key={space.id}>
+                                                <label className="flex cursor-pointer items-center gap-3 rounded-lg px-2 py-2 hover:bg-white/5">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={isSelected}
+                                                        disabled={!isSelected && selected.size >= maxSpaces}
+                                                        onChange={() => toggleSpace(space.id)}
+                                                    />
+                                                    <span className="min-w-0 flex-1 truncate text-sm text-white">{space.name}</span>
+                                                    {!isSelected && <Lock className="h-3.5 w-3.5 text-white/30" />}
+                                                </label>
+                                            </li>
+                                        );
+                                    })}
+                                </ul>
+
+                                <p className="text-xs text-white/40">
+                                    The other spaces stay readable, but their tasks can&apos;t be changed until you
+                                    upgrade or pick them here instead.
+                                </p>
+
+                                {error && <p className="text-sm text-red-400">{error}</p>}
+
+                                <div className="flex justify-end">
+                                    <button
+                                        onClick={handleSave}
+                                        disabled={isSaving}
+                                        className="flex items-center gap-2 rounded-lg bg-blue-500 px-3 py-2 text-sm font-medium text-white hover:bg-blue-400 disabled:opacity-50 transition-colors"
+                                    >
+                                        {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+                                        Keep {selected.size} {selected.size === 1 ? "space" : "spaces"}
+                                    </button>
+                                </div>
+                            </div>
+                        </motion.div>
+                    </div>
+                </>
+            )}
+        </AnimatePresence>
+    );
+}
@@ -0,0 +1,90 @@
+"use client";
+
+/**
+ * ConflictResolver Component
+ *
+ * Fields of a task that were edited here and elsewhere at the same time.
+ * The other edit is already saved; for each field the user keeps it or
+ * writes their own value over it.
+ */
+
+import { useState } from "react";
+import { GitMerge, Loader2 } from "lucide-react";
+import { FieldConflict } from "@/types";
+import { formatFieldValue, getFieldLabel } from "@/lib/conflictUtils";
+
+interface ConflictResolverProps {
+    conflicts: FieldConflict[];
+    onResolve: (conflict: FieldConflict, useMine: boolean) => Promise<void>;
+    memberNames?: Record<string, string>; // For the assignee
+    taskTitle?: string; // Shown when resolving outside the task's own modal
+}
+
+export default function ConflictResolver({ conflicts, onResolve, memberNames = {}, taskTitle }: ConflictResolverProps) {
+    const [resolvingField, setResolvingField] = useState<string | null>(null);
+
+    const handleResolve = async (conflict: FieldConflict, useMine: boolean) => {
+        setResolvingField(conflict.field);
+        try {
+            await onResolve(conflict, useMine);
+        } finally {
+            setResolvingField(null);
+        }
+    };
+
+    return (
+        <div className="rounded-xl border border-amber-500/30 bg-amber-500/10 p-4">
+            <div className="mb-3 flex items-center gap-2 text-sm font-medium text-amber-200">
+                <GitMerge className="h-4 w-4 flex-shrink-0" />
+                <span>
+                    {taskTitle ? `"${taskTitle}" was` : "This task was"} changed elsewhere while you were editing
+                </span>
+            </div>
+            <ul className="space-y-3">
+                {conflicts.map((conflict) => (
+                    <li key={conflict.field} className="rounded-lg bg-black/20 p-3 text-sm">
+                        <p className="mb-2 text-xs font-medium uppercase tracking-wider text-white/50">
+                            {getFieldLabel(conflict.field)}
+                        </p>
+                        <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+                            <div className="min-w-0">
+                                <p className="text-[11px] text-white/40">Theirs</p>
+                                <p className="line-clamp-3 break-words text-white/80">
+                                    {formatFieldValue(conflict.field, conflict.theirs, memberNames)}
+                                </p>
+                            </div>
+                            <div className="min-w-0">
+                                <p className="text-[11px] text-white/40">Yours</p>
+                                <p className="line-clamp-3 break-words text-white/80">
+                                    {formatFieldValue(conflict.field, conflict.mine, memberNames)}
+                                </p>
+                            </div>
+                        </div>
+                        <div className="mt-3 flex justify-end gap-2">
+                            {resolvingField === conflict.field ? (
+                                <Loader2 className="h-4 w-4 animate-spin text-amber-300" />
+                            ) : (
+                                <>
+                                    <button
+                                        onClick={() => handleResolve(conflict, false)}
+                                        disabled={!!resolvingField}
+                                        className="rounded-lg px-3 py-1.5 text-xs text-white/60 hover:bg-white/10 hover:text-white disabled:opacity-50 transition-colors"
+                                    >
+                                        Keep theirs
+                                    </button>
+                                    <button
+                                        onClick={() => handleResolve(conflict, true)}
+                                        disabled={!!resolvingField}
+                                        className="rounded-lg bg-amber-500/20 px-3 py-1.5 text-xs font-medium text-amber-200 hover:bg-amber-500/30 disabled:opacity-50 transition-colors"
+                                    >
+                                        Use mine
+                                    </button>
+                                </>
+                            )}
+                        </div>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+}
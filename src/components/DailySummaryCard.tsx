@@ -0,0 +1,151 @@
+"use client";
+
+/**
+ * DailySummaryCard Component
+ *
+ * "What should I work on today?" on the home page: a short AI-written plan
+ * and the open tasks it picked across all spaces, each with its reason.
+ * The plan is fetched once a day (then cached) and can be refreshed.
+ * Free users see an upgrade prompt instead, until they dismiss it.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { motion } from "framer-motion";
+import { CalendarCheck, Loader2, RefreshCw } from "lucide-react";
+import { DailySummary } from "@/types";
+import { getCachedDailySummary, getDailySummary } from "@/lib/services/summaryService";
+import { ApiError } from "@/lib/apiClient";
+import { getRelativeTime } from "@/lib/timeUtils";
+import UpgradePrompt from "@/components/UpgradePrompt";
+
+const PROMPT_DISMISSED_KEY = "daily_summary_prompt_dismissed";
+
+interface DailySummaryCardProps {
+    userId: string;
+    isPro: boolean;
+    onOpenSpace: (spaceId: string) => void;
+}
+
+const PRIORITY_STYLES = {
+    high: "bg-red-500/20 text-red-300",
+    medium: "bg-amber-500/20 text-amber-300",
+    low: "bg-white/10 text-white/50",
+};
+
+export default function DailySummaryCard({ userId, isPro, onOpenSpace }: DailySummaryCardProps) {
+    const [summary, setSummary] = useState<DailySummary | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [promptDismissed, setPromptDismissed] = useState(true);
+
+    const loadSummary = useCallback(async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            setSummary(await getDailySummary(userId));
+        } catch (err) {
+            console.error("Failed to load daily summary:", err);
+            setError(err instanceof ApiError && err.statusCode === 403
+                ? err.message
+                : "Couldn't build today's plan. Please try again.");
+        } finally {
+            setIsLoading(false);
+        }
+    }, [userId]);
+
+    // Today's cached plan, or a fresh one
+    useEffect(() => {
+        if (!isPro) {
+            setPromptDismissed(localStorage.getItem(PROMPT_DISMISSED_KEY) === "true");
+            return;
+        }
+
+        const cached = getCachedDailySummary(userId);
+        if (cached) {
+            setSummary(cached);
+        } else {
+            loadSummary();
+        }
+    }, [userId, isPro, loadSummary]);
+
+    if (!isPro) {
+        if (promptDismissed) return null;
+        return (
+            <div className="mb-6">
+                <UpgradePrompt
+                    message="Get a daily plan of what to work on across all your spaces."
+                    feature="Daily AI summaries"
+                    onDismiss={() => {
+                        localStorage.setItem(PROMPT_DISMISSED_KEY, "true");
+                        setPromptDismissed(true);
+                    }}
+                />
+            </div>
+        );
+    }
+
+    return (
+        <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="mb-6 rounded-2xl border border-white/10 bg-white/5 p-5"
+        >
+            <div className="mb-3 flex items-center justify-between gap-4">
+                <div className="flex items-center gap-2 text-sm font-medium text-white">
+                    <CalendarCheck className="h-4 w-4 text-blue-400" />
+                    Today&apos;s plan
+                </div>
+                <button
+                    onClick={loadSummary}
+                    disabled={isLoading}
+                    className="flex items-center gap-1.5 rounded-lg px-2 py-1 text-xs text-white/50 hover:bg-white/10 hover:text-white disabled:opacity-50 transition-colors"
+                    title="Refresh plan"
+                >
+                    {isLoading ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <RefreshCw className="h-3.5 w-3.5" />}
+                    {summary && !isLoading && getRelativeTime(summary.generatedAt)}
+                </button>
+            </div>
+
+            {error && <p className="mb-3 text-sm text-red-300">{error}</p>}
+
+            {!summary ? (
+                isLoading && <p className="text-sm text-white/40">Looking through your open tasks...</p>
+            ) : (
+                <>
+                    <p className="text-sm text-white/80">{summary.summary}</p>
+                    {summary.items.length > 0 && (
+                        <ol className="mt-4 space-y-2">
+                            {summary.items.map((item, idx) => (
+                                <li key={item.taskId}>
+                                    <button
+                                        onClick={() => onOpenSpace(item.spaceId)}
+                                        className="flex w-full items-start gap-3 rounded-xl bg-black/20 p-3 text-left hover:bg-black/30 transition-colors"
+                                    >
+                                        <span className="mt-0.5 text-xs font-medium text-white/30">{idx + 1}</span>
+                                        <div className="min-w-0 flex-1">
+                                            <div className="flex items-center gap-2">
+                                                <p className="truncate text-sm font-medium text-white">{item.title}</p>
+                                                {item.priority && (
+                                                    <span className={`rounded px-1.5 py-0.5 text-[10px] uppercase ${PRIORITY_STYLES[item.priority]}`}>
+                                                        {item.priority}
+                                                    </span>
+                                                )}
+                                            </div>
+                                            <p className="mt-0.5 text-xs text-white/50">{item.reason}</p>
+                                        </div>
+                                        <span className="flex-shrink-0 truncate text-xs text-white/30">{item.spaceName}</span>
+                                    </button>
+                                </li>
+                            ))}
+                        </ol>
+                    )}
+                    {summary.openTaskCount > summary.items.length && (
+                        <p className="mt-3 text-xs text-white/30">
+                            {summary.openTaskCount - summary.items.length} more open tasks across your spaces
+                        </p>
+                    )}
+                </>
+            )}
+        </motion.div>
+    );
+}
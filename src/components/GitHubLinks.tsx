@@ -0,0 +1,133 @@
+"use client";
+
+/**
+ * GitHubLinks Component
+ *
+ * Issues and pull requests linked to a task, with their GitHub state.
+ * Once linked work is merged or closed while the task is still open,
+ * completing the task is suggested.
+ */
+
+import { useState } from "react";
+import { CheckCircle, CircleDot, GitMerge, GitPullRequest, GitPullRequestClosed, Link2, Loader2, X } from "lucide-react";
+import { GitHubLink, Task } from "@/types";
+import { getLinkLabel, isLinkDone } from "@/lib/githubUtils";
+
+interface GitHubLinksProps {
+    links: GitHubLink[];
+    taskStatus: Task["status"];
+    readOnly?: boolean;
+    canLink: boolean; // A repository is connected and the user's plan includes GitHub
+    onLink: (reference: string) => Promise<void>;
+    onUnlink: (number: number) => void;
+    onComplete: () => void;
+}
+
+const STATE_STYLES: Record<GitHubLink["state"], string> = {
+    open: "text-green-400",
+    merged: "text-purple-400",
+    closed: "text-red-400",
+};
+
+function LinkIcon({ link }: { link: GitHubLink }) {
+    const className = `h-3.5 w-3.5 flex-shrink-0 ${STATE_STYLES[link.state]}`;
+    if (link.kind === "issue") {
+        return link.state === "closed" ? <CheckCircle className={className} /> : <CircleDot className={className} />;
+    }
+    if (link.state === "merged") return <GitMerge className={className} />;
+    if (link.state === "closed") return <GitPullRequestClosed className={className} />;
+    return <GitPullRequest className={className} />;
+}
+
+export default function GitHubLinks({ links, taskStatus, readOnly = false, canLink, onLink, onUnlink, onComplete }: GitHubLinksProps) {
+    const [reference, setReference] = useState("");
+    const [isLinking, setIsLinking] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    if (links.length === 0 && (!canLink || readOnly)) return null;
+
+    const finished = links.filter(isLinkDone);
+    const suggestCompletion = !readOnly && taskStatus !== "done" && finished.length > 0;
+
+    const handleLink = async () => {
+        if (!reference.trim()) return;
+        setIsLinking(true);
+        setError(null);
+        try {
+            await onLink(reference.trim());
+            setReference("");
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to link");
+        } finally {
+            setIsLinking(false);
+        }
+    };
+
+    return (
+        <div className="space-y-2">
+            <label className="text-xs font-medium text-white/40 uppercase tracking-wider">GitHub</label>
+            {links.length > 0 && (
+                <div className="space-y-1">
+                    {links.map((link) => (
+                        <div key={link.number} className="group flex items-center gap-2 rounded-lg bg-white/5 px-3 py-2">
+                            <LinkIcon link={link} />
+                            <a
+                                href={link.url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="flex-1 truncate text-xs text-white/70 hover:text-white"
+                                title={link.title}
+                            >
+                                <span className="text-white/40">{getLinkLabel(link)}</span> {link.title}
+                            </a>
+                            {!readOnly && (
+                                <button
+                                    type="button"
+                                    onClick={() => onUnlink(link.number)}
+                                    className="p-0.5 rounded text-white/20 hover:text-white/60 hover:bg-white/10 transition-colors opacity-0 group-hover:opacity-100"
+                                    title="Unlink"
+                                >
+                                    <X className="h-3 w-3" />
+                                </button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+            {suggestCompletion && (
+                <div className="flex items-center justify-between gap-2 rounded-lg border border-purple-500/20 bg-purple-500/10 px-3 py-2">
+                    <p className="text-xs text-purple-200">
+                        {getLinkLabel(finished[0])} is {finished[0].state} - done with this task?
+                    </p>
+                    <button
+                        type="button"
+                        onClick={onComplete}
+                        className="flex-shrink-0 rounded px-2 py-1 text-xs font-medium text-purple-200 hover:bg-purple-500/20 transition-colors"
+                    >
+                        Mark done
+                    </button>
+                </div>
+            )}
+            {canLink && !readOnly && (
+                <div className="relative">
+                    <Link2 className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-white/20" />
+                    <input
+                        value={reference}
+                        onChange={(e) => setReference(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === "Enter") {
+                                e.preventDefault();
+                                handleLink();
+                            }
+                        }}
+                        placeholder="Link an issue or PR (#123)"
+                        disabled={isLinking}
+                        className="w-full rounded-lg bg-white/5 pl-10 pr-9 py-2.5 text-sm text-white placeholder-white/20 outline-none focus:ring-2 focus:ring-[var(--accent-blue)]"
+                    />
+                    {isLinking && <Loader2 className="absolute right-3 top-1/2 h-4 w-4 -translate-y-1/2 animate-spin text-white/40" />}
+                </div>
+            )}
+            {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+    );
+}
@@ -0,0 +1,167 @@
+/**
+ * GitHub Repo Modal
+ *
+ * The repository connected to a space. The owner connects one (Pro) or
+ * disconnects it; members only see which one it is.
+ */
+
+import { useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { X, Loader2, Github, ExternalLink } from "lucide-react";
+import { GitHubRepo } from "@/types";
+import { getRelativeTime } from "@/lib/timeUtils";
+import UpgradePrompt from "@/components/UpgradePrompt";
+
+interface GitHubRepoModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    githubRepo?: GitHubRepo | null;
+    isOwner: boolean;
+    hasIntegration: boolean; // The user's plan includes GitHub
+    onConnect: (repository: string | null) => Promise<void>;
+}
+
+export default function GitHubRepoModal({
+    isOpen,
+    onClose,
+    githubRepo,
+    isOwner,
+    hasIntegration,
+    onConnect,
+}: GitHubRepoModalProps) {
+    const [repository, setRepository] = useState("");
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleConnect = async (value: string | null) => {
+        setIsSaving(true);
+        setError(null);
+        try {
+            await onConnect(value);
+            setRepository("");
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to connect repository");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <>
+                    {/* Backdrop */}
+                    <motion.div
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        exit={{ opacity: 0 }}
+                        onClick={onClose}
+                        className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50"
+                    />
+
+                    {/* Modal */}
+                    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 pointer-events-none">
+                        <motion.div
+                            initial={{ opacity: 0, scale: 0.95, y: 10 }}
+                            animate={{ opacity: 1, scale: 1, y: 0 }}
+                            exit={{ opacity: 0, scale: 0.95, y: 10 }}
+                            className="pointer-events-auto w-full max-w-md bg-[#1a1a2e] rounded-2xl border border-white/10 shadow-2xl overflow-hidden"
+                        >
+                            {/* Header */}
+                            <div className="flex items-center justify-between p-6 border-b border-white/10">
+                                <div>
+                                    <h2 className="text-xl font-semibold text-white">GitHub</h2>
+                                    <p className="text-sm text-white/50">
+                                        Link tasks to issues and pull requests
+                                    </p>
+                                </div>
+                                <button
+                                    onClick={onClose}
+                                    className="flex h-8 w-8 items-center justify-center rounded-full hover:bg-white/5 text-white/40 hover:text-white/60 transition-colors"
+                                >
+                                    <X className="h-5 w-5" />
+                                </button>
+                            </div>
+
+                            <div className="space-y-4 p-6">
+                                {githubRepo ? (
+                                    <div className="flex items-center justify-between gap-3 rounded-lg bg-white/5 px-3 py-2">
+                                        <a
+                                            href={`https://github.com/${githubRepo.owner}/${githubRepo.repo}`}
+                                            target="_blank"
+                                            rel="noopener noreferrer"
+                                            className="flex min-w-0 items-center gap-2 text-sm text-white/80 hover:text-white"
+                                        >
+                                            <Github className="h-4 w-4 flex-shrink-0" />
+                                            <span className="truncate">{githubRepo.owner}/{githubRepo.repo}</span>
+                                            <ExternalLink className="h-3 w-3 flex-shrink-0 text-white/30" />
+                                        </a>
+                                        {isOwner && (
+                                            <button
+                                                onClick={() => handleConnect(null)}
+                                                disabled={isSaving}
+                                                className="rounded-lg px-2 py-1 text-xs text-white/40 hover:bg-red-500/10 hover:text-red-400 disabled:opacity-50 transition-colors"
+                                            >
+                                                Disconnect
+                                            </button>
+                                        )}
+                                    </div>
+                                ) : (
+                                    <p className="text-sm text-white/50">
+                                        {isOwner ? "No repository connected yet." : "The owner hasn't connected a repository."}
+                                    </p>
+                                )}
+
+                                {githubRepo?.lastSyncedAt && (
+                                    <p className="text-xs text-white/30">
+                                        Linked issues and PRs checked {getRelativeTime(githubRepo.lastSyncedAt)}
+                                    </p>
+                                )}
+
+                                {isOwner && !hasIntegration && (
+                                    <UpgradePrompt
+                                        message="Connect a repository to link tasks to issues and PRs."
+                                        feature="GitHub integration"
+                                    />
+                                )}
+
+                                {isOwner && hasIntegration && (
+                                    <form
+                                        onSubmit={(e) => {
+                                            e.preventDefault();
+                                            if (repository.trim()) handleConnect(repository.trim());
+                                        }}
+                                        className="flex gap-2"
+                                    >
+                                        <input
+                                            value={repository}
+                                            onChange={(e) => setRepository(e.target.value)}
+                                            placeholder="owner/repository"
+                                            className="min-w-0 flex-1 rounded-lg bg-white/5 px-3 py-2 text-sm text-white placeholder-white/30 outline-none focus:ring-2 focus:ring-[var(--accent-blue)]"
+                                        />
+                                        <button
+                                            type="submit"
+                                            disabled={isSaving || !repository.trim()}
+                                            className="flex items-center justify-center rounded-lg bg-blue-500 px-3 py-2 text-sm font-medium text-white hover:bg-blue-400 disabled:opacity-50 transition-colors"
+                                        >
+                                            {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : githubRepo ? "Change" : "Connect"}
+                                        </button>
+                                    </form>
+                                )}
+
+                                {error && <p className="text-sm text-red-400">{error}</p>}
+
+                                {githubRepo && (
+                                    <p className="text-xs text-white/40">
+                                        Mention &quot;PR #123&quot; or &quot;issue #45&quot; when adding or updating a task to link it.
+                                        Merged and closed items show up in the task&apos;s activity.
+                                    </p>
+                                )}
+                            </div>
+                        </motion.div>
+                    </div>
+                </>
+            )}
+        </AnimatePresence>
+    );
+}
@@ -0,0 +1,76 @@
+"use client";
+
+/**
+ * InvitationBanner Component
+ *
+ * Lists pending invitations to other people's spaces on the home page,
+ * with accept and decline actions.
+ */
+
+import { useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { Users, Loader2 } from "lucide-react";
+import { SpaceInvitation } from "@/types";
+
+interface InvitationBannerProps {
+    invitations: SpaceInvitation[];
+    onRespond: (invitation: SpaceInvitation, accept: boolean) => Promise<void>;
+}
+
+export default function InvitationBanner({ invitations, onRespond }: InvitationBannerProps) {
+    const [respondingId, setRespondingId] = useState<string | null>(null);
+
+    const handleRespond = async (invitation: SpaceInvitation, accept: boolean) => {
+        setRespondingId(invitation.id);
+        try {
+            await onRespond(invitation, accept);
+        } finally {
+            setRespondingId(null);
+        }
+    };
+
+    return (
+        <AnimatePresence>
+            {invitations.map((invitation) => (
+                <motion.div
+                    key={invitation.id}
+                    initial={{ opacity: 0, y: -10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, y: -10 }}
+                    className="mb-4 flex items-center justify-between gap-4 rounded-2xl border border-blue-500/20 bg-blue-500/10 px-4 py-3"
+                >
+                    <div className="flex min-w-0 items-center gap-3">
+                        <Users className="h-5 w-5 flex-shrink-0 text-blue-400" />
+                        <p className="truncate text-sm text-blue-100">
+                            {invitation.invitedByName || "Someone"} invited you to{" "}
+                            <span className="font-medium text-white">{invitation.spaceName}</span> as{" "}
+                            {invitation.role === "editor" ? "an editor" : "a viewer"}
+                        </p>
+                    </div>
+                    <div className="flex flex-shrink-0 items-center gap-2">
+                        {respondingId === invitation.id ? (
+                            <Loader2 className="h-4 w-4 animate-spin text-blue-300" />
+                        ) : (
+                            <>
+                                <button
+                                    onClick={() => handleRespond(invitation, false)}
+                                    disabled={!!respondingId}
+                                    className="rounded-lg px-3 py-1.5 text-sm text-white/60 hover:bg-white/10 hover:text-white disabled:opacity-50 transition-colors"
+                                >
+                                    Decline
+                                </button>
+                                <button
+                                    onClick={() => handleRespond(invitation, true)}
+                                    disabled={!!respondingId}
+                                    className="rounded-lg bg-blue-500 px-3 py-1.5 text-sm font-medium text-white hover:bg-blue-400 disabled:opacity-50 transition-colors"
+                                >
+                                    Accept
+                                </button>
+                            </>
+                        )}
+                    </div>
+                </motion.div>
+            ))}
+        </AnimatePresence>
+    );
+}
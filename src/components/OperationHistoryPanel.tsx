@@ -0,0 +1,89 @@
+/**
+ * Operation History Panel
+ *
+ * Dropdown listing the AI changes made in this session. The most recent change
+ * can be undone and the most recently undone one redone.
+ */
+
+import { motion, AnimatePresence } from "framer-motion";
+import { Mic, Redo2, Type, Undo2 } from "lucide-react";
+import { TaskOperation } from "@/types";
+import { getRelativeTime } from "@/lib/timeUtils";
+
+interface OperationHistoryPanelProps {
+    isOpen: boolean;
+    history: TaskOperation[];
+    undone: TaskOperation[];
+    onUndo: () => void;
+    onRedo: () => void;
+    disabled?: boolean;
+}
+
+function OperationRow({ operation, muted }: { operation: TaskOperation; muted?: boolean }) {
+    const SourceIcon = operation.source === "voice" ? Mic : Type;
+    return (
+        <li className={`flex items-start gap-2 px-3 py-2 ${muted ? "text-white/30 line-through" : "text-white/70"}`}>
+            <SourceIcon className="h-3.5 w-3.5 mt-0.5 flex-shrink-0 text-white/30" />
+            <div className="min-w-0">
+                <p className="truncate text-sm">{operation.summary}</p>
+                <p className="text-[11px] text-white/30">{getRelativeTime(operation.timestamp)}</p>
+            </div>
+        </li>
+    );
+}
+
+export default function OperationHistoryPanel({
+    isOpen,
+    history,
+    undone,
+    onUndo,
+    onRedo,
+    disabled = false,
+}: OperationHistoryPanelProps) {
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <motion.div
+                    initial={{ opacity: 0, y: -6 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, y: -6 }}
+                    className="absolute right-0 top-full z-40 mt-2 w-80 overflow-hidden rounded-xl border border-white/10 bg-[#1a1a1a]/95 shadow-2xl backdrop-blur-xl"
+                >
+                    <div className="flex items-center justify-between border-b border-white/10 px-3 py-2">
+                        <span className="text-xs font-medium uppercase tracking-wider text-white/40">AI changes</span>
+                        <div className="flex items-center gap-1">
+                            <button
+                                onClick={onUndo}
+                                disabled={disabled || history.length === 0}
+                                className="flex items-center gap-1 rounded-lg px-2 py-1 text-xs text-white/70 hover:bg-white/10 disabled:opacity-30 transition-colors"
+                            >
+                                <Undo2 className="h-3.5 w-3.5" />
+                                Undo
+                            </button>
+                            <button
+                                onClick={onRedo}
+                                disabled={disabled || undone.length === 0}
+                                className="flex items-center gap-1 rounded-lg px-2 py-1 text-xs text-white/70 hover:bg-white/10 disabled:opacity-30 transition-colors"
+                            >
+                                <Redo2 className="h-3.5 w-3.5" />
+                                Redo
+                            </button>
+                        </div>
+                    </div>
+                    {history.length === 0 && undone.length === 0 ? (
+                        <p className="px-3 py-4 text-center text-sm text-white/30">No AI changes yet</p>
+                    ) : (
+                        <ul className="max-h-72 overflow-y-auto py-1">
+                            {undone.slice().reverse().map(op => (
+                                <OperationRow key={op.id} operation={op} muted />
+                            ))}
+                            {history.map(op => (
+                                <OperationRow key={op.id} operation={op} />
+                            ))}
+                        </ul>
+                    )}
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+}
@@ -0,0 +1,128 @@
+"use client";
+
+/**
+ * PlanPanel Component
+ *
+ * The user's plan on the account page: upgrade to Pro through checkout, or
+ * manage the subscription in the billing portal. After checkout the plan is
+ * re-read until the payment webhook has upgraded it.
+ */
+
+import { useEffect, useState } from "react";
+import { AlertTriangle, CreditCard, Loader2 } from "lucide-react";
+import { UserPlan } from "@/types";
+import { openBillingPortal, startCheckout } from "@/lib/services/billingService";
+import { ApiError } from "@/lib/apiClient";
+import { SparkleIcon } from "@/components/icons/CustomIcons";
+
+// How often, and how many times, the plan is re-read after returning from checkout
+const CHECKOUT_POLL_MS = 2000;
+const CHECKOUT_POLL_ATTEMPTS = 10;
+
+interface PlanPanelProps {
+    userId: string;
+    plan: UserPlan;
+    onRefresh: () => Promise<void>;
+}
+
+function getErrorMessage(err: unknown, fallback: string): string {
+    return err instanceof ApiError && err.statusCode && err.statusCode < 500 ? err.message : fallback;
+}
+
+function formatDate(timestamp: number): string {
+    return new Date(timestamp).toLocaleDateString("en-US", { month: "long", day: "numeric", year: "numeric" });
+}
+
+export default function PlanPanel({ userId, plan, onRefresh }: PlanPanelProps) {
+    const [isRedirecting, setIsRedirecting] = useState(false);
+    const [isConfirming, setIsConfirming] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const isPro = plan.tier === "pro";
+
+    // Back from checkout - the webhook usually lands within a few seconds
+    useEffect(() => {
+        if (new URLSearchParams(window.location.search).get("checkout") !== "success") return;
+        window.history.replaceState(null, "", window.location.pathname);
+        if (isPro) return;
+
+        let attempts = 0;
+        setIsConfirming(true);
+        const interval = setInterval(() => {
+            attempts++;
+            onRefresh();
+            if (attempts >= CHECKOUT_POLL_ATTEMPTS) {
+                clearInterval(interval);
+                setIsConfirming(false);
+            }
+        }, CHECKOUT_POLL_MS);
+
+        return () => clearInterval(interval);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, []);
+
+    useEffect(() => {
+        if (isPro) setIsConfirming(false);
+    }, [isPro]);
+
+    const handleBilling = async () => {
+        setIsRedirecting(true);
+        setError(null);
+        try {
+            await (isPro ? openBillingPortal(userId) : startCheckout(userId)); // Leaves the page
+        } catch (err) {
+            console.error("Failed to open billing:", err);
+            setError(getErrorMessage(err, "Couldn't open billing. Please try again."));
+            setIsRedirecting(false);
+        }
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2 text-sm font-medium text-white">
+                    {isPro ? <SparkleIcon className="h-4 w-4 text-amber-400" /> : <CreditCard className="h-4 w-4 text-blue-400" />}
+                    {isPro ? "Pro plan" : "Free plan"}
+                </div>
+                <button
+                    onClick={handleBilling}
+                    disabled={isRedirecting || isConfirming}
+                    className={isPro
+                        ? "rounded-lg bg-white/10 px-3 py-2 text-sm font-medium text-white/80 hover:bg-white/15 disabled:opacity-50 transition-colors"
+                        : "rounded-lg bg-gradient-to-r from-amber-500 to-orange-500 px-3 py-2 text-sm font-semibold text-black hover:from-amber-400 hover:to-orange-400 disabled:opacity-50 transition-all"}
+                >
+                    {isRedirecting ? <Loader2 className="h-4 w-4 animate-spin" /> : isPro ? "Manage billing" : "Upgrade to Pro"}
+                </button>
+            </div>
+
+            {isConfirming && (
+                <p className="flex items-center gap-2 text-xs text-white/50">
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                    Confirming your payment...
+                </p>
+            )}
+
+            {isPro && plan.subscriptionStatus === "past_due" && (
+                <p className="flex items-start gap-2 rounded-lg bg-amber-500/10 px-3 py-2 text-xs text-amber-200">
+                    <AlertTriangle className="mt-0.5 h-3.5 w-3.5 flex-shrink-0" />
+                    Your last payment failed. Update your payment method to keep Pro.
+                </p>
+            )}
+
+            {isPro && plan.currentPeriodEnd && (
+                <p className="text-xs text-white/40">
+                    {plan.cancelAtPeriodEnd
+                        ? `Pro ends on ${formatDate(plan.currentPeriodEnd)}.`
+                        : `Renews on ${formatDate(plan.currentPeriodEnd)}.`}
+                </p>
+            )}
+
+            {!isPro && plan.downgradedAt && (
+                <p className="text-xs text-white/40">
+                    Your Pro subscription ended on {formatDate(plan.downgradedAt)}.
+                </p>
+            )}
+
+            {error && <p className="text-sm text-red-300">{error}</p>}
+        </div>
+    );
+}
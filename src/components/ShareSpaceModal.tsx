@@ -0,0 +1,211 @@
+/**
+ * Share Space Modal
+ *
+ * Members of a space with their roles. The owner invites people by email,
+ * changes roles, removes members and revokes pending invitations; everyone
+ * else sees the member list and can leave the space.
+ */
+
+import { useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { X, Loader2, Mail, LogOut, UserMinus } from "lucide-react";
+import { SpaceInvitation, SpaceMember } from "@/types";
+import { getMemberName } from "@/lib/memberUtils";
+
+interface ShareSpaceModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    members: SpaceMember[];
+    invitations: SpaceInvitation[];
+    currentUserId: string;
+    isOwner: boolean;
+    onInvite: (email: string, role: SpaceInvitation["role"]) => Promise<void>;
+    onChangeRole: (memberId: string, role: SpaceInvitation["role"]) => Promise<void>;
+    onRemove: (memberId: string) => Promise<void>;
+    onRevoke: (invitationId: string) => Promise<void>;
+}
+
+export default function ShareSpaceModal({
+    isOpen,
+    onClose,
+    members,
+    invitations,
+    currentUserId,
+    isOwner,
+    onInvite,
+    onChangeRole,
+    onRemove,
+    onRevoke,
+}: ShareSpaceModalProps) {
+    const [email, setEmail] = useState("");
+    const [role, setRole] = useState<SpaceInvitation["role"]>("editor");
+    const [isInviting, setIsInviting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleInvite = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!email.trim()) return;
+
+        setIsInviting(true);
+        setError(null);
+        try {
+            await onInvite(email.trim(), role);
+            setEmail("");
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to send invitation");
+        } finally {
+            setIsInviting(false);
+        }
+    };
+
+    const runAction = async (action: () => Promise<void>) => {
+        setError(null);
+        try {
+            await action();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Something went wrong");
+        }
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <>
+                    {/* Backdrop */}
+                    <motion.div
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        exit={{ opacity: 0 }}
+                        onClick={onClose}
+                        className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50"
+                    />
+
+                    {/* Modal */}
+                    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 pointer-events-none">
+                        <motion.div
+                            initial={{ opacity: 0, scale: 0.95, y: 10 }}
+                            animate={{ opacity: 1, scale: 1, y: 0 }}
+                            exit={{ opacity: 0, scale: 0.95, y: 10 }}
+                            className="pointer-events-auto w-full max-w-md bg-[#1a1a2e] rounded-2xl border border-white/10 shadow-2xl overflow-hidden"
+                        >
+                            {/* Header */}
+                            <div className="flex items-center justify-between p-6 border-b border-white/10">
+                                <div>
+                                    <h2 className="text-xl font-semibold text-white">Share space</h2>
+                                    <p className="text-sm text-white/50">
+                                        Editors can change tasks, viewers can only read them
+                                    </p>
+                                </div>
+                                <button
+                                    onClick={onClose}
+                                    className="flex h-8 w-8 items-center justify-center rounded-full hover:bg-white/5 text-white/40 hover:text-white/60 transition-colors"
+                                >
+                                    <X className="h-5 w-5" />
+                                </button>
+                            </div>
+
+                            {/* Invite */}
+                            {isOwner && (
+                                <form onSubmit={handleInvite} className="flex gap-2 border-b border-white/10 p-4">
+                                    <input
+                                        type="email"
+                                        value={email}
+                                        onChange={(e) => setEmail(e.target.value)}
+                                        placeholder="Email address"
+                                        className="min-w-0 flex-1 rounded-lg bg-white/5 px-3 py-2 text-sm text-white placeholder-white/30 outline-none focus:ring-2 focus:ring-[var(--accent-blue)]"
+                                    />
+                                    <select
+                                        value={role}
+                                        onChange={(e) => setRole(e.target.value as SpaceInvitation["role"])}
+                                        className="rounded-lg bg-white/5 px-2 py-2 text-sm text-white outline-none [color-scheme:dark]"
+                                    >
+                                        <option value="editor">Editor</option>
+                                        <option value="viewer">Viewer</option>
+                                    </select>
+                                    <button
+                                        type="submit"
+                                        disabled={isInviting || !email.trim()}
+                                        className="flex items-center justify-center rounded-lg bg-blue-500 px-3 py-2 text-sm font-medium text-white hover:bg-blue-400 disabled:opacity-50 transition-colors"
+                                    >
+                                        {isInviting ? <Loader2 className="h-4 w-4 animate-spin" /> : "Invite"}
+                                    </button>
+                                </form>
+                            )}
+
+                            {error && (
+                                <p className="px-6 pt-3 text-sm text-red-400">{error}</p>
+                            )}
+
+                            {/* Members and pending invitations */}
+                            <div className="max-h-96 overflow-y-auto p-3">
+                                <ul className="space-y-1">
+                                    {members.map((member) => (
+                                        <li
+                                            key={member.userId}
+                                            className="flex items-center justify-between gap-3 rounded-lg px-3 py-2 hover:bg-white/5"
+                                        >
+                                            <div className="min-w-0">
+                                                <p className="truncate text-sm text-white/80">
+                                                    {getMemberName(member)}
+                                                    {member.userId === currentUserId && <span className="text-white/30"> (you)</span>}
+                                                </p>
+                                                {member.email && (
+                                                    <p className="truncate text-[11px] text-white/30">{member.email}</p>
+                                                )}
+                                            </div>
+                                            <div className="flex flex-shrink-0 items-center gap-1">
+                                                {isOwner && member.role !== "owner" ? (
+                                                    <select
+                                                        value={member.role}
+                                                        onChange={(e) => runAction(() => onChangeRole(member.userId, e.target.value as SpaceInvitation["role"]))}
+                                                        className="rounded-lg bg-white/5 px-2 py-1 text-xs text-white/70 outline-none [color-scheme:dark]"
+                                                    >
+                                                        <option value="editor">Editor</option>
+                                                        <option value="viewer">Viewer</option>
+                                                    </select>
+                                                ) : (
+                                                    <span className="px-2 text-xs capitalize text-white/40">{member.role}</span>
+                                                )}
+                                                {member.role !== "owner" && (isOwner || member.userId === currentUserId) && (
+                                                    <button
+                                                        onClick={() => runAction(() => onRemove(member.userId))}
+                                                        className="rounded-lg p-2 text-white/40 hover:bg-red-500/10 hover:text-red-400 transition-colors"
+                                                        title={member.userId === currentUserId ? "Leave space" : "Remove member"}
+                                                    >
+                                                        {member.userId === currentUserId
+                                                            ? <LogOut className="h-4 w-4" />
+                                                            : <UserMinus className="h-4 w-4" />}
+                                                    </button>
+                                                )}
+                                            </div>
+                                        </li>
+                                    ))}
+                                    {isOwner && invitations.map((invitation) => (
+                                        <li
+                                            key={invitation.id}
+                                            className="flex items-center justify-between gap-3 rounded-lg px-3 py-2 hover:bg-white/5"
+                                        >
+                                            <div className="flex min-w-0 items-center gap-2">
+                                                <Mail className="h-4 w-4 flex-shrink-0 text-white/30" />
+                                                <div className="min-w-0">
+                                                    <p className="truncate text-sm text-white/60">{invitation.email}</p>
+                                                    <p className="text-[11px] capitalize text-white/30">Invited as {invitation.role}</p>
+                                                </div>
+                                            </div>
+                                            <button
+                                                onClick={() => runAction(() => onRevoke(invitation.id))}
+                                                className="rounded-lg px-2 py-1 text-xs text-white/40 hover:bg-red-500/10 hover:text-red-400 transition-colors"
+                                            >
+                                                Revoke
+                                            </button>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        </motion.div>
+                    </div>
+                </>
+            )}
+        </AnimatePresence>
+    );
+}
@@ -1,8 +1,9 @@
 import { Space } from "@/types";
 import { motion } from "framer-motion";
-import { Trash2, Pencil } from "lucide-react";
+import { Trash2, Pencil, Archive, ArchiveRestore, Lock } from "lucide-react";
 import { PlusIcon, FolderIcon } from "@/components/icons/CustomIcons";
 import clsx from "clsx";
+import { getMemberName, getSpaceMembers } from "@/lib/memberUtils";
 
 interface SpaceCardProps {
     space?: Space;
@@ -10,9 +11,10 @@ interface SpaceCardProps {
     onClick?: () => void;
     onDelete?: (e: React.MouseEvent) => void;
     onEdit?: (e: React.MouseEvent) => void;
+    onArchive?: (e: React.MouseEvent) => void; // Archives the space, or unarchives an archived one
 }
 
-export default function SpaceCard({ space, isNew, onClick, onDelete, onEdit }: SpaceCardProps) {
+export default function SpaceCard({ space, isNew, onClick, onDelete, onEdit, onArchive }: SpaceCardProps) {
     if (isNew) {
         return (
             <motion.div
@@ -77,6 +79,7 @@ export default function SpaceCard({ space, isNew, onClick, onDelete, onEdit }: S
     };
 
     const currentTheme = themeStyles[space.theme] || themeStyles.default;
+    const members = getSpaceMembers(space);
 
     return (
         <motion.div
@@ -91,7 +94,8 @@ export default function SpaceCard({ space, isNew, onClick, onDelete, onEdit }: S
             className={clsx(
                 "glass-card relative flex h-40 w-full cursor-pointer flex-col justify-between rounded-2xl p-5 transition-all hover:shadow-2xl",
                 currentTheme.border,
-                `hover:${currentTheme.glow}`
+                `hover:${currentTheme.glow}`,
+                space.archivedAt && "opacity-60"
             )}
         >
             {/* Theme gradient background */}
@@ -111,7 +115,7 @@ export default function SpaceCard({ space, isNew, onClick, onDelete, onEdit }: S
                 <div className="flex justify-between items-start">
                     <h3 className="text-xl font-bold text-white">{space.name}</h3>
                     <div className="flex gap-1">
-                        {onEdit && (
+                        {onEdit && !space.archivedAt && (
                             <motion.button
                                 onClick={(e) => {
                                     e.stopPropagation();
@@ -125,6 +129,21 @@ export default function SpaceCard({ space, isNew, onClick, onDelete, onEdit }: S
                                 <Pencil className="h-4 w-4" />
                             </motion.button>
                         )}
+                        {onArchive && (
+                            <motion.button
+                                onClick={(e) => {
+                                    e.stopPropagation();
+                                    onArchive(e);
+                                }}
+                                whileHover={{ scale: 1.1 }}
+                                whileTap={{ scale: 0.95 }}
+                                transition={{ duration: 0.2, ease: "easeOut" }}
+                                className="p-1.5 rounded-full hover:bg-white/10 text-white/30 hover:text-white transition-colors"
+                                title={space.archivedAt ? "Unarchive" : "Archive"}
+                            >
+                                {space.archivedAt ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                            </motion.button>
+                        )}
                         {onDelete && (
                             <motion.button
                                 onClick={(e) => {
@@ -141,20 +160,29 @@ export default function SpaceCard({ space, isNew, onClick, onDelete, onEdit }: S
                         )}
                     </div>
                 </div>
-                <p className="text-xs text-white/50">Updated just now</p>
+                {space.archivedAt ? (
+                    <p className="flex items-center gap-1 text-xs text-white/50">
+                        <Lock className="h-3 w-3" />
+                        Archived · read-only
+                    </p>
+                ) : (
+                    <p className="text-xs text-white/50">Updated just now</p>
+                )}
             </div>
 
             <div className="relative z-10 flex items-center justify-between">
                 <div className="flex -space-x-2">
-                    {/* Placeholder for task count or avatars */}
-                    <motion.div 
-                        whileHover={{ scale: 1.1 }}
-                        className="h-6 w-6 rounded-full bg-white/10 ring-2 ring-black"
-                    />
-                    <motion.div 
-                        whileHover={{ scale: 1.1 }}
-                        className="h-6 w-6 rounded-full bg-white/10 ring-2 ring-black"
-                    />
+                    {/* Member avatars (just the owner until the space is shared) */}
+                    {members.slice(0, 4).map((member) => (
+                        <motion.div
+                            key={member.userId}
+                            whileHover={{ scale: 1.1 }}
+                            title={getMemberName(member)}
+                            className="flex h-6 w-6 items-center justify-center rounded-full bg-white/10 text-[10px] font-medium uppercase text-white/60 ring-2 ring-black"
+                        >
+                            {getMemberName(member).charAt(0)}
+                        </motion.div>
+                    ))}
                 </div>
 
                 {/* Progress Indicator Bubble */}
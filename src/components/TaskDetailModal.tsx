@@ -1,23 +1,77 @@
-import { Task } from "@/types";
+import { ChecklistItem, FieldConflict, RecurrenceRule, SpaceMember, Task } from "@/types";
 import { motion, AnimatePresence } from "framer-motion";
-import { X, Check, Trash2, Calendar, Flag, AlignLeft, CheckCircle, FileText, Zap, Activity, Lightbulb, Send } from "lucide-react";
+import { X, Check, Trash2, Calendar, Flag, AlignLeft, CheckCircle, FileText, Zap, Activity, Lightbulb, Send, Tag, ListChecks, Plus, Lock, AlertTriangle, Repeat, User } from "lucide-react";
 import { useState, useEffect } from "react";
 import { getRelativeTime } from "@/lib/timeUtils";
 import { apiPost, ApiError } from "@/lib/apiClient";
 import { useAuth } from "@/context/AuthContext";
+import { normalizeTag, normalizeTags } from "@/lib/tagUtils";
+import { createChecklistItem, getChecklistProgress } from "@/lib/checklistUtils";
+import { getOpenBlockers, wouldCreateCycle } from "@/lib/dependencyUtils";
+import { describeRecurrence } from "@/lib/recurrenceUtils";
+import { getMemberName } from "@/lib/memberUtils";
+import { pickFields, valuesEqual } from "@/lib/conflictUtils";
+import { useTaskTimeline } from "@/lib/hooks/useTaskTimeline";
+import ConflictResolver from "@/components/ConflictResolver";
+import GitHubLinks from "@/components/GitHubLinks";
 
 import ReactMarkdown from "react-markdown";
 
+// Fields edited in the form - a change to one of these elsewhere is pointed out while editing
+const FORM_FIELDS: (keyof Task)[] = [
+    "title", "description", "dueDate", "dueTime", "priority", "status",
+    "tags", "checklist", "blockedBy", "recurrence", "assigneeId",
+];
+
+/**
+ * Form values of a task - edits are diffed against the task as it was when opened
+ */
+function getFormValues(task: Task) {
+    // Safely parse due date - handle invalid dates
+    let dueDate = "";
+    if (task.dueDate) {
+        try {
+            const date = new Date(task.dueDate);
+            if (!isNaN(date.getTime())) {
+                dueDate = date.toISOString().split('T')[0];
+            }
+        } catch {
+            dueDate = "";
+        }
+    }
+
+    return {
+        title: task.title || "",
+        description: task.description || "",
+        dueDate,
+        dueTime: task.dueTime || "",
+        priority: task.priority || "medium",
+        status: task.status,
+        tags: task.tags || [],
+        checklist: task.checklist || [],
+        blockedBy: task.blockedBy || [],
+        repeatFrequency: (task.recurrence?.frequency || "") as RecurrenceRule["frequency"] | "",
+        assigneeId: task.assigneeId || "",
+    };
+}
+
 interface TaskDetailModalProps {
     task: Task | null;
     isOpen: boolean;
     onClose: () => void;
-    onUpdate: (taskId: string, updates: Partial<Task>) => void;
+    // With base values (the edited fields when the modal opened) the save is merged field
+    // by field and resolves to the fields that were changed elsewhere in the meantime
+    onUpdate: (taskId: string, updates: Partial<Task>, base?: Partial<Task>) => Promise<FieldConflict[] | null | void> | void;
     onDelete: (taskId: string) => void;
     userId?: string; // Required for AI enhancement
+    tasks?: Task[]; // All tasks in the space - used for dependencies
+    members?: SpaceMember[]; // Members of a shared space - used for the assignee
+    readOnly?: boolean; // Viewers of a shared space can't change tasks
+    // Set when the space has a connected repository and the user's plan includes GitHub
+    onLinkGitHub?: (taskId: string, reference: string) => Promise<void>;
 }
 
-export default function TaskDetailModal({ task, isOpen, onClose, onUpdate, onDelete, userId }: TaskDetailModalProps) {
+export default function TaskDetailModal({ task, isOpen, onClose, onUpdate, onDelete, userId, tasks = [], members = [], readOnly = false, onLinkGitHub }: TaskDetailModalProps) {
     const { user } = useAuth();
     const [title, setTitle] = useState("");
     const [description, setDescription] = useState("");
@@ -25,33 +79,57 @@ export default function TaskDetailModal({ task, isOpen, onClose, onUpdate, onDel
     const [dueDate, setDueDate] = useState("");
     const [dueTime, setDueTime] = useState("");
     const [priority, setPriority] = useState<"low" | "medium" | "high">("medium");
-    const [status, setStatus] = useState<"todo" | "done">("todo");
+    const [status, setStatus] = useState<Task["status"]>("todo");
+    const [tags, setTags] = useState<string[]>([]);
+    const [tagInput, setTagInput] = useState("");
+    const [checklist, setChecklist] = useState<ChecklistItem[]>([]);
+    const [newChecklistItem, setNewChecklistItem] = useState("");
+    const [blockedBy, setBlockedBy] = useState<string[]>([]);
+    const [showBlockerWarning, setShowBlockerWarning] = useState(false);
+    const [repeatFrequency, setRepeatFrequency] = useState<RecurrenceRule["frequency"] | "">("");
+    const [assigneeId, setAssigneeId] = useState("");
     const [improvementAnswer, setImprovementAnswer] = useState("");
     const [answeringIndex, setAnsweringIndex] = useState<number | null>(null);
     const [isSubmittingAnswer, setIsSubmittingAnswer] = useState(false);
 
+    // The task as it was when opened - saving only sends the fields changed since
+    const [baseTask, setBaseTask] = useState<Task | null>(null);
+    const [conflicts, setConflicts] = useState<FieldConflict[]>([]);
+    const [isSaving, setIsSaving] = useState(false);
+    // Loaded page by page from the task's timeline subcollection
+    const timeline = useTaskTimeline({ task: isOpen ? task : null });
+
+    // Reset the form when a task opens. Changes made elsewhere to the open task don't
+    // replace what's being typed - they're merged when saving.
     useEffect(() => {
-        if (task) {
-            setTitle(task.title || "");
-            setDescription(task.description || "");
-            // Safely parse due date - handle invalid dates
-            let parsedDate = "";
-            if (task.dueDate) {
-                try {
-                    const date = new Date(task.dueDate);
-                    if (!isNaN(date.getTime())) {
-                        parsedDate = date.toISOString().split('T')[0];
-                    }
-                } catch {
-                    parsedDate = "";
-                }
-            }
-            setDueDate(parsedDate);
-            setDueTime(task.dueTime || "");
-            setPriority(task.priority || "medium");
-            setStatus(task.status as "todo" | "done");
+        if (!task) {
+            setBaseTask(null);
+            return;
         }
-    }, [task]);
+        if (task.id === baseTask?.id) return;
+
+        const values = getFormValues(task);
+        setTitle(values.title);
+        setDescription(values.description);
+        setDueDate(values.dueDate);
+        setDueTime(values.dueTime);
+        setPriority(values.priority);
+        setStatus(values.status);
+        setTags(values.tags);
+        setTagInput("");
+        setChecklist(values.checklist);
+        setNewChecklistItem("");
+        setBlockedBy(values.blockedBy);
+        setShowBlockerWarning(false);
+        setRepeatFrequency(values.repeatFrequency);
+        setAssigneeId(values.assigneeId);
+        setBaseTask(task);
+        setConflicts([]);
+    }, [task, baseTask?.id]);
+
+    const changedElsewhere = !!task && !!baseTask && task.id === baseTask.id &&
+        FORM_FIELDS.some(field => !valuesEqual(task[field], baseTask[field]));
+    const memberNames = Object.fromEntries(members.map(m => [m.userId, getMemberName(m)]));
 
     const handleAnswerImprovement = async (questionIndex: number) => {
         if (!task || !improvementAnswer.trim() || !user?.uid) return;
@@ -85,8 +163,9 @@ export default function TaskDetailModal({ task, isOpen, onClose, onUpdate, onDel
                 suggestedImprovements: remainingQuestions.length > 0 ? remainingQuestions : undefined,
             });
             
-            // Update local state
+            // Update local state - the new description is the base for later edits
             setDescription(updatedDescription);
+            setBaseTask(prev => prev && { ...prev, description: updatedDescription });
             setImprovementAnswer("");
             setAnsweringIndex(null);
         } catch (error) {
@@ -103,6 +182,7 @@ export default function TaskDetailModal({ task, isOpen, onClose, onUpdate, onDel
             });
             
             setDescription(fallbackDescription);
+            setBaseTask(prev => prev && { ...prev, description: fallbackDescription });
             setImprovementAnswer("");
             setAnsweringIndex(null);
             
@@ -126,18 +206,116 @@ export default function TaskDetailModal({ task, isOpen, onClose, onUpdate, onDel
         });
     };
 
-    const handleSave = () => {
-        if (task) {
-            onUpdate(task.id, {
-                title,
-                description,
-                dueDate: dueDate ? new Date(dueDate).toISOString() : undefined,
-                dueTime: dueTime || undefined,
-                priority,
-                status
-            });
+    const handleUnlinkGitHub = (number: number) => {
+        if (!task) return;
+        onUpdate(task.id, {
+            githubLinks: (task.githubLinks || []).filter(link => link.number !== number),
+        });
+    };
+
+    const handleAddTag = () => {
+        const tag = normalizeTag(tagInput);
+        if (tag && !tags.includes(tag)) {
+            setTags([...tags, tag]);
+        }
+        setTagInput("");
+    };
+
+    const handleAddChecklistItem = () => {
+        if (!newChecklistItem.trim()) return;
+        setChecklist([...checklist, createChecklistItem(newChecklistItem)]);
+        setNewChecklistItem("");
+    };
+
+    const handleToggleChecklistItem = (itemId: string) => {
+        setChecklist(checklist.map(item => {
+            if (item.id !== itemId) return item;
+            // Firestore rejects undefined, so drop completedAt rather than clearing it
+            return item.done
+                ? { id: item.id, title: item.title, done: false }
+                : { ...item, done: true, completedAt: Date.now() };
+        }));
+    };
+
+    const openBlockers = getOpenBlockers({ blockedBy }, tasks);
+    const blockingTasks = tasks.filter(t => task?.blocks?.includes(t.id));
+    // Tasks that can be added as blockers without creating a cycle
+    const blockerCandidates = task
+        ? tasks.filter(t => !blockedBy.includes(t.id) && !wouldCreateCycle(task.id, t.id, tasks))
+        : [];
+
+    const handleToggleDone = () => {
+        if (status === "done") {
+            setStatus("todo");
+            return;
+        }
+        // Completing with open blockers needs a second click
+        if (openBlockers.length > 0 && !showBlockerWarning) {
+            setShowBlockerWarning(true);
+            return;
+        }
+        setShowBlockerWarning(false);
+        setStatus("done");
+    };
+
+    // Fields the user changed since the task was opened, as task updates
+    const getEdits = (): Partial<Task> => {
+        if (!baseTask) return {};
+        const initial = getFormValues(baseTask);
+        const edits: Partial<Task> = {};
+
+        if (title !== initial.title) edits.title = title;
+        if (description !== initial.description) edits.description = description;
+        if (dueDate && dueDate !== initial.dueDate) edits.dueDate = new Date(dueDate).toISOString();
+        if (dueTime && dueTime !== initial.dueTime) edits.dueTime = dueTime;
+        if (priority !== initial.priority) edits.priority = priority;
+        if (status !== initial.status) edits.status = status;
+        // Include a tag that was typed but not yet added
+        const finalTags = normalizeTags([...tags, tagInput]);
+        if (!valuesEqual(finalTags, initial.tags)) edits.tags = finalTags;
+        if (!valuesEqual(checklist, initial.checklist)) edits.checklist = checklist;
+        // Only rewrite dependencies when they changed
+        if (blockedBy.join() !== initial.blockedBy.join()) edits.blockedBy = blockedBy;
+        // Keep the existing rule (days, end date) unless the frequency changed
+        if (repeatFrequency !== initial.repeatFrequency) {
+            edits.recurrence = repeatFrequency ? { frequency: repeatFrequency, interval: 1 } : null;
+        }
+        if (assigneeId !== initial.assigneeId) edits.assigneeId = assigneeId || null;
+
+        return edits;
+    };
+
+    const handleSave = async () => {
+        if (!task || !baseTask) return;
+
+        const edits = getEdits();
+        if (Object.keys(edits).length === 0) {
             onClose();
+            return;
         }
+
+        setIsSaving(true);
+        try {
+            const result = await onUpdate(task.id, edits, pickFields(baseTask, Object.keys(edits) as (keyof Task)[]));
+            if (result && result.length > 0) {
+                setConflicts(result);
+                return;
+            }
+            onClose();
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleResolveConflict = async (conflict: FieldConflict, useMine: boolean) => {
+        if (!task) return;
+        if (useMine) {
+            await onUpdate(task.id, { [conflict.field]: conflict.mine } as Partial<Task>);
+        }
+
+        const remaining = conflicts.filter(c => c.field !== conflict.field);
+        setConflicts(remaining);
+        if (remaining.length === 0) onClose();
     };
 
     const handleDelete = () => {
@@ -179,19 +357,21 @@ export default function TaskDetailModal({ task, isOpen, onClose, onUpdate, onDel
                             <div className="flex items-center justify-between border-b border-white/10 p-6">
                                 <div className="flex items-center gap-3">
                                     <span className="text-xs font-mono text-white/30 uppercase">Task-{task.id.slice(-4)}</span>
-                                    <div className={`px-2 py-0.5 rounded text-xs font-medium uppercase tracking-wider ${status === 'done' ? 'bg-green-500/20 text-green-400' : 'bg-white/10 text-white/50'}`}>
-                                        {status === 'done' ? 'Done' : 'To Do'}
+                                    <div className={`px-2 py-0.5 rounded text-xs font-medium uppercase tracking-wider ${status === 'done' ? 'bg-green-500/20 text-green-400' : status === 'blocked' ? 'bg-amber-500/20 text-amber-400' : 'bg-white/10 text-white/50'}`}>
+                                        {status === 'done' ? 'Done' : status === 'blocked' ? 'Blocked' : status === 'in-progress' ? 'In Progress' : 'To Do'}
                                     </div>
                                 </div>
                                 <div className="flex items-center gap-2">
-                                    <motion.button 
-                                        onClick={handleDelete} 
-                                        whileHover={{ scale: 1.1, rotate: 5 }}
-                                        whileTap={{ scale: 0.95 }}
-                                        className="p-2 rounded-lg text-white/30 hover:bg-red-500/10 hover:text-red-400 transition-colors"
-                                    >
-                                        <Trash2 className="h-5 w-5" />
-                                    </motion.button>
+                                    {!readOnly && (
+                                        <motion.button 
+                                            onClick={handleDelete} 
+                                            whileHover={{ scale: 1.1, rotate: 5 }}
+                                            whileTap={{ scale: 0.95 }}
+                                            className="p-2 rounded-lg text-white/30 hover:bg-red-500/10 hover:text-red-400 transition-colors"
+                                        >
+                                            <Trash2 className="h-5 w-5" />
+                                        </motion.button>
+                                    )}
                                     <motion.button 
                                         onClick={onClose} 
                                         whileHover={{ scale: 1.1 }}
@@ -203,216 +383,459 @@ export default function TaskDetailModal({ task, isOpen, onClose, onUpdate, onDel
                                 </div>
                             </div>
 
-                            {/* Scrollable Content */}
-                            <div className="flex-1 overflow-y-auto p-6 space-y-8">
-                                {/* Title */}
-                                <div>
-                                    <input
-                                        type="text"
-                                        value={title}
-                                        onChange={(e) => setTitle(e.target.value)}
-                                        className="w-full bg-transparent text-2xl font-bold text-white placeholder-white/20 outline-none border-none p-0 focus:ring-0"
-                                        placeholder="Task Title"
-                                    />
-                                </div>
+                            {/* Scrollable Content - a disabled fieldset locks every control for viewers */}
+                            <div className="flex-1 overflow-y-auto p-6 space-y-8 min-w-0">
+                                <fieldset disabled={readOnly} className="space-y-8 min-w-0">
+                                    {/* Title */}
+                                    <div>
+                                        <input
+                                            type="text"
+                                            value={title}
+                                            onChange={(e) => setTitle(e.target.value)}
+                                            className="w-full bg-transparent text-2xl font-bold text-white placeholder-white/20 outline-none border-none p-0 focus:ring-0"
+                                            placeholder="Task Title"
+                                        />
+                                    </div>
 
-                                {/* Main Layout */}
-                                <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
-                                    {/* Left Column: Description */}
-                                    <div className="md:col-span-2 space-y-4 flex flex-col">
-                                        <div className="flex items-center justify-between text-white/50 mb-2">
-                                            <div className="flex items-center gap-2">
-                                                <AlignLeft className="h-4 w-4" />
-                                                <span className="text-sm font-medium">Description</span>
+                                    {/* Main Layout */}
+                                    <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+                                        {/* Left Column: Description */}
+                                        <div className="md:col-span-2 space-y-4 flex flex-col">
+                                            <div className="flex items-center justify-between text-white/50 mb-2">
+                                                <div className="flex items-center gap-2">
+                                                    <AlignLeft className="h-4 w-4" />
+                                                    <span className="text-sm font-medium">Description</span>
+                                                </div>
+                                                <div className="flex items-center gap-2">
+                                                    <button
+                                                        onClick={() => setIsEditingDescription(!isEditingDescription)}
+                                                        className="text-xs hover:text-white transition-colors uppercase tracking-wider font-medium"
+                                                    >
+                                                        {isEditingDescription ? "Preview" : "Edit"}
+                                                    </button>
+                                                </div>
                                             </div>
-                                            <div className="flex items-center gap-2">
-                                                <button
-                                                    onClick={() => setIsEditingDescription(!isEditingDescription)}
-                                                    className="text-xs hover:text-white transition-colors uppercase tracking-wider font-medium"
+
+                                            {isEditingDescription ? (
+                                                <textarea
+                                                    value={description}
+                                                    onChange={(e) => setDescription(e.target.value)}
+                                                    className="w-full min-h-[400px] rounded-xl bg-white/5 p-6 text-white/90 placeholder-white/20 outline-none focus:ring-2 focus:ring-[var(--accent-blue)] resize-none text-sm leading-relaxed font-mono"
+                                                    placeholder="Add a more detailed description..."
+                                                />
+                                            ) : (
+                                                <div
+                                                    className="w-full min-h-[400px] rounded-xl bg-white/5 p-6 text-white/90 text-sm leading-relaxed overflow-y-auto cursor-pointer hover:bg-white/10 transition-colors border border-transparent hover:border-white/10 whitespace-normal break-words"
+                                                    onClick={() => setIsEditingDescription(true)}
                                                 >
-                                                    {isEditingDescription ? "Preview" : "Edit"}
-                                                </button>
+                                                    {description ? (
+                                                        <ReactMarkdown
+                                                            components={{
+                                                                h1: ({ ...props }: any) => <h1 className="text-xl font-bold text-white mb-4 mt-2" {...props} />,
+                                                                h2: ({ ...props }: any) => <h2 className="text-lg font-bold text-white/90 mb-3 mt-6 border-b border-white/10 pb-2" {...props} />,
+                                                                h3: ({ ...props }: any) => <h3 className="text-base font-bold text-white/90 mb-2 mt-4" {...props} />,
+                                                                p: ({ ...props }: any) => <p className="mb-4 text-white/80 leading-7" {...props} />,
+                                                                ul: ({ ...props }: any) => <ul className="list-disc pl-5 mb-4 space-y-2 text-white/80" {...props} />,
+                                                                ol: ({ ...props }: any) => <ol className="list-decimal pl-5 mb-4 space-y-2 text-white/80" {...props} />,
+                                                                li: ({ ...props }: any) => <li className="pl-1" {...props} />,
+                                                                strong: ({ ...props }: any) => <strong className="font-semibold text-white" {...props} />,
+                                                                blockquote: ({ ...props }: any) => <blockquote className="border-l-4 border-white/20 pl-4 italic text-white/60 my-4" {...props} />,
+                                                                code: ({ ...props }: any) => <code className="bg-black/30 rounded px-1.5 py-0.5 font-mono text-xs text-blue-300 whitespace-pre-wrap break-all" {...props} />,
+                                                            }}
+                                                        >
+                                                            {description.trim()}
+                                                        </ReactMarkdown>
+                                                    ) : (
+                                                        <span className="text-white/20 italic">No description provided. Click to add one...</span>
+                                                    )}
+                                                </div>
+                                            )}
+
+                                            {/* Checklist */}
+                                            <div className="space-y-3 pt-2">
+                                                <div className="flex items-center justify-between text-white/50">
+                                                    <div className="flex items-center gap-2">
+                                                        <ListChecks className="h-4 w-4" />
+                                                        <span className="text-sm font-medium">Checklist</span>
+                                                    </div>
+                                                    {checklist.length > 0 && (
+                                                        <span className="text-xs tabular-nums">
+                                                            {getChecklistProgress(checklist).done}/{checklist.length}
+                                                        </span>
+                                                    )}
+                                                </div>
+                                                {checklist.length > 0 && (
+                                                    <div className="space-y-1">
+                                                        {checklist.map((item) => (
+                                                            <div
+                                                                key={item.id}
+                                                                className="group flex items-center gap-3 rounded-lg px-3 py-2 hover:bg-white/5 transition-colors"
+                                                            >
+                                                                <button
+                                                                    onClick={() => handleToggleChecklistItem(item.id)}
+                                                                    className={`flex h-4 w-4 flex-shrink-0 items-center justify-center rounded border transition-colors ${
+                                                                        item.done
+                                                                            ? "border-green-400 bg-green-400/20 text-green-400"
+                                                                            : "border-white/30 hover:border-white/60"
+                                                                    }`}
+                                                                    title={item.done ? "Mark as not done" : "Mark as done"}
+                                                                >
+                                                                    {item.done && <Check className="h-3 w-3" />}
+                                                                </button>
+                                                                <span className={`flex-1 text-sm ${item.done ? "line-through text-white/30" : "text-white/80"}`}>
+                                                                    {item.title}
+                                                                </span>
+                                                                <button
+                                                                    onClick={() => setChecklist(checklist.filter(i => i.id !== item.id))}
+                                                                    className="p-1 rounded text-white/20 hover:text-white/60 hover:bg-white/10 transition-colors opacity-0 group-hover:opacity-100"
+                                                                    title="Remove step"
+                                                                >
+                                                                    <X className="h-3 w-3" />
+                                                                </button>
+                                                            </div>
+                                                        ))}
+                                                    </div>
+                                                )}
+                                                <div className="relative">
+                                                    <Plus className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-white/30" />
+                                                    <input
+                                                        type="text"
+                                                        value={newChecklistItem}
+                                                        onChange={(e) => setNewChecklistItem(e.target.value)}
+                                                        onKeyDown={(e) => {
+                                                            if (e.key === "Enter") {
+                                                                e.preventDefault();
+                                                                handleAddChecklistItem();
+                                                            }
+                                                        }}
+                                                        placeholder="Add a step..."
+                                                        className="w-full rounded-lg bg-white/5 pl-10 pr-4 py-2.5 text-sm text-white placeholder-white/20 outline-none focus:ring-2 focus:ring-[var(--accent-blue)]"
+                                                    />
+                                                </div>
                                             </div>
                                         </div>
 
-                                        {isEditingDescription ? (
-                                            <textarea
-                                                value={description}
-                                                onChange={(e) => setDescription(e.target.value)}
-                                                className="w-full min-h-[400px] rounded-xl bg-white/5 p-6 text-white/90 placeholder-white/20 outline-none focus:ring-2 focus:ring-[var(--accent-blue)] resize-none text-sm leading-relaxed font-mono"
-                                                placeholder="Add a more detailed description..."
-                                            />
-                                        ) : (
-                                            <div
-                                                className="w-full min-h-[400px] rounded-xl bg-white/5 p-6 text-white/90 text-sm leading-relaxed overflow-y-auto cursor-pointer hover:bg-white/10 transition-colors border border-transparent hover:border-white/10 whitespace-normal break-words"
-                                                onClick={() => setIsEditingDescription(true)}
-                                            >
-                                                {description ? (
-                                                    <ReactMarkdown
-                                                        components={{
-                                                            h1: ({ ...props }: any) => <h1 className="text-xl font-bold text-white mb-4 mt-2" {...props} />,
-                                                            h2: ({ ...props }: any) => <h2 className="text-lg font-bold text-white/90 mb-3 mt-6 border-b border-white/10 pb-2" {...props} />,
-                                                            h3: ({ ...props }: any) => <h3 className="text-base font-bold text-white/90 mb-2 mt-4" {...props} />,
-                                                            p: ({ ...props }: any) => <p className="mb-4 text-white/80 leading-7" {...props} />,
-                                                            ul: ({ ...props }: any) => <ul className="list-disc pl-5 mb-4 space-y-2 text-white/80" {...props} />,
-                                                            ol: ({ ...props }: any) => <ol className="list-decimal pl-5 mb-4 space-y-2 text-white/80" {...props} />,
-                                                            li: ({ ...props }: any) => <li className="pl-1" {...props} />,
-                                                            strong: ({ ...props }: any) => <strong className="font-semibold text-white" {...props} />,
-                                                            blockquote: ({ ...props }: any) => <blockquote className="border-l-4 border-white/20 pl-4 italic text-white/60 my-4" {...props} />,
-                                                            code: ({ ...props }: any) => <code className="bg-black/30 rounded px-1.5 py-0.5 font-mono text-xs text-blue-300 whitespace-pre-wrap break-all" {...props} />,
-                                                        }}
+                                        {/* Right Column: Meta Fields */}
+                                        <div className="space-y-6">
+                                            {/* Status */}
+                                            <div className="space-y-2">
+                                                <label className="text-xs font-medium text-white/40 uppercase tracking-wider">Status</label>
+                                                <motion.button
+                                                    onClick={handleToggleDone}
+                                                    whileHover={{ scale: 1.02, y: -1 }}
+                                                    whileTap={{ scale: 0.98 }}
+                                                    transition={{ duration: 0.3, ease: "easeOut" }}
+                                                    className={`w-full flex items-center justify-center gap-2 rounded-xl px-4 py-3 text-sm font-semibold transition-all ${
+                                                        status === "done"
+                                                            ? "bg-gradient-to-r from-green-500/20 to-emerald-500/20 text-green-400 border-2 border-green-500/30 shadow-lg shadow-green-500/10"
+                                                            : "bg-white/5 text-white hover:bg-white/10 border-2 border-white/10 hover:border-white/20"
+                                                    }`}
+                                                >
+                                                    {status === "done" ? <Check className="h-4 w-4" /> : <CheckCircle className="h-4 w-4" />}
+                                                    {status === "done" ? "Completed" : "Mark as Done"}
+                                                </motion.button>
+                                                {showBlockerWarning && (
+                                                    <div className="space-y-2 rounded-lg border border-amber-500/30 bg-amber-500/10 p-3">
+                                                        <div className="flex items-start gap-2 text-xs text-amber-200">
+                                                            <AlertTriangle className="h-3.5 w-3.5 mt-0.5 flex-shrink-0" />
+                                                            <span>
+                                                                Still blocked by {openBlockers.map(t => `"${t.title}"`).join(", ")}.
+                                                            </span>
+                                                        </div>
+                                                        <div className="flex gap-2">
+                                                            <button
+                                                                onClick={handleToggleDone}
+                                                                className="flex-1 rounded-lg bg-amber-500/20 px-3 py-1.5 text-xs font-semibold text-amber-300 hover:bg-amber-500/30 transition-colors"
+                                                            >
+                                                                Complete anyway
+                                                            </button>
+                                                            <button
+                                                                onClick={() => setShowBlockerWarning(false)}
+                                                                className="rounded-lg px-3 py-1.5 text-xs text-white/50 hover:text-white hover:bg-white/10 transition-colors"
+                                                            >
+                                                                Cancel
+                                                            </button>
+                                                        </div>
+                                                    </div>
+                                                )}
+                                                {status !== "done" && (
+                                                    <button
+                                                        onClick={() => setStatus(status === "blocked" ? "todo" : "blocked")}
+                                                        className="w-full flex items-center justify-center gap-1.5 rounded-lg px-3 py-2 text-xs text-white/40 hover:text-amber-300 hover:bg-amber-500/10 transition-colors"
                                                     >
-                                                        {description.trim()}
-                                                    </ReactMarkdown>
-                                                ) : (
-                                                    <span className="text-white/20 italic">No description provided. Click to add one...</span>
+                                                        <Lock className="h-3 w-3" />
+                                                        {status === "blocked" ? "Unblock" : "Mark as blocked"}
+                                                    </button>
                                                 )}
                                             </div>
-                                        )}
-                                    </div>
 
-                                    {/* Right Column: Meta Fields */}
-                                    <div className="space-y-6">
-                                        {/* Status */}
-                                        <div className="space-y-2">
-                                            <label className="text-xs font-medium text-white/40 uppercase tracking-wider">Status</label>
-                                            <motion.button
-                                                onClick={() => setStatus(status === "todo" ? "done" : "todo")}
-                                                whileHover={{ scale: 1.02, y: -1 }}
-                                                whileTap={{ scale: 0.98 }}
-                                                transition={{ duration: 0.3, ease: "easeOut" }}
-                                                className={`w-full flex items-center justify-center gap-2 rounded-xl px-4 py-3 text-sm font-semibold transition-all ${
-                                                    status === "done"
-                                                        ? "bg-gradient-to-r from-green-500/20 to-emerald-500/20 text-green-400 border-2 border-green-500/30 shadow-lg shadow-green-500/10"
-                                                        : "bg-white/5 text-white hover:bg-white/10 border-2 border-white/10 hover:border-white/20"
-                                                }`}
-                                            >
-                                                {status === "done" ? <Check className="h-4 w-4" /> : <CheckCircle className="h-4 w-4" />}
-                                                {status === "done" ? "Completed" : "Mark as Done"}
-                                            </motion.button>
-                                        </div>
+                                            {/* Priority */}
+                                            <div className="space-y-2">
+                                                <label className="text-xs font-medium text-white/40 uppercase tracking-wider">Priority</label>
+                                                <div className="flex gap-2">
+                                                    {(['low', 'medium', 'high'] as const).map((p) => (
+                                                        <motion.button
+                                                            key={p}
+                                                            onClick={() => setPriority(p)}
+                                                            whileHover={{ scale: priority === p ? 1 : 1.05 }}
+                                                            whileTap={{ scale: 0.95 }}
+                                                            transition={{ duration: 0.2, ease: "easeOut" }}
+                                                            className={`flex-1 py-2.5 rounded-xl text-xs font-semibold capitalize transition-all border-2 ${
+                                                                priority === p
+                                                                    ? getPriorityColor(p) + ' border-white/20 shadow-lg ring-2 ring-white/10'
+                                                                    : 'text-white/40 hover:text-white/60 border-white/10 hover:bg-white/5 hover:border-white/20'
+                                                            }`}
+                                                        >
+                                                            {p}
+                                                        </motion.button>
+                                                    ))}
+                                                </div>
+                                            </div>
 
-                                        {/* Priority */}
-                                        <div className="space-y-2">
-                                            <label className="text-xs font-medium text-white/40 uppercase tracking-wider">Priority</label>
-                                            <div className="flex gap-2">
-                                                {(['low', 'medium', 'high'] as const).map((p) => (
-                                                    <motion.button
-                                                        key={p}
-                                                        onClick={() => setPriority(p)}
-                                                        whileHover={{ scale: priority === p ? 1 : 1.05 }}
-                                                        whileTap={{ scale: 0.95 }}
-                                                        transition={{ duration: 0.2, ease: "easeOut" }}
-                                                        className={`flex-1 py-2.5 rounded-xl text-xs font-semibold capitalize transition-all border-2 ${
-                                                            priority === p
-                                                                ? getPriorityColor(p) + ' border-white/20 shadow-lg ring-2 ring-white/10'
-                                                                : 'text-white/40 hover:text-white/60 border-white/10 hover:bg-white/5 hover:border-white/20'
-                                                        }`}
-                                                    >
-                                                        {p}
-                                                    </motion.button>
-                                                ))}
+                                            {/* Due Date */}
+                                            <div className="space-y-2">
+                                                <label className="text-xs font-medium text-white/40 uppercase tracking-wider">Due Date</label>
+                                                <div className="relative">
+                                                    <Calendar className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-white/30" />
+                                                    <input
+                                                        type="date"
+                                                        value={dueDate}
+                                                        onChange={(e) => setDueDate(e.target.value)}
+                                                        className="w-full rounded-lg bg-white/5 pl-10 pr-4 py-2.5 text-sm text-white outline-none focus:ring-2 focus:ring-[var(--accent-blue)] [color-scheme:dark]"
+                                                    />
+                                                </div>
                                             </div>
-                                        </div>
 
-                                        {/* Due Date */}
-                                        <div className="space-y-2">
-                                            <label className="text-xs font-medium text-white/40 uppercase tracking-wider">Due Date</label>
-                                            <div className="relative">
-                                                <Calendar className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-white/30" />
+                                            {/* Due Time */}
+                                            <div className="space-y-2">
+                                                <label className="text-xs font-medium text-white/40 uppercase tracking-wider">Due Time</label>
                                                 <input
-                                                    type="date"
-                                                    value={dueDate}
-                                                    onChange={(e) => setDueDate(e.target.value)}
-                                                    className="w-full rounded-lg bg-white/5 pl-10 pr-4 py-2.5 text-sm text-white outline-none focus:ring-2 focus:ring-[var(--accent-blue)] [color-scheme:dark]"
+                                                    type="time"
+                                                    value={dueTime}
+                                                    onChange={(e) => setDueTime(e.target.value)}
+                                                    className="w-full rounded-lg bg-white/5 px-4 py-2.5 text-sm text-white outline-none focus:ring-2 focus:ring-[var(--accent-blue)] [color-scheme:dark]"
                                                 />
                                             </div>
-                                        </div>
 
-                                        {/* Due Time */}
-                                        <div className="space-y-2">
-                                            <label className="text-xs font-medium text-white/40 uppercase tracking-wider">Due Time</label>
-                                            <input
-                                                type="time"
-                                                value={dueTime}
-                                                onChange={(e) => setDueTime(e.target.value)}
-                                                className="w-full rounded-lg bg-white/5 px-4 py-2.5 text-sm text-white outline-none focus:ring-2 focus:ring-[var(--accent-blue)] [color-scheme:dark]"
-                                            />
-                                        </div>
-
-                                        {/* Suggested Improvements */}
-                                        {task.suggestedImprovements && task.suggestedImprovements.length > 0 && (
-                                            <div className="space-y-3 pt-4 border-t border-white/10">
-                                                <div className="flex items-center gap-2 text-amber-400/80">
-                                                    <Lightbulb className="h-4 w-4" />
-                                                    <span className="text-xs font-medium uppercase tracking-wider">Improve this task</span>
+                                            {/* Repeat */}
+                                            <div className="space-y-2">
+                                                <label className="text-xs font-medium text-white/40 uppercase tracking-wider">Repeat</label>
+                                                <div className="relative">
+                                                    <Repeat className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-white/30" />
+                                                    <select
+                                                        value={repeatFrequency}
+                                                        onChange={(e) => setRepeatFrequency(e.target.value as RecurrenceRule["frequency"] | "")}
+                                                        className="w-full rounded-lg bg-white/5 pl-10 pr-3 py-2.5 text-sm text-white outline-none focus:ring-2 focus:ring-[var(--accent-blue)] [color-scheme:dark]"
+                                                    >
+                                                        <option value="">Does not repeat</option>
+                                                        <option value="daily">Daily</option>
+                                                        <option value="weekly">Weekly</option>
+                                                        <option value="monthly">Monthly</option>
+                                                        <option value="yearly">Yearly</option>
+                                                    </select>
                                                 </div>
+                                                {task.recurrence && repeatFrequency === task.recurrence.frequency && (
+                                                    <p className="text-xs text-white/40">{describeRecurrence(task.recurrence)}</p>
+                                                )}
+                                            </div>
+
+                                            {/* Assignee - only once the space is shared */}
+                                            {members.length > 1 && (
                                                 <div className="space-y-2">
-                                                    {task.suggestedImprovements.map((question, index) => (
-                                                        <div key={index} className="group">
-                                                            {answeringIndex === index ? (
-                                                                <div className="space-y-2 p-3 rounded-lg bg-amber-500/5 border border-amber-500/20">
-                                                                    <p className="text-xs text-amber-300">{question}</p>
-                                                                    <textarea
-                                                                        value={improvementAnswer}
-                                                                        onChange={(e) => setImprovementAnswer(e.target.value)}
-                                                                        placeholder="Type your answer..."
-                                                                        className="w-full rounded-lg bg-black/30 px-3 py-2 text-sm text-white placeholder-white/30 outline-none focus:ring-1 focus:ring-amber-500/50 resize-none"
-                                                                        rows={2}
-                                                                        autoFocus
-                                                                    />
-                                                                    <div className="flex gap-2">
-                                                                        <motion.button
-                                                                            onClick={() => handleAnswerImprovement(index)}
-                                                                            disabled={!improvementAnswer.trim() || isSubmittingAnswer}
-                                                                            whileHover={{ scale: 1.02 }}
-                                                                            whileTap={{ scale: 0.98 }}
-                                                                            className="flex-1 flex items-center justify-center gap-1.5 px-4 py-2 rounded-xl bg-gradient-to-r from-amber-500/20 to-orange-500/20 text-amber-300 text-xs font-semibold hover:from-amber-500/30 hover:to-orange-500/30 transition-all disabled:opacity-50 border border-amber-500/30"
-                                                                        >
-                                                                            <Send className="h-3 w-3" />
-                                                                            {isSubmittingAnswer ? "Adding..." : "Add to task"}
-                                                                        </motion.button>
-                                                                        <motion.button
-                                                                            onClick={() => {
-                                                                                setAnsweringIndex(null);
-                                                                                setImprovementAnswer("");
-                                                                            }}
-                                                                            whileHover={{ scale: 1.05 }}
-                                                                            whileTap={{ scale: 0.95 }}
-                                                                            className="px-3 py-2 rounded-xl text-white/50 hover:text-white text-xs hover:bg-white/10 transition-all border border-white/10"
-                                                                        >
-                                                                            Cancel
-                                                                        </motion.button>
-                                                                    </div>
-                                                                </div>
-                                                            ) : (
-                                                                <div 
-                                                                    className="flex items-start gap-2 p-2 rounded-lg bg-white/5 hover:bg-amber-500/10 cursor-pointer transition-colors border border-transparent hover:border-amber-500/20"
-                                                                    onClick={() => setAnsweringIndex(index)}
+                                                    <label className="text-xs font-medium text-white/40 uppercase tracking-wider">Assignee</label>
+                                                    <div className="relative">
+                                                        <User className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-white/30" />
+                                                        <select
+                                                            value={assigneeId}
+                                                            onChange={(e) => setAssigneeId(e.target.value)}
+                                                            className="w-full rounded-lg bg-white/5 pl-10 pr-3 py-2.5 text-sm text-white outline-none focus:ring-2 focus:ring-[var(--accent-blue)] [color-scheme:dark]"
+                                                        >
+                                                            <option value="">Unassigned</option>
+                                                            {members.map((member) => (
+                                                                <option key={member.userId} value={member.userId}>
+                                                                    {getMemberName(member)}
+                                                                </option>
+                                                            ))}
+                                                        </select>
+                                                    </div>
+                                                </div>
+                                            )}
+
+                                            {/* Tags */}
+                                            <div className="space-y-2">
+                                                <label className="text-xs font-medium text-white/40 uppercase tracking-wider">Tags</label>
+                                                {tags.length > 0 && (
+                                                    <div className="flex flex-wrap gap-1.5">
+                                                        {tags.map((tag) => (
+                                                            <span
+                                                                key={tag}
+                                                                className="group flex items-center gap-1 rounded-full bg-white/10 pl-2.5 pr-1.5 py-1 text-xs text-white/70"
+                                                            >
+                                                                #{tag}
+                                                                <button
+                                                                    onClick={() => setTags(tags.filter(t => t !== tag))}
+                                                                    className="rounded-full p-0.5 text-white/30 hover:text-white hover:bg-white/10 transition-colors"
+                                                                    title="Remove tag"
                                                                 >
-                                                                    <span className="text-xs text-white/60 leading-relaxed flex-1">{question}</span>
+                                                                    <X className="h-3 w-3" />
+                                                                </button>
+                                                            </span>
+                                                        ))}
+                                                    </div>
+                                                )}
+                                                <div className="relative">
+                                                    <Tag className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-white/30" />
+                                                    <input
+                                                        type="text"
+                                                        value={tagInput}
+                                                        onChange={(e) => setTagInput(e.target.value)}
+                                                        onKeyDown={(e) => {
+                                                            if (e.key === "Enter" || e.key === ",") {
+                                                                e.preventDefault();
+                                                                handleAddTag();
+                                                            } else if (e.key === "Backspace" && !tagInput && tags.length > 0) {
+                                                                setTags(tags.slice(0, -1));
+                                                            }
+                                                        }}
+                                                        onBlur={handleAddTag}
+                                                        placeholder="Add a tag..."
+                                                        className="w-full rounded-lg bg-white/5 pl-10 pr-4 py-2.5 text-sm text-white placeholder-white/20 outline-none focus:ring-2 focus:ring-[var(--accent-blue)]"
+                                                    />
+                                                </div>
+                                            </div>
+
+                                            {/* Dependencies */}
+                                            <div className="space-y-2">
+                                                <label className="text-xs font-medium text-white/40 uppercase tracking-wider">Blocked by</label>
+                                                {blockedBy.length > 0 && (
+                                                    <div className="space-y-1">
+                                                        {blockedBy.map((id) => {
+                                                            const blocker = tasks.find(t => t.id === id);
+                                                            if (!blocker) return null;
+                                                            return (
+                                                                <div key={id} className="group flex items-center gap-2 rounded-lg bg-white/5 px-3 py-2">
+                                                                    {blocker.status === "done"
+                                                                        ? <Check className="h-3 w-3 flex-shrink-0 text-green-400" />
+                                                                        : <Lock className="h-3 w-3 flex-shrink-0 text-amber-400" />}
+                                                                    <span className={`flex-1 truncate text-xs ${blocker.status === "done" ? "line-through text-white/30" : "text-white/70"}`}>
+                                                                        {blocker.title}
+                                                                    </span>
                                                                     <button
-                                                                        onClick={(e) => {
-                                                                            e.stopPropagation();
-                                                                            handleDismissImprovement(index);
-                                                                        }}
-                                                                        className="p-1 rounded text-white/20 hover:text-white/60 hover:bg-white/10 transition-colors opacity-0 group-hover:opacity-100"
-                                                                        title="Dismiss"
+                                                                        onClick={() => setBlockedBy(blockedBy.filter(b => b !== id))}
+                                                                        className="p-0.5 rounded text-white/20 hover:text-white/60 hover:bg-white/10 transition-colors opacity-0 group-hover:opacity-100"
+                                                                        title="Remove dependency"
                                                                     >
                                                                         <X className="h-3 w-3" />
                                                                     </button>
                                                                 </div>
-                                                            )}
-                                                        </div>
-                                                    ))}
-                                                </div>
+                                                            );
+                                                        })}
+                                                    </div>
+                                                )}
+                                                {blockerCandidates.length > 0 && (
+                                                    <select
+                                                        value=""
+                                                        onChange={(e) => e.target.value && setBlockedBy([...blockedBy, e.target.value])}
+                                                        className="w-full rounded-lg bg-white/5 px-3 py-2.5 text-sm text-white/60 outline-none focus:ring-2 focus:ring-[var(--accent-blue)] [color-scheme:dark]"
+                                                    >
+                                                        <option value="">Add a blocking task...</option>
+                                                        {blockerCandidates.map((t) => (
+                                                            <option key={t.id} value={t.id}>{t.title}</option>
+                                                        ))}
+                                                    </select>
+                                                )}
+                                                {blockingTasks.length > 0 && (
+                                                    <p className="text-xs text-white/40">
+                                                        Blocks: {blockingTasks.map(t => t.title).join(", ")}
+                                                    </p>
+                                                )}
                                             </div>
-                                        )}
+
+                                            {/* Linked issues and pull requests */}
+                                            <GitHubLinks
+                                                links={task.githubLinks || []}
+                                                taskStatus={status}
+                                                readOnly={readOnly}
+                                                canLink={!!onLinkGitHub}
+                                                onLink={(reference) => onLinkGitHub ? onLinkGitHub(task.id, reference) : Promise.resolve()}
+                                                onUnlink={handleUnlinkGitHub}
+                                                onComplete={() => setStatus("done")}
+                                            />
+
+                                            {/* Suggested Improvements */}
+                                            {task.suggestedImprovements && task.suggestedImprovements.length > 0 && (
+                                                <div className="space-y-3 pt-4 border-t border-white/10">
+                                                    <div className="flex items-center gap-2 text-amber-400/80">
+                                                        <Lightbulb className="h-4 w-4" />
+                                                        <span className="text-xs font-medium uppercase tracking-wider">Improve this task</span>
+                                                    </div>
+                                                    <div className="space-y-2">
+                                                        {task.suggestedImprovements.map((question, index) => (
+                                                            <div key={index} className="group">
+                                                                {answeringIndex === index ? (
+                                                                    <div className="space-y-2 p-3 rounded-lg bg-amber-500/5 border border-amber-500/20">
+                                                                        <p className="text-xs text-amber-300">{question}</p>
+                                                                        <textarea
+                                                                            value={improvementAnswer}
+                                                                            onChange={(e) => setImprovementAnswer(e.target.value)}
+                                                                            placeholder="Type your answer..."
+                                                                            className="w-full rounded-lg bg-black/30 px-3 py-2 text-sm text-white placeholder-white/30 outline-none focus:ring-1 focus:ring-amber-500/50 resize-none"
+                                                                            rows={2}
+                                                                            autoFocus
+                                                                        />
+                                                                        <div className="flex gap-2">
+                                                                            <motion.button
+                                                                                onClick={() => handleAnswerImprovement(index)}
+                                                                                disabled={!improvementAnswer.trim() || isSubmittingAnswer}
+                                                                                whileHover={{ scale: 1.02 }}
+                                                                                whileTap={{ scale: 0.98 }}
+                                                                                className="flex-1 flex items-center justify-center gap-1.5 px-4 py-2 rounded-xl bg-gradient-to-r from-amber-500/20 to-orange-500/20 text-amber-300 text-xs font-semibold hover:from-amber-500/30 hover:to-orange-500/30 transition-all disabled:opacity-50 border border-amber-500/30"
+                                                                            >
+                                                                                <Send className="h-3 w-3" />
+                                                                                {isSubmittingAnswer ? "Adding..." : "Add to task"}
+                                                                            </motion.button>
+                                                                            <motion.button
+                                                                                onClick={() => {
+                                                                                    setAnsweringIndex(null);
+                                                                                    setImprovementAnswer("");
+                                                                                }}
+                                                                                whileHover={{ scale: 1.05 }}
+                                                                                whileTap={{ scale: 0.95 }}
+                                                                                className="px-3 py-2 rounded-xl text-white/50 hover:text-white text-xs hover:bg-white/10 transition-all border border-white/10"
+                                                                            >
+                                                                                Cancel
+                                                                            </motion.button>
+                                                                        </div>
+                                                                    </div>
+                                                                ) : (
+                                                                    <div 
+                                                                        className="flex items-start gap-2 p-2 rounded-lg bg-white/5 hover:bg-amber-500/10 cursor-pointer transition-colors border border-transparent hover:border-amber-500/20"
+                                                                        onClick={() => setAnsweringIndex(index)}
+                                                                    >
+                                                                        <span className="text-xs text-white/60 leading-relaxed flex-1">{question}</span>
+                                                                        <button
+                                                                            onClick={(e) => {
+                                                                                e.stopPropagation();
+                                                                                handleDismissImprovement(index);
+                                                                            }}
+                                                                            className="p-1 rounded text-white/20 hover:text-white/60 hover:bg-white/10 transition-colors opacity-0 group-hover:opacity-100"
+                                                                            title="Dismiss"
+                                                                        >
+                                                                            <X className="h-3 w-3" />
+                                                                        </button>
+                                                                    </div>
+                                                                )}
+                                                            </div>
+                                                        ))}
+                                                    </div>
+                                                </div>
+                                            )}
+                                        </div>
                                     </div>
-                                </div>
+                                </fieldset>
 
                                 {/* Activity Timeline */}
-                                {task.updates && task.updates.length > 0 && (
+                                {timeline.updates.length > 0 && (
                                     <div className="space-y-4">
                                         <div className="flex items-center gap-2 text-white/50">
                                             <Activity className="h-4 w-4" />
@@ -421,19 +844,19 @@ export default function TaskDetailModal({ task, isOpen, onClose, onUpdate, onDel
 
                                         <div className="space-y-3">
                                             {[
-                                                // Existing updates
-                                                ...[...task.updates].reverse().map((update) => ({
+                                                // Loaded updates, newest first
+                                                ...timeline.updates.map((update) => ({
                                                     ...update,
                                                     isCreation: false
                                                 })),
-                                                // Creation event (always last in the reversed list)
-                                                {
+                                                // Creation event (last, once the oldest page is loaded)
+                                                ...(timeline.hasMore ? [] : [{
                                                     id: 'creation',
                                                     type: 'creation',
                                                     content: 'Task created',
                                                     timestamp: task.createdAt,
                                                     isCreation: true
-                                                }
+                                                }])
                                             ].map((update, index, array) => {
                                                 // Determine icon and color based on update type
                                                 const getUpdateStyle = () => {
@@ -504,32 +927,61 @@ export default function TaskDetailModal({ task, isOpen, onClose, onUpdate, onDel
                                                 );
                                             })}
                                         </div>
+
+                                        {timeline.hasMore && (
+                                            <button
+                                                onClick={timeline.loadMore}
+                                                disabled={timeline.loadingMore}
+                                                className="w-full rounded-lg py-2 text-xs font-medium uppercase tracking-wider text-white/40 hover:bg-white/5 hover:text-white/70 disabled:opacity-50 transition-colors"
+                                            >
+                                                {timeline.loadingMore ? "Loading..." : "Show older activity"}
+                                            </button>
+                                        )}
                                     </div>
                                 )}
                             </div>
 
                             {/* Footer */}
                             <div className="border-t border-white/10 p-6 bg-white/5">
-                                <div className="flex justify-end gap-3">
-                                    <motion.button
-                                        onClick={onClose}
-                                        whileHover={{ scale: 1.02 }}
-                                        whileTap={{ scale: 0.98 }}
-                                        transition={{ duration: 0.2, ease: "easeOut" }}
-                                        className="px-6 py-3 rounded-xl text-sm font-medium text-white/60 hover:text-white hover:bg-white/10 transition-all duration-300 border border-white/10 hover:border-white/20"
-                                    >
-                                        Cancel
-                                    </motion.button>
-                                    <motion.button
-                                        onClick={handleSave}
-                                        whileHover={{ scale: 1.02, y: -2 }}
-                                        whileTap={{ scale: 0.98 }}
-                                        transition={{ duration: 0.3, ease: [0.4, 0, 0.2, 1] }}
-                                        className="px-8 py-3 rounded-xl bg-gradient-to-r from-blue-500 to-purple-600 text-sm font-bold text-white hover:from-blue-600 hover:to-purple-700 shadow-lg shadow-blue-500/25 hover:shadow-blue-500/40 transition-all duration-300"
-                                    >
-                                        Save Changes
-                                    </motion.button>
-                                </div>
+                                {conflicts.length > 0 ? (
+                                    <ConflictResolver
+                                        conflicts={conflicts}
+                                        onResolve={handleResolveConflict}
+                                        memberNames={memberNames}
+                                    />
+                                ) : (
+                                    <>
+                                        {changedElsewhere && !readOnly && (
+                                            <p className="mb-3 flex items-center gap-2 text-xs text-amber-300/80">
+                                                <AlertTriangle className="h-3.5 w-3.5 flex-shrink-0" />
+                                                Updated elsewhere while you were editing - only the fields you changed are saved
+                                            </p>
+                                        )}
+                                        <div className="flex justify-end gap-3">
+                                            <motion.button
+                                                onClick={onClose}
+                                                whileHover={{ scale: 1.02 }}
+                                                whileTap={{ scale: 0.98 }}
+                                                transition={{ duration: 0.2, ease: "easeOut" }}
+                                                className="px-6 py-3 rounded-xl text-sm font-medium text-white/60 hover:text-white hover:bg-white/10 transition-all duration-300 border border-white/10 hover:border-white/20"
+                                            >
+                                                {readOnly ? "Close" : "Cancel"}
+                                            </motion.button>
+                                            {!readOnly && (
+                                                <motion.button
+                                                    onClick={handleSave}
+                                                    disabled={isSaving}
+                                                    whileHover={{ scale: 1.02, y: -2 }}
+                                                    whileTap={{ scale: 0.98 }}
+                                                    transition={{ duration: 0.3, ease: [0.4, 0, 0.2, 1] }}
+                                                    className="px-8 py-3 rounded-xl bg-gradient-to-r from-blue-500 to-purple-600 text-sm font-bold text-white hover:from-blue-600 hover:to-purple-700 shadow-lg shadow-blue-500/25 hover:shadow-blue-500/40 transition-all duration-300 disabled:opacity-50"
+                                                >
+                                                    {isSaving ? "Saving..." : "Save Changes"}
+                                                </motion.button>
+                                            )}
+                                        </div>
+                                    </>
+                                )}
                             </div>
                         </div>
                     </motion.div>
@@ -0,0 +1,136 @@
+/**
+ * Trash Modal
+ *
+ * Lists trashed tasks or spaces with restore and permanent delete actions.
+ * Items are purged automatically once they pass the plan's retention window.
+ */
+
+import { motion, AnimatePresence } from "framer-motion";
+import { X, Trash2, RotateCcw, Loader2 } from "lucide-react";
+import { getDaysUntilPurge } from "@/lib/trashUtils";
+
+export interface TrashItem {
+    id: string;
+    title: string;
+    deletedAt: number;
+}
+
+interface TrashModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    title?: string;
+    items: TrashItem[];
+    retentionDays: number;
+    loading?: boolean;
+    onRestore: (id: string) => void;
+    onPurge: (ids: string[]) => void;
+}
+
+export default function TrashModal({
+    isOpen,
+    onClose,
+    title = "Trash",
+    items,
+    retentionDays,
+    loading = false,
+    onRestore,
+    onPurge,
+}: TrashModalProps) {
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <>
+                    {/* Backdrop */}
+                    <motion.div
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        exit={{ opacity: 0 }}
+                        onClick={onClose}
+                        className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50"
+                    />
+
+                    {/* Modal */}
+                    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 pointer-events-none">
+                        <motion.div
+                            initial={{ opacity: 0, scale: 0.95, y: 10 }}
+                            animate={{ opacity: 1, scale: 1, y: 0 }}
+                            exit={{ opacity: 0, scale: 0.95, y: 10 }}
+                            className="pointer-events-auto w-full max-w-md bg-[#1a1a2e] rounded-2xl border border-white/10 shadow-2xl overflow-hidden"
+                        >
+                            {/* Header */}
+                            <div className="flex items-center justify-between p-6 border-b border-white/10">
+                                <div>
+                                    <h2 className="text-xl font-semibold text-white">{title}</h2>
+                                    <p className="text-sm text-white/50">
+                                        Items are deleted permanently after {retentionDays} days
+                                    </p>
+                                </div>
+                                <button
+                                    onClick={onClose}
+                                    className="flex h-8 w-8 items-center justify-center rounded-full hover:bg-white/5 text-white/40 hover:text-white/60 transition-colors"
+                                >
+                                    <X className="h-5 w-5" />
+                                </button>
+                            </div>
+
+                            {/* Items */}
+                            <div className="max-h-96 overflow-y-auto p-3">
+                                {loading ? (
+                                    <div className="flex justify-center py-8">
+                                        <Loader2 className="h-5 w-5 animate-spin text-white/40" />
+                                    </div>
+                                ) : items.length === 0 ? (
+                                    <p className="py-8 text-center text-sm text-white/30">Trash is empty</p>
+                                ) : (
+                                    <ul className="space-y-1">
+                                        {items.map((item) => (
+                                            <li
+                                                key={item.id}
+                                                className="flex items-center justify-between gap-3 rounded-lg px-3 py-2 hover:bg-white/5"
+                                            >
+                                                <div className="min-w-0">
+                                                    <p className="truncate text-sm text-white/80">{item.title}</p>
+                                                    <p className="text-[11px] text-white/30">
+                                                        Deleted permanently in {getDaysUntilPurge(item.deletedAt, retentionDays)} day(s)
+                                                    </p>
+                                                </div>
+                                                <div className="flex flex-shrink-0 items-center gap-1">
+                                                    <button
+                                                        onClick={() => onRestore(item.id)}
+                                                        className="rounded-lg p-2 text-white/40 hover:bg-white/10 hover:text-white transition-colors"
+                                                        title="Restore"
+                                                    >
+                                                        <RotateCcw className="h-4 w-4" />
+                                                    </button>
+                                                    <button
+                                                        onClick={() => onPurge([item.id])}
+                                                        className="rounded-lg p-2 text-white/40 hover:bg-red-500/10 hover:text-red-400 transition-colors"
+                                                        title="Delete permanently"
+                                                    >
+                                                        <Trash2 className="h-4 w-4" />
+                                                    </button>
+                                                </div>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </div>
+
+                            {/* Footer */}
+                            {items.length > 0 && !loading && (
+                                <div className="flex justify-end border-t border-white/10 p-4">
+                                    <button
+                                        onClick={() => onPurge(items.map(item => item.id))}
+                                        className="rounded-xl px-4 py-2 text-sm font-medium text-red-400 hover:bg-red-500/10 transition-colors"
+                                    >
+                                        Empty trash
+                                    </button>
+                                </div>
+                            )}
+                        </motion.div>
+                    </div>
+                </>
+            )}
+        </AnimatePresence>
+    );
+}
@@ -0,0 +1,67 @@
+/**
+ * Undo Toast
+ *
+ * Short-lived notice after the AI changes or deletes a task, with an Undo button.
+ */
+
+import { motion, AnimatePresence } from "framer-motion";
+import { useEffect, useState } from "react";
+import { Undo2, X } from "lucide-react";
+import { TaskOperation } from "@/types";
+
+const TOAST_DURATION_MS = 8000;
+
+interface UndoToastProps {
+    operation: TaskOperation | null;
+    onUndo: () => void;
+    disabled?: boolean;
+}
+
+export default function UndoToast({ operation, onUndo, disabled = false }: UndoToastProps) {
+    const [dismissedId, setDismissedId] = useState<string | null>(null);
+
+    // Each new operation gets its own toast, hidden again after a few seconds
+    useEffect(() => {
+        if (!operation) return;
+        const timer = setTimeout(() => setDismissedId(operation.id), TOAST_DURATION_MS);
+        return () => clearTimeout(timer);
+    }, [operation]);
+
+    const visible = !!operation && operation.id !== dismissedId;
+
+    return (
+        <AnimatePresence>
+            {visible && (
+                <motion.div
+                    key={operation.id}
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, y: 20 }}
+                    className="fixed bottom-6 left-1/2 z-50 -translate-x-1/2"
+                >
+                    <div className="flex items-center gap-3 rounded-full border border-white/10 bg-[#1a1a1a]/95 py-2 pl-5 pr-2 text-sm text-white/80 shadow-2xl backdrop-blur-xl">
+                        <span className="max-w-xs truncate">{operation.summary}</span>
+                        <button
+                            onClick={() => {
+                                setDismissedId(operation.id);
+                                onUndo();
+                            }}
+                            disabled={disabled}
+                            className="flex items-center gap-1.5 rounded-full bg-white/10 px-3 py-1.5 text-xs font-medium text-white hover:bg-white/20 disabled:opacity-50 transition-colors"
+                        >
+                            <Undo2 className="h-3.5 w-3.5" />
+                            Undo
+                        </button>
+                        <button
+                            onClick={() => setDismissedId(operation.id)}
+                            className="rounded-full p-1.5 text-white/40 hover:text-white hover:bg-white/10 transition-colors"
+                            title="Dismiss"
+                        >
+                            <X className="h-3.5 w-3.5" />
+                        </button>
+                    </div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+}
@@ -3,17 +3,23 @@
 /**
  * UpgradePrompt Component
  * 
- * Shows upgrade messaging when users hit plan limits.
- * Designed to be non-intrusive but clear.
+ * Shows upgrade messaging when users hit plan limits, including what is
+ * locked after a downgrade (spaces over the Free limit are read-only).
+ * Designed to be non-intrusive but clear. Upgrading goes to checkout.
  */
 
+import { useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { X } from "lucide-react";
+import { Lock, X } from "lucide-react";
 import { SparkleIcon, CheckCircleIcon } from "./icons/CustomIcons";
+import { useAuth } from "@/context/AuthContext";
+import { startCheckout } from "@/lib/services/billingService";
 
 interface UpgradePromptProps {
     message: string;
     feature?: string;
+    locked?: string[]; // Names of what is read-only until the user upgrades (inline variant)
+    action?: { label: string; onClick: () => void }; // Alternative to upgrading (inline variant)
     onDismiss?: () => void;
     variant?: "inline" | "modal" | "toast";
 }
@@ -21,9 +27,26 @@ interface UpgradePromptProps {
 export default function UpgradePrompt({
     message,
     feature,
+    locked,
+    action,
     onDismiss,
     variant = "inline",
 }: UpgradePromptProps) {
+    const { user } = useAuth();
+    const [isUpgrading, setIsUpgrading] = useState(false);
+
+    const handleUpgrade = async () => {
+        if (!user || isUpgrading) return;
+        setIsUpgrading(true);
+        try {
+            await startCheckout(user.uid); // Leaves the page
+        } catch (error) {
+            console.error("Failed to start checkout:", error);
+            alert(error instanceof Error ? error.message : "Couldn't start checkout. Please try again.");
+            setIsUpgrading(false);
+        }
+    };
+
     if (variant === "inline") {
         return (
             <motion.div
@@ -39,13 +62,38 @@ export default function UpgradePrompt({
                             {feature} is available on the Pro plan.
                         </p>
                     )}
-                    <motion.button 
-                        whileHover={{ scale: 1.02, x: 2 }}
-                        whileTap={{ scale: 0.98 }}
-                        className="mt-3 text-sm font-semibold text-amber-400 hover:text-amber-300 transition-colors"
-                    >
-                        Upgrade to Pro →
-                    </motion.button>
+                    {locked && locked.length > 0 && (
+                        <div className="mt-2 flex flex-wrap items-center gap-1.5">
+                            <Lock className="h-3 w-3 text-amber-300/70" />
+                            {locked.map((name) => (
+                                <span
+                                    key={name}
+                                    className="rounded-full bg-amber-500/10 px-2 py-0.5 text-xs text-amber-200/80"
+                                >
+                                    {name}
+                                </span>
+                            ))}
+                        </div>
+                    )}
+                    <div className="mt-3 flex items-center gap-4">
+                        <motion.button 
+                            onClick={handleUpgrade}
+                            disabled={isUpgrading}
+                            whileHover={{ scale: 1.02, x: 2 }}
+                            whileTap={{ scale: 0.98 }}
+                            className="text-sm font-semibold text-amber-400 hover:text-amber-300 disabled:opacity-50 transition-colors"
+                        >
+                            {isUpgrading ? "Opening checkout..." : "Upgrade to Pro →"}
+                        </motion.button>
+                        {action && (
+                            <button
+                                onClick={action.onClick}
+                                className="text-sm text-amber-200/60 hover:text-amber-200 transition-colors"
+                            >
+                                {action.label}
+                            </button>
+                        )}
+                    </div>
                 </div>
                 {onDismiss && (
                     <motion.button
@@ -75,11 +123,13 @@ export default function UpgradePrompt({
                         <div className="flex-1">
                             <p className="text-sm text-white font-medium">{message}</p>
                             <motion.button 
+                                onClick={handleUpgrade}
+                                disabled={isUpgrading}
                                 whileHover={{ scale: 1.02, x: 2 }}
                                 whileTap={{ scale: 0.98 }}
-                                className="mt-2 text-sm font-semibold text-amber-400 hover:text-amber-300 transition-colors"
+                                className="mt-2 text-sm font-semibold text-amber-400 hover:text-amber-300 disabled:opacity-50 transition-colors"
                             >
-                                Upgrade to Pro →
+                                {isUpgrading ? "Opening checkout..." : "Upgrade to Pro →"}
                             </motion.button>
                         </div>
                         {onDismiss && (
@@ -148,11 +198,13 @@ export default function UpgradePrompt({
                             Maybe later
                         </motion.button>
                         <motion.button 
+                            onClick={handleUpgrade}
+                            disabled={isUpgrading}
                             whileHover={{ scale: 1.02, y: -2 }}
                             whileTap={{ scale: 0.98 }}
-                            className="flex-1 rounded-xl bg-gradient-to-r from-amber-500 to-orange-500 px-4 py-3 text-sm font-semibold text-black hover:from-amber-400 hover:to-orange-400 transition-all shadow-lg shadow-amber-500/25"
+                            className="flex-1 rounded-xl bg-gradient-to-r from-amber-500 to-orange-500 px-4 py-3 text-sm font-semibold text-black hover:from-amber-400 hover:to-orange-400 disabled:opacity-50 transition-all shadow-lg shadow-amber-500/25"
                         >
-                            Upgrade now
+                            {isUpgrading ? "Opening checkout..." : "Upgrade now"}
                         </motion.button>
                     </div>
                 </motion.div>
@@ -0,0 +1,156 @@
+"use client";
+
+/**
+ * UsagePanel Component
+ *
+ * What used the user's quota this month, on the account page: AI requests
+ * and voice logs against the plan's limits, a chart per day, and a breakdown
+ * per feature with the model tokens it used. Read from the usage ledger.
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import { ChartColumn, Loader2 } from "lucide-react";
+import { PlanLimits, UsageLedgerEntry, UserPlan } from "@/types";
+import { getUsageLedger } from "@/lib/services/usageService";
+import { getUsagePeriodStart, groupUsageByDay, groupUsageByRoute } from "@/lib/usageUtils";
+
+// Names of the API routes that use quota, as users know them
+const ROUTE_LABELS: Record<string, string> = {
+    "/api/parse-task": "Task assistant",
+    "/api/voice-log": "Voice logs",
+    "/api/enhance-description": "Description answers",
+    "/api/generate-description": "Task descriptions",
+    "/api/daily-summary": "Daily summary",
+};
+
+interface UsagePanelProps {
+    userId: string;
+    plan: UserPlan;
+    limits: PlanLimits;
+}
+
+function formatQuota(used: number, limit: number | null): string {
+    return limit === null ? `${used} (unlimited)` : `${used} / ${limit}`;
+}
+
+function formatDay(date: string): string {
+    return new Date(`${date}T00:00:00`).toLocaleDateString("en-US", { month: "short", day: "numeric" });
+}
+
+export default function UsagePanel({ userId, plan, limits }: UsagePanelProps) {
+    const [entries, setEntries] = useState<UsageLedgerEntry[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const periodStart = getUsagePeriodStart();
+
+    useEffect(() => {
+        let cancelled = false;
+        getUsageLedger(userId, periodStart)
+            .then((loaded) => {
+                if (!cancelled) setEntries(loaded);
+            })
+            .catch((err) => {
+                console.error("Failed to load usage:", err);
+                if (!cancelled) setError("Couldn't load your usage history.");
+            });
+
+        return () => {
+            cancelled = true;
+        };
+        // Reloads with the plan, e.g. after a refresh
+    }, [userId, periodStart, plan.updatedAt]);
+
+    const days = useMemo(() => groupUsageByDay(entries || [], periodStart), [entries, periodStart]);
+    const routes = useMemo(() => groupUsageByRoute(entries || []), [entries]);
+    const maxPerDay = Math.max(1, ...days.map(day => day.aiRequests + day.voiceLogs));
+    const maxPerRoute = Math.max(1, ...routes.map(route => route.requests));
+    const totalTokens = routes.reduce((sum, route) => sum + route.tokens, 0);
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2 text-sm font-medium text-white">
+                    <ChartColumn className="h-4 w-4 text-blue-400" />
+                    Usage this month
+                </div>
+                <span className="text-xs text-white/40">
+                    Since {new Date(periodStart).toLocaleDateString("en-US", { month: "long", day: "numeric" })}
+                </span>
+            </div>
+
+            {/* Quotas - the plan's counters are what limits are checked against */}
+            <div className="grid grid-cols-2 gap-2 text-sm">
+                <div className="rounded-lg bg-white/5 px-3 py-2">
+                    <p className="text-xs text-white/50">AI requests</p>
+                    <p className="text-white">{formatQuota(plan.aiRequestsUsed || 0, limits.maxAiRequests)}</p>
+                </div>
+                <div className="rounded-lg bg-white/5 px-3 py-2">
+                    <p className="text-xs text-white/50">Voice logs</p>
+                    <p className="text-white">{formatQuota(plan.voiceLogsUsed || 0, limits.maxVoiceLogs)}</p>
+                </div>
+            </div>
+
+            {error ? (
+                <p className="text-sm text-red-300">{error}</p>
+            ) : entries === null ? (
+                <Loader2 className="h-5 w-5 animate-spin text-white/40" />
+            ) : entries.length === 0 ? (
+                <p className="text-xs text-white/40">Nothing used yet this month.</p>
+            ) : (
+                <>
+                    {/* Per day */}
+                    <div>
+                        <div className="flex h-24 items-end gap-0.5">
+                            {days.map((day) => (
+                                <div
+                                    key={day.date}
+                                    className="flex flex-1 flex-col justify-end"
+                                    style={{ height: "100%" }}
+                                    title={`${formatDay(day.date)}: ${day.aiRequests} AI requests, ${day.voiceLogs} voice logs`}
+                                >
+                                    <div className="bg-purple-400/70" style={{ height: `${(day.voiceLogs / maxPerDay) * 100}%` }} />
+                                    <div className="rounded-t-sm bg-blue-400/70" style={{ height: `${(day.aiRequests / maxPerDay) * 100}%` }} />
+                                </div>
+                            ))}
+                        </div>
+                        <div className="mt-1.5 flex items-center gap-3 text-xs text-white/40">
+                            <span className="flex items-center gap-1">
+                                <span className="h-2 w-2 rounded-sm bg-blue-400/70" /> AI requests
+                            </span>
+                            <span className="flex items-center gap-1">
+                                <span className="h-2 w-2 rounded-sm bg-purple-400/70" /> Voice logs
+                            </span>
+                        </div>
+                    </div>
+
+                    {/* Per feature */}
+                    <ul className="space-y-2">
+                        {routes.map((route) => (
+                            <li key={route.route} className="text-sm">
+                                <div className="flex justify-between text-white/70">
+                                    <span>{ROUTE_LABELS[route.route] || route.route}</span>
+                                    <span className="text-white/50">
+                                        {route.requests}
+                                        {route.units !== route.requests && ` (${route.units} units)`}
+                                        {route.tokens > 0 && ` · ${route.tokens.toLocaleString("en-US")} tokens`}
+                                    </span>
+                                </div>
+                                <div className="mt-1 h-1.5 rounded-full bg-white/5">
+                                    <div
+                                        className="h-full rounded-full bg-blue-400/60"
+                                        style={{ width: `${(route.requests / maxPerRoute) * 100}%` }}
+                                    />
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+
+                    {totalTokens > 0 && (
+                        <p className="text-xs text-white/40">
+                            {totalTokens.toLocaleString("en-US")} model tokens this month.
+                        </p>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
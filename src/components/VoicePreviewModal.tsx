@@ -3,8 +3,8 @@
 /**
  * VoicePreviewModal
  * 
- * Shows the transcript and parsed actions from a voice log.
- * Allows users to confirm, edit, or cancel actions before execution.
+ * Shows the transcript and parsed actions from a voice log or a multi-action
+ * text input. Allows users to confirm, edit, or cancel actions before execution.
  */
 
 import { useState, useCallback, useEffect } from "react";
@@ -20,6 +20,7 @@ import {
     Loader2,
     AlertCircle,
     Mic,
+    ListChecks,
 } from "lucide-react";
 import { VoiceLogAction } from "@/lib/services/speechToText";
 
@@ -30,6 +31,7 @@ interface VoicePreviewModalProps {
     actions: VoiceLogAction[];
     onConfirm: (actions: VoiceLogAction[]) => Promise<void>;
     onEditTranscript?: (newTranscript: string) => void;
+    source?: "voice" | "text"; // Where the actions came from (changes labels only)
 }
 
 export default function VoicePreviewModal({
@@ -39,6 +41,7 @@ export default function VoicePreviewModal({
     actions: initialActions,
     onConfirm,
     onEditTranscript,
+    source = "voice",
 }: VoicePreviewModalProps) {
     const [actions, setActions] = useState<VoiceLogAction[]>(initialActions);
     const [editingTranscript, setEditingTranscript] = useState(false);
@@ -109,8 +112,14 @@ export default function VoicePreviewModal({
                     {/* Header */}
                     <div className="flex items-center justify-between p-4 border-b border-neutral-800">
                         <div className="flex items-center gap-2">
-                            <Mic className="w-5 h-5 text-indigo-400" />
-                            <h2 className="text-lg font-semibold text-white">Voice Log Preview</h2>
+                            {source === "voice" ? (
+                                <Mic className="w-5 h-5 text-indigo-400" />
+                            ) : (
+                                <ListChecks className="w-5 h-5 text-indigo-400" />
+                            )}
+                            <h2 className="text-lg font-semibold text-white">
+                                {source === "voice" ? "Voice Log Preview" : "Review Actions"}
+                            </h2>
                         </div>
                         <button
                             onClick={onClose}
@@ -126,7 +135,7 @@ export default function VoicePreviewModal({
                         <div className="space-y-2">
                             <div className="flex items-center justify-between">
                                 <label className="text-sm font-medium text-neutral-400">
-                                    Transcript
+                                    {source === "voice" ? "Transcript" : "Your input"}
                                 </label>
                                 <button
                                     onClick={() => setEditingTranscript(!editingTranscript)}
@@ -169,7 +178,7 @@ export default function VoicePreviewModal({
                             {actions.length === 0 ? (
                                 <div className="p-4 bg-[#2a2a2a] rounded-lg text-center">
                                     <p className="text-sm text-neutral-500">
-                                        No actions detected. Try editing the transcript.
+                                        No actions detected. Try editing the {source === "voice" ? "transcript" : "input"}.
                                     </p>
                                 </div>
                             ) : (
@@ -288,6 +297,9 @@ function ActionCard({ action, onRemove }: ActionCardProps) {
                                     {action.task.priority}
                                 </span>
                             )}
+                            {action.task?.tags?.map((tag) => (
+                                <span key={tag} className="text-neutral-400">#{tag}</span>
+                            ))}
                         </div>
                     </div>
                 );
@@ -314,6 +326,11 @@ function ActionCard({ action, onRemove }: ActionCardProps) {
                                     Note: {action.updates.note}
                                 </span>
                             )}
+                            {action.updates?.tags && (
+                                <span className="px-2 py-0.5 bg-neutral-700 rounded">
+                                    Tags → {action.updates.tags.length > 0 ? action.updates.tags.map((tag) => `#${tag}`).join(" ") : "none"}
+                                </span>
+                            )}
                         </div>
                     </div>
                 );
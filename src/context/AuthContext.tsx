@@ -15,7 +15,6 @@ import {
 } from "firebase/auth";
 import { auth, googleProvider } from "@/lib/firebase";
 import { useRouter } from "next/navigation";
-import { getUserPlan } from "@/lib/entitlements";
 
 // Auth state machine states
 type AuthState = "initializing" | "authenticated" | "unauthenticated";
@@ -88,18 +87,12 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
     // Initialize auth state listener
     useEffect(() => {
-        const unsubscribe = onAuthStateChanged(auth, async (firebaseUser) => {
+        const unsubscribe = onAuthStateChanged(auth, (firebaseUser) => {
             setUser(firebaseUser);
             
+            // New users get their plan document from their first API request
             if (firebaseUser) {
                 setAuthState("authenticated");
-                
-                // Initialize user plan if not exists (for new users)
-                try {
-                    await getUserPlan(firebaseUser.uid);
-                } catch (e) {
-                    console.error("Failed to initialize user plan:", e);
-                }
             } else {
                 setAuthState("unauthenticated");
             }
@@ -0,0 +1,196 @@
+/**
+ * Action Parser
+ *
+ * Splits one piece of input into individual task actions.
+ * Shared by voice logs (/api/voice-log) and multi-action text (/api/parse-task),
+ * so both paths feed the same VoicePreviewModal confirmation flow.
+ * Uses the "voiceLog" agent model configuration.
+ */
+
+import { z } from "zod";
+import { getGeminiModel } from "@/lib/gemini";
+import { normalizeTags } from "@/lib/tagUtils";
+import {
+    generateStructuredOrThrow,
+    optionalField,
+    PrioritySchema,
+    RecurrenceRuleSchema,
+    StatusSchema,
+} from "./structuredOutput";
+import { RecurrenceRule } from "@/types";
+
+export type ActionSource = "voice" | "text";
+
+/**
+ * Parse free-form input into structured actions
+ * One utterance or message can hold several CREATE/UPDATE/COMPLETE actions
+ */
+export async function parseTaskActions(
+    input: string,
+    existingTasks: { id: string; title: string; status: string; tags?: string[] }[],
+    source: ActionSource
+): Promise<TaskAction[]> {
+    const model = getGeminiModel("voiceLog");
+    
+    const taskList = existingTasks.length > 0 
+        ? existingTasks.map(t => `- "${t.title}" (ID: ${t.id}, Status: ${t.status}${t.tags?.length ? `, Tags: ${t.tags.join(", ")}` : ""})`).join("\n")
+        : "No existing tasks in this space yet.";
+    
+    const inputLabel = source === "voice" ? "USER'S VOICE INPUT" : "USER'S TYPED INPUT";
+    
+    const prompt = `You are an AI assistant parsing voice and typed commands for a task management app called Smera.
+
+${inputLabel}: "${input}"
+
+EXISTING TASKS IN THIS SPACE:
+${taskList}
+
+YOUR JOB: Convert the user's input into separate, individual actions.
+
+ACTION TYPES:
+1. **CREATE** - User mentions NEW work they need to do. DEFAULT ACTION for any task/work mentioned.
+2. **UPDATE** - ONLY when user explicitly references an existing task BY NAME to modify it
+3. **COMPLETE** - ONLY when user explicitly says an existing task BY NAME is done/finished
+
+⚠️ CRITICAL RULES - READ CAREFULLY:
+
+1. **EACH distinct piece of work = ONE CREATE action.** If user mentions multiple things, create MULTIPLE actions.
+   Example: "I need to fix the login bug and also review the PR" → TWO CREATE actions
+
+2. **CREATE is the default.** If user says:
+   - "I need to...", "I have to...", "Create a task for...", "Add...", "Make a task..."
+   - Describes ANY work that needs doing
+   → Always CREATE a new task
+
+3. **UPDATE/COMPLETE only for EXPLICIT references:**
+   - User must mention an existing task by its exact or very similar name
+   - "Mark the database migration as done" → COMPLETE (if "database migration" task exists)
+   - "Set the auth task to high priority" → UPDATE (if "auth" task exists)
+   - "Tag the login bug as backend" → UPDATE with updates.tags (if "login bug" task exists)
+
+4. **NEVER merge unrelated tasks.** Two separate topics = two separate CREATE actions.
+
+5. **Do NOT assume user wants to update.** A new description of work is ALWAYS a new task, even if vaguely related to existing tasks.
+
+OUTPUT RULES:
+- "high priority", "urgent", "important", "priority", "tonight", "today" → priority: "high"
+- "low priority" → priority: "low"  
+- Default priority is "medium"
+- Tags are short lowercase labels. Only set task.tags on CREATE when the user names them ("tag it design", "#backend")
+- For tag changes on an existing task, updates.tags is the COMPLETE list after the change: its current tags plus added, minus removed
+- For dates: "tomorrow" = ${new Date(Date.now() + 86400000).toISOString().split("T")[0]}, "tonight"/"today" = ${new Date().toISOString().split("T")[0]}
+
+OUTPUT FORMAT (JSON only, no markdown):
+{
+  "actions": [
+    {
+      "type": "CREATE",
+      "task": {
+        "title": "Clear, concise task title",
+        "description": "Brief description if user provided context",
+        "dueDate": null,
+        "priority": "medium",
+        "tags": []
+      }
+    }
+  ]
+}
+
+For UPDATE/COMPLETE, include taskId from the existing tasks list:
+{
+  "actions": [
+    {
+      "type": "COMPLETE",
+      "taskId": "the-task-id-from-list-above"
+    }
+  ]
+}
+
+Return ONLY valid JSON:`;
+
+    // Invalid output (after repair attempts) throws AgentOutputError - never a silent empty list
+    console.log(`[Action Parser] Parsing ${source} input into actions...`);
+    const parsed = await generateStructuredOrThrow(
+        model,
+        prompt,
+        TaskActionsResponseSchema,
+        { agent: "voiceLog" }
+    );
+    
+    console.log("[Action Parser] Parsed actions count:", parsed.actions.length);
+    
+    // Keep tags in the stored form (lowercase, de-duplicated)
+    for (const action of parsed.actions) {
+        if (action.task?.tags) action.task.tags = normalizeTags(action.task.tags);
+        if (action.updates?.tags) action.updates.tags = normalizeTags(action.updates.tags);
+    }
+    
+    return parsed.actions;
+}
+
+/**
+ * Supported action types from voice logs and multi-action text
+ */
+export interface TaskAction {
+    type: "CREATE" | "UPDATE" | "COMPLETE";
+    task?: {
+        title: string;
+        description?: string;
+        dueDate?: string | null;
+        priority?: "low" | "medium" | "high";
+        tags?: string[];
+        // Carried over from a clarified pending task
+        checklist?: string[]; // Step titles
+        dueTime?: string;
+        blockedBy?: string[];
+        recurrence?: RecurrenceRule;
+        assigneeId?: string;
+        suggestedImprovements?: string[];
+    };
+    taskId?: string;
+    updates?: {
+        status?: "todo" | "in-progress" | "blocked" | "done";
+        priority?: "low" | "medium" | "high";
+        note?: string;
+        tags?: string[];
+    };
+}
+
+// Validates a single action; output type must stay assignable to TaskAction
+export const TaskActionSchema = z.object({
+    type: z.preprocess(
+        (value) => (typeof value === "string" ? value.toUpperCase().trim() : value),
+        z.enum(["CREATE", "UPDATE", "COMPLETE"])
+    ),
+    task: optionalField(z.object({
+        title: z.string().min(1),
+        description: optionalField(z.string()),
+        dueDate: z.string().nullable().optional(),
+        priority: optionalField(PrioritySchema),
+        tags: optionalField(z.array(z.string())),
+        checklist: optionalField(z.array(z.string())),
+        dueTime: optionalField(z.string()),
+        blockedBy: optionalField(z.array(z.string())),
+        recurrence: optionalField(RecurrenceRuleSchema),
+        assigneeId: optionalField(z.string()),
+        suggestedImprovements: optionalField(z.array(z.string())),
+    })),
+    taskId: optionalField(z.string()),
+    updates: optionalField(z.object({
+        status: optionalField(StatusSchema),
+        priority: optionalField(PrioritySchema),
+        note: optionalField(z.string()),
+        tags: optionalField(z.array(z.string())),
+    })),
+}).superRefine((action, ctx) => {
+    if (action.type === "CREATE" && !action.task) {
+        ctx.addIssue({ code: "custom", message: "CREATE actions require a task", path: ["task"] });
+    }
+    if (action.type !== "CREATE" && !action.taskId) {
+        ctx.addIssue({ code: "custom", message: `${action.type} actions require a taskId`, path: ["taskId"] });
+    }
+}) satisfies z.ZodType<TaskAction>;
+
+export const TaskActionsResponseSchema = z.object({
+    actions: z.array(TaskActionSchema).default([]),
+});
@@ -9,10 +9,18 @@
  * This replaces fuzzy matching with true semantic understanding.
  */
 
+import { z } from "zod";
 import { getGeminiModel } from "@/lib/gemini";
-import { Task } from "@/types";
+import { CalendarEvent, GitHubRef, RecurrenceRule, SpaceMember, Task } from "@/types";
+import { collectTags, normalizeTags } from "@/lib/tagUtils";
+import { sanitizeBlockedBy } from "@/lib/dependencyUtils";
+import { describeRecurrence, getFirstDueDate } from "@/lib/recurrenceUtils";
+import { getMemberName, resolveAssignee } from "@/lib/memberUtils";
+import { parseGitHubMentions } from "@/lib/githubUtils";
+import { parseTimeOfDay } from "@/lib/icsUtils";
+import { generateStructuredOrThrow, optionalField, PrioritySchema, RecurrenceRuleSchema, StatusSchema } from "./structuredOutput";
 
-export type IntentType = "create" | "update" | "complete" | "delete" | "query" | "clarify";
+export type IntentType = "create" | "update" | "complete" | "delete" | "query" | "clarify" | "multi";
 
 export interface ClassificationResult {
   intent: IntentType;
@@ -25,7 +33,13 @@ export interface ClassificationResult {
     description?: string;
     priority?: "low" | "medium" | "high";
     dueDate?: string;
+    dueTime?: string; // HH:MM - "after standup" resolves against today's calendar events
     tags?: string[];
+    checklist?: string[];
+    blockedBy?: string[];
+    recurrence?: RecurrenceRule;
+    assigneeId?: string;
+    githubRefs?: GitHubRef[]; // Issue/PR mentions - set in post-processing, not by the model
   };
   
   // Vagueness assessment (0-100, higher = more vague)
@@ -43,8 +57,13 @@ export interface ClassificationResult {
     description?: string;
     priority?: "low" | "medium" | "high";
     dueDate?: string;
-    status?: "todo" | "in-progress" | "done";
+    dueTime?: string;
+    status?: "todo" | "in-progress" | "blocked" | "done";
     tags?: string[];
+    blockedBy?: string[];
+    recurrence?: RecurrenceRule;
+    assigneeId?: string | null;
+    githubRefs?: GitHubRef[];
   };
   
   // For QUERY intent
@@ -58,10 +77,57 @@ export interface ClassificationResult {
   followUpQuestions?: string[];
 }
 
+// Validates raw classifier output; output type must stay assignable to ClassificationResult
+export const ClassificationResultSchema = z.object({
+  intent: z.preprocess(
+    (value) => (typeof value === "string" ? value.toLowerCase().trim() : value),
+    z.enum(["create", "update", "complete", "delete", "query", "clarify", "multi"])
+  ),
+  confidence: z.coerce.number().min(0).max(100),
+  reasoning: z.string().default(""),
+  taskDetails: optionalField(z.object({
+    title: z.string().min(1),
+    description: optionalField(z.string()),
+    priority: optionalField(PrioritySchema),
+    dueDate: optionalField(z.string()),
+    dueTime: optionalField(z.string()),
+    tags: optionalField(z.array(z.string())),
+    checklist: optionalField(z.array(z.string())),
+    blockedBy: optionalField(z.array(z.string())),
+    recurrence: optionalField(RecurrenceRuleSchema),
+    assigneeId: optionalField(z.string()),
+  })),
+  vaguenessScore: optionalField(z.coerce.number().min(0).max(100)),
+  vagueReason: optionalField(z.string()),
+  targetTask: optionalField(z.object({
+    id: z.string(),
+    title: z.string(),
+    matchReason: z.string().default(""),
+  })),
+  updates: optionalField(z.object({
+    title: optionalField(z.string()),
+    description: optionalField(z.string()),
+    priority: optionalField(PrioritySchema),
+    dueDate: optionalField(z.string()),
+    dueTime: optionalField(z.string()),
+    status: optionalField(StatusSchema),
+    tags: optionalField(z.array(z.string())),
+    blockedBy: optionalField(z.array(z.string())),
+    recurrence: optionalField(RecurrenceRuleSchema),
+    assigneeId: optionalField(z.string()),
+  })),
+  queryType: optionalField(z.enum(["status", "list", "search", "summary"])),
+  clarifyingQuestion: optionalField(z.string()),
+  missingInfo: optionalField(z.array(z.string())),
+  followUpQuestions: optionalField(z.array(z.string())),
+}) satisfies z.ZodType<ClassificationResult>;
+
 export interface SpaceContext {
   spaceId: string;
   spaceName: string;
   tasks: Task[];
+  members?: SpaceMember[];
+  calendarEvents?: CalendarEvent[]; // Today's events from the user's subscribed calendar
   recentActivity?: {
     lastCreatedTask?: Task;
     lastUpdatedTask?: Task;
@@ -69,32 +135,77 @@ export interface SpaceContext {
   };
 }
 
+function buildMemberContext(members: SpaceMember[]): string {
+  let memberStr = "\n=== SPACE MEMBERS ===\n";
+  members.forEach(member => {
+    const emailStr = member.email ? ` <${member.email}>` : "";
+    memberStr += `- ${getMemberName(member)}${emailStr} (ID: ${member.userId}, ${member.role})\n`;
+  });
+  return memberStr;
+}
+
+function buildCalendarContext(events: CalendarEvent[]): string {
+  let calendarStr = "";
+  events.forEach(event => {
+    const when = event.startTime ? `${event.startTime}${event.endTime ? `-${event.endTime}` : ""}` : "All day";
+    const locationStr = event.location ? ` (${event.location})` : "";
+    calendarStr += `- ${when}: ${event.title}${locationStr}\n`;
+  });
+  return calendarStr;
+}
+
 function buildTaskContext(context: SpaceContext): string {
-  const { tasks, spaceName, recentActivity } = context;
+  const { tasks, spaceName, recentActivity, members = [] } = context;
+  // Assignees only matter once a space is shared
+  const memberContext = members.length > 1 ? buildMemberContext(members) : "";
   
   if (tasks.length === 0) {
-    return `Space "${spaceName}" has no tasks yet.`;
+    return `Space "${spaceName}" has no tasks yet.\n${memberContext}`;
   }
   
   const tasksByStatus = {
     todo: tasks.filter(t => t.status === "todo"),
     inProgress: tasks.filter(t => t.status === "in-progress"),
+    blocked: tasks.filter(t => t.status === "blocked"),
     done: tasks.filter(t => t.status === "done"),
   };
   
   let contextStr = `Space: "${spaceName}"\n`;
-  contextStr += `Total tasks: ${tasks.length} (${tasksByStatus.todo.length} todo, ${tasksByStatus.inProgress.length} in-progress, ${tasksByStatus.done.length} done)\n\n`;
+  contextStr += `Total tasks: ${tasks.length} (${tasksByStatus.todo.length} todo, ${tasksByStatus.inProgress.length} in-progress, ${tasksByStatus.blocked.length} blocked, ${tasksByStatus.done.length} done)\n\n`;
   
   contextStr += "=== ALL TASKS ===\n";
   tasks.forEach((task, i) => {
     const dueStr = task.dueDate ? ` | Due: ${task.dueDate}` : "";
     const priorityStr = task.priority ? ` | Priority: ${task.priority}` : "";
-    contextStr += `${i + 1}. [${task.status.toUpperCase()}] "${task.title}" (ID: ${task.id})${priorityStr}${dueStr}\n`;
+    const tagsStr = task.tags?.length ? ` | Tags: ${task.tags.join(", ")}` : "";
+    contextStr += `${i + 1}. [${task.status.toUpperCase()}] "${task.title}" (ID: ${task.id})${priorityStr}${dueStr}${tagsStr}\n`;
+    if (task.recurrence) {
+      contextStr += `   Repeats: ${describeRecurrence(task.recurrence)}\n`;
+    }
+    const assignee = task.assigneeId ? members.find(m => m.userId === task.assigneeId) : undefined;
+    if (assignee) {
+      contextStr += `   Assignee: ${getMemberName(assignee)} (ID: ${assignee.userId})\n`;
+    }
+    if (task.blockedBy?.length) {
+      const blockers = task.blockedBy.map(id => tasks.find(t => t.id === id)).filter((t): t is Task => !!t);
+      contextStr += `   Blocked by: ${blockers.map(t => `"${t.title}" (ID: ${t.id}, ${t.status})`).join(", ")}\n`;
+    }
+    if (task.checklist?.length) {
+      const doneCount = task.checklist.filter(item => item.done).length;
+      contextStr += `   Checklist (${doneCount}/${task.checklist.length}): ${task.checklist.map(item => `[${item.done ? "x" : " "}] ${item.title}`).join("; ")}\n`;
+    }
     if (task.description) {
       contextStr += `   Description: ${task.description.substring(0, 100)}${task.description.length > 100 ? "..." : ""}\n`;
     }
   });
   
+  const spaceTags = collectTags(tasks);
+  if (spaceTags.length > 0) {
+    contextStr += `\nTags in use: ${spaceTags.join(", ")}\n`;
+  }
+  
+  contextStr += memberContext;
+  
   if (recentActivity) {
     contextStr += "\n=== RECENT ACTIVITY ===\n";
     if (recentActivity.lastCreatedTask) {
@@ -123,6 +234,7 @@ export async function classifyIntent(
 ## CURRENT CONTEXT
 ${taskContext}
 
+${context.calendarEvents?.length ? `## TODAY'S CALENDAR (${context.calendarEvents[0].date})\n${buildCalendarContext(context.calendarEvents)}\n` : ""}
 ${conversationHistory?.length ? `## RECENT CONVERSATION\n${conversationHistory.slice(-5).join("\n")}\n` : ""}
 
 ## USER INPUT
@@ -142,6 +254,9 @@ Analyze the user's input and determine their intent. Be VERY careful about disti
    - ONLY if they explicitly reference an existing task by name or context
    - Look for: "change", "update", "set", "modify" + reference to existing task
    - Examples: "Change the priority of the login bug to high", "Update the description of task 3"
+   - Adding or removing tags is an UPDATE: "tag the login bug as backend", "remove the urgent tag from the report"
+   - Dependency changes are an UPDATE: "the deploy is blocked by the migration task", "the report no longer depends on the data pull"
+   - Finishing a step from a task's checklist is an UPDATE of that task: "completed the embedding model setup" → the task whose checklist has that step
    - User MUST clearly reference one of the existing tasks listed above
 
 3. **COMPLETE** - User wants to mark an EXISTING task as done
@@ -159,6 +274,12 @@ Analyze the user's input and determine their intent. Be VERY careful about disti
 6. **CLARIFY** - You need more information to understand the intent
    - Use this when the request is genuinely ambiguous
 
+7. **MULTI** - The input contains TWO OR MORE distinct actions
+   - Examples: "finished the auth fix, and add a task to write release notes for friday" (COMPLETE + CREATE)
+   - "Fix the login bug and also review the PR" (two CREATEs)
+   - A single task with several details is NOT multi: "Deploy payment service to prod by friday, high priority" = CREATE
+   - For MULTI, only intent/confidence/reasoning are needed - the actions are extracted separately
+
 ## SMART FOLLOW-UP QUESTIONS (VERY IMPORTANT!)
 Generate 2-3 specific, contextual questions to make vague tasks actionable. Be direct and specific:
 
@@ -199,6 +320,50 @@ For due dates, convert to YYYY-MM-DD format:
 - "December 20" → 2025-12-20
 - Today is ${new Date().toISOString().split('T')[0]}
 
+For a time of day, set "dueTime" as 24-hour HH:MM ("by 3pm" → "15:00"), otherwise null.
+${context.calendarEvents?.length ? `Times relative to an event use TODAY'S CALENDAR above: "after standup" → the standup's end time, "before the design review" → its start time, and the due date is the calendar's date.
+If the event isn't in the calendar, leave "dueTime" null and keep the reference in the description.` : `Without a calendar, "after standup"-style references leave "dueTime" null - keep them in the description.`}
+
+## CHECKLIST (for CREATE)
+If the user lists concrete steps for ONE piece of work, create ONE task with the steps in "taskDetails.checklist".
+- "Development of Agent 1: set up embeddings, write the retriever, add evals" → title "Develop Agent 1", checklist ["Set up embeddings", "Write the retriever", "Add evals"]
+- Steps are short, verb-first titles. Use null when there are no explicit steps - never invent steps.
+- Separate, unrelated pieces of work are MULTI, not a checklist.
+
+## RECURRENCE
+If the task repeats, set "taskDetails.recurrence" (otherwise null):
+- "frequency": "daily" | "weekly" | "monthly" | "yearly", "interval": every N of them (default 1)
+- "daysOfWeek": weekly only, 0 = Sunday ... 6 = Saturday
+- "dayOfMonth": monthly only, when a day is named ("on the 1st" → 1)
+- "until": YYYY-MM-DD if the user gives an end ("until March")
+- Examples: "weekly dependency audit every Monday" → {"frequency": "weekly", "interval": 1, "daysOfWeek": [1]}
+  "rotate API keys monthly" → {"frequency": "monthly", "interval": 1}
+  "standup notes every weekday" → {"frequency": "weekly", "interval": 1, "daysOfWeek": [1, 2, 3, 4, 5]}
+  "water plants every 3 days" → {"frequency": "daily", "interval": 3}
+- A recurring task does NOT need a due date - the first occurrence is scheduled from the rule. Don't ask "when?" for it.
+- To make an existing task repeat ("make the audit repeat weekly") use UPDATE with "updates.recurrence".
+
+## DEPENDENCIES
+Resolve references to OTHER tasks in the list above ("this depends on the migration task", "blocked until the API is done") to their exact IDs.
+- For CREATE: "taskDetails.blockedBy" = IDs of existing tasks the new task waits on. Null if none.
+- For UPDATE: "updates.blockedBy" is the COMPLETE list of blocker IDs after the change (current blockers plus added, minus removed).
+- Use status "blocked" only when the user says the task is blocked/stuck/waiting. A blocker that is a task in the list goes in "blockedBy".
+- Never invent IDs. If the referenced task isn't in the list, leave it out and mention it in the description instead.
+
+## TAGS
+Tags are short lowercase labels (e.g. "backend", "q3-launch", "personal").
+- For CREATE: only add tags the user states ("#backend", "tag it as design") or that clearly fit a tag already in use in this space. Otherwise null.
+- Prefer reusing an existing tag over inventing a near-duplicate ("frontend" not "front-end" if "frontend" is in use).
+- For tag changes on an existing task, "updates.tags" is the COMPLETE tag list after the change: the task's current tags plus any added, minus any removed.
+  - Task has [backend], user says "also tag it urgent" → "tags": ["backend", "urgent"]
+  - Task has [backend, urgent], user says "it's not urgent anymore, untag it" → "tags": ["backend"]
+
+## ASSIGNEE
+${(context.members?.length ?? 0) > 1 ? `This space is shared. Resolve people to the SPACE MEMBERS above by their exact ID.
+- For CREATE: "taskDetails.assigneeId" = the member who should do the task. "ask Kuhuk to review the PR" → title "Review the PR", assigneeId = Kuhuk's ID.
+- For UPDATE: "updates.assigneeId" = the new assignee's ID ("give the report to Kuhuk"), or "none" to unassign.
+- Only use IDs of listed members. Someone who isn't a member is mentioned in the description instead.` : `This space isn't shared - leave "assigneeId" null and mention people in the description.`}
+
 ## VAGUENESS ASSESSMENT (CRITICAL!)
 Score how vague/unclear the task is from 0-100:
 
@@ -233,7 +398,7 @@ Ask yourself: "Does the user know WHAT they want to do?"
 ## RESPONSE FORMAT
 Respond with ONLY a JSON object:
 {
-  "intent": "create" | "update" | "complete" | "delete" | "query" | "clarify",
+  "intent": "create" | "update" | "complete" | "delete" | "query" | "clarify" | "multi",
   "confidence": 0-100,
   "reasoning": "Brief explanation of why you chose this intent",
   
@@ -243,7 +408,12 @@ Respond with ONLY a JSON object:
     "description": "Put ALL additional context, details, recipients, specifics here - NOT in title",
     "priority": "low" | "medium" | "high",
     "dueDate": "YYYY-MM-DD" | null,
-    "tags": ["tag1", "tag2"] | null
+    "dueTime": "HH:MM" | null,
+    "tags": ["tag1", "tag2"] | null,
+    "checklist": ["Step 1", "Step 2"] | null,
+    "blockedBy": ["exact IDs of tasks this waits on"] | null,
+    "recurrence": { "frequency": "weekly", "interval": 1, "daysOfWeek": [1] } | null,
+    "assigneeId": "exact member ID" | null
   },
   
   // ALWAYS include for CREATE - vagueness assessment:
@@ -259,6 +429,11 @@ Respond with ONLY a JSON object:
   "updates": {
     "status": "done" (for complete),
     "priority": "high" (for priority changes),
+    "dueTime": "HH:MM" (for time changes),
+    "tags": ["full", "tag", "list"] (for tag changes),
+    "blockedBy": ["full", "blocker", "ID list"] (for dependency changes),
+    "recurrence": { "frequency": "...", "interval": 1 } (for repeat schedule changes),
+    "assigneeId": "member ID" | "none" (for assignment changes),
     // ... other fields being updated
   },
   
@@ -307,82 +482,114 @@ IMPORTANT RULES:
 5. Consider the context: if user just created a task about "testing", a new input about "UAT testing" is likely a DIFFERENT new task
 6. ALWAYS set priority based on urgency keywords - never leave it null if you can infer it`;
 
-  try {
-    const model = getGeminiModel();
-    const genResult = await model.generateContent([
-      { text: prompt }
-    ]);
-    
-    const response = genResult.response;
-    const text = response.text() || "";
-    
-    console.log("[Classifier] Raw LLM response:", text);
-    
-    // Extract JSON from response
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      console.error("[Classifier] No JSON found in response");
-      return getDefaultCreateResult(userInput);
+  // Invalid output (after repair attempts) throws AgentOutputError - never a silent "create"
+  const model = getGeminiModel("classifier");
+  const parsed: ClassificationResult = await generateStructuredOrThrow(
+    model,
+    [{ text: prompt }],
+    ClassificationResultSchema,
+    { agent: "classifier" }
+  );
+  
+  console.log("[Classifier] Parsed result:", {
+    intent: parsed.intent,
+    confidence: parsed.confidence,
+    reasoning: parsed.reasoning,
+    targetTask: parsed.targetTask?.title,
+    taskDetails: parsed.taskDetails?.title,
+  });
+  
+  // Validate UPDATE/COMPLETE/DELETE has valid target
+  if (["update", "complete", "delete"].includes(parsed.intent)) {
+    if (!parsed.targetTask?.id) {
+      console.log("[Classifier] No target task for update intent, switching to CREATE");
+      return {
+        ...getDefaultCreateResult(userInput),
+        reasoning: "No matching existing task found, creating new task instead",
+        taskDetails: {
+          title: extractTitle(userInput),
+          ...parsed.taskDetails,
+        },
+      };
     }
     
-    const parsed = JSON.parse(jsonMatch[0]) as ClassificationResult;
-    
-    console.log("[Classifier] Parsed result:", {
-      intent: parsed.intent,
-      confidence: parsed.confidence,
-      reasoning: parsed.reasoning,
-      targetTask: parsed.targetTask?.title,
-      taskDetails: parsed.taskDetails?.title,
-    });
-    
-    // Normalize intent to lowercase
-    parsed.intent = parsed.intent.toLowerCase() as IntentType;
-    
-    // Validate UPDATE/COMPLETE/DELETE has valid target
-    if (["update", "complete", "delete"].includes(parsed.intent)) {
-      if (!parsed.targetTask?.id) {
-        console.log("[Classifier] No target task for update intent, switching to CREATE");
-        return {
-          ...getDefaultCreateResult(userInput),
-          reasoning: "No matching existing task found, creating new task instead",
-          taskDetails: {
-            title: extractTitle(userInput),
-            ...parsed.taskDetails,
-          },
-        };
-      }
-      
-      // Verify the task actually exists
-      const taskExists = context.tasks.some(t => t.id === parsed.targetTask?.id);
-      if (!taskExists) {
-        console.log("[Classifier] Target task doesn't exist, switching to CREATE");
-        return {
-          ...getDefaultCreateResult(userInput),
-          reasoning: "Referenced task not found, creating new task instead",
-          taskDetails: {
-            title: extractTitle(userInput),
-          },
-        };
-      }
+    // Verify the task actually exists
+    const taskExists = context.tasks.some(t => t.id === parsed.targetTask?.id);
+    if (!taskExists) {
+      console.log("[Classifier] Target task doesn't exist, switching to CREATE");
+      return {
+        ...getDefaultCreateResult(userInput),
+        reasoning: "Referenced task not found, creating new task instead",
+        taskDetails: {
+          title: extractTitle(userInput),
+        },
+      };
     }
-    
-    // Post-process: Infer priority if not set
+  }
+  
+  // Post-process: Keep tags in the stored form (lowercase, de-duplicated)
+  if (parsed.taskDetails?.tags) {
+    parsed.taskDetails.tags = normalizeTags(parsed.taskDetails.tags);
+  }
+  if (parsed.updates?.tags) {
+    parsed.updates.tags = normalizeTags(parsed.updates.tags);
+  }
+  
+  // Post-process: Due times are stored as HH:MM - drop anything that isn't a time
+  if (parsed.taskDetails?.dueTime) {
+    parsed.taskDetails.dueTime = parseTimeOfDay(parsed.taskDetails.dueTime) ?? undefined;
+  }
+  if (parsed.updates?.dueTime) {
+    parsed.updates.dueTime = parseTimeOfDay(parsed.updates.dueTime) ?? undefined;
+  }
+  
+  // Post-process: Recurring tasks start at the rule's first occurrence instead of asking for a date
+  if (parsed.taskDetails?.recurrence && !parsed.taskDetails.dueDate) {
+    parsed.taskDetails.dueDate = getFirstDueDate(parsed.taskDetails.recurrence, new Date().toISOString().split('T')[0]);
+  }
+  
+  // Post-process: Drop dependency IDs that don't exist (or would loop back to the target)
+  if (parsed.taskDetails?.blockedBy) {
+    parsed.taskDetails.blockedBy = sanitizeBlockedBy(undefined, parsed.taskDetails.blockedBy, context.tasks);
+  }
+  if (parsed.updates?.blockedBy) {
+    parsed.updates.blockedBy = sanitizeBlockedBy(parsed.targetTask?.id, parsed.updates.blockedBy, context.tasks);
+  }
+  
+  // Post-process: Assignees must be members of the space ("none" unassigns)
+  if (parsed.taskDetails?.assigneeId) {
+    parsed.taskDetails.assigneeId = resolveAssignee(parsed.taskDetails.assigneeId, context.members || []);
+  }
+  if (parsed.updates?.assigneeId) {
+    parsed.updates.assigneeId = parsed.updates.assigneeId.toLowerCase() === "none"
+      ? null
+      : resolveAssignee(parsed.updates.assigneeId, context.members || []);
+  }
+  
+  // Post-process: Issue and PR mentions ("review PR #423") - /api/parse-task links them
+  // when the space has a connected repository
+  const githubRefs = parseGitHubMentions(userInput);
+  if (githubRefs.length > 0) {
     if (parsed.taskDetails) {
-      console.log("[Classifier] Priority before infer:", parsed.taskDetails.priority);
-      if (!parsed.taskDetails.priority) {
-        const inferredPriority = inferPriority(userInput);
-        console.log("[Classifier] Inferred priority:", inferredPriority);
-        parsed.taskDetails.priority = inferredPriority;
-      }
-      console.log("[Classifier] Final priority:", parsed.taskDetails.priority);
+      parsed.taskDetails.githubRefs = githubRefs;
+    }
+    if (parsed.intent === "update" || parsed.intent === "complete") {
+      parsed.updates = { ...parsed.updates, githubRefs };
     }
-    
-    return parsed;
-    
-  } catch (error) {
-    console.error("[Classifier] Error:", error);
-    return getDefaultCreateResult(userInput);
   }
+  
+  // Post-process: Infer priority if not set
+  if (parsed.taskDetails) {
+    console.log("[Classifier] Priority before infer:", parsed.taskDetails.priority);
+    if (!parsed.taskDetails.priority) {
+      const inferredPriority = inferPriority(userInput);
+      console.log("[Classifier] Inferred priority:", inferredPriority);
+      parsed.taskDetails.priority = inferredPriority;
+    }
+    console.log("[Classifier] Final priority:", parsed.taskDetails.priority);
+  }
+  
+  return parsed;
 }
 
 function inferPriority(input: string): "low" | "medium" | "high" {
@@ -447,7 +654,8 @@ function extractTitle(input: string): string {
 // Helper to generate follow-up questions based on task context
 export function generateSmartFollowUps(
   taskDetails: ClassificationResult["taskDetails"],
-  existingTasks: Task[]
+  existingTasks: Task[],
+  members: SpaceMember[] = []
 ): string[] {
   const questions: string[] = [];
   
@@ -483,6 +691,12 @@ export function generateSmartFollowUps(
     questions.push("Who should be involved in this?");
   }
   
+  // Reviews and hand-offs in a shared space usually belong to someone else
+  if (members.length > 1 && !taskDetails.assigneeId && (title.includes("review") || title.includes("hand off"))) {
+    const names = members.slice(0, 3).map(getMemberName);
+    questions.push(`Who should take this - ${names.join(", ")}?`);
+  }
+  
   if (title.includes("review") || title.includes("pr") || title.includes("code")) {
     questions.push("Is there a specific PR or branch this relates to?");
   }
@@ -1,6 +1,9 @@
+import { z } from "zod";
 import { getGeminiModel } from "@/lib/gemini";
 import { generateFollowUpQuestions, shouldAskFollowUp, FollowUpQuestion } from "./followUpAgent";
-import { Task } from "@/types";
+import { generateStructuredOrThrow, optionalField, PrioritySchema, RecurrenceRuleSchema } from "./structuredOutput";
+import { RecurrenceRule, SpaceMember, Task } from "@/types";
+import { getFirstDueDate } from "@/lib/recurrenceUtils";
 
 interface CreatorResponse {
     newTask?: {
@@ -9,6 +12,7 @@ interface CreatorResponse {
         dueTime?: string;
         priority: "low" | "medium" | "high";
         description: string;
+        recurrence?: RecurrenceRule;
     };
     task?: {
         title: string;
@@ -16,17 +20,31 @@ interface CreatorResponse {
         dueTime?: string;
         priority: "low" | "medium" | "high";
         description: string;
+        recurrence?: RecurrenceRule;
     };
     missingInfo?: string;
     followUpQuestions?: FollowUpQuestion[];
     taskCompleteness?: number;
 }
 
+// Validates raw creator output
+const CreatorResponseSchema = z.object({
+    newTask: optionalField(z.object({
+        title: z.string().min(1),
+        dueDate: z.string().nullish().transform((value) => value ?? null),
+        dueTime: optionalField(z.string()),
+        priority: optionalField(PrioritySchema).transform((value) => value ?? "medium"),
+        description: optionalField(z.string()).transform((value) => value ?? ""),
+        recurrence: optionalField(RecurrenceRuleSchema),
+    })),
+}) satisfies z.ZodType<Pick<CreatorResponse, "newTask">>;
+
 export async function handleCreateTask(
     text: string,
     tasksContext: string,
     currentDate: string,
-    existingTasks?: Task[]
+    existingTasks?: Task[],
+    members?: SpaceMember[]
 ): Promise<CreatorResponse> {
     const SYSTEM_PROMPT = `
     You are the Creator Agent. Your job is to extract details for a NEW task.
@@ -69,6 +87,13 @@ export async function handleCreateTask(
        - If user gives context about WHY, put it here
        - Can be empty for simple tasks
 
+    6. **Recurrence**: Only if the task repeats, otherwise omit.
+       - "every Monday" → {"frequency": "weekly", "interval": 1, "daysOfWeek": [1]} (0 = Sunday)
+       - "monthly" → {"frequency": "monthly", "interval": 1}; "on the 15th of every month" adds "dayOfMonth": 15
+       - "every 2 weeks" → {"frequency": "weekly", "interval": 2}
+       - "until <date>" → "until": "YYYY-MM-DD"
+       - Keep the schedule out of the title: "Weekly dependency audit every Monday" → "Dependency audit"
+
     **CRITICAL: Always return the task, even without a due date.**
     Do NOT ask for missing info - the follow-up system will handle that separately.
 
@@ -79,70 +104,73 @@ export async function handleCreateTask(
             "dueDate": "ISO string or null",
             "dueTime": "HH:MM (optional)",
             "priority": "low" | "medium" | "high",
-            "description": "string (can be empty)"
+            "description": "string (can be empty)",
+            "recurrence": { "frequency": "daily" | "weekly" | "monthly" | "yearly", "interval": 1, "daysOfWeek": [1], "dayOfMonth": 15, "until": "YYYY-MM-DD" } (optional)
         }
     }
     `;
 
-    const model = getGeminiModel();
-    const result = await model.generateContent([
-        { text: SYSTEM_PROMPT },
-        { text: `User Input: "${text}"` }
-    ]);
+    // Invalid output (after repair attempts) throws AgentOutputError
+    const model = getGeminiModel("creator");
+    const parsed: CreatorResponse = await generateStructuredOrThrow(
+        model,
+        [
+            { text: SYSTEM_PROMPT },
+            { text: `User Input: "${text}"` }
+        ],
+        CreatorResponseSchema,
+        { agent: "creator" }
+    );
 
-    const response = result.response;
-    let jsonStr = response.text();
-    jsonStr = jsonStr.replace(/```json/g, "").replace(/```/g, "").trim();
+    // If we have a task, check for mandatory fields
+    if (parsed.newTask) {
+        // Recurring tasks start at the rule's first occurrence
+        if (!parsed.newTask.dueDate && parsed.newTask.recurrence) {
+            parsed.newTask.dueDate = getFirstDueDate(parsed.newTask.recurrence, new Date().toISOString().split("T")[0]);
+        }
 
-    try {
-        const parsed = JSON.parse(jsonStr);
+        // MANDATORY: Always ask for due date if not provided
+        if (!parsed.newTask.dueDate) {
+            parsed.missingInfo = "When do you need this done by?";
+            parsed.task = parsed.newTask; // Keep the task data for after follow-up
+            return parsed;
+        }
         
-        // If we have a task, check for mandatory fields
-        if (parsed.newTask) {
-            // MANDATORY: Always ask for due date if not provided
-            if (!parsed.newTask.dueDate) {
-                parsed.missingInfo = "When do you need this done by?";
-                parsed.task = parsed.newTask; // Keep the task data for after follow-up
-                return parsed;
-            }
+        // Optional: Ask smart follow-up questions for additional context
+        if (existingTasks) {
+            const shouldAsk = shouldAskFollowUp(
+                parsed.newTask.title,
+                !!parsed.newTask.dueDate,
+                parsed.newTask.priority !== "medium"
+            );
             
-            // Optional: Ask smart follow-up questions for additional context
-            if (existingTasks) {
-                const shouldAsk = shouldAskFollowUp(
+            if (shouldAsk) {
+                const followUpAnalysis = await generateFollowUpQuestions(
                     parsed.newTask.title,
-                    !!parsed.newTask.dueDate,
-                    parsed.newTask.priority !== "medium"
+                    parsed.newTask.description || null,
+                    existingTasks,
+                    [],
+                    members
                 );
                 
-                if (shouldAsk) {
-                    const followUpAnalysis = await generateFollowUpQuestions(
-                        parsed.newTask.title,
-                        parsed.newTask.description || null,
-                        existingTasks
-                    );
-                    
-                    // Only include follow-ups if task is incomplete and has critical/recommended questions
-                    const importantQuestions = followUpAnalysis.questions.filter(
-                        q => q.importance === "critical" || q.importance === "recommended"
-                    );
+                // Only include follow-ups if task is incomplete and has critical/recommended questions
+                const importantQuestions = followUpAnalysis.questions.filter(
+                    q => q.importance === "critical" || q.importance === "recommended"
+                );
+                
+                if (followUpAnalysis.taskCompleteness < 80 && importantQuestions.length > 0) {
+                    parsed.followUpQuestions = importantQuestions;
+                    parsed.taskCompleteness = followUpAnalysis.taskCompleteness;
                     
-                    if (followUpAnalysis.taskCompleteness < 80 && importantQuestions.length > 0) {
-                        parsed.followUpQuestions = importantQuestions;
-                        parsed.taskCompleteness = followUpAnalysis.taskCompleteness;
-                        
-                        // For critical questions, also set missingInfo with the first question
-                        const criticalQ = importantQuestions.find(q => q.importance === "critical");
-                        if (criticalQ) {
-                            parsed.missingInfo = criticalQ.question;
-                        }
+                    // For critical questions, also set missingInfo with the first question
+                    const criticalQ = importantQuestions.find(q => q.importance === "critical");
+                    if (criticalQ) {
+                        parsed.missingInfo = criticalQ.question;
                     }
                 }
             }
         }
-        
-        return parsed;
-    } catch (e) {
-        console.error("Creator JSON Parse Error", e);
-        return { missingInfo: "I couldn't understand the task details. Could you try again?" };
     }
+    
+    return parsed;
 }
@@ -1,7 +1,14 @@
 import { getGeminiModel } from "@/lib/gemini";
-import { Task } from "@/types";
+import { Task, TaskUpdate } from "@/types";
 
-export async function generatePolishedDescription(task: Task): Promise<string> {
+// What the description is written from - validated by /api/generate-description
+export type DescriptionSource = Pick<Task, "title" | "description" | "dueDate"> & {
+    status?: string;
+    priority?: string;
+    updates?: Pick<TaskUpdate, "timestamp" | "type" | "content">[];
+};
+
+export async function generatePolishedDescription(task: DescriptionSource): Promise<string> {
     const hasActivity = task.updates && task.updates.length > 0;
     
     const timelineText = hasActivity
@@ -51,7 +58,7 @@ Example:
 - Title: "Fix login bug" → "Investigate and resolve the authentication issue preventing users from logging in."
 - Title: "Review PR #42" → "Review and approve the pull request for the new feature."`;
 
-    const model = getGeminiModel();
+    const model = getGeminiModel("description");
     const result = await model.generateContent(prompt);
     const response = result.response;
     return response.text();
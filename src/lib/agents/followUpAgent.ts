@@ -1,5 +1,8 @@
+import { z } from "zod";
 import { getGeminiModel } from "@/lib/gemini";
-import { Task } from "@/types";
+import { SpaceMember, Task } from "@/types";
+import { getMemberName } from "@/lib/memberUtils";
+import { generateStructured, optionalField } from "./structuredOutput";
 
 export type FollowUpCategory = 
     | "due_date"
@@ -24,6 +27,27 @@ export interface FollowUpAnalysis {
     reasoning: string;
 }
 
+// Validates raw follow-up agent output
+const FollowUpAnalysisSchema = z.object({
+    questions: z.array(z.object({
+        category: z.enum([
+            "due_date",
+            "priority",
+            "acceptance_criteria",
+            "context",
+            "dependencies",
+            "effort_estimate",
+            "assignee",
+            "clarification",
+        ]),
+        question: z.string().min(1),
+        importance: z.enum(["critical", "recommended", "nice-to-have"]),
+        examples: optionalField(z.array(z.string())),
+    })).default([]),
+    taskCompleteness: z.coerce.number().min(0).max(100),
+    reasoning: z.string().default(""),
+}) satisfies z.ZodType<FollowUpAnalysis>;
+
 /**
  * Analyzes a task and generates smart follow-up questions
  * to gather missing information that would make the task actionable
@@ -32,8 +56,13 @@ export async function generateFollowUpQuestions(
     taskTitle: string,
     taskDescription: string | null,
     existingTasks: Task[],
-    alreadyAsked: FollowUpCategory[] = []
+    alreadyAsked: FollowUpCategory[] = [],
+    members: SpaceMember[] = []
 ): Promise<FollowUpAnalysis> {
+    // Asking who should do it only makes sense once the space is shared
+    const isShared = members.length > 1;
+    const memberNames = members.map(getMemberName);
+
     // Build context about existing tasks for smart suggestions
     const tasksContext = existingTasks.length > 0
         ? existingTasks.slice(0, 10).map(t => 
@@ -66,6 +95,8 @@ FOLLOW-UP CATEGORIES (pick the most relevant):
 5. "dependencies" - What needs to happen first? (For tasks that seem to depend on others)
 6. "effort_estimate" - How long will this take? (For planning)
 7. "clarification" - Ambiguous wording needs clarification
+${isShared ? `8. "assignee" - Who should do this? (Only if the task reads like someone else's work, e.g. a review or a hand-off)
+   Space members: ${memberNames.join(", ")} - use their names as examples` : ""}
 
 QUESTION GENERATION RULES:
 1. **Be conversational, not robotic**
@@ -104,7 +135,7 @@ OUTPUT JSON:
 {
     "questions": [
         {
-            "category": "due_date" | "priority" | "acceptance_criteria" | "context" | "dependencies" | "effort_estimate" | "clarification",
+            "category": "due_date" | "priority" | "acceptance_criteria" | "context" | "dependencies" | "effort_estimate" | "clarification"${isShared ? ' | "assignee"' : ""},
             "question": "Conversational question",
             "importance": "critical" | "recommended" | "nice-to-have",
             "examples": ["example1", "example2"] // optional
@@ -132,27 +163,38 @@ Task: "Fix login bug"
 ]
 `;
 
-    const model = getGeminiModel();
+    const model = getGeminiModel("followUp");
     
     try {
-        const result = await model.generateContent([
-            { text: SYSTEM_PROMPT },
-            { text: "Analyze this task and generate appropriate follow-up questions." }
-        ]);
-
-        const response = result.response;
-        let jsonStr = response.text();
-        jsonStr = jsonStr.replace(/```json/g, "").replace(/```/g, "").trim();
+        const result = await generateStructured(
+            model,
+            [
+                { text: SYSTEM_PROMPT },
+                { text: "Analyze this task and generate appropriate follow-up questions." }
+            ],
+            FollowUpAnalysisSchema,
+            { agent: "followUp" }
+        );
+
+        // Follow-ups are optional enrichment, so invalid output falls back to the basic question below
+        if (!result.success) {
+            throw new Error(`Invalid follow-up output: ${result.error.message}`);
+        }
 
-        const parsed = JSON.parse(jsonStr);
+        const parsed: FollowUpAnalysis = result.data;
         
         // Filter out already asked categories
         if (alreadyAsked.length > 0) {
             parsed.questions = parsed.questions.filter(
-                (q: FollowUpQuestion) => !alreadyAsked.includes(q.category)
+                q => !alreadyAsked.includes(q.category)
             );
         }
         
+        // Nobody else to assign to in a space that isn't shared
+        if (!isShared) {
+            parsed.questions = parsed.questions.filter(q => q.category !== "assignee");
+        }
+        
         // Limit to 2 questions max
         parsed.questions = parsed.questions.slice(0, 2);
         
@@ -8,12 +8,12 @@
  * 4. Handle ambiguous requests gracefully
  */
 
-import { Task } from "@/types";
+import { CalendarEvent, SpaceMember, Task } from "@/types";
 import { classifyIntent, ClassificationResult, SpaceContext, generateSmartFollowUps } from "./classifier";
 
 // Legacy interface for backward compatibility
 export interface OrchestratorResponse {
-    intent: "create" | "update" | "delete" | "query" | "clarify";
+    intent: "create" | "update" | "delete" | "query" | "clarify" | "multi";
     reasoning: string;
     confidence: number;
     suggestedTaskId?: string;
@@ -39,7 +39,10 @@ export async function orchestrateIntent(
     tasks: Task[],
     currentDate: string,
     spaceName?: string,
-    recentActivity?: SpaceContext["recentActivity"]
+    recentActivity?: SpaceContext["recentActivity"],
+    conversationHistory?: string[],
+    members?: SpaceMember[],
+    calendarEvents?: CalendarEvent[]
 ): Promise<SmartOrchestratorResponse> {
     console.log("[Orchestrator] Processing:", text);
     console.log("[Orchestrator] Context:", { taskCount: tasks.length, spaceName });
@@ -49,14 +52,16 @@ export async function orchestrateIntent(
         spaceId: "current",
         spaceName: spaceName || "Current Space",
         tasks,
+        members,
+        calendarEvents,
         recentActivity,
     };
     
     // Use LLM classifier - NO fuzzy matching!
-    const classification = await classifyIntent(text, context);
+    const classification = await classifyIntent(text, context, conversationHistory);
     
     // Normalize intent to lowercase FIRST
-    const normalizedIntent = classification.intent.toLowerCase() as "create" | "update" | "complete" | "delete" | "query" | "clarify";
+    const normalizedIntent = classification.intent.toLowerCase() as "create" | "update" | "complete" | "delete" | "query" | "clarify" | "multi";
     
     // Backup: Infer priority from text if not set by classifier
     if (classification.taskDetails && !classification.taskDetails.priority) {
@@ -86,7 +91,7 @@ export async function orchestrateIntent(
     // Generate additional follow-up questions if needed
     let followUpQuestions = classification.followUpQuestions || [];
     if (normalizedIntent === "create" && classification.taskDetails) {
-        const additionalQuestions = generateSmartFollowUps(classification.taskDetails, tasks);
+        const additionalQuestions = generateSmartFollowUps(classification.taskDetails, tasks, members);
         followUpQuestions = [...new Set([...followUpQuestions, ...additionalQuestions])].slice(0, 3);
     }
     
@@ -0,0 +1,127 @@
+/**
+ * Query Agent
+ *
+ * Answers questions about a space ("what's overdue?", "how many high-priority
+ * tasks are left?") from its tasks. Returns a natural-language answer plus the
+ * IDs of the tasks the answer refers to, so the UI can show them as a filtered view.
+ */
+
+import { z } from "zod";
+import { getGeminiModel } from "@/lib/gemini";
+import { SpaceMember, Task } from "@/types";
+import { generateStructuredOrThrow } from "./structuredOutput";
+import { describeRecurrence } from "@/lib/recurrenceUtils";
+import { getMemberName } from "@/lib/memberUtils";
+
+export type QueryType = "status" | "list" | "search" | "summary";
+
+export interface QueryResponse {
+    answer: string;
+    taskIds: string[];
+}
+
+const QueryResponseSchema = z.object({
+    answer: z.string().min(1),
+    taskIds: z.array(z.string()).nullish().transform((value) => value ?? []),
+}) satisfies z.ZodType<QueryResponse>;
+
+function toIsoDate(timestamp?: number): string {
+    return timestamp ? new Date(timestamp).toISOString().split("T")[0] : "unknown";
+}
+
+function buildQueryContext(tasks: Task[], members: SpaceMember[]): string {
+    if (tasks.length === 0) {
+        return "This space has no tasks.";
+    }
+
+    return tasks.map((t, idx) => {
+        const fields = [
+            `ID: ${t.id}`,
+            `Status: ${t.status}`,
+            `Priority: ${t.priority || "none"}`,
+            `Due: ${t.dueDate || "none"}${t.dueTime ? ` ${t.dueTime}` : ""}`,
+            `Created: ${toIsoDate(t.createdAt)}`,
+            `Updated: ${toIsoDate(t.updatedAt)}`,
+            `Tags: ${t.tags?.length ? t.tags.join(", ") : "none"}`,
+            `Blocked by: ${t.blockedBy?.length ? t.blockedBy.join(", ") : "none"}`,
+            `Checklist: ${t.checklist?.length ? `${t.checklist.filter(item => item.done).length}/${t.checklist.length} done` : "none"}`,
+            `Repeats: ${t.recurrence ? describeRecurrence(t.recurrence) : "no"}`,
+        ];
+        const assignee = members.find(m => m.userId === t.assigneeId);
+        if (members.length > 1) {
+            fields.push(`Assignee: ${assignee ? getMemberName(assignee) : "unassigned"}`);
+        }
+        const description = t.description
+            ? `\n   Description: ${t.description.substring(0, 120)}${t.description.length > 120 ? "..." : ""}`
+            : "";
+        return `${idx + 1}. "${t.title}" [${fields.join(" | ")}]${description}`;
+    }).join("\n");
+}
+
+export async function answerQuery(
+    question: string,
+    tasks: Task[],
+    queryType?: QueryType,
+    members: SpaceMember[] = []
+): Promise<QueryResponse> {
+    const today = new Date().toISOString().split("T")[0];
+
+    const SYSTEM_PROMPT = `
+    You are the Query Agent for an AI-powered Todo App.
+    Your job is to answer the user's question about the tasks in their space.
+
+    CONTEXT:
+    1. Today's Date: ${today}
+    2. Query Type (from classifier): ${queryType || "unknown"}
+    3. ALL Tasks In This Space:
+    ${buildQueryContext(tasks, members)}
+
+    RUBRIC:
+    1. **Answer ONLY from the task list above.** Never invent tasks, dates or counts.
+    2. **Definitions**:
+       - "Open" / "left" / "remaining" = status is NOT "done"
+       - "Overdue" = due date before ${today} AND status is NOT "done"
+       - "Due today" = due date equals ${today}
+       - "Blocked" = status is "blocked", OR "Blocked by" lists a task ID whose status is NOT "done"
+       - "This week" = due within the next 7 days from ${today}
+       - "Assigned to X" = the task's Assignee (only listed when the space is shared)
+    3. **Answer**:
+       - 1-3 sentences, conversational, direct
+       - Lead with the number or the key fact ("You have 3 overdue tasks.")
+       - If nothing matches, say so plainly
+       - **NO EMOJIS**. The user hates emojis.
+    4. **taskIds**:
+       - The exact IDs of every task the answer refers to, in the most useful order (e.g. most overdue first)
+       - For counts, include the tasks that were counted
+       - Empty array if no task matches or the question is not about specific tasks
+
+    OUTPUT JSON:
+    {
+        "answer": "string",
+        "taskIds": ["exact task IDs from the list above"]
+    }
+    `;
+
+    // Invalid output (after repair attempts) throws AgentOutputError
+    const model = getGeminiModel("query");
+    const parsed = await generateStructuredOrThrow(
+        model,
+        [
+            { text: SYSTEM_PROMPT },
+            { text: `User Input: "${question}"` }
+        ],
+        QueryResponseSchema,
+        { agent: "query" }
+    );
+
+    // Drop any IDs that don't belong to this space
+    const knownIds = new Set(tasks.map(t => t.id));
+    const taskIds = parsed.taskIds.filter(id => knownIds.has(id));
+
+    console.log("[Query] Answer:", { answer: parsed.answer, matches: taskIds.length });
+
+    return {
+        answer: parsed.answer,
+        taskIds: [...new Set(taskIds)],
+    };
+}
@@ -0,0 +1,116 @@
+import { describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { LLMModel, LLMRequest } from "@/lib/gemini";
+import { getAiTrace, runWithAiTrace } from "@/lib/aiTrace";
+import {
+    AgentOutputError,
+    extractJson,
+    generateStructured,
+    generateStructuredOrThrow,
+    optionalField,
+    parseStructured,
+    PrioritySchema,
+} from "./structuredOutput";
+
+const Schema = z.object({
+    title: z.string(),
+    priority: optionalField(PrioritySchema),
+});
+
+// Answers with the given texts in order
+function scriptedModel(...texts: string[]) {
+    const requests: LLMRequest[] = [];
+    const model: LLMModel = {
+        provider: "test",
+        modelName: "scripted",
+        generateContent: vi.fn(async (request: LLMRequest) => {
+            requests.push(request);
+            const text = texts[requests.length - 1] ?? "";
+            return { response: { text: () => text } };
+        }),
+    };
+    return { model, requests };
+}
+
+describe("extractJson", () => {
+    it("strips markdown fences and surrounding prose", () => {
+        expect(extractJson('Sure!\n```json\n{"title": "a"}\n```')).toBe('{"title": "a"}');
+    });
+
+    it("returns null without an object", () => {
+        expect(extractJson("no json here")).toBeNull();
+    });
+});
+
+describe("parseStructured", () => {
+    it("normalizes null and casing through the schema helpers", () => {
+        expect(parseStructured('{"title": "a", "priority": "HIGH "}', Schema)).toEqual({
+            success: true,
+            data: { title: "a", priority: "high" },
+        });
+        expect(parseStructured('{"title": "a", "priority": null}', Schema)).toEqual({
+            success: true,
+            data: { title: "a", priority: undefined },
+        });
+    });
+
+    it("reports why the text can't be used", () => {
+        const noJson = parseStructured("nothing", Schema);
+        const invalid = parseStructured('{"title": }', Schema);
+        const mismatch = parseStructured('{"priority": "urgent"}', Schema);
+
+        expect(!noJson.success && noJson.error.code).toBe("NO_JSON");
+        expect(!invalid.success && invalid.error.code).toBe("INVALID_JSON");
+        expect(!mismatch.success && mismatch.error.code).toBe("SCHEMA_MISMATCH");
+        expect(!mismatch.success && mismatch.error.issues).toEqual(
+            expect.arrayContaining([expect.stringMatching(/^title:/), expect.stringMatching(/^priority:/)])
+        );
+    });
+});
+
+describe("generateStructured", () => {
+    it("returns the first valid answer", async () => {
+        const { model } = scriptedModel('{"title": "Write report"}');
+        const result = await generateStructured(model, "prompt", Schema, { agent: "creator" });
+
+        expect(result).toMatchObject({ success: true, data: { title: "Write report" }, attempts: 1 });
+        expect(model.generateContent).toHaveBeenCalledTimes(1);
+    });
+
+    it("asks the model to repair an invalid answer, quoting the problems", async () => {
+        const { model, requests } = scriptedModel('{"priority": "high"}', '{"title": "Fixed"}');
+        const result = await generateStructured(model, [{ text: "prompt" }], Schema, { agent: "creator" });
+
+        expect(result).toMatchObject({ success: true, data: { title: "Fixed" }, attempts: 2 });
+        const repair = requests[1] as { text: string }[];
+        expect(repair[0]).toEqual({ text: "prompt" });
+        expect(repair[1].text).toContain("title:");
+        expect(repair[1].text).toContain('{"priority": "high"}');
+    });
+
+    it("gives up after maxAttempts with the last error", async () => {
+        const { model } = scriptedModel("nope", '{"title": }', "still nope");
+        const result = await generateStructured(model, "prompt", Schema, { agent: "creator", maxAttempts: 2 });
+
+        expect(result).toMatchObject({ success: false, attempts: 2, error: { code: "INVALID_JSON" } });
+        expect(model.generateContent).toHaveBeenCalledTimes(2);
+    });
+
+    it("records the outcome in the request's trace", async () => {
+        const { model } = scriptedModel("nope", "nope");
+        const parses = await runWithAiTrace(async () => {
+            await generateStructured(model, "prompt", Schema, { agent: "updater" });
+            return getAiTrace()!.parses;
+        });
+
+        expect(parses).toEqual([{ agent: "updater", success: false, attempts: 2, errorCode: "NO_JSON" }]);
+    });
+});
+
+describe("generateStructuredOrThrow", () => {
+    it("throws AgentOutputError instead of returning junk", async () => {
+        const { model } = scriptedModel("nope", "nope");
+        await expect(generateStructuredOrThrow(model, "prompt", Schema, { agent: "classifier" }))
+            .rejects.toBeInstanceOf(AgentOutputError);
+    });
+});
@@ -0,0 +1,226 @@
+/**
+ * Structured Output
+ *
+ * Turns raw LLM text into schema-validated data.
+ * - Extracts the JSON object from the response (tolerates markdown fences/preamble)
+ * - Validates it against a zod schema
+ * - On failure, asks the model to repair its answer (bounded attempts)
+ * - Returns a typed result instead of silently falling back
+ */
+
+import { z } from "zod";
+import { AgentName, LLMModel, LLMPart, LLMRequest } from "@/lib/gemini";
+import { recordParseResult } from "@/lib/aiTrace";
+import { RecurrenceRule } from "@/types";
+
+// ============================================
+// Type Definitions
+// ============================================
+
+export interface StructuredOutputError {
+    code: "NO_JSON" | "INVALID_JSON" | "SCHEMA_MISMATCH";
+    message: string;
+    issues?: string[];
+    rawText: string;
+}
+
+export type StructuredOutputResult<T> =
+    | { success: true; data: T; attempts: number; rawText: string }
+    | { success: false; error: StructuredOutputError; attempts: number };
+
+export interface StructuredOutputOptions {
+    agent: AgentName;
+    maxAttempts?: number; // Total model calls, including the first one
+}
+
+/**
+ * Thrown by agents when the model never produced valid output.
+ * API routes map this to a 502 instead of acting on junk data.
+ */
+export class AgentOutputError extends Error {
+    constructor(
+        public agent: AgentName,
+        public detail: StructuredOutputError
+    ) {
+        super(`${agent} returned invalid output: ${detail.message}`);
+        this.name = 'AgentOutputError';
+    }
+}
+
+const DEFAULT_MAX_ATTEMPTS = 2;
+
+// ============================================
+// Shared Schema Helpers
+// ============================================
+
+/**
+ * Optional field that also accepts null (models often emit `"field": null`)
+ * and normalizes it to undefined.
+ */
+export function optionalField<T extends z.ZodType>(schema: T) {
+    return schema
+        .nullish()
+        .transform((value) => value ?? undefined)
+        .optional();
+}
+
+export const PrioritySchema = z.preprocess(
+    (value) => (typeof value === "string" ? value.toLowerCase().trim() : value),
+    z.enum(["low", "medium", "high"])
+);
+
+export const StatusSchema = z.preprocess(
+    (value) => (typeof value === "string" ? value.toLowerCase().trim().replace(/[_\s]+/g, "-") : value),
+    z.enum(["todo", "in-progress", "blocked", "done"])
+);
+
+export const RecurrenceRuleSchema = z.object({
+    frequency: z.preprocess(
+        (value) => (typeof value === "string" ? value.toLowerCase().trim() : value),
+        z.enum(["daily", "weekly", "monthly", "yearly"])
+    ),
+    interval: z.coerce.number().int().min(1).nullish().transform((value) => value ?? 1),
+    daysOfWeek: optionalField(z.array(z.coerce.number().int().min(0).max(6))),
+    dayOfMonth: optionalField(z.coerce.number().int().min(1).max(31)),
+    until: optionalField(z.string()),
+}) satisfies z.ZodType<RecurrenceRule>;
+
+// Numbers/booleans the model emits for old/new values are stored as strings
+export const ScalarStringSchema = z
+    .union([z.string(), z.number(), z.boolean()])
+    .transform((value) => String(value));
+
+// ============================================
+// Parsing
+// ============================================
+
+/**
+ * Pull the JSON object out of a model response
+ */
+export function extractJson(text: string): string | null {
+    const cleaned = text.replace(/```json\n?/gi, "").replace(/```\n?/g, "").trim();
+    const jsonMatch = cleaned.match(/\{[\s\S]*\}/);
+    return jsonMatch ? jsonMatch[0] : null;
+}
+
+/**
+ * Validate raw model text against a schema (no model calls)
+ */
+export function parseStructured<S extends z.ZodType>(
+    text: string,
+    schema: S
+): { success: true; data: z.infer<S> } | { success: false; error: StructuredOutputError } {
+    const json = extractJson(text);
+    if (!json) {
+        return {
+            success: false,
+            error: { code: "NO_JSON", message: "No JSON object found in response", rawText: text },
+        };
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json);
+    } catch (e) {
+        return {
+            success: false,
+            error: {
+                code: "INVALID_JSON",
+                message: e instanceof Error ? e.message : "Malformed JSON",
+                rawText: text,
+            },
+        };
+    }
+
+    const validation = schema.safeParse(parsed);
+    if (!validation.success) {
+        const issues = validation.error.issues.map(
+            issue => `${issue.path.join(".") || "(root)"}: ${issue.message}`
+        );
+        return {
+            success: false,
+            error: {
+                code: "SCHEMA_MISMATCH",
+                message: "Response does not match the expected format",
+                issues,
+                rawText: text,
+            },
+        };
+    }
+
+    return { success: true, data: validation.data };
+}
+
+function buildRepairRequest(request: LLMRequest, error: StructuredOutputError): LLMPart[] {
+    const parts: LLMPart[] = typeof request === "string" ? [request] : [...request];
+    const issues = error.issues?.length ? `\nProblems:\n- ${error.issues.join("\n- ")}` : "";
+
+    parts.push({
+        text: `Your previous response could not be used (${error.message}).${issues}
+
+Previous response:
+${error.rawText.substring(0, 2000)}
+
+Respond again with ONLY a valid JSON object in the requested format. No markdown, no commentary.`,
+    });
+
+    return parts;
+}
+
+// ============================================
+// Generation
+// ============================================
+
+/**
+ * Call the model and validate its answer, repairing up to maxAttempts times.
+ * Model/network errors are not retried here - they propagate to the caller.
+ * The outcome is recorded in the request's trace for the AI log.
+ */
+export async function generateStructured<S extends z.ZodType>(
+    model: LLMModel,
+    request: LLMRequest,
+    schema: S,
+    options: StructuredOutputOptions
+): Promise<StructuredOutputResult<z.infer<S>>> {
+    const maxAttempts = Math.max(1, options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+    let currentRequest: LLMRequest = request;
+    let lastError: StructuredOutputError | null = null;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        const result = await model.generateContent(currentRequest);
+        const text = result.response.text() || "";
+
+        const parsed = parseStructured(text, schema);
+        if (parsed.success) {
+            recordParseResult({ agent: options.agent, success: true, attempts: attempt });
+            return { success: true, data: parsed.data, attempts: attempt, rawText: text };
+        }
+
+        lastError = parsed.error;
+        console.warn(`[Structured Output] ${options.agent} attempt ${attempt}/${maxAttempts} failed:`, {
+            code: parsed.error.code,
+            issues: parsed.error.issues,
+        });
+
+        currentRequest = buildRepairRequest(request, parsed.error);
+    }
+
+    recordParseResult({ agent: options.agent, success: false, attempts: maxAttempts, errorCode: lastError!.code });
+    return { success: false, error: lastError!, attempts: maxAttempts };
+}
+
+/**
+ * Same as generateStructured, but throws AgentOutputError on failure
+ */
+export async function generateStructuredOrThrow<S extends z.ZodType>(
+    model: LLMModel,
+    request: LLMRequest,
+    schema: S,
+    options: StructuredOutputOptions
+): Promise<z.infer<S>> {
+    const result = await generateStructured(model, request, schema, options);
+    if (!result.success) {
+        throw new AgentOutputError(options.agent, result.error);
+    }
+    return result.data;
+}
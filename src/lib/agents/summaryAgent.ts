@@ -0,0 +1,104 @@
+/**
+ * Daily Summary Agent
+ *
+ * Turns the tasks ranked by rankTasksForToday into a short plan for the day:
+ * a summary of what to focus on, plus one sentence per task on why it matters today.
+ * The ranking itself is deterministic - the agent only explains and may reorder.
+ */
+
+import { z } from "zod";
+import { getGeminiModel } from "@/lib/gemini";
+import { RankedTask } from "@/lib/summaryUtils";
+import { generateStructuredOrThrow } from "./structuredOutput";
+
+export interface DailySummaryResponse {
+    summary: string;
+    items: { taskId: string; reason: string }[];
+}
+
+const DailySummaryResponseSchema = z.object({
+    summary: z.string().min(1),
+    items: z.array(z.object({
+        taskId: z.string(),
+        reason: z.string().min(1),
+    })).nullish().transform((value) => value ?? []),
+}) satisfies z.ZodType<DailySummaryResponse>;
+
+function buildPlanContext(ranked: RankedTask[], spaceNames: Record<string, string>): string {
+    return ranked.map(({ task, reasons }, idx) => {
+        const fields = [
+            `ID: ${task.id}`,
+            `Space: ${spaceNames[task.spaceId] || "unknown"}`,
+            `Status: ${task.status}`,
+            `Priority: ${task.priority || "none"}`,
+            `Due: ${task.dueDate ? task.dueDate.slice(0, 10) : "none"}${task.dueTime ? ` ${task.dueTime}` : ""}`,
+            `Signals: ${reasons.length ? reasons.join(", ") : "none"}`,
+        ];
+        return `${idx + 1}. "${task.title}" [${fields.join(" | ")}]`;
+    }).join("\n");
+}
+
+/**
+ * Write the day's plan for the ranked tasks
+ * @param ranked - Most urgent open tasks, in ranked order
+ * @param spaceNames - Space names by ID
+ * @param today - Today's date (YYYY-MM-DD) in the user's timezone
+ * @param openTaskCount - Open tasks across all spaces, ranked or not
+ */
+export async function generateDailySummary(
+    ranked: RankedTask[],
+    spaceNames: Record<string, string>,
+    today: string,
+    openTaskCount: number
+): Promise<DailySummaryResponse> {
+    const SYSTEM_PROMPT = `
+    You are the Daily Summary Agent for an AI-powered Todo App.
+    Your job is to tell the user what to focus on today.
+
+    CONTEXT:
+    1. Today's Date: ${today}
+    2. Open Tasks Across All Spaces: ${openTaskCount}
+    3. Most Urgent Tasks (already ranked, most urgent first):
+    ${buildPlanContext(ranked, spaceNames)}
+
+    RUBRIC:
+    1. **Use ONLY the tasks above.** Never invent tasks, dates or counts.
+    2. **summary**:
+       - 1-2 sentences, conversational, direct
+       - Name what to start with and why
+       - **NO EMOJIS**. The user hates emojis.
+    3. **items**:
+       - One entry per task above, using its exact ID
+       - Keep the given order unless a task can't start before another one in the list
+       - "reason": one short sentence built from the task's Signals (e.g. "Overdue by 2 days and high priority.")
+       - A task waiting on a blocker should say what it's waiting for, not that it is urgent
+
+    OUTPUT JSON:
+    {
+        "summary": "string",
+        "items": [{ "taskId": "exact task ID from the list above", "reason": "string" }]
+    }
+    `;
+
+    // Invalid output (after repair attempts) throws AgentOutputError
+    const model = getGeminiModel("dailySummary");
+    const parsed = await generateStructuredOrThrow(
+        model,
+        [{ text: SYSTEM_PROMPT }],
+        DailySummaryResponseSchema,
+        { agent: "dailySummary" }
+    );
+
+    // Drop unknown and repeated IDs
+    const knownIds = new Set(ranked.map(r => r.task.id));
+    const seen = new Set<string>();
+    const items = parsed.items.filter(item => {
+        if (!knownIds.has(item.taskId) || seen.has(item.taskId)) return false;
+        seen.add(item.taskId);
+        return true;
+    });
+
+    console.log("[Daily-Summary] Plan:", { summary: parsed.summary, items: items.length });
+
+    return { summary: parsed.summary, items };
+}
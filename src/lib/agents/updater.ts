@@ -1,20 +1,59 @@
+import { z } from "zod";
 import { getGeminiModel } from "@/lib/gemini";
-import { Task, TaskUpdate } from "@/types";
+import { ChecklistChanges, Task, TaskUpdate } from "@/types";
+import { normalizeTags } from "@/lib/tagUtils";
+import {
+    generateStructuredOrThrow,
+    optionalField,
+    PrioritySchema,
+    ScalarStringSchema,
+    StatusSchema,
+} from "./structuredOutput";
 
-interface UpdaterResponse {
+export interface UpdaterResponse {
     taskId: string | null;
     updates: {
-        status?: "todo" | "in-progress" | "done";
+        status?: "todo" | "in-progress" | "blocked" | "done";
         dueDate?: string | null;
         dueTime?: string;
         priority?: "low" | "medium" | "high";
         title?: string;
         description?: string;
+        tags?: string[];
     };
+    checklist?: ChecklistChanges; // Checklist items to tick, reopen or add
     timeline?: Omit<TaskUpdate, "id">; // Timeline entry to add
     missingInfo?: string;
 }
 
+// Validates raw updater output; output type must stay assignable to UpdaterResponse
+export const UpdaterResponseSchema = z.object({
+    taskId: z.string().nullish().transform((value) => value ?? null),
+    updates: z.object({
+        status: optionalField(StatusSchema),
+        dueDate: z.string().nullable().optional(),
+        dueTime: optionalField(z.string()),
+        priority: optionalField(PrioritySchema),
+        title: optionalField(z.string()),
+        description: optionalField(z.string()),
+        tags: optionalField(z.array(z.string())),
+    }).nullish().transform((value) => value ?? {}),
+    checklist: optionalField(z.object({
+        completedItemIds: optionalField(z.array(z.string())),
+        reopenedItemIds: optionalField(z.array(z.string())),
+        addedItems: optionalField(z.array(z.string())),
+    })),
+    timeline: optionalField(z.object({
+        timestamp: z.coerce.number().default(() => Date.now()),
+        type: z.enum(["status_change", "note", "field_update"]),
+        content: z.string().min(1),
+        field: optionalField(z.string()),
+        oldValue: optionalField(ScalarStringSchema),
+        newValue: optionalField(ScalarStringSchema),
+    })),
+    missingInfo: optionalField(z.string()),
+}) satisfies z.ZodType<UpdaterResponse>;
+
 export async function handleUpdateTask(
     text: string,
     tasks: Task[],
@@ -43,6 +82,10 @@ export async function handleUpdateTask(
         ? tasks.map((t, idx) => `${idx + 1}. [ID: ${t.id}] "${t.title}"${t.description ? ` - ${t.description.substring(0, 80)}` : ''} [Status: ${t.status}]`).join('\n')
         : "No existing tasks.";
 
+    const checklistContext = targetTask.checklist?.length
+        ? targetTask.checklist.map(item => `- [${item.done ? "x" : " "}] "${item.title}" (Item ID: ${item.id})`).join('\n')
+        : "No checklist items.";
+
     const SYSTEM_PROMPT = `
     You are the Updater Agent for an AI-powered Todo App.
     Your job is to generate structured updates + timeline entries for the specified task.
@@ -52,6 +95,8 @@ export async function handleUpdateTask(
     2. ALL Existing Tasks:
     ${tasksContext}
     3. TARGET TASK TO UPDATE: [ID: ${targetTask.id}] "${targetTask.title}" [Status: ${targetTask.status}]
+    4. TARGET TASK CHECKLIST:
+    ${checklistContext}
 
     RUBRIC:
     1. **Task Already Identified**: 
@@ -65,8 +110,8 @@ export async function handleUpdateTask(
          * "agent 1 is done"
          * "finished the agent 1 task"
          * "completed agent 1"
-       - Examples that should NOT mark as done (these are progress notes):
-         * "completed the embedding model setup" → This is a NOTE, not task completion
+       - Examples that should NOT mark as done (these are progress notes or checklist items):
+         * "completed the embedding model setup" → Tick the matching checklist item, or a NOTE if there is none
          * "completed DAX translation code" → This is a NOTE
          * "finished the database configuration" → This is a NOTE
          * "established connection" → This is a NOTE
@@ -76,6 +121,13 @@ export async function handleUpdateTask(
        - **Priority**: Only update if user mentions priority ("make it high priority")
        - **Description**: Only update if user EXPLICITLY asks to change the description. Do NOT put progress notes here.
        
+       **Checklist:**
+       - If the user finished a step that matches a checklist item (same meaning, not exact wording), put its Item ID in "checklist.completedItemIds"
+       - "reopenedItemIds" ONLY if the user says a ticked step is not actually done
+       - "addedItems" ONLY if the user explicitly adds steps ("add a step to write docs")
+       - Ticking a checklist item is NOT task completion - never set status="done" unless the ENTIRE task is done
+       - Do not also put a ticked step into "description"
+       
        **IMPORTANT**: Only include fields in "updates" that should actually be changed.
        - If user is just adding a note, do NOT return description. Just return the timeline entry.
        - Do NOT return null/undefined for fields that shouldn't change
@@ -87,7 +139,8 @@ export async function handleUpdateTask(
        
        Examples:
        - User: "agent 1 is done" → type: "status_change", content: "Marked as complete", updates: {status: "done"}
-       - User: "completed the embedding setup" → type: "note", content: "Completed the embedding setup", updates: {description: "Completed the embedding setup"}
+       - User: "completed the embedding setup" (checklist has "Set up embedding model", Item ID: a1b2c3d4) → type: "note", content: "Completed: Set up embedding model", checklist: {completedItemIds: ["a1b2c3d4"]}, updates: {}
+       - User: "completed the embedding setup" (no matching checklist item) → type: "note", content: "Completed the embedding setup", updates: {description: "Completed the embedding setup"}
        - User: "completed DAX translation code" → type: "note", content: "Completed DAX translation code", updates: {description: "Completed DAX translation code"}
        - User: "make it high priority" → type: "field_update", field: "priority", content: "Priority changed to high", updates: {priority: "high"}
 
@@ -105,12 +158,17 @@ export async function handleUpdateTask(
         "updates": {
             // ONLY include fields that should actually be updated
             // Do NOT include fields with null/undefined
-            "status": "todo" | "in-progress" | "done" (ONLY if explicitly marking task as done),
+            "status": "todo" | "in-progress" | "blocked" | "done" (ONLY if explicitly marking task as done, or "blocked" if the user says they are stuck/waiting),
             "dueDate": "ISO string" (ONLY if changing due date),
             "dueTime": "HH:MM" (ONLY if changing due time),
             "priority": "low" | "medium" | "high" (ONLY if changing priority),
             "description": "string" (for progress notes - will be appended)
         },
+        "checklist": {
+            "completedItemIds": ["Item IDs from the checklist above"],
+            "reopenedItemIds": ["Item IDs"],
+            "addedItems": ["New step titles"]
+        } (ONLY if the checklist changes),
         "timeline": {
             "timestamp": ${Date.now()},
             "type": "status_change" | "note" | "field_update",
@@ -123,31 +181,37 @@ export async function handleUpdateTask(
     }
     `;
 
-    const model = getGeminiModel();
-    const result = await model.generateContent([
-        { text: SYSTEM_PROMPT },
-        { text: `User Input: "${text}"` }
-    ]);
+    // Invalid output (after repair attempts) throws AgentOutputError - never a silent empty update
+    const model = getGeminiModel("updater");
+    const parsed: UpdaterResponse = await generateStructuredOrThrow(
+        model,
+        [
+            { text: SYSTEM_PROMPT },
+            { text: `User Input: "${text}"` }
+        ],
+        UpdaterResponseSchema,
+        { agent: "updater" }
+    );
 
-    const response = result.response;
-    let jsonStr = response.text();
-    jsonStr = jsonStr.replace(/```json/g, "").replace(/```/g, "").trim();
-
-    try {
-        const parsed = JSON.parse(jsonStr);
+    // The classifier already identified the target task
+    if (!parsed.taskId) {
+        parsed.taskId = targetTask.id;
+    }
 
-        // If we have a target task from fuzzy matching, use it
-        if (targetTask && !parsed.taskId) {
-            parsed.taskId = targetTask.id;
-        }
+    // Keep tags in the stored form (lowercase, de-duplicated)
+    if (parsed.updates.tags) {
+        parsed.updates.tags = normalizeTags(parsed.updates.tags);
+    }
 
-        return parsed;
-    } catch (e) {
-        console.error("Updater JSON Parse Error", e);
-        return {
-            taskId: targetTask?.id || null,
-            updates: {},
-            missingInfo: "I'm not sure which task you want to update."
+    // Drop checklist IDs that don't belong to the target task
+    if (parsed.checklist) {
+        const itemIds = new Set((targetTask.checklist || []).map(item => item.id));
+        parsed.checklist = {
+            completedItemIds: parsed.checklist.completedItemIds?.filter(id => itemIds.has(id)),
+            reopenedItemIds: parsed.checklist.reopenedItemIds?.filter(id => itemIds.has(id)),
+            addedItems: parsed.checklist.addedItems,
         };
     }
+
+    return parsed;
 }
@@ -0,0 +1,79 @@
+/**
+ * AI Request Trace
+ *
+ * Collects what happens while an API route handles one AI request: every
+ * model call (recorded by the model wrapper in gemini.ts), whether agents'
+ * answers matched their schemas (structuredOutput.ts), and what the route
+ * learned along the way (user, space, input, intent). The trace follows the
+ * request through async calls, so agents don't pass it around.
+ *
+ * Read it for the request's token count (usage ledger) or write it to the
+ * aiLogs collection (withAiLog in aiLogServiceServer.ts).
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomUUID } from "node:crypto";
+import { AiCallLog, AiParseLog, UsageReservation } from "@/types";
+
+export interface AiTraceDetails {
+    userId?: string;
+    spaceId?: string;
+    input?: string;
+    intent?: string;
+    confidence?: number;
+}
+
+export interface AiTrace extends AiTraceDetails {
+    id: string;                 // Also the aiLogs document ID
+    startedAt: number;
+    calls: AiCallLog[];
+    parses: AiParseLog[];
+    committedReservation?: UsageReservation; // Set by commitUsage - the response is kept for retries
+}
+
+const traces = new AsyncLocalStorage<AiTrace>();
+
+/**
+ * Run a request handler with a fresh trace
+ */
+export function runWithAiTrace<T>(handler: (trace: AiTrace) => Promise<T>): Promise<T> {
+    const trace: AiTrace = { id: randomUUID(), startedAt: Date.now(), calls: [], parses: [] };
+    return traces.run(trace, () => handler(trace));
+}
+
+/**
+ * The current request's trace, or undefined outside runWithAiTrace (scripts, tests)
+ */
+export function getAiTrace(): AiTrace | undefined {
+    return traces.getStore();
+}
+
+/**
+ * Add what the route knows about the request (later values win)
+ */
+export function annotateAiTrace(details: AiTraceDetails): void {
+    const trace = traces.getStore();
+    if (trace) Object.assign(trace, details);
+}
+
+export function recordModelCall(call: AiCallLog): void {
+    traces.getStore()?.calls.push(call);
+}
+
+export function recordParseResult(parse: AiParseLog): void {
+    traces.getStore()?.parses.push(parse);
+}
+
+export function recordCommittedReservation(reservation: UsageReservation): void {
+    const trace = traces.getStore();
+    if (trace) trace.committedReservation = reservation;
+}
+
+/**
+ * Tokens used so far by the current request
+ * @returns Total tokens, or undefined outside runWithAiTrace
+ */
+export function getRequestTokenCount(): number | undefined {
+    const trace = traces.getStore();
+    return trace?.calls.reduce((sum, call) => sum + (call.totalTokens || 0), 0);
+}
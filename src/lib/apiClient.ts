@@ -5,6 +5,9 @@
  * - Automatic Firebase Auth token injection
  * - Automatic retries on failure
  * - Exponential backoff
+ * - Idempotency keys, so retried requests aren't charged twice
+ * - Waiting out rate limits (429 with Retry-After) and retries of a request
+ *   the server is still running (409 with Retry-After)
  * - Proper error messages
  * - Type-safe responses
  */
@@ -46,6 +49,23 @@ async function getAuthToken(): Promise<string | null> {
     }
 }
 
+// Longer Retry-After waits are reported to the caller instead
+const MAX_RETRY_AFTER_MS = 60 * 1000;
+
+/**
+ * Read a Retry-After header (seconds or an HTTP date)
+ * @returns Milliseconds to wait, or null if missing or invalid
+ */
+function parseRetryAfter(header: string | null): number | null {
+    if (!header) return null;
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) {
+        return Math.max(seconds, 0) * 1000;
+    }
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0);
+}
+
 /**
  * Sleep helper for retry delays
  */
@@ -69,6 +89,11 @@ export async function apiCall<T>(
     } = config;
 
     let lastError: Error | null = null;
+    // Time spent waiting for an earlier attempt the server is still running
+    let duplicateWaitMs = 0;
+
+    // Same key on every attempt - the server charges quotas once per key
+    const idempotencyKey = new Headers(options.headers).get('Idempotency-Key') || crypto.randomUUID();
 
     // Get auth token if not skipping auth
     let authToken: string | null = null;
@@ -80,6 +105,7 @@ export async function apiCall<T>(
     }
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
+        let retryAfterMs: number | null = null;
         try {
             // Create abort controller for timeout
             const controller = new AbortController();
@@ -90,6 +116,7 @@ export async function apiCall<T>(
             if (authToken) {
                 headers.set('Authorization', `Bearer ${authToken}`);
             }
+            headers.set('Idempotency-Key', idempotencyKey);
 
             const response = await fetch(url, {
                 ...options,
@@ -104,7 +131,11 @@ export async function apiCall<T>(
 
             // Handle HTTP errors
             if (!response.ok) {
-                // Don't retry on 4xx errors (client errors)
+                if (response.status === 429 || response.status === 409) {
+                    retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+                }
+
+                // Don't retry on 4xx errors (client errors) - except 429, handled below
                 if (response.status >= 400 && response.status < 500) {
                     throw new ApiError(
                         data.error || `Request failed with status ${response.status}`,
@@ -126,6 +157,33 @@ export async function apiCall<T>(
         } catch (error) {
             lastError = error as Error;
 
+            // Rate limited - retry once the server says the window has room
+            if (
+                error instanceof ApiError &&
+                error.statusCode === 429 &&
+                retryAfterMs !== null &&
+                retryAfterMs <= MAX_RETRY_AFTER_MS &&
+                attempt < maxRetries
+            ) {
+                console.warn(`API call rate limited (attempt ${attempt + 1}/${maxRetries + 1}), retrying in ${retryAfterMs}ms...`);
+                await sleep(retryAfterMs);
+                continue;
+            }
+
+            // An earlier attempt is still running under this key - wait, then the
+            // retry gets its response. Waiting isn't a failed attempt.
+            if (
+                error instanceof ApiError &&
+                error.statusCode === 409 &&
+                retryAfterMs !== null &&
+                duplicateWaitMs + retryAfterMs <= MAX_RETRY_AFTER_MS
+            ) {
+                duplicateWaitMs += retryAfterMs;
+                await sleep(retryAfterMs);
+                attempt--;
+                continue;
+            }
+
             // Don't retry on abort (timeout) or client errors
             if (error instanceof ApiError && error.statusCode && error.statusCode < 500) {
                 throw error;
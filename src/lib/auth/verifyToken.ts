@@ -12,6 +12,7 @@ export interface VerifiedUser {
     uid: string;
     email: string | null;
     emailVerified: boolean;
+    name: string | null;
 }
 
 export class AuthError extends Error {
@@ -55,6 +56,7 @@ export async function verifyAuthToken(request: Request): Promise<VerifiedUser> {
             uid: decodedToken.uid,
             email: decodedToken.email || null,
             emailVerified: decodedToken.email_verified || false,
+            name: (decodedToken.name as string | undefined) || null,
         };
     } catch (error) {
         console.error('[Auth] Token verification failed:', error);
@@ -82,3 +84,23 @@ export async function verifyUserOwnership(
     
     return user;
 }
+
+/**
+ * Verify that the authenticated user is an admin (listed in ADMIN_USER_IDS,
+ * comma-separated) - for internal tools such as the AI log view
+ * 
+ * @throws AuthError if the user isn't authenticated, doesn't match or isn't an admin
+ */
+export async function verifyAdmin(
+    request: Request,
+    claimedUserId: string
+): Promise<VerifiedUser> {
+    const user = await verifyUserOwnership(request, claimedUserId);
+    const adminIds = (process.env.ADMIN_USER_IDS || "").split(",").map(id => id.trim()).filter(Boolean);
+    
+    if (!adminIds.includes(user.uid)) {
+        throw new AuthError('Admin access required', 403);
+    }
+    
+    return user;
+}
@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { applyChecklistChanges, createChecklist, getChecklistProgress } from "@/lib/checklistUtils";
+import { ChecklistItem } from "@/types";
+
+describe("createChecklist", () => {
+    it("creates unticked items with short IDs, dropping blank steps", () => {
+        const items = createChecklist(["  Buy milk ", "", "   ", "Call Bob"]);
+
+        expect(items).toHaveLength(2);
+        expect(items![0]).toMatchObject({ title: "Buy milk", done: false });
+        expect(items![0].id).toHaveLength(8);
+        expect(items![0].id).not.toBe(items![1].id);
+    });
+
+    it("returns undefined without steps", () => {
+        expect(createChecklist(undefined)).toBeUndefined();
+        expect(createChecklist(["  "])).toBeUndefined();
+    });
+});
+
+describe("applyChecklistChanges", () => {
+    const checklist: ChecklistItem[] = [
+        { id: "a", title: "First", done: false },
+        { id: "b", title: "Second", done: true, completedAt: 1 },
+        { id: "c", title: "Third", done: false },
+    ];
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("ticks, reopens and adds items, ignoring unknown IDs", () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(5_000);
+
+        const updated = applyChecklistChanges(checklist, {
+            completedItemIds: ["a", "missing"],
+            reopenedItemIds: ["b"],
+            addedItems: ["Fourth"],
+        });
+
+        expect(updated.slice(0, 3)).toEqual([
+            { id: "a", title: "First", done: true, completedAt: 5_000 },
+            { id: "b", title: "Second", done: false },
+            { id: "c", title: "Third", done: false },
+        ]);
+        expect(updated[3]).toMatchObject({ title: "Fourth", done: false });
+        // The input is left alone
+        expect(checklist[0].done).toBe(false);
+    });
+
+    it("keeps the completion time of an item that was already done", () => {
+        const updated = applyChecklistChanges(checklist, { completedItemIds: ["b"] });
+        expect(updated[1]).toEqual(checklist[1]);
+    });
+});
+
+describe("getChecklistProgress", () => {
+    it("counts ticked items", () => {
+        expect(getChecklistProgress([
+            { id: "a", title: "First", done: true },
+            { id: "b", title: "Second", done: false },
+        ])).toEqual({ done: 1, total: 2 });
+        expect(getChecklistProgress(undefined)).toEqual({ done: 0, total: 0 });
+    });
+});
@@ -0,0 +1,61 @@
+import { ChecklistChanges, ChecklistItem } from "@/types";
+
+/**
+ * Creates a new, unticked checklist item
+ * @param title - Step title
+ * @returns Checklist item with a short unique ID (short IDs are easier for the agents to echo back)
+ */
+export function createChecklistItem(title: string): ChecklistItem {
+    return {
+        id: crypto.randomUUID().slice(0, 8),
+        title: title.trim(),
+        done: false,
+    };
+}
+
+/**
+ * Turns a list of step titles into checklist items
+ * @param titles - Step titles (blank entries are dropped)
+ * @returns Checklist items, or undefined if there are no steps
+ */
+export function createChecklist(titles?: string[] | null): ChecklistItem[] | undefined {
+    const items = (titles || []).filter(t => t.trim()).map(createChecklistItem);
+    return items.length > 0 ? items : undefined;
+}
+
+/**
+ * Applies agent-produced checklist changes; unknown item IDs are ignored
+ * @param checklist - Current checklist
+ * @param changes - Items to tick, reopen and add
+ * @returns New checklist (the input is not modified)
+ */
+export function applyChecklistChanges(checklist: ChecklistItem[], changes: ChecklistChanges): ChecklistItem[] {
+    const completed = new Set(changes.completedItemIds || []);
+    const reopened = new Set(changes.reopenedItemIds || []);
+    const now = Date.now();
+
+    const updated = checklist.map(item => {
+        if (completed.has(item.id) && !item.done) {
+            return { ...item, done: true, completedAt: now };
+        }
+        if (reopened.has(item.id) && item.done) {
+            return { id: item.id, title: item.title, done: false };
+        }
+        return item;
+    });
+
+    return [...updated, ...(createChecklist(changes.addedItems) || [])];
+}
+
+/**
+ * Counts ticked items
+ * @param checklist - Checklist (may be undefined)
+ * @returns Done and total counts
+ */
+export function getChecklistProgress(checklist?: ChecklistItem[]): { done: number; total: number } {
+    const items = checklist || [];
+    return {
+        done: items.filter(item => item.done).length,
+        total: items.length,
+    };
+}
@@ -0,0 +1,112 @@
+import { FieldConflict, GitHubLink, RecurrenceRule, Task } from "@/types";
+import { describeRecurrence } from "@/lib/recurrenceUtils";
+import { getLinkLabel } from "@/lib/githubUtils";
+
+// Field names as shown in the conflict UI
+const FIELD_LABELS: Partial<Record<keyof Task, string>> = {
+    title: "Title",
+    description: "Description",
+    dueDate: "Due date",
+    dueTime: "Due time",
+    priority: "Priority",
+    status: "Status",
+    tags: "Tags",
+    checklist: "Checklist",
+    recurrence: "Repeat",
+    assigneeId: "Assignee",
+    suggestedImprovements: "Suggested improvements",
+    githubLinks: "GitHub links",
+};
+
+/**
+ * Deep equality for task field values - missing and null count as the same
+ * @param a - First value
+ * @param b - Second value
+ */
+export function valuesEqual(a: unknown, b: unknown): boolean {
+    if (a === b || (a == null && b == null)) return true;
+    if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+    if (Array.isArray(a) !== Array.isArray(b)) return false;
+    if (Array.isArray(a) && a.length !== (b as unknown[]).length) return false;
+
+    const left = a as Record<string, unknown>;
+    const right = b as Record<string, unknown>;
+    const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+    return [...keys].every(key => valuesEqual(left[key], right[key]));
+}
+
+/**
+ * Snapshot of some fields of a task and its syncVersion, keeping the keys of missing fields
+ * @param task - Task as it is now
+ * @param fields - Fields about to be edited
+ * @returns Base values to send along with the edit
+ */
+export function pickFields(task: Task, fields: (keyof Task)[]): Partial<Task> {
+    const base: Partial<Task> = { syncVersion: task.syncVersion };
+    for (const field of fields) {
+        (base as Record<string, unknown>)[field] = task[field];
+    }
+    return base;
+}
+
+/**
+ * Finds the edited fields that were also changed elsewhere since the edit started.
+ * A field that ended up with the same value on both sides isn't a conflict.
+ * @param base - Values of the edited fields when the edit started (see pickFields)
+ * @param current - Task as it is on the server now
+ * @param mine - The edit
+ * @returns One conflict per field that can't be merged
+ */
+export function findFieldConflicts(base: Partial<Task>, current: Task, mine: Partial<Task>): FieldConflict[] {
+    // Nothing was written since the edit started
+    if (base.syncVersion !== undefined && base.syncVersion === current.syncVersion) return [];
+
+    const conflicts: FieldConflict[] = [];
+    for (const field of Object.keys(mine) as (keyof Task)[]) {
+        if (!(field in base)) continue;
+        const theirs = current[field];
+        if (!valuesEqual(theirs, base[field]) && !valuesEqual(theirs, mine[field])) {
+            conflicts.push({ field, mine: mine[field], theirs });
+        }
+    }
+    return conflicts;
+}
+
+/**
+ * Label of a task field for the conflict UI
+ * @param field - Conflicting field
+ */
+export function getFieldLabel(field: keyof Task): string {
+    return FIELD_LABELS[field] || field;
+}
+
+/**
+ * Short, readable version of a field value for the conflict UI
+ * @param field - Conflicting field
+ * @param value - Value on either side
+ * @param memberNames - Member names by user ID, for the assignee
+ */
+export function formatFieldValue(
+    field: keyof Task,
+    value: unknown,
+    memberNames: Record<string, string> = {}
+): string {
+    if (value == null || value === "" || (Array.isArray(value) && value.length === 0)) return "None";
+
+    switch (field) {
+        case "dueDate":
+            return String(value).slice(0, 10);
+        case "assigneeId":
+            return memberNames[String(value)] || "Someone";
+        case "recurrence":
+            return describeRecurrence(value as RecurrenceRule);
+        case "checklist":
+            return (value as NonNullable<Task["checklist"]>)
+                .map(item => `${item.done ? "✓" : "○"} ${item.title}`)
+                .join(", ");
+        case "githubLinks":
+            return (value as GitHubLink[]).map(getLinkLabel).join(", ");
+        default:
+            return Array.isArray(value) ? value.join(", ") : String(value);
+    }
+}
@@ -0,0 +1,72 @@
+import { Task } from "@/types";
+
+/**
+ * Finds the tasks still blocking a task (blockers that aren't done)
+ * @param task - Task to check
+ * @param tasks - All tasks in the space
+ * @returns Open blocking tasks (missing IDs are ignored)
+ */
+export function getOpenBlockers(task: Pick<Task, "blockedBy">, tasks: Task[]): Task[] {
+    return (task.blockedBy || [])
+        .map(id => tasks.find(t => t.id === id))
+        .filter((t): t is Task => !!t && t.status !== "done");
+}
+
+/**
+ * Whether a task can't move forward: explicitly blocked, or waiting on open blockers
+ * @param task - Task to check
+ * @param tasks - All tasks in the space
+ */
+export function isTaskBlocked(task: Task, tasks: Task[]): boolean {
+    if (task.status === "done") return false;
+    return task.status === "blocked" || getOpenBlockers(task, tasks).length > 0;
+}
+
+/**
+ * Checks whether making `blockerId` block `taskId` would create a cycle
+ * @param taskId - Task that would be blocked
+ * @param blockerId - Task that would block it
+ * @param tasks - All tasks in the space
+ * @returns True if `blockerId` already (transitively) waits on `taskId`
+ */
+export function wouldCreateCycle(taskId: string, blockerId: string, tasks: Task[]): boolean {
+    if (taskId === blockerId) return true;
+
+    const visited = new Set<string>();
+    const stack = [blockerId];
+    while (stack.length > 0) {
+        const current = stack.pop()!;
+        if (current === taskId) return true;
+        if (visited.has(current)) continue;
+        visited.add(current);
+        stack.push(...(tasks.find(t => t.id === current)?.blockedBy || []));
+    }
+    return false;
+}
+
+/**
+ * Keeps only blocker IDs that exist, aren't the task itself and don't create a cycle
+ * @param taskId - Task being blocked (undefined for a task not created yet)
+ * @param blockedBy - Proposed blocker IDs
+ * @param tasks - All tasks in the space
+ */
+export function sanitizeBlockedBy(taskId: string | undefined, blockedBy: string[] | undefined, tasks: Task[]): string[] {
+    const knownIds = new Set(tasks.map(t => t.id));
+    return [...new Set(blockedBy || [])].filter(id =>
+        knownIds.has(id) && (!taskId || !wouldCreateCycle(taskId, id, tasks))
+    );
+}
+
+/**
+ * Warning shown when a task is completed while blockers are still open
+ * @param task - Task being completed
+ * @param tasks - All tasks in the space
+ * @returns Warning text, or null if nothing is blocking it
+ */
+export function getBlockerWarning(task: Task, tasks: Task[]): string | null {
+    const blockers = getOpenBlockers(task, tasks);
+    if (blockers.length === 0) return null;
+
+    const names = blockers.map(t => `"${t.title}"`).join(", ");
+    return `"${task.title}" is marked done, but it's still blocked by ${names}.`;
+}
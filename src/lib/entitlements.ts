@@ -3,9 +3,13 @@
  * 
  * Centralized entitlement checking for Smera.
  * Enforces plan limits for Free and Pro tiers.
+ * 
+ * Read-only: plans are written server-side (entitlementsServer.ts, and the
+ * billing webhook for the tier). Checks here are for the UI - API routes
+ * enforce the limits.
  */
 
-import { doc, getDoc, setDoc, updateDoc, increment } from "firebase/firestore";
+import { doc, getDoc } from "firebase/firestore";
 import { db } from "@/lib/firebase";
 import {
     UserPlan,
@@ -55,79 +59,46 @@ function shouldResetAiRequests(plan: UserPlan): boolean {
 // ============================================
 
 /**
- * Get a user's plan. Creates a default Free plan if none exists.
+ * Get a user's plan as it applies now. Users without a plan document yet
+ * (it's created by their first API request) are on the Free plan, and
+ * usage from earlier months counts as reset.
  */
 export async function getUserPlan(userId: string): Promise<UserPlan> {
-    const planRef = doc(db, "userPlans", userId);
-    const planSnap = await getDoc(planRef);
-
-    if (planSnap.exists()) {
-        const plan = planSnap.data() as UserPlan;
-
-        // Initialize missing fields (for existing users migrating to new quota system)
-        const needsInitialization = 
-            plan.aiRequestsUsed === undefined || 
-            plan.aiRequestsResetAt === undefined;
-
-        // Check if we need to reset usage for new month
-        const needsVoiceReset = plan.voiceLogsResetAt && shouldResetVoiceLogs(plan);
-        const needsAiReset = plan.aiRequestsResetAt && shouldResetAiRequests(plan);
+    const planSnap = await getDoc(doc(db, "userPlans", userId));
 
-        if (needsInitialization || needsVoiceReset || needsAiReset) {
-            const updatedPlan: Partial<UserPlan> = {
-                updatedAt: Date.now(),
-            };
-            
-            // Initialize AI request fields if missing
-            if (needsInitialization) {
-                updatedPlan.aiRequestsUsed = 0;
-                updatedPlan.aiRequestsResetAt = getMonthStart();
-            }
-            
-            if (needsVoiceReset) {
-                updatedPlan.voiceLogsUsed = 0;
-                updatedPlan.voiceLogsResetAt = getMonthStart();
-            }
-            
-            if (needsAiReset) {
-                updatedPlan.aiRequestsUsed = 0;
-                updatedPlan.aiRequestsResetAt = getMonthStart();
-            }
+    if (!planSnap.exists()) {
+        return {
+            userId,
+            tier: "free",
+            voiceLogsUsed: 0,
+            voiceLogsResetAt: getMonthStart(),
+            aiRequestsUsed: 0,
+            aiRequestsResetAt: getMonthStart(),
+            createdAt: Date.now(),
+            updatedAt: Date.now(),
+        };
+    }
 
-            await updateDoc(planRef, updatedPlan);
-            return { ...plan, ...updatedPlan } as UserPlan;
-        }
+    const plan = planSnap.data() as UserPlan;
+    const effectivePlan = { ...plan };
 
-        return plan;
+    // Fields missing on plans from before the AI request quota
+    if (plan.aiRequestsUsed === undefined || plan.aiRequestsResetAt === undefined) {
+        effectivePlan.aiRequestsUsed = 0;
+        effectivePlan.aiRequestsResetAt = getMonthStart();
     }
 
-    // Create default Free plan
-    const defaultPlan: UserPlan = {
-        userId,
-        tier: "free",
-        voiceLogsUsed: 0,
-        voiceLogsResetAt: getMonthStart(),
-        aiRequestsUsed: 0,
-        aiRequestsResetAt: getMonthStart(),
-        createdAt: Date.now(),
-        updatedAt: Date.now(),
-    };
-
-    await setDoc(planRef, defaultPlan);
-    return defaultPlan;
-}
+    // The server resets usage on the first request of a new month
+    if (plan.voiceLogsResetAt && shouldResetVoiceLogs(plan)) {
+        effectivePlan.voiceLogsUsed = 0;
+        effectivePlan.voiceLogsResetAt = getMonthStart();
+    }
+    if (plan.aiRequestsResetAt && shouldResetAiRequests(plan)) {
+        effectivePlan.aiRequestsUsed = 0;
+        effectivePlan.aiRequestsResetAt = getMonthStart();
+    }
 
-/**
- * Upgrade a user to Pro tier
- */
-export async function upgradeToPro(userId: string): Promise<UserPlan> {
-    const planRef = doc(db, "userPlans", userId);
-    const updates: Partial<UserPlan> = {
-        tier: "pro",
-        updatedAt: Date.now(),
-    };
-    await updateDoc(planRef, updates);
-    return getUserPlan(userId);
+    return effectivePlan;
 }
 
 // ============================================
@@ -226,7 +197,9 @@ export async function canPerform(
 }
 
 /**
- * Check if user can create a new space (requires space count)
+ * Check if user can create a new space (requires space count). Restoring and
+ * unarchiving a space need the same room.
+ * @param currentSpaceCount - Spaces counting towards the limit (getSpacesCountingTowardsLimit)
  */
 export async function canCreateSpace(
     userId: string,
@@ -242,7 +215,7 @@ export async function canCreateSpace(
     if (currentSpaceCount >= limits.maxSpaces) {
         return {
             allowed: false,
-            reason: `You've reached the limit of ${limits.maxSpaces} spaces. Upgrade to Pro for unlimited spaces.`,
+            reason: `You've reached the limit of ${limits.maxSpaces} active spaces. Archive one, or upgrade to Pro for unlimited spaces.`,
             currentUsage: currentSpaceCount,
             limit: limits.maxSpaces,
         };
@@ -259,31 +232,6 @@ export async function canCreateSpace(
 // Usage Tracking
 // ============================================
 
-/**
- * Increment usage for a tracked action (e.g., voice logs, AI requests)
- */
-export async function incrementUsage(
-    userId: string,
-    action: "voice_log" | "ai_request"
-): Promise<void> {
-    const planRef = doc(db, "userPlans", userId);
-
-    switch (action) {
-        case "voice_log":
-            await updateDoc(planRef, {
-                voiceLogsUsed: increment(1),
-                updatedAt: Date.now(),
-            });
-            break;
-        case "ai_request":
-            await updateDoc(planRef, {
-                aiRequestsUsed: increment(1),
-                updatedAt: Date.now(),
-            });
-            break;
-    }
-}
-
 /**
  * Get remaining quota for an action
  */
@@ -0,0 +1,258 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { UsageLedgerEntry, UsageReservation, UserPlan } from "@/types";
+
+// ============================================
+// In-memory Firestore - just what reservations use
+// ============================================
+
+type Data = Record<string, unknown>;
+
+const docs = new Map<string, Data>();
+let autoId = 0;
+
+interface FakeRef {
+    id: string;
+    path: string;
+    collection: (name: string) => ReturnType<typeof collection>;
+    update: (data: Data) => Promise<void>;
+}
+
+function docRef(path: string): FakeRef {
+    return {
+        id: path.split("/").pop()!,
+        path,
+        collection: (name: string) => collection(`${path}/${name}`),
+        update: async (data: Data) => {
+            docs.set(path, { ...docs.get(path), ...structuredClone(data) });
+        },
+    };
+}
+
+function collection(path: string) {
+    return { doc: (id: string = `auto${++autoId}`) => docRef(`${path}/${id}`) };
+}
+
+function isIncrement(value: unknown): value is { increment: number } {
+    return typeof value === "object" && value !== null && "increment" in value;
+}
+
+const fakeDb = {
+    collection,
+    runTransaction: async <T>(handler: (transaction: unknown) => Promise<T>): Promise<T> =>
+        handler({
+            get: async (ref: FakeRef) => ({
+                exists: docs.has(ref.path),
+                data: () => structuredClone(docs.get(ref.path)),
+            }),
+            set: (ref: FakeRef, data: Data) => {
+                docs.set(ref.path, structuredClone(data));
+            },
+            update: (ref: FakeRef, data: Data) => {
+                const current: Data = { ...docs.get(ref.path) };
+                for (const [field, value] of Object.entries(data)) {
+                    current[field] = isIncrement(value) ? ((current[field] as number) || 0) + value.increment : value;
+                }
+                docs.set(ref.path, current);
+            },
+        }),
+};
+
+vi.mock("@/lib/firebaseAdmin", () => ({ getAdminDb: () => fakeDb }));
+vi.mock("firebase-admin/firestore", () => ({
+    FieldValue: { increment: (increment: number) => ({ increment }) },
+}));
+
+const {
+    commitUsageServer,
+    getVoiceLogUnits,
+    refundUsageServer,
+    reserveUsageServer,
+    storeReservationResponse,
+} = await import("@/lib/entitlementsServer");
+
+const USER = "user1";
+const KEY = "key-12345678";
+
+function plan(): UserPlan {
+    return docs.get(`userPlans/${USER}`) as unknown as UserPlan;
+}
+
+function reservationDoc(key: string = KEY): UsageReservation {
+    return docs.get(`usageReservations/${USER}_${key}`) as unknown as UsageReservation;
+}
+
+async function reserve(key: string | null = KEY, units: number = 1) {
+    return reserveUsageServer(USER, "create_ai_request", key, units);
+}
+
+describe("reserveUsageServer", () => {
+    beforeEach(() => {
+        docs.clear();
+    });
+
+    it("charges a new request and keeps the reservation under the idempotency key", async () => {
+        const result = await reserve();
+
+        expect(result.allowed).toBe(true);
+        expect(result.reservation).toMatchObject({
+            id: `${USER}_${KEY}`,
+            status: "reserved",
+            attempts: 1,
+            units: 1,
+        });
+        expect(plan().aiRequestsUsed).toBe(1);
+        expect(reservationDoc().status).toBe("reserved");
+    });
+
+    it("rejects a retry while the first request is still running, without charging it", async () => {
+        await reserve();
+        const retry = await reserve();
+
+        expect(retry.allowed).toBe(false);
+        expect(retry.duplicate).toBe("in_progress");
+        expect(retry.reservation).toBeUndefined();
+        expect(plan().aiRequestsUsed).toBe(1);
+    });
+
+    it("answers a retry of a request that succeeded with its response, without charging it", async () => {
+        const { reservation } = await reserve();
+        await commitUsageServer(reservation!, { route: "/api/parse-task", tokens: 42 });
+        await storeReservationResponse(reservation!, '{"success":true}');
+        const retry = await reserve();
+
+        expect(retry).toMatchObject({ allowed: false, duplicate: "completed", responseBody: '{"success":true}' });
+        expect(plan().aiRequestsUsed).toBe(1);
+        expect(reservationDoc().status).toBe("committed");
+    });
+
+    it("rejects a retry of a request that succeeded when its response wasn't kept", async () => {
+        const { reservation } = await reserve();
+        await commitUsageServer(reservation!, { route: "/api/parse-task" });
+        const retry = await reserve();
+
+        expect(retry).toMatchObject({ allowed: false, duplicate: "completed" });
+        expect(retry.responseBody).toBeUndefined();
+    });
+
+    it("charges a retry of a refunded request again, keeping the key's history", async () => {
+        const first = await reserve();
+        await refundUsageServer(first.reservation!);
+        expect(plan().aiRequestsUsed).toBe(0);
+
+        const retry = await reserve();
+        expect(retry.allowed).toBe(true);
+        expect(retry.reservation).toMatchObject({ status: "reserved", attempts: 2 });
+        expect(retry.reservation!.createdAt).toBe(first.reservation!.createdAt);
+        expect(plan().aiRequestsUsed).toBe(1);
+    });
+
+    it("stops charging a key after too many failed attempts and never resets it", async () => {
+        for (let attempt = 1; attempt <= 5; attempt++) {
+            const result = await reserve();
+            expect(result.reservation?.attempts).toBe(attempt);
+            await refundUsageServer(result.reservation!);
+        }
+
+        const sixth = await reserve();
+        expect(sixth).toMatchObject({ allowed: false, duplicate: "too_many_attempts" });
+        expect(reservationDoc().attempts).toBe(5);
+
+        // Still rejected later - the counter isn't reset
+        expect((await reserve()).allowed).toBe(false);
+    });
+
+    it("charges every request without a (valid) key separately", async () => {
+        const first = await reserve(null);
+        const second = await reserve("bad key!");
+
+        expect(first.allowed && second.allowed).toBe(true);
+        expect(first.reservation!.id).not.toBe(second.reservation!.id);
+        expect(plan().aiRequestsUsed).toBe(2);
+    });
+
+    it("refuses requests needing more units than are left, without reserving", async () => {
+        await reserve("first-key", 49);
+        const result = await reserve("second-key", 2);
+
+        expect(result.allowed).toBe(false);
+        expect(result.duplicate).toBeUndefined();
+        expect(result.reason).toMatch(/counts as 2 AI requests and you have 1 left/);
+        expect(docs.has(`usageReservations/${USER}_second-key`)).toBe(false);
+        expect(plan().aiRequestsUsed).toBe(49);
+    });
+});
+
+describe("commitUsageServer", () => {
+    beforeEach(() => {
+        docs.clear();
+    });
+
+    it("records the charge in the usage ledger once", async () => {
+        const { reservation } = await reserve(KEY, 3);
+        await commitUsageServer(reservation!, { route: "/api/voice-log", spaceId: "space1", tokens: 120 });
+        await commitUsageServer(reservation!, { route: "/api/voice-log", spaceId: "space1", tokens: 120 });
+
+        const entries = [...docs.entries()].filter(([path]) => path.startsWith(`userPlans/${USER}/usageLedger/`));
+        expect(entries).toHaveLength(1);
+        expect(entries[0][1] as unknown as UsageLedgerEntry).toMatchObject({
+            id: `${USER}_${KEY}`,
+            action: "create_ai_request",
+            units: 3,
+            route: "/api/voice-log",
+            spaceId: "space1",
+            tokens: 120,
+        });
+        expect(plan().aiRequestsUsed).toBe(3);
+    });
+});
+
+describe("storeReservationResponse", () => {
+    beforeEach(() => {
+        docs.clear();
+    });
+
+    it("keeps nothing for requests without a key or with a huge response", async () => {
+        const unkeyed = (await reserve(null)).reservation!;
+        const keyed = (await reserve()).reservation!;
+        await storeReservationResponse(unkeyed, "{}");
+        await storeReservationResponse(keyed, `"${"a".repeat(200_000)}"`);
+
+        expect((docs.get(`usageReservations/${unkeyed.id}`) as unknown as UsageReservation).responseBody).toBeUndefined();
+        expect(reservationDoc().responseBody).toBeUndefined();
+    });
+});
+
+describe("refundUsageServer", () => {
+    beforeEach(() => {
+        docs.clear();
+    });
+
+    it("gives the units back once", async () => {
+        const { reservation } = await reserve(KEY, 2);
+        await refundUsageServer(reservation!);
+        await refundUsageServer(reservation!);
+
+        expect(plan().aiRequestsUsed).toBe(0);
+        expect(reservationDoc().status).toBe("refunded");
+    });
+
+    it("leaves a counter that was reset after the charge alone", async () => {
+        const { reservation } = await reserve();
+        docs.set(`userPlans/${USER}`, { ...plan(), aiRequestsUsed: 4, aiRequestsResetAt: reservation!.chargedAt + 1 });
+
+        await refundUsageServer(reservation!);
+        expect(plan().aiRequestsUsed).toBe(4);
+    });
+});
+
+describe("getVoiceLogUnits", () => {
+    it("counts each started minute of 128 kbps audio", () => {
+        const minuteOfAudio = 128000 / 8 * 60;
+        const base64Length = (bytes: number) => Math.ceil(bytes / 3) * 4;
+
+        expect(getVoiceLogUnits("")).toBe(1);
+        expect(getVoiceLogUnits("a".repeat(base64Length(minuteOfAudio)))).toBe(1);
+        expect(getVoiceLogUnits("a".repeat(base64Length(minuteOfAudio + 3)))).toBe(2);
+        expect(getVoiceLogUnits("a".repeat(base64Length(minuteOfAudio * 3)))).toBe(3);
+    });
+});
@@ -5,6 +5,7 @@
  * Only use in API routes - never expose to client.
  */
 
+import { FieldValue } from "firebase-admin/firestore";
 import { getAdminDb } from "./firebaseAdmin";
 import {
     UserPlan,
@@ -12,7 +13,11 @@ import {
     EntitlementAction,
     PlanLimits,
     PLAN_LIMITS,
+    Space,
+    UsageLedgerEntry,
+    UsageReservation,
 } from "@/types";
+import { getSpacesCountingTowardsLimit, getSpacesOverLimit } from "@/lib/spaceLimitUtils";
 
 // ============================================
 // Plan Limit Helpers
@@ -50,24 +55,8 @@ export async function getUserPlanServer(userId: string): Promise<UserPlan> {
         const plan = planSnap.data() as UserPlan;
 
         // Check if we need to reset usage for new month
-        const needsVoiceReset = shouldResetVoiceLogs(plan);
-        const needsAiReset = shouldResetAiRequests(plan);
-
-        if (needsVoiceReset || needsAiReset) {
-            const updatedPlan: Partial<UserPlan> = {
-                updatedAt: Date.now(),
-            };
-            
-            if (needsVoiceReset) {
-                updatedPlan.voiceLogsUsed = 0;
-                updatedPlan.voiceLogsResetAt = getMonthStart();
-            }
-            
-            if (needsAiReset) {
-                updatedPlan.aiRequestsUsed = 0;
-                updatedPlan.aiRequestsResetAt = getMonthStart();
-            }
-
+        const updatedPlan = getMonthlyReset(plan);
+        if (updatedPlan) {
             await planRef.update(updatedPlan);
             return { ...plan, ...updatedPlan } as UserPlan;
         }
@@ -76,7 +65,42 @@ export async function getUserPlanServer(userId: string): Promise<UserPlan> {
     }
 
     // Create default Free plan
-    const defaultPlan: UserPlan = {
+    const defaultPlan = createDefaultPlan(userId);
+    await planRef.set(defaultPlan);
+    return defaultPlan;
+}
+
+/**
+ * Usage counters to reset when a new month has started
+ * @returns Fields to update, or null if the plan is current
+ */
+function getMonthlyReset(plan: UserPlan): Partial<UserPlan> | null {
+    const needsVoiceReset = shouldResetVoiceLogs(plan);
+    // Plans from before the AI request quota have no counter yet
+    const needsAiReset = plan.aiRequestsResetAt === undefined || shouldResetAiRequests(plan);
+    if (!needsVoiceReset && !needsAiReset) return null;
+
+    const updatedPlan: Partial<UserPlan> = {
+        updatedAt: Date.now(),
+    };
+    
+    if (needsVoiceReset) {
+        updatedPlan.voiceLogsUsed = 0;
+        updatedPlan.voiceLogsResetAt = getMonthStart();
+    }
+    
+    if (needsAiReset) {
+        updatedPlan.aiRequestsUsed = 0;
+        updatedPlan.aiRequestsResetAt = getMonthStart();
+    }
+    return updatedPlan;
+}
+
+/**
+ * Free plan with no usage, for users without a plan document yet
+ */
+export function createDefaultPlan(userId: string): UserPlan {
+    return {
         userId,
         tier: "free",
         voiceLogsUsed: 0,
@@ -86,9 +110,6 @@ export async function getUserPlanServer(userId: string): Promise<UserPlan> {
         createdAt: Date.now(),
         updatedAt: Date.now(),
     };
-
-    await planRef.set(defaultPlan);
-    return defaultPlan;
 }
 
 // ============================================
@@ -102,11 +123,11 @@ export interface EntitlementResult {
     limit?: number | null;
 }
 
-export async function canPerformServer(
-    userId: string,
-    action: EntitlementAction
-): Promise<EntitlementResult> {
-    const plan = await getUserPlanServer(userId);
+/**
+ * Check a monthly quota against the plan's current usage
+ * @param units - Quota the request needs (expensive calls count as more than one)
+ */
+function checkQuota(plan: UserPlan, action: QuotaAction, units: number = 1): EntitlementResult {
     const limits = getPlanLimits(plan.tier);
 
     switch (action) {
@@ -114,10 +135,12 @@ export async function canPerformServer(
             if (limits.maxVoiceLogs === null) {
                 return { allowed: true };
             }
-            if (plan.voiceLogsUsed >= limits.maxVoiceLogs) {
+            if (plan.voiceLogsUsed + units > limits.maxVoiceLogs) {
                 return {
                     allowed: false,
-                    reason: `You've used all ${limits.maxVoiceLogs} voice logs this month. Upgrade to Pro for unlimited voice logging.`,
+                    reason: plan.voiceLogsUsed < limits.maxVoiceLogs
+                        ? `This recording counts as ${units} voice logs and you have ${limits.maxVoiceLogs - plan.voiceLogsUsed} left this month. Record a shorter one, or upgrade to Pro for unlimited voice logging.`
+                        : `You've used all ${limits.maxVoiceLogs} voice logs this month. Upgrade to Pro for unlimited voice logging.`,
                     currentUsage: plan.voiceLogsUsed,
                     limit: limits.maxVoiceLogs,
                 };
@@ -132,10 +155,12 @@ export async function canPerformServer(
             if (limits.maxAiRequests === null) {
                 return { allowed: true };
             }
-            if (plan.aiRequestsUsed >= limits.maxAiRequests) {
+            if (plan.aiRequestsUsed + units > limits.maxAiRequests) {
                 return {
                     allowed: false,
-                    reason: `You've used all ${limits.maxAiRequests} AI requests this month. Upgrade to Pro for unlimited AI-powered task creation.`,
+                    reason: plan.aiRequestsUsed < limits.maxAiRequests
+                        ? `This request counts as ${units} AI requests and you have ${limits.maxAiRequests - plan.aiRequestsUsed} left this month. Upgrade to Pro for unlimited AI-powered task creation.`
+                        : `You've used all ${limits.maxAiRequests} AI requests this month. Upgrade to Pro for unlimited AI-powered task creation.`,
                     currentUsage: plan.aiRequestsUsed,
                     limit: limits.maxAiRequests,
                 };
@@ -145,42 +170,379 @@ export async function canPerformServer(
                 currentUsage: plan.aiRequestsUsed,
                 limit: limits.maxAiRequests,
             };
+    }
+}
+
+export async function canPerformServer(
+    userId: string,
+    action: EntitlementAction
+): Promise<EntitlementResult> {
+    const plan = await getUserPlanServer(userId);
+    const limits = getPlanLimits(plan.tier);
+
+    switch (action) {
+        case "create_voice_log":
+        case "create_ai_request":
+            return checkQuota(plan, action);
+
+        case "access_github_integration":
+            if (!limits.hasGitHubIntegration) {
+                return {
+                    allowed: false,
+                    reason: "GitHub integration is available on the Pro plan.",
+                };
+            }
+            return { allowed: true };
+
+        case "access_calendar_integration":
+            if (!limits.hasCalendarIntegration) {
+                return {
+                    allowed: false,
+                    reason: "Calendar integration is available on the Pro plan.",
+                };
+            }
+            return { allowed: true };
+
+        case "access_daily_summary":
+            if (!limits.hasDailySummary) {
+                return {
+                    allowed: false,
+                    reason: "Daily AI summaries are available on the Pro plan.",
+                };
+            }
+            return { allowed: true };
 
         default:
             return { allowed: true };
     }
 }
 
+/**
+ * Check if a user can have another active space (create, restore or unarchive one)
+ */
+export async function canCreateSpaceServer(
+    userId: string,
+    currentSpaceCount: number
+): Promise<EntitlementResult> {
+    const plan = await getUserPlanServer(userId);
+    const limits = getPlanLimits(plan.tier);
+
+    if (limits.maxSpaces === null) {
+        return { allowed: true };
+    }
+
+    if (currentSpaceCount >= limits.maxSpaces) {
+        return {
+            allowed: false,
+            reason: `You've reached the limit of ${limits.maxSpaces} active spaces. Archive one, or upgrade to Pro for unlimited spaces.`,
+            currentUsage: currentSpaceCount,
+            limit: limits.maxSpaces,
+        };
+    }
+
+    return {
+        allowed: true,
+        currentUsage: currentSpaceCount,
+        limit: limits.maxSpaces,
+    };
+}
+
+// ============================================
+// Space Limit on Downgrade (Server-Side)
+// ============================================
+
+/**
+ * The user's owned spaces that aren't trashed, archived ones included
+ */
+export async function getOwnedSpacesServer(userId: string): Promise<Space[]> {
+    const snap = await getAdminDb().collection("spaces").where("ownerId", "==", userId).get();
+    return snap.docs
+        .map(d => ({ ...(d.data() as Omit<Space, "id">), id: d.id }))
+        .filter(space => !space.deletedAt);
+}
+
+/**
+ * Applies the space limit of the user's current plan. After a downgrade, the
+ * spaces over the limit are archived (read-only, see getSpacesOverLimit);
+ * after an upgrade, the spaces archived for the limit are active again.
+ * Spaces the owner archived themselves are left alone.
+ * @returns Number of spaces archived or restored
+ */
+export async function enforceSpaceLimitServer(userId: string): Promise<number> {
+    const plan = await getUserPlanServer(userId);
+    const { maxSpaces } = getPlanLimits(plan.tier);
+    const spaces = await getOwnedSpacesServer(userId);
+    const db = getAdminDb();
+    const batch = db.batch();
+
+    let changed: string[];
+    if (maxSpaces === null) {
+        changed = spaces.filter(space => space.archivedReason === "plan_limit").map(space => space.id);
+        for (const id of changed) {
+            batch.update(db.collection("spaces").doc(id), {
+                archivedAt: FieldValue.delete(),
+                archivedReason: FieldValue.delete(),
+            });
+        }
+    } else {
+        changed = getSpacesOverLimit(getSpacesCountingTowardsLimit(spaces, userId), maxSpaces);
+        const now = Date.now();
+        for (const id of changed) {
+            batch.update(db.collection("spaces").doc(id), { archivedAt: now, archivedReason: "plan_limit" });
+        }
+    }
+
+    if (changed.length > 0) {
+        await batch.commit();
+    }
+    return changed.length;
+}
+
 // ============================================
-// Usage Tracking (Server-Side)
+// Usage Reservations (Server-Side)
 // ============================================
 
-export async function incrementUsageServer(
+/**
+ * Quotas are charged in two steps so parallel requests can't overspend them:
+ * reserveUsageServer checks the limit and increments the counter in one
+ * transaction before the AI call, then the route commits the reservation if
+ * the call succeeded or refunds it if it failed. A request that never settles
+ * (the server died mid-call) stays charged.
+ *
+ * Committing also appends the request to the user's usage ledger, so they can
+ * see what used their quota.
+ *
+ * Collection structure:
+ * - /usageReservations/{reservationId}  (server only)
+ * - /userPlans/{userId}/usageLedger/{reservationId}  (read by the owner)
+ */
+
+export type QuotaAction = UsageReservation["action"];
+
+// A key is charged again after each refund, at most this many times (apiCall makes up to 4 attempts)
+const MAX_RESERVATION_ATTEMPTS = 5;
+
+// Larger responses aren't kept for replay - a retry of that request gets a 409 instead
+const MAX_RESPONSE_BODY_LENGTH = 200_000;
+
+const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9_-]{8,100}$/;
+
+// Recordings are 128 kbps (see recorder.ts) - each started minute of audio is one voice log
+const AUDIO_BYTES_PER_UNIT = (128000 / 8) * 60;
+
+/**
+ * Quota units for a voice log, from the size of its audio - longer
+ * recordings cost more to transcribe
+ * @param audioBase64 - Recording as sent by the client
+ * @returns Units to reserve, at least 1
+ */
+export function getVoiceLogUnits(audioBase64: string): number {
+    const bytes = Math.floor((audioBase64.length * 3) / 4);
+    return Math.max(1, Math.ceil(bytes / AUDIO_BYTES_PER_UNIT));
+}
+
+// What a committed request is recorded with in the usage ledger
+export interface UsageDetails {
+    route: string;
+    spaceId?: string;
+    tokens?: number;
+}
+
+// Why a request reusing an Idempotency-Key isn't run
+export type DuplicateRequest = "in_progress" | "completed" | "too_many_attempts";
+
+export interface ReservationResult extends EntitlementResult {
+    reservation?: UsageReservation; // Set when allowed - commit or refund it
+    duplicate?: DuplicateRequest;
+    responseBody?: string;          // Completed duplicates: the response to send again, when it was kept
+}
+
+function getUsageField(action: QuotaAction): "voiceLogsUsed" | "aiRequestsUsed" {
+    return action === "create_voice_log" ? "voiceLogsUsed" : "aiRequestsUsed";
+}
+
+function getResetField(action: QuotaAction): "voiceLogsResetAt" | "aiRequestsResetAt" {
+    return action === "create_voice_log" ? "voiceLogsResetAt" : "aiRequestsResetAt";
+}
+
+/**
+ * Why a request reusing an Idempotency-Key can't run, or null if it may
+ * (the earlier request failed and was refunded)
+ */
+function getDuplicateResult(existing: UsageReservation): ReservationResult | null {
+    if (existing.status === "reserved") {
+        return {
+            allowed: false,
+            duplicate: "in_progress",
+            reason: "This request is still being processed. Please wait for it to finish.",
+        };
+    }
+    if (existing.status === "committed") {
+        return {
+            allowed: false,
+            duplicate: "completed",
+            reason: "This request was already completed.",
+            ...(existing.responseBody !== undefined ? { responseBody: existing.responseBody } : {}),
+        };
+    }
+    if (existing.attempts >= MAX_RESERVATION_ATTEMPTS) {
+        return {
+            allowed: false,
+            duplicate: "too_many_attempts",
+            reason: "This request was retried too many times. Please try again.",
+        };
+    }
+    return null;
+}
+
+/**
+ * Check the quota and charge one unit of it, atomically
+ * @param userId - Verified user
+ * @param action - Quota to charge
+ * @param idempotencyKey - Idempotency-Key header of the request - a retry with the same key only
+ *   runs if the earlier request failed (and is charged again); otherwise it is a duplicate, answered
+ *   with the earlier response once that request completed
+ * @param units - Quota to charge, 1 unless the call is expensive (e.g. long audio)
+ * @returns The reservation to settle, or the reason the quota is exhausted
+ */
+export async function reserveUsageServer(
     userId: string,
-    action: "voice_log" | "ai_request"
-): Promise<void> {
+    action: QuotaAction,
+    idempotencyKey?: string | null,
+    units: number = 1
+): Promise<ReservationResult> {
     const db = getAdminDb();
     const planRef = db.collection("userPlans").doc(userId);
+    const reservations = db.collection("usageReservations");
+    const reservationRef = idempotencyKey && IDEMPOTENCY_KEY_PATTERN.test(idempotencyKey)
+        ? reservations.doc(`${userId}_${idempotencyKey}`)
+        : reservations.doc();
 
-    const updates: Partial<UserPlan> = {
-        updatedAt: Date.now(),
-    };
+    return db.runTransaction(async (transaction) => {
+        const [planSnap, reservationSnap] = await Promise.all([
+            transaction.get(planRef),
+            transaction.get(reservationRef),
+        ]);
+        const now = Date.now();
 
-    switch (action) {
-        case "voice_log":
-            // Use FieldValue.increment for atomic updates
-            const { FieldValue } = await import("firebase-admin/firestore");
-            await planRef.update({
-                voiceLogsUsed: FieldValue.increment(1),
-                updatedAt: Date.now(),
-            });
-            break;
-        case "ai_request":
-            const { FieldValue: FV } = await import("firebase-admin/firestore");
-            await planRef.update({
-                aiRequestsUsed: FV.increment(1),
-                updatedAt: Date.now(),
+        // A retry of a request that is in flight or succeeded must not run the AI call again.
+        // Keys are never reset, so a used key can't be replayed for more calls.
+        const existing = reservationSnap.exists ? (reservationSnap.data() as UsageReservation) : null;
+        const duplicate = existing ? getDuplicateResult(existing) : null;
+        if (duplicate) {
+            return duplicate;
+        }
+
+        const stored = planSnap.exists ? (planSnap.data() as UserPlan) : createDefaultPlan(userId);
+        const plan = { ...stored, ...getMonthlyReset(stored) } as UserPlan;
+        const result = checkQuota(plan, action, units);
+        if (!result.allowed) {
+            return result;
+        }
+
+        const field = getUsageField(action);
+        transaction.set(planRef, { ...plan, [field]: (plan[field] || 0) + units, updatedAt: now });
+
+        // A refunded (failed) request retried with its key is charged again
+        const reservation: UsageReservation = {
+            id: reservationRef.id,
+            userId,
+            action,
+            units,
+            status: "reserved",
+            attempts: existing ? existing.attempts + 1 : 1,
+            chargedAt: now,
+            createdAt: existing ? existing.createdAt : now,
+            updatedAt: now,
+        };
+        transaction.set(reservationRef, reservation);
+        return { ...result, reservation };
+    });
+}
+
+/**
+ * Keep the charge - the AI call succeeded - and record it in the usage
+ * ledger. A reservation a parallel retry already refunded is charged again.
+ * @param reservation - Reservation from reserveUsageServer
+ * @param details - Route, space and token count for the ledger entry
+ */
+export async function commitUsageServer(reservation: UsageReservation, details: UsageDetails): Promise<void> {
+    const db = getAdminDb();
+    const reservationRef = db.collection("usageReservations").doc(reservation.id);
+    const planRef = db.collection("userPlans").doc(reservation.userId);
+    const ledgerRef = planRef.collection("usageLedger").doc(reservation.id);
+
+    await db.runTransaction(async (transaction) => {
+        const snap = await transaction.get(reservationRef);
+        const current = snap.exists ? (snap.data() as UsageReservation) : reservation;
+        if (current.status === "committed") return;
+
+        const now = Date.now();
+        if (current.status === "refunded") {
+            transaction.update(planRef, {
+                [getUsageField(reservation.action)]: FieldValue.increment(current.units),
+                updatedAt: now,
             });
-            break;
+        }
+        transaction.set(reservationRef, {
+            ...current,
+            status: "committed",
+            ...(current.status === "refunded" ? { chargedAt: now } : {}),
+            updatedAt: now,
+        });
+
+        const entry: UsageLedgerEntry = {
+            id: reservation.id,
+            action: reservation.action,
+            units: current.units,
+            route: details.route,
+            ...(details.spaceId ? { spaceId: details.spaceId } : {}),
+            ...(details.tokens !== undefined ? { tokens: details.tokens } : {}),
+            createdAt: now,
+        };
+        transaction.set(ledgerRef, entry);
+    });
+}
+
+/**
+ * Keep the response of a committed request, so a retry with the same
+ * Idempotency-Key (the client never got the response) is answered with it
+ * instead of running the AI call again
+ * @param reservation - Committed reservation
+ * @param body - JSON body sent to the client
+ */
+export async function storeReservationResponse(reservation: UsageReservation, body: string): Promise<void> {
+    // Reservations without a key (random IDs) are never looked up again
+    if (!reservation.id.startsWith(`${reservation.userId}_`) || body.length > MAX_RESPONSE_BODY_LENGTH) {
+        return;
     }
+    await getAdminDb().collection("usageReservations").doc(reservation.id).update({
+        responseBody: body,
+        updatedAt: Date.now(),
+    });
+}
+
+/**
+ * Give the charge back - the AI call failed. Usage from a previous month
+ * (reset since the charge) isn't touched, and settled reservations stay as
+ * they are.
+ */
+export async function refundUsageServer(reservation: UsageReservation): Promise<void> {
+    const db = getAdminDb();
+    const reservationRef = db.collection("usageReservations").doc(reservation.id);
+    const planRef = db.collection("userPlans").doc(reservation.userId);
+
+    await db.runTransaction(async (transaction) => {
+        const [snap, planSnap] = await Promise.all([transaction.get(reservationRef), transaction.get(planRef)]);
+        const current = snap.exists ? (snap.data() as UsageReservation) : null;
+        if (!current || current.status !== "reserved") return;
+
+        const now = Date.now();
+        const plan = planSnap.data() as UserPlan | undefined;
+        const field = getUsageField(reservation.action);
+        if (plan && plan[getResetField(reservation.action)] <= current.chargedAt && plan[field] > 0) {
+            transaction.update(planRef, { [field]: Math.max(plan[field] - current.units, 0), updatedAt: now });
+        }
+        transaction.set(reservationRef, { ...current, status: "refunded", updatedAt: now });
+    });
 }
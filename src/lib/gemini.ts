@@ -1,16 +1,197 @@
+/**
+ * LLM Provider Layer
+ *
+ * Every agent gets its model through getGeminiModel(agent). The provider and
+ * model are resolved per agent from environment variables, so agents can run
+ * against Gemini, a deterministic local stand-in, or alternative models
+ * without touching agent code.
+ *
+ * Every call is recorded in the current request's trace (aiTrace.ts) with its
+ * latency and the tokens the provider reports.
+ *
+ * Environment:
+ * - LLM_PROVIDER              Provider for all agents ("gemini" | "local"), default "gemini"
+ * - LLM_PROVIDER_<AGENT>      Provider override for one agent (e.g. LLM_PROVIDER_CLASSIFIER)
+ * - LLM_MODEL                 Model for all agents
+ * - LLM_MODEL_<AGENT>         Model override for one agent (e.g. LLM_MODEL_VOICELOG)
+ */
+
 import { GoogleGenerativeAI, GenerativeModel } from "@google/generative-ai";
+import { createLocalModel } from "@/lib/localModel";
+import { recordModelCall } from "@/lib/aiTrace";
+
+// ============================================
+// Provider Types
+// ============================================
+
+export type AgentName =
+    | "classifier"
+    | "creator"
+    | "updater"
+    | "followUp"
+    | "query"
+    | "description"
+    | "enhanceDescription"
+    | "transcription"
+    | "voiceLog"
+    | "dailySummary";
+
+export type LLMPart =
+    | string
+    | { text: string }
+    | { inlineData: { mimeType: string; data: string } };
+
+export type LLMRequest = string | LLMPart[];
+
+export interface LLMUsageMetadata {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    totalTokenCount?: number;
+}
+
+export interface LLMResult {
+    response: {
+        text(): string;
+        usageMetadata?: LLMUsageMetadata;
+    };
+}
+
+/**
+ * Minimal model surface used by the agents.
+ * Shaped like GenerativeModel.generateContent so Gemini passes straight through.
+ */
+export interface LLMModel {
+    readonly provider: string;
+    readonly modelName: string;
+    generateContent(request: LLMRequest): Promise<LLMResult>;
+}
+
+export type LLMProviderFactory = (modelName: string, agent?: AgentName) => LLMModel;
+
+// ============================================
+// Model Selection
+// ============================================
+
+const DEFAULT_PROVIDER = "gemini";
+const DEFAULT_MODEL = "gemini-3-flash-preview";
+
+// Audio transcription and voice action parsing have always run on 2.0 Flash
+const DEFAULT_AGENT_MODELS: Partial<Record<AgentName, string>> = {
+    transcription: "gemini-2.0-flash",
+    voiceLog: "gemini-2.0-flash",
+};
+
+function agentEnv(prefix: string, agent?: AgentName): string | undefined {
+    if (!agent) return undefined;
+    return process.env[`${prefix}_${agent.toUpperCase()}`] || undefined;
+}
+
+export function resolveModelConfig(agent?: AgentName): { provider: string; model: string } {
+    const provider = agentEnv("LLM_PROVIDER", agent) || process.env.LLM_PROVIDER || DEFAULT_PROVIDER;
+    const model =
+        agentEnv("LLM_MODEL", agent) ||
+        process.env.LLM_MODEL ||
+        (agent && DEFAULT_AGENT_MODELS[agent]) ||
+        DEFAULT_MODEL;
+
+    return { provider, model };
+}
+
+// ============================================
+// Providers
+// ============================================
+
+let genAI: GoogleGenerativeAI;
+
+function createGeminiModel(modelName: string): LLMModel {
+    if (!genAI) {
+        const apiKey = process.env.GEMINI_API_KEY;
+        if (!apiKey) {
+            throw new Error("GEMINI_API_KEY is not defined in environment variables");
+        }
+        genAI = new GoogleGenerativeAI(apiKey);
+    }
+
+    const model: GenerativeModel = genAI.getGenerativeModel({ model: modelName });
+
+    return {
+        provider: "gemini",
+        modelName,
+        generateContent: (request) => model.generateContent(request),
+    };
+}
+
+const providers: Record<string, LLMProviderFactory> = {
+    gemini: createGeminiModel,
+    local: createLocalModel,
+};
+
+/**
+ * Register an additional provider (e.g. an OpenAI-compatible endpoint).
+ * Select it with LLM_PROVIDER=<name> or LLM_PROVIDER_<AGENT>=<name>.
+ */
+export function registerProvider(name: string, factory: LLMProviderFactory): void {
+    providers[name] = factory;
+    modelCache.clear();
+}
+
+// ============================================
+// Instrumentation
+// ============================================
+
+/**
+ * Record every call of a model in the current request's trace (aiTrace.ts):
+ * latency, tokens and errors
+ */
+function instrumentModel(model: LLMModel, agent?: AgentName): LLMModel {
+    return {
+        provider: model.provider,
+        modelName: model.modelName,
+        generateContent: async (request) => {
+            const startedAt = Date.now();
+            const call = { agent: agent ?? "unknown", provider: model.provider, model: model.modelName };
+            try {
+                const result = await model.generateContent(request);
+                const usage = result.response.usageMetadata;
+                recordModelCall({
+                    ...call,
+                    latencyMs: Date.now() - startedAt,
+                    ...(usage?.promptTokenCount !== undefined ? { promptTokens: usage.promptTokenCount } : {}),
+                    ...(usage?.candidatesTokenCount !== undefined ? { outputTokens: usage.candidatesTokenCount } : {}),
+                    ...(usage?.totalTokenCount !== undefined ? { totalTokens: usage.totalTokenCount } : {}),
+                });
+                return result;
+            } catch (error) {
+                recordModelCall({
+                    ...call,
+                    latencyMs: Date.now() - startedAt,
+                    error: error instanceof Error ? error.message.slice(0, 500) : String(error),
+                });
+                throw error;
+            }
+        },
+    };
+}
+
+// ============================================
+// Model Access
+// ============================================
+
+const modelCache = new Map<string, LLMModel>();
 
-let model: GenerativeModel;
+export function getGeminiModel(agent?: AgentName): LLMModel {
+    const { provider, model } = resolveModelConfig(agent);
+    const cacheKey = `${provider}:${model}:${agent ?? ""}`;
 
-export function getGeminiModel() {
-    if (model) return model;
+    const cached = modelCache.get(cacheKey);
+    if (cached) return cached;
 
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-        throw new Error("GEMINI_API_KEY is not defined in environment variables");
+    const factory = providers[provider];
+    if (!factory) {
+        throw new Error(`Unknown LLM provider "${provider}". Registered: ${Object.keys(providers).join(", ")}`);
     }
 
-    const genAI = new GoogleGenerativeAI(apiKey);
-    model = genAI.getGenerativeModel({ model: "gemini-3-flash-preview" });
-    return model;
+    const instance = instrumentModel(factory(model, agent), agent);
+    modelCache.set(cacheKey, instance);
+    return instance;
 }
@@ -0,0 +1,96 @@
+import { GitHubLink, GitHubRef } from "@/types";
+
+// "PR #423", "pull request 12", "issue #7", "owner/repo#42" - a bare "#1" is too
+// often something else ("my #1 priority")
+const MENTION_PATTERN = /(?:\b(?:pr|pull request|issue)\s*#?|\b([\w.-]+)\/([\w.-]+)#)(\d+)\b/gi;
+
+// https://github.com/owner/repo/pull/423 or /issues/7
+const URL_PATTERN = /https?:\/\/(?:www\.)?github\.com\/([\w.-]+)\/([\w.-]+)\/(?:pull|issues)\/(\d+)/gi;
+
+/**
+ * Finds the issues and pull requests mentioned in free text
+ * @param text - User input or a task title
+ * @returns One reference per number, in order of appearance
+ */
+export function parseGitHubMentions(text: string): GitHubRef[] {
+    const refs: GitHubRef[] = [];
+    const add = (number: number, owner?: string, repo?: string) => {
+        if (!number || refs.some(r => r.number === number && r.owner === owner && r.repo === repo)) return;
+        refs.push(owner && repo ? { number, owner, repo } : { number });
+    };
+
+    // URLs first, so their numbers aren't also read as bare mentions
+    const withoutUrls = text.replace(URL_PATTERN, (_, owner: string, repo: string, number: string) => {
+        add(Number(number), owner, repo);
+        return " ";
+    });
+    for (const match of withoutUrls.matchAll(MENTION_PATTERN)) {
+        add(Number(match[3]), match[1], match[2]);
+    }
+    return refs;
+}
+
+/**
+ * Reads a repository from "owner/repo" or a GitHub URL
+ * @param input - What the user typed
+ * @returns Owner and repository name, or null if it isn't one
+ */
+export function parseRepository(input: string): { owner: string; repo: string } | null {
+    const match = input.trim()
+        .replace(/^https?:\/\/(?:www\.)?github\.com\//i, "")
+        .replace(/\.git$/i, "")
+        .match(/^([\w.-]+)\/([\w.-]+)\/?$/);
+    return match ? { owner: match[1], repo: match[2] } : null;
+}
+
+/**
+ * Whether a reference points at the connected repository (bare numbers always do)
+ * @param ref - Parsed mention
+ * @param repo - Connected repository
+ */
+export function isInRepository(ref: GitHubRef, repo: { owner: string; repo: string }): boolean {
+    if (!ref.owner || !ref.repo) return true;
+    return ref.owner.toLowerCase() === repo.owner.toLowerCase() &&
+        ref.repo.toLowerCase() === repo.repo.toLowerCase();
+}
+
+/**
+ * Short label for a link ("PR #423", "Issue #7")
+ */
+export function getLinkLabel(link: Pick<GitHubLink, "kind" | "number">): string {
+    return `${link.kind === "pull" ? "PR" : "Issue"} #${link.number}`;
+}
+
+/**
+ * Adds links to a task's list, replacing ones for the same issue or PR
+ * @param existing - The task's current links
+ * @param added - Newly resolved links
+ */
+export function mergeGitHubLinks(existing: GitHubLink[] = [], added: GitHubLink[]): GitHubLink[] {
+    const merged = existing.filter(link => !added.some(a => a.number === link.number));
+    return [...merged, ...added];
+}
+
+/**
+ * Whether the linked work is finished - a merged PR or a closed issue.
+ * A PR closed without merging isn't.
+ */
+export function isLinkDone(link: GitHubLink): boolean {
+    return link.state === "merged" || (link.kind === "issue" && link.state === "closed");
+}
+
+/**
+ * Timeline sentence for a linked issue or PR changing state
+ * @param link - The link with its new state
+ */
+export function describeLinkChange(link: GitHubLink): string {
+    const label = `${getLinkLabel(link)} "${link.title}"`;
+    switch (link.state) {
+        case "merged":
+            return `${label} was merged`;
+        case "closed":
+            return link.kind === "pull" ? `${label} was closed without merging` : `${label} was closed`;
+        case "open":
+            return `${label} was reopened`;
+    }
+}
@@ -0,0 +1,149 @@
+"use client";
+
+/**
+ * useOperationHistory Hook
+ *
+ * Undo/redo stack for AI-applied task changes on the space page.
+ * Operations are created with operationUtils before a change is written and
+ * reverted through the useTasks actions. History lives for the page session.
+ */
+
+import { useState, useCallback } from "react";
+import { Task, TaskOperation } from "@/types";
+import { getOperationFields } from "@/lib/operationUtils";
+
+// Oldest operations are dropped beyond this
+const MAX_HISTORY = 20;
+
+interface UseOperationHistoryOptions {
+    tasks: Task[];
+    editTask: (taskId: string, updates: Partial<Task>) => Promise<boolean>;
+    removeTask: (taskId: string) => Promise<boolean>;
+    setDependencies: (taskId: string, blockedBy: string[]) => Promise<boolean>;
+    restoreFields: (taskId: string, values: Partial<Task>, fields: (keyof Task)[]) => Promise<boolean>;
+    restoreDeletedTask: (task: Task) => Promise<boolean>;
+    onUndone?: (operation: TaskOperation) => void;  // After a successful undo (e.g. to report it as an AI correction)
+}
+
+interface UseOperationHistoryReturn {
+    history: TaskOperation[];  // Applied, most recent first
+    undone: TaskOperation[];   // Undone and redoable, most recently undone first
+    latest: TaskOperation | null; // Just recorded - cleared by undo/redo so the toast doesn't resurface older changes
+    isReverting: boolean;
+    record: (operation: TaskOperation) => void;
+    undo: () => Promise<boolean>;
+    redo: () => Promise<boolean>;
+}
+
+export function useOperationHistory({
+    tasks,
+    editTask,
+    removeTask,
+    setDependencies,
+    restoreFields,
+    restoreDeletedTask,
+    onUndone,
+}: UseOperationHistoryOptions): UseOperationHistoryReturn {
+    const [history, setHistory] = useState<TaskOperation[]>([]);
+    const [undone, setUndone] = useState<TaskOperation[]>([]);
+    const [latest, setLatest] = useState<TaskOperation | null>(null);
+    const [isReverting, setIsReverting] = useState(false);
+
+    // A new change invalidates anything that was undone
+    const record = useCallback((operation: TaskOperation) => {
+        setHistory(prev => [operation, ...prev].slice(0, MAX_HISTORY));
+        setUndone([]);
+        setLatest(operation);
+    }, []);
+
+    const revert = useCallback(
+        async (operation: TaskOperation): Promise<boolean> => {
+            if (operation.type === "delete") {
+                return restoreDeletedTask(operation.before as Task);
+            }
+
+            const current = tasks.find(t => t.id === operation.taskId);
+            if (!current) return false; // Deleted since - nothing to put back
+
+            const { blockedBy, ...values } = operation.before;
+            const fields = getOperationFields(operation).filter(field => field !== "blockedBy");
+
+            // Remove the occurrence spawned by completing a recurring task
+            if (fields.includes("nextOccurrenceId") && current.nextOccurrenceId && !operation.before.nextOccurrenceId) {
+                await removeTask(current.nextOccurrenceId);
+            }
+
+            const restored = await restoreFields(operation.taskId, values, fields);
+            if (restored && "blockedBy" in operation.before) {
+                await setDependencies(operation.taskId, blockedBy || []);
+            }
+            return restored;
+        },
+        [tasks, removeTask, setDependencies, restoreFields, restoreDeletedTask]
+    );
+
+    const reapply = useCallback(
+        async (operation: TaskOperation): Promise<boolean> => {
+            if (operation.type === "delete") {
+                return removeTask(operation.taskId);
+            }
+
+            if (!tasks.some(t => t.id === operation.taskId)) return false;
+
+            const { blockedBy, ...values } = operation.after;
+            const applied = await editTask(operation.taskId, values);
+            if (applied && blockedBy) {
+                await setDependencies(operation.taskId, blockedBy);
+            }
+            return applied;
+        },
+        [tasks, editTask, removeTask, setDependencies]
+    );
+
+    const undo = useCallback(async (): Promise<boolean> => {
+        const operation = history[0];
+        if (!operation || isReverting) return false;
+
+        setIsReverting(true);
+        setLatest(null);
+        try {
+            const reverted = await revert(operation);
+            if (reverted) {
+                setHistory(prev => prev.filter(op => op.id !== operation.id));
+                setUndone(prev => [operation, ...prev]);
+                onUndone?.(operation);
+            }
+            return reverted;
+        } finally {
+            setIsReverting(false);
+        }
+    }, [history, isReverting, revert, onUndone]);
+
+    const redo = useCallback(async (): Promise<boolean> => {
+        const operation = undone[0];
+        if (!operation || isReverting) return false;
+
+        setIsReverting(true);
+        setLatest(null);
+        try {
+            const reapplied = await reapply(operation);
+            if (reapplied) {
+                setUndone(prev => prev.filter(op => op.id !== operation.id));
+                setHistory(prev => [operation, ...prev].slice(0, MAX_HISTORY));
+            }
+            return reapplied;
+        } finally {
+            setIsReverting(false);
+        }
+    }, [undone, isReverting, reapply]);
+
+    return {
+        history,
+        undone,
+        latest,
+        isReverting,
+        record,
+        undo,
+        redo,
+    };
+}
@@ -0,0 +1,118 @@
+"use client";
+
+/**
+ * useTaskTimeline Hook
+ *
+ * React hook for a task's activity timeline, newest first.
+ * The newest page is live; older pages are fetched on demand with loadMore.
+ * Entries still embedded in the task document (before migrateTaskTimeline
+ * moved them) are merged in.
+ */
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { Task, TaskUpdate } from "@/types";
+import {
+    subscribeToTaskTimeline,
+    getOlderTaskUpdates,
+    TaskServiceError,
+} from "@/lib/services/taskService";
+
+const DEFAULT_PAGE_SIZE = 20;
+
+interface UseTaskTimelineOptions {
+    task: Task | null;
+    pageSize?: number;
+}
+
+interface UseTaskTimelineReturn {
+    // State
+    updates: TaskUpdate[];
+    loading: boolean;
+    loadingMore: boolean;
+    hasMore: boolean;
+    error: TaskServiceError | null;
+
+    // Actions
+    loadMore: () => Promise<void>;
+}
+
+export function useTaskTimeline({ task, pageSize = DEFAULT_PAGE_SIZE }: UseTaskTimelineOptions): UseTaskTimelineReturn {
+    const [latest, setLatest] = useState<TaskUpdate[]>([]);
+    const [older, setOlder] = useState<TaskUpdate[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [loadingMore, setLoadingMore] = useState(false);
+    const [reachedEnd, setReachedEnd] = useState(false);
+    const [error, setError] = useState<TaskServiceError | null>(null);
+
+    const spaceId = task?.spaceId;
+    const taskId = task?.id;
+    const embedded = task?.updates;
+
+    // Subscribe to the newest page
+    useEffect(() => {
+        setLatest([]);
+        setOlder([]);
+        setReachedEnd(false);
+        setError(null);
+        if (!spaceId || !taskId) return;
+
+        setLoading(true);
+        const unsubscribe = subscribeToTaskTimeline(
+            spaceId,
+            taskId,
+            pageSize,
+            (updates) => {
+                setLatest(updates);
+                setLoading(false);
+            },
+            (err) => {
+                setError(err);
+                setLoading(false);
+            }
+        );
+
+        return () => unsubscribe();
+    }, [spaceId, taskId, pageSize]);
+
+    // Newest first, without the entries that moved from the live page into an older one
+    const updates = useMemo(() => {
+        const byId = new Map<string, TaskUpdate>();
+        for (const update of [...latest, ...older, ...(embedded || [])]) {
+            if (!byId.has(update.id)) byId.set(update.id, update);
+        }
+        return [...byId.values()].sort((a, b) => b.timestamp - a.timestamp);
+    }, [latest, older, embedded]);
+
+    // A full page means there may be more - loadMore finds out
+    const hasMore = !reachedEnd && (older.length > 0 || latest.length === pageSize);
+
+    // Fetch the page before the oldest entry loaded from the subcollection
+    const loadMore = useCallback(async () => {
+        const oldest = older[older.length - 1] || latest[latest.length - 1];
+        if (!spaceId || !taskId || !oldest || loadingMore) return;
+
+        setLoadingMore(true);
+        try {
+            const page = await getOlderTaskUpdates(spaceId, taskId, oldest, pageSize);
+            setOlder(prev => [...prev, ...page]);
+            setReachedEnd(page.length < pageSize);
+        } catch (err) {
+            console.error("Failed to load older timeline entries:", err);
+            setError({
+                code: "NETWORK_ERROR",
+                message: "Failed to load older activity. Please try again.",
+            });
+        } finally {
+            setLoadingMore(false);
+        }
+    }, [spaceId, taskId, pageSize, older, latest, loadingMore]);
+
+    return {
+        updates,
+        loading,
+        loadingMore,
+        hasMore,
+        error,
+        loadMore,
+    };
+}
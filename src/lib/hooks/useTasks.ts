@@ -5,16 +5,27 @@
  * 
  * React hook for managing tasks with Firestore.
  * Handles real-time updates, local caching, and migration.
+ * Creating, editing and deleting tasks also works offline: changes are queued
+ * in IndexedDB, shown optimistically and replayed on reconnect (see offlineStore.ts).
+ * Edits made in the task editor are merged field by field with concurrent changes.
+ * Timelines still embedded in task documents are moved to their subcollection.
  */
 
-import { useState, useEffect, useCallback, useRef } from "react";
-import { Task, TaskUpdate } from "@/types";
+import { useState, useEffect, useCallback, useRef, useMemo } from "react";
+import { FieldConflict, QueuedMutation, SyncConflict, Task, TaskUpdate } from "@/types";
 import {
     subscribeToTasks,
+    generateTaskId,
     createTask,
     updateTask,
     deleteTask,
     addTaskUpdate,
+    migrateTaskTimeline,
+    setTaskDependencies,
+    restoreTaskFields,
+    restoreTask,
+    purgeTasks,
+    getTrashedTasks,
     migrateLocalTasks,
     isMigrated,
     markAsMigrated,
@@ -22,6 +33,16 @@ import {
     clearLocalTasks,
     TaskServiceError,
 } from "@/lib/services/taskService";
+import {
+    cacheTasks,
+    getCachedTasks,
+    getQueuedMutations,
+    queueMutation,
+    replayQueuedMutations,
+} from "@/lib/services/offlineStore";
+import { isPastRetention } from "@/lib/trashUtils";
+import { applyQueuedMutations } from "@/lib/offlineUtils";
+import { pickFields } from "@/lib/conflictUtils";
 
 interface UseTasksOptions {
     spaceId: string;
@@ -35,12 +56,22 @@ interface UseTasksReturn {
     error: TaskServiceError | null;
     isMigrating: boolean;
     migrationStatus: { success: number; failed: number } | null;
+    isOnline: boolean;
+    pendingChanges: number; // Offline changes waiting to be synced
+    syncConflicts: SyncConflict[]; // Offline changes dropped on replay
 
     // Actions
     addTask: (task: Omit<Task, "id" | "createdAt" | "updatedAt" | "spaceId">) => Promise<Task | null>;
     editTask: (taskId: string, updates: Partial<Task>) => Promise<boolean>;
+    mergeTaskEdits: (taskId: string, updates: Partial<Task>, base: Partial<Task>) => Promise<FieldConflict[] | null>;
+    resolveFieldConflict: (taskId: string, conflict: FieldConflict, useMine: boolean) => Promise<boolean>;
     removeTask: (taskId: string) => Promise<boolean>;
     addUpdate: (taskId: string, update: Omit<TaskUpdate, "id">) => Promise<boolean>;
+    setDependencies: (taskId: string, blockedBy: string[]) => Promise<boolean>;
+    restoreFields: (taskId: string, values: Partial<Task>, fields: (keyof Task)[]) => Promise<boolean>;
+    restoreDeletedTask: (task: Task) => Promise<boolean>;
+    loadTrash: (retentionDays: number) => Promise<Task[]>;
+    purgeFromTrash: (taskIds: string[]) => Promise<boolean>;
 
     // Migration
     triggerMigration: () => Promise<void>;
@@ -48,10 +79,18 @@ interface UseTasksReturn {
     // Utilities
     getTaskById: (taskId: string) => Task | undefined;
     clearError: () => void;
+    dismissSyncConflicts: () => void;
+}
+
+function getOnlineStatus(): boolean {
+    return typeof navigator === "undefined" || navigator.onLine;
 }
 
 export function useTasks({ spaceId, enableMigration = true }: UseTasksOptions): UseTasksReturn {
-    const [tasks, setTasks] = useState<Task[]>([]);
+    const [syncedTasks, setSyncedTasks] = useState<Task[]>([]);
+    const [queue, setQueue] = useState<QueuedMutation[]>([]);
+    const [isOnline, setIsOnline] = useState(getOnlineStatus);
+    const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<TaskServiceError | null>(null);
     const [isMigrating, setIsMigrating] = useState(false);
@@ -59,9 +98,88 @@ export function useTasks({ spaceId, enableMigration = true }: UseTasksOptions):
     
     // Track if we've attempted migration
     const migrationAttempted = useRef(false);
+    const isReplaying = useRef(false);
+    const migratedTimelines = useRef(new Set<string>());
+
+    // Tasks as they will be once queued offline changes are synced
+    const tasks = useMemo(() => applyQueuedMutations(syncedTasks, queue), [syncedTasks, queue]);
 
     // Clear error helper
     const clearError = useCallback(() => setError(null), []);
+    const dismissSyncConflicts = useCallback(() => setSyncConflicts([]), []);
+
+    // Track connectivity
+    useEffect(() => {
+        const handleOnline = () => setIsOnline(true);
+        const handleOffline = () => setIsOnline(false);
+        window.addEventListener("online", handleOnline);
+        window.addEventListener("offline", handleOffline);
+        return () => {
+            window.removeEventListener("online", handleOnline);
+            window.removeEventListener("offline", handleOffline);
+        };
+    }, []);
+
+    // Load changes queued in an earlier session
+    useEffect(() => {
+        if (!spaceId) return;
+        getQueuedMutations(spaceId)
+            .then(setQueue)
+            .catch((err) => console.error("Failed to load offline changes:", err));
+    }, [spaceId]);
+
+    // Replay queued changes once online
+    const hasQueue = queue.length > 0;
+    useEffect(() => {
+        if (!spaceId || !isOnline || !hasQueue || isReplaying.current) return;
+
+        isReplaying.current = true;
+        replayQueuedMutations(spaceId)
+            .then((conflicts) => {
+                if (conflicts.length > 0) {
+                    setSyncConflicts(prev => [...prev, ...conflicts]);
+                }
+            })
+            .catch((err) => console.error("Failed to sync offline changes:", err))
+            .finally(async () => {
+                isReplaying.current = false;
+                setQueue(await getQueuedMutations(spaceId));
+            });
+    }, [spaceId, isOnline, hasQueue]);
+
+    // Move embedded timelines (the format before the timeline subcollection) out of task documents
+    useEffect(() => {
+        if (!spaceId || !isOnline) return;
+
+        for (const task of syncedTasks) {
+            if (!task.updates?.length || migratedTimelines.current.has(task.id)) continue;
+            migratedTimelines.current.add(task.id);
+            migrateTaskTimeline(spaceId, task.id).catch((err) => {
+                // Viewers can't migrate - the embedded timeline is shown until an editor opens the space
+                if ((err as { code?: string }).code !== "permission-denied") {
+                    console.error("Failed to migrate task timeline:", err);
+                }
+            });
+        }
+    }, [spaceId, isOnline, syncedTasks]);
+
+    // Queue a change made offline
+    const enqueue = useCallback(
+        async (mutation: Omit<QueuedMutation, "id" | "queuedAt" | "spaceId">): Promise<boolean> => {
+            try {
+                setQueue(await queueMutation({ ...mutation, spaceId }));
+                return true;
+            } catch (err) {
+                console.error("Failed to queue offline change:", err);
+                setError({
+                    code: "NETWORK_ERROR",
+                    message: "You're offline and the change couldn't be saved on this device.",
+                });
+                return false;
+            }
+        },
+        [spaceId]
+    );
 
     // Migration function
     const triggerMigration = useCallback(async () => {
@@ -108,8 +226,11 @@ export function useTasks({ spaceId, enableMigration = true }: UseTasksOptions):
         const unsubscribe = subscribeToTasks(
             spaceId,
             (updatedTasks) => {
-                setTasks(updatedTasks);
+                setSyncedTasks(updatedTasks);
                 setLoading(false);
+                cacheTasks(spaceId, updatedTasks).catch((err) => {
+                    console.error("Failed to cache tasks:", err);
+                });
 
                 // Check for migration after first load
                 if (enableMigration && !migrationAttempted.current) {
@@ -124,14 +245,15 @@ export function useTasks({ spaceId, enableMigration = true }: UseTasksOptions):
                     }
                 }
             },
-            (err) => {
+            async (err) => {
                 setError(err);
                 setLoading(false);
 
-                // Fall back to localStorage on error
-                const localTasks = getLocalTasks(spaceId);
+                // Fall back to the offline cache, then to pre-migration localStorage
+                const cachedTasks = await getCachedTasks(spaceId).catch(() => null);
+                const localTasks = cachedTasks || getLocalTasks(spaceId);
                 if (localTasks.length > 0) {
-                    setTasks(localTasks);
+                    setSyncedTasks(localTasks);
                 }
             }
         );
@@ -144,6 +266,20 @@ export function useTasks({ spaceId, enableMigration = true }: UseTasksOptions):
         async (taskData: Omit<Task, "id" | "createdAt" | "updatedAt" | "spaceId">): Promise<Task | null> => {
             if (!spaceId) return null;
 
+            if (!isOnline) {
+                const now = Date.now();
+                const taskId = generateTaskId(spaceId);
+                const newTask: Task = {
+                    ...taskData,
+                    id: taskId,
+                    spaceId,
+                    status: taskData.status || "todo",
+                    createdAt: now,
+                    updatedAt: now,
+                };
+                return (await enqueue({ type: "create", taskId, task: newTask })) ? newTask : null;
+            }
+
             try {
                 const newTask = await createTask(spaceId, {
                     ...taskData,
@@ -160,7 +296,7 @@ export function useTasks({ spaceId, enableMigration = true }: UseTasksOptions):
                 return null;
             }
         },
-        [spaceId]
+        [spaceId, isOnline, enqueue]
     );
 
     // Edit task
@@ -168,6 +304,14 @@ export function useTasks({ spaceId, enableMigration = true }: UseTasksOptions):
         async (taskId: string, updates: Partial<Task>): Promise<boolean> => {
             if (!spaceId) return false;
 
+            if (!isOnline) {
+                const baseUpdatedAt = syncedTasks.find((t) => t.id === taskId)?.updatedAt;
+                // Base values as shown (including earlier queued changes) - replay merges against them
+                const task = tasks.find((t) => t.id === taskId);
+                const baseValues = task ? pickFields(task, Object.keys(updates) as (keyof Task)[]) : undefined;
+                return enqueue({ type: "update", taskId, updates, baseUpdatedAt, baseValues });
+            }
+
             try {
                 await updateTask(spaceId, taskId, updates);
                 return true;
@@ -180,19 +324,67 @@ export function useTasks({ spaceId, enableMigration = true }: UseTasksOptions):
                 return false;
             }
         },
-        [spaceId]
+        [spaceId, isOnline, syncedTasks, tasks, enqueue]
     );
 
-    // Remove task
+    // Save edits made against an earlier version of the task, field by field
+    const mergeTaskEdits = useCallback(
+        async (taskId: string, updates: Partial<Task>, base: Partial<Task>): Promise<FieldConflict[] | null> => {
+            if (!spaceId) return null;
+
+            if (!isOnline) {
+                const baseUpdatedAt = syncedTasks.find((t) => t.id === taskId)?.updatedAt;
+                const queued = await enqueue({ type: "update", taskId, updates, baseUpdatedAt, baseValues: base });
+                return queued ? [] : null;
+            }
+
+            try {
+                return await updateTask(spaceId, taskId, updates, base);
+            } catch (err) {
+                console.error("Failed to update task:", err);
+                setError({
+                    code: "UNKNOWN",
+                    message: "Failed to update task. Please try again.",
+                });
+                return null;
+            }
+        },
+        [spaceId, isOnline, syncedTasks, enqueue]
+    );
+
+    // Settle a field edited concurrently: write our value over theirs, or keep theirs
+    const resolveFieldConflict = useCallback(
+        async (taskId: string, conflict: FieldConflict, useMine: boolean): Promise<boolean> => {
+            if (useMine && !(await editTask(taskId, { [conflict.field]: conflict.mine } as Partial<Task>))) {
+                return false;
+            }
+
+            // Drop it from the offline sync report, if it came from there
+            setSyncConflicts(prev => prev
+                .map(c => c.mutation.taskId === taskId && c.fieldConflicts
+                    ? { ...c, fieldConflicts: c.fieldConflicts.filter(f => f.field !== conflict.field) }
+                    : c)
+                .filter(c => !c.fieldConflicts || c.fieldConflicts.length > 0));
+            return true;
+        },
+        [editTask]
+    );
+
+    // Move task to the trash
     const removeTask = useCallback(
         async (taskId: string): Promise<boolean> => {
             if (!spaceId) return false;
 
+            if (!isOnline) {
+                const baseUpdatedAt = syncedTasks.find((t) => t.id === taskId)?.updatedAt;
+                return enqueue({ type: "delete", taskId, baseUpdatedAt });
+            }
+
             try {
                 await deleteTask(spaceId, taskId);
                 return true;
             } catch (err) {
-                console.error("Failed to delete task:", err);
+                console.error("Failed to move task to trash:", err);
                 setError({
                     code: "UNKNOWN",
                     message: "Failed to delete task. Please try again.",
@@ -200,7 +392,7 @@ export function useTasks({ spaceId, enableMigration = true }: UseTasksOptions):
                 return false;
             }
         },
-        [spaceId]
+        [spaceId, isOnline, syncedTasks, enqueue]
     );
 
     // Add timeline update
@@ -223,6 +415,111 @@ export function useTasks({ spaceId, enableMigration = true }: UseTasksOptions):
         [spaceId]
     );
 
+    // Set blockers (and the blockers' inverse "blocks" lists)
+    const setDependencies = useCallback(
+        async (taskId: string, blockedBy: string[]): Promise<boolean> => {
+            if (!spaceId) return false;
+
+            // Tasks just created may not be in the snapshot yet - they have no blockers
+            const previous = tasks.find((t) => t.id === taskId)?.blockedBy || [];
+
+            try {
+                await setTaskDependencies(spaceId, taskId, blockedBy, previous);
+                return true;
+            } catch (err) {
+                console.error("Failed to update dependencies:", err);
+                setError({
+                    code: "UNKNOWN",
+                    message: "Failed to update dependencies. Please try again.",
+                });
+                return false;
+            }
+        },
+        [spaceId, tasks]
+    );
+
+    // Put fields back to earlier values (undo)
+    const restoreFields = useCallback(
+        async (taskId: string, values: Partial<Task>, fields: (keyof Task)[]): Promise<boolean> => {
+            if (!spaceId) return false;
+
+            try {
+                await restoreTaskFields(spaceId, taskId, values, fields);
+                return true;
+            } catch (err) {
+                console.error("Failed to restore task fields:", err);
+                setError({
+                    code: "UNKNOWN",
+                    message: "Failed to undo the change. Please try again.",
+                });
+                return false;
+            }
+        },
+        [spaceId]
+    );
+
+    // Bring back a deleted task (undo or restore from trash)
+    const restoreDeletedTask = useCallback(
+        async (task: Task): Promise<boolean> => {
+            if (!spaceId) return false;
+
+            try {
+                await restoreTask(spaceId, task);
+                return true;
+            } catch (err) {
+                console.error("Failed to restore task:", err);
+                setError({
+                    code: "UNKNOWN",
+                    message: "Failed to restore the task. Please try again.",
+                });
+                return false;
+            }
+        },
+        [spaceId]
+    );
+
+    // Trashed tasks - purges the ones past the retention window first
+    const loadTrash = useCallback(
+        async (retentionDays: number): Promise<Task[]> => {
+            if (!spaceId) return [];
+
+            try {
+                const trashed = await getTrashedTasks(spaceId);
+                const expired = trashed.filter(t => isPastRetention(t.deletedAt ?? 0, retentionDays));
+                await purgeTasks(spaceId, expired.map(t => t.id));
+                return trashed.filter(t => !expired.includes(t));
+            } catch (err) {
+                console.error("Failed to load trash:", err);
+                setError({
+                    code: "UNKNOWN",
+                    message: "Failed to load the trash. Please try again.",
+                });
+                return [];
+            }
+        },
+        [spaceId]
+    );
+
+    // Permanently delete trashed tasks
+    const purgeFromTrash = useCallback(
+        async (taskIds: string[]): Promise<boolean> => {
+            if (!spaceId) return false;
+
+            try {
+                await purgeTasks(spaceId, taskIds);
+                return true;
+            } catch (err) {
+                console.error("Failed to purge tasks:", err);
+                setError({
+                    code: "UNKNOWN",
+                    message: "Failed to delete tasks permanently. Please try again.",
+                });
+                return false;
+            }
+        },
+        [spaceId]
+    );
+
     // Get task by ID
     const getTaskById = useCallback(
         (taskId: string): Task | undefined => {
@@ -237,12 +534,23 @@ export function useTasks({ spaceId, enableMigration = true }: UseTasksOptions):
         error,
         isMigrating,
         migrationStatus,
+        isOnline,
+        pendingChanges: queue.length,
+        syncConflicts,
         addTask,
         editTask,
+        mergeTaskEdits,
+        resolveFieldConflict,
         removeTask,
         addUpdate,
+        setDependencies,
+        restoreFields,
+        restoreDeletedTask,
+        loadTrash,
+        purgeFromTrash,
         triggerMigration,
         getTaskById,
         clearError,
+        dismissSyncConflicts,
     };
 }
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { getOccurrenceDates, IcsEvent, parseICS } from "@/lib/icsUtils";
+
+function calendar(...events: string[][]): string {
+    return ["BEGIN:VCALENDAR", "VERSION:2.0", ...events.flatMap(lines => ["BEGIN:VEVENT", ...lines, "END:VEVENT"]), "END:VCALENDAR"]
+        .join("\r\n");
+}
+
+// 2024-01-01 is a Monday; Berlin is UTC+1 in winter
+
+describe("parseICS", () => {
+    it("reads times in the user's timezone, unfolding and unescaping text", () => {
+        const [standup, lunch, call] = parseICS(calendar(
+            [
+                "UID:standup",
+                "SUMMARY:Team st",
+                " andup",
+                "DTSTART;TZID=Europe/Berlin:20240101T090000",
+                "DTEND;TZID=Europe/Berlin:20240101T093000",
+            ],
+            ["UID:lunch", "SUMMARY:Lunch\\, team", "DESCRIPTION:Line one\\nLine two", "DTSTART;VALUE=DATE:20240105"],
+            ["UID:call", "SUMMARY:Call", "DTSTART:20240102T230000Z", "DURATION:PT1H30M"],
+        ), "Europe/London");
+
+        expect(standup).toMatchObject({ uid: "standup", title: "Team standup", date: "2024-01-01", startTime: "08:00", endTime: "08:30" });
+        expect(lunch).toMatchObject({ title: "Lunch, team", description: "Line one\nLine two", date: "2024-01-05" });
+        expect(lunch.startTime).toBeUndefined();
+        expect(call).toMatchObject({ date: "2024-01-02", startTime: "23:00", endTime: "00:30" });
+    });
+
+    it("skips cancelled events and the properties of nested components", () => {
+        const events = parseICS(calendar(
+            ["UID:gone", "SUMMARY:Gone", "STATUS:CANCELLED", "DTSTART;VALUE=DATE:20240105"],
+            ["UID:kept", "SUMMARY:Kept", "DTSTART;VALUE=DATE:20240105", "BEGIN:VALARM", "DESCRIPTION:Reminder", "END:VALARM"],
+        ));
+
+        expect(events).toHaveLength(1);
+        expect(events[0]).toMatchObject({ uid: "kept", title: "Kept" });
+        expect(events[0].description).toBeUndefined();
+    });
+
+    it("leaves moved and excluded occurrences out of the series", () => {
+        const events = parseICS(calendar(
+            [
+                "UID:standup",
+                "SUMMARY:Standup",
+                "DTSTART:20240101T090000Z",
+                "RRULE:FREQ=WEEKLY;BYDAY=MO,WE;COUNT=4",
+                "EXDATE:20240103T090000Z",
+            ],
+            ["UID:standup", "SUMMARY:Standup (moved)", "RECURRENCE-ID:20240108T090000Z", "DTSTART:20240109T090000Z"],
+        ), "UTC");
+
+        const [series, moved] = events;
+        expect(series.rule).toMatchObject({ frequency: "weekly", count: 4 });
+        expect(series.exceptions).toEqual(["2024-01-03", "2024-01-08"]);
+        expect(moved).toMatchObject({ date: "2024-01-09", rule: undefined });
+        expect(getOccurrenceDates(series, "2024-01-01", "2024-01-31")).toEqual(["2024-01-01", "2024-01-10"]);
+    });
+});
+
+describe("getOccurrenceDates", () => {
+    const event = (rule: string): IcsEvent =>
+        parseICS(calendar(["UID:e", "SUMMARY:E", "DTSTART;VALUE=DATE:20240126", `RRULE:${rule}`]))[0];
+
+    it("returns a single event's date only inside the range", () => {
+        const [single] = parseICS(calendar(["UID:s", "DTSTART;VALUE=DATE:20240105"]));
+        expect(getOccurrenceDates(single, "2024-01-01", "2024-01-05")).toEqual(["2024-01-05"]);
+        expect(getOccurrenceDates(single, "2024-01-06", "2024-01-31")).toEqual([]);
+    });
+
+    it("expands nth-weekday monthly rules", () => {
+        expect(getOccurrenceDates(event("FREQ=MONTHLY;BYDAY=-1FR"), "2024-02-01", "2024-03-31")).toEqual(["2024-02-23", "2024-03-29"]);
+    });
+
+    it("stops at UNTIL and counts COUNT from the first occurrence", () => {
+        expect(getOccurrenceDates(event("FREQ=WEEKLY;INTERVAL=2;UNTIL=20240225"), "2024-01-01", "2024-12-31"))
+            .toEqual(["2024-01-26", "2024-02-09", "2024-02-23"]);
+        expect(getOccurrenceDates(event("FREQ=DAILY;COUNT=3"), "2024-01-27", "2024-12-31")).toEqual(["2024-01-27", "2024-01-28"]);
+    });
+});
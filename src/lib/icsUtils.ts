@@ -0,0 +1,603 @@
+import { CalendarEvent, Task } from "@/types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+// Length of a feed event for a task with a due time
+const DEFAULT_DURATION_MINUTES = 30;
+
+// Days a recurring series is walked through at most, so a bad rule can't loop forever
+const MAX_EXPANSION_DAYS = 3660;
+
+// ICS PRIORITY: 1 is highest, 9 lowest
+const PRIORITY_VALUES: Record<NonNullable<Task["priority"]>, number> = {
+    high: 1,
+    medium: 5,
+    low: 9,
+};
+
+interface IcsWeekday {
+    weekday: number; // 0 = Sunday ... 6 = Saturday
+    nth?: number;    // Monthly only: 1 = first, -1 = last
+}
+
+// The parts of an RRULE that calendars use in practice
+interface IcsRule {
+    frequency: "daily" | "weekly" | "monthly" | "yearly";
+    interval: number;
+    byDay?: IcsWeekday[];
+    byMonthDay?: number[];
+    until?: string; // YYYY-MM-DD, inclusive
+    count?: number;
+}
+
+// A VEVENT from an ICS file - recurring events are expanded with getUpcomingEvents
+export interface IcsEvent {
+    uid: string;
+    title: string;
+    date: string;       // YYYY-MM-DD of the first occurrence
+    startTime?: string; // HH:MM, missing for all-day events
+    endTime?: string;
+    location?: string;
+    description?: string;
+    rule?: IcsRule;
+    exceptions: string[]; // Dates left out of the series (EXDATE, moved or cancelled occurrences)
+}
+
+interface IcsProperty {
+    name: string;
+    params: Record<string, string>;
+    value: string;
+}
+
+interface IcsDateValue {
+    date: string;
+    time?: string;
+}
+
+// A VEVENT while its properties are read
+interface EventDraft extends Partial<IcsEvent> {
+    exceptions: string[];
+    durationMinutes?: number;
+    recurrenceDate?: string; // RECURRENCE-ID - replaces one occurrence of another event
+    cancelled?: boolean;
+}
+
+// Dates are handled as UTC calendar days so the local timezone never shifts them
+function parseDay(date: string): Date {
+    const [year, month, day] = date.slice(0, 10).split("-").map(Number);
+    return new Date(Date.UTC(year, month - 1, day));
+}
+
+function formatDay(date: Date): string {
+    return date.toISOString().split("T")[0];
+}
+
+function addDays(date: string, days: number): string {
+    return formatDay(new Date(parseDay(date).getTime() + days * DAY_MS));
+}
+
+function daysInMonth(year: number, month: number): number {
+    return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+// Index of the (Monday-based, as in RFC 5545) week a date falls in, for "every N weeks"
+function weekIndex(date: Date): number {
+    return Math.floor((date.getTime() / DAY_MS + 3) / 7);
+}
+
+function pad(value: number): string {
+    return String(value).padStart(2, "0");
+}
+
+/**
+ * Checks that a timezone name is known to this runtime ("Europe/Berlin")
+ * @param timeZone - IANA timezone name
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat("en-US", { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Wall-clock date and time of an instant in a timezone
+ * @param instant - Unix timestamp in milliseconds
+ * @param timeZone - IANA timezone name
+ * @returns Date (YYYY-MM-DD) and time (HH:MM)
+ */
+export function toZonedDateTime(instant: number, timeZone: string): { date: string; time: string } {
+    const parts: Record<string, string> = {};
+    const formatter = new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+        hourCycle: "h23",
+    });
+    for (const part of formatter.formatToParts(new Date(instant))) {
+        parts[part.type] = part.value;
+    }
+    return { date: `${parts.year}-${parts.month}-${parts.day}`, time: `${parts.hour}:${parts.minute}` };
+}
+
+/**
+ * Today's date in a timezone - the server's clock is in UTC
+ * @param timeZone - IANA timezone name (falls back to UTC if unknown)
+ * @param now - Current time
+ * @returns Date as YYYY-MM-DD
+ */
+export function getDateInTimeZone(timeZone: string | undefined, now: number = Date.now()): string {
+    return toZonedDateTime(now, timeZone && isValidTimeZone(timeZone) ? timeZone : "UTC").date;
+}
+
+// Instant of a wall-clock time in a timezone (the offset is looked up at that instant)
+function fromZonedDateTime(date: string, time: string, timeZone: string): number {
+    const guess = Date.parse(`${date}T${time}:00Z`);
+    const zoned = toZonedDateTime(guess, timeZone);
+    return guess - (Date.parse(`${zoned.date}T${zoned.time}:00Z`) - guess);
+}
+
+// Splits "DTSTART;TZID=Europe/Berlin:20250101T090000" - colons inside quoted parameters don't count
+function parseProperty(line: string): IcsProperty | null {
+    let inQuotes = false;
+    for (let i = 0; i < line.length; i++) {
+        if (line[i] === '"') {
+            inQuotes = !inQuotes;
+        } else if (line[i] === ":" && !inQuotes) {
+            const [name, ...rawParams] = line.slice(0, i).split(";");
+            const params: Record<string, string> = {};
+            for (const param of rawParams) {
+                const eq = param.indexOf("=");
+                if (eq > 0) {
+                    params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, "");
+                }
+            }
+            return { name: name.toUpperCase(), params, value: line.slice(i + 1) };
+        }
+    }
+    return null;
+}
+
+function unescapeText(value: string): string {
+    return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === "n" ? "\n" : char)).trim();
+}
+
+function escapeText(value: string): string {
+    return value
+        .replace(/\\/g, "\\\\")
+        .replace(/;/g, "\\;")
+        .replace(/,/g, "\\,")
+        .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Reads a DATE or DATE-TIME value in the user's timezone.
+ * UTC values and values with a TZID are converted; floating times are kept as they are.
+ */
+function parseDateValue(value: string, params: Record<string, string>, timeZone?: string): IcsDateValue | null {
+    const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(value.trim());
+    if (!match) return null;
+
+    const [, year, month, day, hour, minute, , utc] = match;
+    const date = `${year}-${month}-${day}`;
+    if (!hour || params.VALUE === "DATE") return { date };
+
+    const time = `${hour}:${minute}`;
+    const target = timeZone && isValidTimeZone(timeZone) ? timeZone : "UTC";
+    if (utc) {
+        return toZonedDateTime(Date.parse(`${date}T${time}:00Z`), target);
+    }
+    // TZIDs that aren't IANA names (e.g. "Pacific Standard Time") are read as floating times
+    if (params.TZID && params.TZID !== target && isValidTimeZone(params.TZID)) {
+        return toZonedDateTime(fromZonedDateTime(date, time, params.TZID), target);
+    }
+    return { date, time };
+}
+
+// "PT1H30M" -> 90 (only the time part - longer events don't get an end time)
+function parseDurationMinutes(value: string): number | undefined {
+    const match = /^P(?:T(?:(\d+)H)?(?:(\d+)M)?(?:\d+S)?)$/.exec(value.trim());
+    if (!match || (!match[1] && !match[2])) return undefined;
+    return Number(match[1] || 0) * 60 + Number(match[2] || 0);
+}
+
+function addMinutes(time: string, minutes: number): string {
+    const [hours, mins] = time.split(":").map(Number);
+    const total = (hours * 60 + mins + minutes) % (24 * 60);
+    return `${pad(Math.floor(total / 60))}:${pad(total % 60)}`;
+}
+
+function parseRule(value: string, timeZone?: string): IcsRule | undefined {
+    const parts: Record<string, string> = {};
+    for (const part of value.split(";")) {
+        const [key, partValue = ""] = part.split("=");
+        parts[key.toUpperCase()] = partValue;
+    }
+
+    const frequency = parts.FREQ?.toLowerCase();
+    if (frequency !== "daily" && frequency !== "weekly" && frequency !== "monthly" && frequency !== "yearly") {
+        return undefined;
+    }
+
+    const rule: IcsRule = { frequency, interval: Math.max(1, parseInt(parts.INTERVAL, 10) || 1) };
+    if (parts.COUNT) {
+        rule.count = Math.max(1, parseInt(parts.COUNT, 10) || 1);
+    }
+    if (parts.UNTIL) {
+        rule.until = parseDateValue(parts.UNTIL, {}, timeZone)?.date;
+    }
+    if (parts.BYDAY) {
+        const byDay = parts.BYDAY.split(",").flatMap((entry): IcsWeekday[] => {
+            const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/i.exec(entry.trim());
+            if (!match) return [];
+            const weekday = WEEKDAYS.indexOf(match[2].toUpperCase());
+            return [match[1] ? { weekday, nth: Number(match[1]) } : { weekday }];
+        });
+        if (byDay.length > 0) rule.byDay = byDay;
+    }
+    if (parts.BYMONTHDAY) {
+        const byMonthDay = parts.BYMONTHDAY.split(",").map(Number).filter(day => day >= 1 && day <= 31);
+        if (byMonthDay.length > 0) rule.byMonthDay = byMonthDay;
+    }
+    return rule;
+}
+
+function matchesRule(rule: IcsRule, start: string, day: string): boolean {
+    const startDate = parseDay(start);
+    const date = parseDay(day);
+    const weekday = date.getUTCDay();
+    const dayOfMonth = date.getUTCDate();
+
+    switch (rule.frequency) {
+        case "daily": {
+            const days = Math.round((date.getTime() - startDate.getTime()) / DAY_MS);
+            return days % rule.interval === 0 && (!rule.byDay || rule.byDay.some(d => d.weekday === weekday));
+        }
+        case "weekly": {
+            const weekdays = rule.byDay?.map(d => d.weekday) ?? [startDate.getUTCDay()];
+            return (weekIndex(date) - weekIndex(startDate)) % rule.interval === 0 && weekdays.includes(weekday);
+        }
+        case "monthly": {
+            const months = (date.getUTCFullYear() - startDate.getUTCFullYear()) * 12 + date.getUTCMonth() - startDate.getUTCMonth();
+            if (months % rule.interval !== 0) return false;
+            if (rule.byDay) {
+                const monthLength = daysInMonth(date.getUTCFullYear(), date.getUTCMonth());
+                return rule.byDay.some(d =>
+                    d.weekday === weekday && (
+                        d.nth === undefined ||
+                        (d.nth > 0 && Math.ceil(dayOfMonth / 7) === d.nth) ||
+                        (d.nth < 0 && Math.ceil((monthLength - dayOfMonth + 1) / 7) === -d.nth)
+                    )
+                );
+            }
+            return (rule.byMonthDay ?? [startDate.getUTCDate()]).includes(dayOfMonth);
+        }
+        case "yearly": {
+            const years = date.getUTCFullYear() - startDate.getUTCFullYear();
+            return years % rule.interval === 0 &&
+                date.getUTCMonth() === startDate.getUTCMonth() &&
+                dayOfMonth === startDate.getUTCDate();
+        }
+    }
+}
+
+/**
+ * Reads the events of an ICS calendar (RFC 5545). Cancelled events and
+ * components other than VEVENT are skipped; occurrences that were moved
+ * (RECURRENCE-ID) become events of their own.
+ * @param text - Contents of an .ics file
+ * @param timeZone - The user's IANA timezone - times are converted to it
+ * @returns Events, recurring ones not yet expanded
+ */
+export function parseICS(text: string, timeZone?: string): IcsEvent[] {
+    // Long lines are folded onto continuation lines starting with a space or tab
+    const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+    const events: IcsEvent[] = [];
+    const replaced: { uid: string; date: string }[] = [];
+
+    let draft: EventDraft | null = null;
+    let nested = 0; // Components inside the VEVENT, e.g. VALARM
+
+    for (const line of lines) {
+        const property = parseProperty(line);
+        if (!property) continue;
+
+        if (property.name === "BEGIN") {
+            if (draft) {
+                nested++;
+            } else if (property.value.trim().toUpperCase() === "VEVENT") {
+                draft = { exceptions: [] };
+                nested = 0;
+            }
+            continue;
+        }
+
+        if (!draft) continue;
+
+        if (property.name === "END") {
+            if (nested > 0) {
+                nested--;
+                continue;
+            }
+
+            const uid = draft.uid || `event-${events.length}`;
+            if (draft.recurrenceDate) {
+                replaced.push({ uid, date: draft.recurrenceDate });
+            }
+            if (draft.date && !draft.cancelled) {
+                const endTime = draft.endTime ?? (draft.startTime && draft.durationMinutes
+                    ? addMinutes(draft.startTime, draft.durationMinutes)
+                    : undefined);
+                events.push({
+                    uid,
+                    title: draft.title || "Untitled event",
+                    date: draft.date,
+                    startTime: draft.startTime,
+                    endTime: draft.startTime ? endTime : undefined,
+                    location: draft.location,
+                    description: draft.description,
+                    rule: draft.recurrenceDate ? undefined : draft.rule,
+                    exceptions: draft.exceptions,
+                });
+            }
+            draft = null;
+            continue;
+        }
+
+        if (nested > 0) continue;
+
+        switch (property.name) {
+            case "UID":
+                draft.uid = property.value.trim();
+                break;
+            case "SUMMARY":
+                draft.title = unescapeText(property.value);
+                break;
+            case "DESCRIPTION":
+                draft.description = unescapeText(property.value) || undefined;
+                break;
+            case "LOCATION":
+                draft.location = unescapeText(property.value) || undefined;
+                break;
+            case "STATUS":
+                draft.cancelled = property.value.trim().toUpperCase() === "CANCELLED";
+                break;
+            case "DTSTART": {
+                const start = parseDateValue(property.value, property.params, timeZone);
+                if (start) {
+                    draft.date = start.date;
+                    draft.startTime = start.time;
+                }
+                break;
+            }
+            case "DTEND":
+                draft.endTime = parseDateValue(property.value, property.params, timeZone)?.time;
+                break;
+            case "DURATION":
+                draft.durationMinutes = parseDurationMinutes(property.value);
+                break;
+            case "RRULE":
+                draft.rule = parseRule(property.value, timeZone);
+                break;
+            case "EXDATE":
+                for (const value of property.value.split(",")) {
+                    const excluded = parseDateValue(value, property.params, timeZone);
+                    if (excluded) draft.exceptions.push(excluded.date);
+                }
+                break;
+            case "RECURRENCE-ID":
+                draft.recurrenceDate = parseDateValue(property.value, property.params, timeZone)?.date;
+                break;
+        }
+    }
+
+    // A moved or cancelled occurrence replaces that date of the series
+    for (const { uid, date } of replaced) {
+        events.find(e => e.uid === uid && e.rule)?.exceptions.push(date);
+    }
+
+    return events;
+}
+
+/**
+ * Dates an event occurs on within a range, including recurring occurrences
+ * @param event - Event from parseICS
+ * @param from - First date (YYYY-MM-DD), inclusive
+ * @param to - Last date (YYYY-MM-DD), inclusive
+ */
+export function getOccurrenceDates(event: IcsEvent, from: string, to: string): string[] {
+    const { rule } = event;
+    if (!rule) {
+        return event.date >= from && event.date <= to ? [event.date] : [];
+    }
+
+    const end = rule.until && rule.until < to ? rule.until : to;
+    // Occurrences before "from" only matter when COUNT limits the series
+    let day = rule.count || event.date > from ? event.date : from;
+    const dates: string[] = [];
+    let seen = 0;
+
+    for (let i = 0; day <= end && i < MAX_EXPANSION_DAYS; i++) {
+        // DTSTART is always the first occurrence, even if it doesn't match the rule
+        if (day === event.date || matchesRule(rule, event.date, day)) {
+            seen++;
+            if (rule.count && seen > rule.count) break;
+            if (day >= from && !event.exceptions.includes(day)) dates.push(day);
+        }
+        day = addDays(day, 1);
+    }
+    return dates;
+}
+
+/**
+ * Occurrences of events over the next days, earliest first (all-day events lead each day)
+ * @param events - Events from parseICS
+ * @param from - First date (YYYY-MM-DD), usually today
+ * @param days - Number of days, including "from"
+ */
+export function getUpcomingEvents(events: IcsEvent[], from: string, days: number): CalendarEvent[] {
+    const to = addDays(from, Math.max(days, 1) - 1);
+    return events
+        .flatMap(event => getOccurrenceDates(event, from, to).map((date): CalendarEvent => ({
+            uid: event.uid,
+            title: event.title,
+            date,
+            startTime: event.startTime,
+            endTime: event.endTime,
+            location: event.location,
+            description: event.description,
+        })))
+        .sort((a, b) =>
+            a.date.localeCompare(b.date) ||
+            (a.startTime || "").localeCompare(b.startTime || "") ||
+            a.title.localeCompare(b.title)
+        );
+}
+
+/**
+ * Reads a time of day as written on tasks ("14:00", "2:00 PM", "9am")
+ * @param value - Time as entered
+ * @returns 24-hour HH:MM, or null if it isn't a time
+ */
+export function parseTimeOfDay(value: string): string | null {
+    const match = /^(\d{1,2})(?::(\d{2}))?\s*([ap])?\.?\s*(?:m\.?)?$/i.exec(value.trim());
+    if (!match || (!match[2] && !match[3])) return null;
+
+    let hours = Number(match[1]);
+    const minutes = Number(match[2] || 0);
+    if (minutes > 59) return null;
+    if (match[3]) {
+        if (hours < 1 || hours > 12) return null;
+        hours = (hours % 12) + (match[3].toLowerCase() === "p" ? 12 : 0);
+    } else if (hours > 23) {
+        return null;
+    }
+    return `${pad(hours)}:${pad(minutes)}`;
+}
+
+/**
+ * Task fields for a calendar event the user imports ("meeting becomes a task")
+ * @param event - Occurrence from getUpcomingEvents
+ */
+export function getTaskFromEvent(event: CalendarEvent): Pick<Task, "title" | "dueDate" | "dueTime" | "description"> {
+    const details = [
+        event.location ? `Location: ${event.location}` : "",
+        event.description || "",
+    ].filter(Boolean).join("\n\n");
+
+    return {
+        title: event.title,
+        dueDate: event.date,
+        ...(event.startTime ? { dueTime: event.startTime } : {}),
+        ...(details ? { description: details } : {}),
+    };
+}
+
+// "2025-01-31" + "09:30" -> "20250131T093000"
+function formatIcsDate(date: string, time?: string): string {
+    const day = date.replace(/-/g, "");
+    return time ? `${day}T${time.replace(":", "")}00` : day;
+}
+
+function formatUtcStamp(timestamp: number): string {
+    return new Date(timestamp).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// Lines longer than 75 octets continue on the next line after a space
+function foldLine(line: string): string {
+    const encoder = new TextEncoder();
+    const chunks: string[] = [];
+    let chunk = "";
+    let octets = 0;
+    for (const char of line) {
+        const size = encoder.encode(char).length;
+        if (octets + size > (chunks.length === 0 ? 75 : 74)) {
+            chunks.push(chunk);
+            chunk = "";
+            octets = 0;
+        }
+        chunk += char;
+        octets += size;
+    }
+    chunks.push(chunk);
+    return chunks.join("\r\n ");
+}
+
+export interface TaskFeedOptions {
+    name: string;                        // Calendar name shown by the calendar app
+    host: string;                        // Makes event UIDs globally unique
+    origin?: string;                     // Links events back to their space
+    spaceNames?: Record<string, string>; // Space names by ID, shown as categories
+    now?: number;
+}
+
+/**
+ * Builds an ICS calendar of tasks with a due date. Tasks with a due time are
+ * short events at that (floating) time; the rest are all-day events.
+ * @param tasks - Tasks to include - tasks without a due date are skipped
+ * @param options - Calendar name and how events point back to the app
+ * @returns Contents of an .ics file
+ */
+export function buildICS(tasks: Task[], options: TaskFeedOptions): string {
+    const now = options.now ?? Date.now();
+    const lines = [
+        "BEGIN:VCALENDAR",
+        "VERSION:2.0",
+        "PRODID:-//Smera//Tasks//EN",
+        "CALSCALE:GREGORIAN",
+        "METHOD:PUBLISH",
+        `X-WR-CALNAME:${escapeText(options.name)}`,
+        "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+        "X-PUBLISHED-TTL:PT1H",
+    ];
+
+    for (const task of tasks) {
+        if (!task.dueDate) continue;
+
+        const date = task.dueDate.slice(0, 10);
+        const time = task.dueTime ? parseTimeOfDay(task.dueTime) : null;
+        lines.push(
+            "BEGIN:VEVENT",
+            `UID:${task.id}@${options.host}`,
+            `DTSTAMP:${formatUtcStamp(task.updatedAt || now)}`,
+            `SUMMARY:${escapeText(task.title)}`
+        );
+
+        if (time) {
+            const endDate = addMinutes(time, DEFAULT_DURATION_MINUTES) < time ? addDays(date, 1) : date;
+            lines.push(
+                `DTSTART:${formatIcsDate(date, time)}`,
+                `DTEND:${formatIcsDate(endDate, addMinutes(time, DEFAULT_DURATION_MINUTES))}`
+            );
+        } else {
+            lines.push(
+                `DTSTART;VALUE=DATE:${formatIcsDate(date)}`,
+                `DTEND;VALUE=DATE:${formatIcsDate(addDays(date, 1))}`
+            );
+        }
+
+        if (task.description) {
+            lines.push(`DESCRIPTION:${escapeText(task.description)}`);
+        }
+        const spaceName = options.spaceNames?.[task.spaceId];
+        if (spaceName) {
+            lines.push(`CATEGORIES:${escapeText(spaceName)}`);
+        }
+        if (task.priority) {
+            lines.push(`PRIORITY:${PRIORITY_VALUES[task.priority]}`);
+        }
+        if (options.origin) {
+            lines.push(`URL:${options.origin}/space/${task.spaceId}`);
+        }
+        lines.push("END:VEVENT");
+    }
+
+    lines.push("END:VCALENDAR");
+    return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,179 @@
+/**
+ * Local LLM Provider
+ *
+ * Deterministic stand-in for Gemini so agents can run offline and in CI.
+ * Responses come from fixtures (registered in code or loaded from the JSON
+ * file named by LLM_FIXTURES_FILE), falling back to a fixed per-agent default.
+ *
+ * Fixture file format:
+ * {
+ *   "classifier": [{ "match": "deploy", "response": { "intent": "clarify", ... } }],
+ *   "transcription": [{ "match": "*", "response": "Finished the auth fix" }]
+ * }
+ *
+ * "match" is a case-insensitive substring of the user input ("*" matches anything).
+ * Object responses are serialized to JSON, string responses are returned as-is.
+ */
+
+import { readFileSync } from "fs";
+import type { AgentName, LLMModel, LLMPart, LLMRequest, LLMResult } from "@/lib/gemini";
+
+export interface LocalFixture {
+    match: string;
+    response: string | Record<string, unknown>;
+}
+
+type FixtureSet = Partial<Record<AgentName, LocalFixture[]>>;
+
+const registeredFixtures: FixtureSet = {};
+let fileFixtures: FixtureSet | null = null;
+
+/**
+ * Register a fixture in code (takes precedence over the fixtures file)
+ */
+export function registerLocalFixture(agent: AgentName, fixture: LocalFixture): void {
+    registeredFixtures[agent] = [...(registeredFixtures[agent] || []), fixture];
+}
+
+export function clearLocalFixtures(): void {
+    for (const key of Object.keys(registeredFixtures) as AgentName[]) {
+        delete registeredFixtures[key];
+    }
+    fileFixtures = null;
+}
+
+function loadFileFixtures(): FixtureSet {
+    if (fileFixtures) return fileFixtures;
+
+    const path = process.env.LLM_FIXTURES_FILE;
+    if (!path) {
+        fileFixtures = {};
+        return fileFixtures;
+    }
+
+    try {
+        fileFixtures = JSON.parse(readFileSync(path, "utf-8")) as FixtureSet;
+    } catch (error) {
+        console.error("[Local LLM] Failed to load fixtures file:", path, error);
+        fileFixtures = {};
+    }
+    return fileFixtures;
+}
+
+// ============================================
+// Prompt Helpers
+// ============================================
+
+function requestText(request: LLMRequest): string {
+    const parts: LLMPart[] = typeof request === "string" ? [request] : request;
+    return parts
+        .map(part => {
+            if (typeof part === "string") return part;
+            if ("text" in part) return part.text;
+            return "";
+        })
+        .join("\n");
+}
+
+/**
+ * Pull the quoted user input out of an agent prompt.
+ * Agents use `User Input: "..."`, `## USER INPUT\n"..."` or `USER'S VOICE INPUT: "..."`.
+ */
+function extractUserInput(prompt: string): string | null {
+    const matches = [...prompt.matchAll(/INPUT[^"\n]*\n?\s*"([^"]*)"/gi)];
+    return matches.length > 0 ? matches[matches.length - 1][1] : null;
+}
+
+function toTitle(input: string): string {
+    const trimmed = input.trim();
+    return trimmed.charAt(0).toUpperCase() + trimmed.slice(1, 100);
+}
+
+// ============================================
+// Default Responses
+// ============================================
+
+function defaultResponse(agent: AgentName | undefined, input: string): string | Record<string, unknown> {
+    switch (agent) {
+        case "classifier":
+            return {
+                intent: "create",
+                confidence: 50,
+                reasoning: "Local provider default response",
+                taskDetails: { title: toTitle(input), priority: "medium", dueDate: null },
+                vaguenessScore: 20,
+                vagueReason: "Local provider does not assess vagueness",
+                followUpQuestions: [],
+            };
+        case "creator":
+            return {
+                newTask: { title: toTitle(input), dueDate: null, priority: "medium", description: "" },
+            };
+        case "updater":
+            return {
+                taskId: null,
+                updates: {},
+                timeline: { timestamp: 0, type: "note", content: input },
+            };
+        case "followUp":
+            return { questions: [], taskCompleteness: 100, reasoning: "Local provider default response" };
+        case "query":
+            return { answer: "Local provider default response", taskIds: [] };
+        case "voiceLog":
+            return {
+                actions: input
+                    ? [{ type: "CREATE", task: { title: toTitle(input), dueDate: null, priority: "medium" } }]
+                    : [],
+            };
+        case "transcription":
+            return "[NO_SPEECH]";
+        case "dailySummary":
+            return { summary: "Local provider default response", items: [] };
+        case "description":
+        case "enhanceDescription":
+        default:
+            return input || "Local provider response.";
+    }
+}
+
+function findFixture(agent: AgentName | undefined, input: string): LocalFixture | undefined {
+    if (!agent) return undefined;
+
+    const candidates = [
+        ...(registeredFixtures[agent] || []),
+        ...(loadFileFixtures()[agent] || []),
+    ];
+    const lower = input.toLowerCase();
+
+    return candidates.find(f => f.match === "*" || lower.includes(f.match.toLowerCase()));
+}
+
+// ============================================
+// Provider Factory
+// ============================================
+
+export function createLocalModel(modelName: string, agent?: AgentName): LLMModel {
+    return {
+        provider: "local",
+        modelName,
+        async generateContent(request: LLMRequest): Promise<LLMResult> {
+            const prompt = requestText(request);
+            const input = extractUserInput(prompt) ?? "";
+
+            const fixture = findFixture(agent, input || prompt);
+            const response = fixture ? fixture.response : defaultResponse(agent, input);
+            const text = typeof response === "string" ? response : JSON.stringify(response);
+
+            return {
+                response: {
+                    text: () => text,
+                    usageMetadata: {
+                        promptTokenCount: Math.ceil(prompt.length / 4),
+                        candidatesTokenCount: Math.ceil(text.length / 4),
+                        totalTokenCount: Math.ceil((prompt.length + text.length) / 4),
+                    },
+                },
+            };
+        },
+    };
+}
@@ -0,0 +1,78 @@
+import { Space, SpaceMember, SpaceRole } from "@/types";
+
+/**
+ * Normalizes an email for invitations and lookups
+ * @param email - Raw email from user input or an auth token
+ * @returns Trimmed, lowercase email
+ */
+export function normalizeEmail(email: string): string {
+    return email.trim().toLowerCase();
+}
+
+/**
+ * Everyone with access to a space, owner first
+ * @param space - Space (spaces created before sharing have no members map)
+ * @returns Members sorted owner, editors, viewers, then by name
+ */
+export function getSpaceMembers(space: Pick<Space, "ownerId" | "members">): SpaceMember[] {
+    const members = Object.values(space.members || {});
+    if (!members.some(m => m.userId === space.ownerId)) {
+        members.push({ userId: space.ownerId, email: "", role: "owner", joinedAt: 0 });
+    }
+
+    const order: Record<SpaceRole, number> = { owner: 0, editor: 1, viewer: 2 };
+    return members.sort((a, b) => order[a.role] - order[b.role] || getMemberName(a).localeCompare(getMemberName(b)));
+}
+
+/**
+ * A user's role in a space
+ * @param space - Space to check
+ * @param userId - User to look up
+ * @returns Role, or null if the user has no access
+ */
+export function getSpaceRole(space: Pick<Space, "ownerId" | "members">, userId: string): SpaceRole | null {
+    if (space.ownerId === userId) return "owner";
+    return space.members?.[userId]?.role ?? null;
+}
+
+/**
+ * Whether a role may create, change and delete tasks
+ * @param role - Role from getSpaceRole
+ * @param space - The space, if loaded - archived spaces are read-only for every role
+ */
+export function canEditTasks(role: SpaceRole | null, space?: Pick<Space, "archivedAt">): boolean {
+    return (role === "owner" || role === "editor") && !space?.archivedAt;
+}
+
+/**
+ * Display name for a member
+ * @param member - Space member
+ * @returns Display name, else the part of the email before "@"
+ */
+export function getMemberName(member: Pick<SpaceMember, "displayName" | "email" | "role">): string {
+    if (member.displayName) return member.displayName;
+    if (member.email) return member.email.split("@")[0];
+    return member.role === "owner" ? "Owner" : "Member";
+}
+
+/**
+ * Resolves an assignee reference from the model or UI to a member's userId
+ * @param reference - userId, name, first name or email ("Kuhuk", "kuhuk@example.com")
+ * @param members - Members of the space
+ * @returns Matching userId, or undefined if no single member matches
+ */
+export function resolveAssignee(reference: string | null | undefined, members: SpaceMember[]): string | undefined {
+    if (!reference) return undefined;
+    if (members.some(m => m.userId === reference)) return reference;
+
+    const needle = reference.trim().toLowerCase();
+    const matches = members.filter(m => {
+        const name = getMemberName(m).toLowerCase();
+        return (
+            m.email.toLowerCase() === needle ||
+            name === needle ||
+            name.split(/\s+/)[0] === needle
+        );
+    });
+    return matches.length === 1 ? matches[0].userId : undefined;
+}
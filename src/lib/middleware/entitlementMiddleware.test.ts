@@ -0,0 +1,58 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { RateLimitResult } from "@/lib/rateLimit";
+import { UsageReservation } from "@/types";
+
+const checkRateLimit = vi.fn<() => Promise<RateLimitResult>>();
+const reserveUsageServer = vi.fn();
+
+vi.mock("@/lib/rateLimit", () => ({ checkRateLimit }));
+vi.mock("@/lib/entitlementsServer", () => ({ reserveUsageServer }));
+vi.mock("@/lib/auth/verifyToken", () => ({ verifyUserOwnership: vi.fn(), AuthError: class extends Error {} }));
+
+const { reserveUsage } = await import("@/lib/middleware/entitlementMiddleware");
+
+const reservation = { id: "user1_key", units: 1 } as UsageReservation;
+
+function request(): Request {
+    return new Request("http://localhost/api/daily-summary", { headers: { "Idempotency-Key": "key-12345678" } });
+}
+
+describe("reserveUsage", () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        reserveUsageServer.mockResolvedValue({ allowed: true, reservation });
+    });
+
+    it("reserves under the request's idempotency key", async () => {
+        checkRateLimit.mockResolvedValue({ allowed: true, remaining: 5 });
+
+        expect(await reserveUsage(request(), "user1", "create_ai_request")).toEqual({ reservation });
+        expect(checkRateLimit).toHaveBeenCalledWith("user1", "create_ai_request");
+        expect(reserveUsageServer).toHaveBeenCalledWith("user1", "create_ai_request", "key-12345678");
+    });
+
+    it("answers 429 with Retry-After when rate limited, without reserving", async () => {
+        checkRateLimit.mockResolvedValue({ allowed: false, remaining: 0, retryAfterMs: 2_500 });
+
+        const { reservation: reserved, error } = await reserveUsage(request(), "user1", "create_ai_request");
+        expect(reserved).toBeUndefined();
+        expect(error!.status).toBe(429);
+        expect(error!.headers.get("Retry-After")).toBe("3");
+        expect(await error!.json()).toMatchObject({ action: "rate_limited", retryAfter: 3 });
+        expect(reserveUsageServer).not.toHaveBeenCalled();
+    });
+
+    it("lets the request through when the limiter fails", async () => {
+        checkRateLimit.mockRejectedValue(new Error("store down"));
+        vi.spyOn(console, "error").mockImplementation(() => {});
+
+        expect(await reserveUsage(request(), "user1", "create_ai_request")).toEqual({ reservation });
+    });
+
+    it("returns no reservation when the quota is used up", async () => {
+        checkRateLimit.mockResolvedValue({ allowed: true, remaining: 5 });
+        reserveUsageServer.mockResolvedValue({ allowed: false, reason: "No AI requests left" });
+
+        expect(await reserveUsage(request(), "user1", "create_ai_request")).toEqual({ reservation: undefined });
+    });
+});
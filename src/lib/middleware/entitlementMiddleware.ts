@@ -3,20 +3,110 @@
  * 
  * Performs server-side entitlement checks with proper security:
  * - Verifies authentication
+ * - Rate limits AI requests per user (sliding window)
  * - Checks quota limits
- * - Atomically increments usage
- * - Prevents race conditions
+ * - Atomically reserves usage, committed or refunded after the AI call
+ * - Prevents race conditions and double charges on client retries; a retry of
+ *   a request that succeeded gets its response again, a retry of one that is
+ *   still running is told to wait (409 with Retry-After) - neither runs again
  */
 
 import { NextResponse } from "next/server";
-import { canPerformServer, incrementUsageServer } from "@/lib/entitlementsServer";
+import {
+    canPerformServer,
+    commitUsageServer,
+    EntitlementResult,
+    QuotaAction,
+    refundUsageServer,
+    ReservationResult,
+    reserveUsageServer,
+    UsageDetails,
+} from "@/lib/entitlementsServer";
+import { annotateAiTrace, getRequestTokenCount, recordCommittedReservation } from "@/lib/aiTrace";
 import { verifyUserOwnership, AuthError } from "@/lib/auth/verifyToken";
-import { EntitlementAction } from "@/types";
+import { checkRateLimit, RateLimitedAction, RateLimitResult } from "@/lib/rateLimit";
+import { EntitlementAction, UsageReservation } from "@/types";
 
 export interface EntitlementCheckResult {
     allowed: boolean;
     userId: string;
-    error?: NextResponse;
+    error?: NextResponse;           // Return it as is - for a completed duplicate it is the earlier response
+    reservation?: UsageReservation; // Quota actions only - commit or refund it
+}
+
+export interface UsageReservationResult {
+    reservation?: UsageReservation; // Missing when the quota is exhausted (or the request is a duplicate)
+    error?: NextResponse;           // Rate limited - return it as the response
+}
+
+function isQuotaAction(action: EntitlementAction): action is QuotaAction {
+    return action === "create_voice_log" || action === "create_ai_request";
+}
+
+function quotaExceededResponse(entitlementResult: EntitlementResult): NextResponse {
+    return NextResponse.json(
+        {
+            success: false,
+            error: entitlementResult.reason || 'Quota exceeded',
+            action: 'quota_exceeded',
+            currentUsage: entitlementResult.currentUsage,
+            limit: entitlementResult.limit,
+        },
+        { status: 403 }
+    );
+}
+
+// Seconds a retry of a request that is still running is asked to wait
+const DUPLICATE_RETRY_AFTER_SECONDS = 3;
+
+// A retry of a request that is running or already succeeded - it isn't run (or charged) again
+function duplicateRequestResponse(entitlementResult: ReservationResult): NextResponse {
+    if (entitlementResult.duplicate === 'completed' && entitlementResult.responseBody !== undefined) {
+        return new NextResponse(entitlementResult.responseBody, {
+            status: 200,
+            headers: { 'Content-Type': 'application/json', 'Idempotent-Replayed': 'true' },
+        });
+    }
+
+    const inProgress = entitlementResult.duplicate === 'in_progress';
+    return NextResponse.json(
+        {
+            success: false,
+            error: entitlementResult.reason || 'Duplicate request',
+            action: 'duplicate_request',
+        },
+        {
+            status: 409,
+            headers: inProgress ? { 'Retry-After': String(DUPLICATE_RETRY_AFTER_SECONDS) } : undefined,
+        }
+    );
+}
+
+function rateLimitedResponse(rateLimit: RateLimitResult): NextResponse {
+    const retryAfter = Math.ceil((rateLimit.retryAfterMs || 1000) / 1000);
+    return NextResponse.json(
+        {
+            success: false,
+            error: `Too many requests. Please wait ${retryAfter} ${retryAfter === 1 ? 'second' : 'seconds'} and try again.`,
+            action: 'rate_limited',
+            retryAfter,
+        },
+        { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+    );
+}
+
+/**
+ * Count the request against the user's rate limit. The limiter failing
+ * (e.g. Firestore unavailable) lets the request through - quotas still apply.
+ */
+async function isRateLimited(userId: string, action: RateLimitedAction): Promise<RateLimitResult | null> {
+    try {
+        const rateLimit = await checkRateLimit(userId, action);
+        return rateLimit.allowed ? null : rateLimit;
+    } catch (error) {
+        console.error('[Rate Limit] Failed to check rate limit:', error);
+        return null;
+    }
 }
 
 /**
@@ -24,39 +114,52 @@ export interface EntitlementCheckResult {
  * 
  * This performs the actual security check on the server.
  * Never trust client-side checks for quota enforcement.
+ *
+ * For quota actions the usage is reserved here; the route must pass the
+ * returned reservation to commitUsage or refundUsage once the AI call is done.
  */
 export async function checkEntitlement(
     request: Request,
     claimedUserId: string,
-    action: EntitlementAction
+    action: EntitlementAction,
+    units: number = 1 // Quota actions: units to reserve, more for expensive calls
 ): Promise<EntitlementCheckResult> {
     try {
         // 1. Verify authentication and user ownership
         const user = await verifyUserOwnership(request, claimedUserId);
+        annotateAiTrace({ userId: user.uid });
+        
+        // 2. Rate limit AI routes, before anything is reserved
+        if (isQuotaAction(action)) {
+            const rateLimit = await isRateLimited(user.uid, action);
+            if (rateLimit) {
+                return {
+                    allowed: false,
+                    userId: user.uid,
+                    error: rateLimitedResponse(rateLimit),
+                };
+            }
+        }
         
-        // 2. Check entitlement (server-side, can't be bypassed)
-        const entitlementResult = await canPerformServer(user.uid, action);
+        // 3. Check entitlement (server-side, can't be bypassed)
+        const entitlementResult: ReservationResult = isQuotaAction(action)
+            ? await reserveUsageServer(user.uid, action, request.headers.get("Idempotency-Key"), units)
+            : await canPerformServer(user.uid, action);
         
         if (!entitlementResult.allowed) {
             return {
                 allowed: false,
                 userId: user.uid,
-                error: NextResponse.json(
-                    {
-                        success: false,
-                        error: entitlementResult.reason || 'Quota exceeded',
-                        action: 'quota_exceeded',
-                        currentUsage: entitlementResult.currentUsage,
-                        limit: entitlementResult.limit,
-                    },
-                    { status: 403 }
-                ),
+                error: entitlementResult.duplicate
+                    ? duplicateRequestResponse(entitlementResult)
+                    : quotaExceededResponse(entitlementResult),
             };
         }
         
         return {
             allowed: true,
             userId: user.uid,
+            reservation: entitlementResult.reservation,
         };
         
     } catch (error) {
@@ -84,19 +187,53 @@ export async function checkEntitlement(
 }
 
 /**
- * Atomically increment usage after successful API call
- * 
- * This should be called AFTER the API operation succeeds to prevent
- * charging users for failed requests.
+ * Reserve a quota for a request already checked by checkEntitlement, when
+ * part of it also uses the quota (e.g. the AI step of the daily summary).
+ * Rate limited like checkEntitlement - unlimited plans included.
  */
-export async function incrementUsage(
+export async function reserveUsage(
+    request: Request,
     userId: string,
-    action: 'voice_log' | 'ai_request'
+    action: QuotaAction
+): Promise<UsageReservationResult> {
+    const rateLimit = await isRateLimited(userId, action);
+    if (rateLimit) {
+        return { error: rateLimitedResponse(rateLimit) };
+    }
+
+    const entitlementResult = await reserveUsageServer(userId, action, request.headers.get("Idempotency-Key"));
+    return { reservation: entitlementResult.reservation };
+}
+
+/**
+ * Keep the reserved usage after a successful API call, recording it in the
+ * user's usage ledger with the tokens the request used (routes wrapped in
+ * withAiLog)
+ */
+export async function commitUsage(
+    reservation: UsageReservation | undefined,
+    details: Omit<UsageDetails, 'tokens'>
 ): Promise<void> {
+    if (!reservation) return;
     try {
-        await incrementUsageServer(userId, action);
+        await commitUsageServer(reservation, { ...details, tokens: getRequestTokenCount() });
+        recordCommittedReservation(reservation);
     } catch (error) {
         // Log but don't fail the request - user already got their result
-        console.error('[Usage Increment] Failed to increment usage:', error);
+        console.error('[Usage Commit] Failed to commit usage:', error);
+    }
+}
+
+/**
+ * Give the reserved usage back when the API call failed, so users aren't
+ * charged for failed requests
+ */
+export async function refundUsage(reservation: UsageReservation | undefined): Promise<void> {
+    if (!reservation) return;
+    try {
+        await refundUsageServer(reservation);
+    } catch (error) {
+        // The request already failed - keep its own error
+        console.error('[Usage Refund] Failed to refund usage:', error);
     }
 }
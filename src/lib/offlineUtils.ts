@@ -0,0 +1,45 @@
+import { QueuedMutation, SyncConflict, Task } from "@/types";
+import { getFieldLabel } from "@/lib/conflictUtils";
+
+/**
+ * Applies queued offline changes on top of the last synced tasks (optimistic view)
+ * @param tasks - Tasks from Firestore or the offline cache
+ * @param queue - Queued mutations of the space, oldest first
+ * @returns Tasks as they will be once the queue is replayed
+ */
+export function applyQueuedMutations(tasks: Task[], queue: QueuedMutation[]): Task[] {
+    if (queue.length === 0) return tasks;
+
+    let result = [...tasks];
+    for (const mutation of queue) {
+        if (mutation.type === "create" && mutation.task) {
+            result = [mutation.task, ...result.filter(t => t.id !== mutation.taskId)];
+        } else if (mutation.type === "update" && mutation.updates) {
+            result = result.map(t => t.id === mutation.taskId ? { ...t, ...mutation.updates } : t);
+        } else if (mutation.type === "delete") {
+            result = result.filter(t => t.id !== mutation.taskId);
+        }
+    }
+    return result;
+}
+
+/**
+ * Explains why an offline change wasn't applied
+ * @param conflict - Conflict reported by replayQueuedMutations
+ * @returns Sentence for the space page
+ */
+export function describeSyncConflict(conflict: SyncConflict): string {
+    const change = conflict.mutation.type === "delete" ? "deletion of" : "change to";
+    switch (conflict.reason) {
+        case "changed":
+            if (conflict.fieldConflicts) {
+                const fields = conflict.fieldConflicts.map(c => getFieldLabel(c.field).toLowerCase()).join(", ");
+                return `Your offline ${change} "${conflict.taskTitle}" was applied, except the ${fields} - edited elsewhere too.`;
+            }
+            return `Your offline ${change} "${conflict.taskTitle}" wasn't applied because it was edited elsewhere.`;
+        case "deleted":
+            return `Your offline ${change} "${conflict.taskTitle}" wasn't applied because it was deleted.`;
+        case "denied":
+            return `Your offline ${change} "${conflict.taskTitle}" wasn't applied because you no longer have access.`;
+    }
+}
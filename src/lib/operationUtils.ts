@@ -0,0 +1,94 @@
+import { Task, TaskOperation } from "@/types";
+
+const FIELD_LABELS: Partial<Record<keyof Task, string>> = {
+    title: "title",
+    description: "description",
+    dueDate: "due date",
+    dueTime: "due time",
+    priority: "priority",
+    status: "status",
+    tags: "tags",
+    checklist: "checklist",
+    blockedBy: "dependencies",
+    recurrence: "repeat",
+};
+
+function createOperationId(): string {
+    return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Records an update before it is applied, keeping the previous value of every changed field
+ * @param task - Task as it is before the change
+ * @param changes - Fields about to be written
+ * @param source - Where the change came from
+ * @param aiLogId - AI request that proposed the change
+ * @returns Operation that can be undone with useOperationHistory
+ */
+export function createUpdateOperation(
+    task: Task,
+    changes: Partial<Task>,
+    source: TaskOperation["source"],
+    aiLogId?: string
+): TaskOperation {
+    const fields = Object.keys(changes) as (keyof Task)[];
+    const before: Partial<Task> = {};
+    for (const field of fields) {
+        (before as Record<string, unknown>)[field] = task[field];
+    }
+
+    // Completing a recurring task spawns the next occurrence - undo has to remove it again
+    const completes = changes.status === "done" && task.status !== "done";
+    if (completes && task.recurrence) {
+        before.nextOccurrenceId = task.nextOccurrenceId;
+    }
+
+    const labels = fields
+        .map(field => FIELD_LABELS[field])
+        .filter((label): label is string => !!label);
+    const summary = completes
+        ? `Completed "${task.title}"`
+        : labels.length > 0
+            ? `Changed ${labels.join(", ")} on "${task.title}"`
+            : `Updated "${task.title}"`;
+
+    return {
+        id: createOperationId(),
+        type: "update",
+        source,
+        taskId: task.id,
+        summary,
+        before,
+        after: changes,
+        timestamp: Date.now(),
+        ...(aiLogId ? { aiLogId } : {}),
+    };
+}
+
+/**
+ * Records a delete, keeping the whole task so it can be restored
+ * @param task - Task about to be deleted
+ * @param source - Where the change came from
+ * @param aiLogId - AI request that proposed the delete
+ */
+export function createDeleteOperation(task: Task, source: TaskOperation["source"], aiLogId?: string): TaskOperation {
+    return {
+        id: createOperationId(),
+        type: "delete",
+        source,
+        taskId: task.id,
+        summary: `Deleted "${task.title}"`,
+        before: task,
+        after: {},
+        timestamp: Date.now(),
+        ...(aiLogId ? { aiLogId } : {}),
+    };
+}
+
+/**
+ * Fields an operation touched (including bookkeeping such as nextOccurrenceId)
+ * @param operation - Recorded operation
+ */
+export function getOperationFields(operation: TaskOperation): (keyof Task)[] {
+    return Object.keys(operation.before) as (keyof Task)[];
+}
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { applySlidingWindow, getRateLimitRule, RateLimitStore } from "@/lib/rateLimit";
+
+const rule = { limit: 3, windowMs: 60_000 };
+
+describe("applySlidingWindow", () => {
+    it("allows requests below the limit and records them", () => {
+        const { result, hits } = applySlidingWindow([1_000, 2_000], rule, 10_000);
+        expect(result).toEqual({ allowed: true, remaining: 0 });
+        expect(hits).toEqual([1_000, 2_000, 10_000]);
+    });
+
+    it("rejects at the limit until the oldest request leaves the window", () => {
+        const { result, hits } = applySlidingWindow([5_000, 1_000, 3_000], rule, 10_000);
+        expect(result.allowed).toBe(false);
+        expect(result.remaining).toBe(0);
+        expect(result.retryAfterMs).toBe(1_000 + 60_000 - 10_000);
+        // A rejected request isn't recorded
+        expect(hits).toEqual([1_000, 3_000, 5_000]);
+    });
+
+    it("drops requests that have left the window", () => {
+        const { result, hits } = applySlidingWindow([0, 1_000, 2_000], rule, 61_500);
+        expect(result.allowed).toBe(true);
+        expect(hits).toEqual([2_000, 61_500]);
+    });
+
+    it("never asks to wait less than a millisecond", () => {
+        const { result } = applySlidingWindow([0, 0, 0], rule, 59_999.5);
+        expect(result.retryAfterMs).toBeGreaterThanOrEqual(1);
+    });
+});
+
+describe("getRateLimitRule", () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it("uses the defaults per minute", () => {
+        expect(getRateLimitRule("create_ai_request")).toEqual({ limit: 20, windowMs: 60_000 });
+        expect(getRateLimitRule("create_voice_log")).toEqual({ limit: 10, windowMs: 60_000 });
+    });
+
+    it("reads the limits from the environment, ignoring invalid values", () => {
+        vi.stubEnv("RATE_LIMIT_AI_PER_MINUTE", "5");
+        vi.stubEnv("RATE_LIMIT_VOICE_PER_MINUTE", "-1");
+        expect(getRateLimitRule("create_ai_request").limit).toBe(5);
+        expect(getRateLimitRule("create_voice_log").limit).toBe(10);
+    });
+});
+
+describe("checkRateLimit", () => {
+    // A fresh module per test, so each starts with an empty memory store
+    let rateLimit: typeof import("@/lib/rateLimit");
+
+    beforeEach(async () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(1_000_000);
+        vi.stubEnv("RATE_LIMIT_AI_PER_MINUTE", "2");
+        vi.resetModules();
+        rateLimit = await import("@/lib/rateLimit");
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.unstubAllEnvs();
+    });
+
+    it("limits each user and action separately", async () => {
+        const { checkRateLimit } = rateLimit;
+        expect((await checkRateLimit("alice", "create_ai_request")).allowed).toBe(true);
+        expect((await checkRateLimit("alice", "create_ai_request")).allowed).toBe(true);
+        expect((await checkRateLimit("alice", "create_ai_request")).allowed).toBe(false);
+
+        expect((await checkRateLimit("bob", "create_ai_request")).allowed).toBe(true);
+        expect((await checkRateLimit("alice", "create_voice_log")).allowed).toBe(true);
+    });
+
+    it("allows requests again once the window has passed", async () => {
+        const { checkRateLimit } = rateLimit;
+        await checkRateLimit("alice", "create_ai_request");
+        await checkRateLimit("alice", "create_ai_request");
+        const limited = await checkRateLimit("alice", "create_ai_request");
+        expect(limited.retryAfterMs).toBe(60_000);
+
+        vi.advanceTimersByTime(60_000);
+        expect((await checkRateLimit("alice", "create_ai_request")).allowed).toBe(true);
+    });
+
+    it("uses a registered store selected by RATE_LIMIT_STORE", async () => {
+        const store: RateLimitStore = { hit: vi.fn(async () => ({ allowed: false, remaining: 0, retryAfterMs: 5 })) };
+        rateLimit.registerRateLimitStore("custom", () => store);
+        vi.stubEnv("RATE_LIMIT_STORE", "custom");
+
+        expect(await rateLimit.checkRateLimit("alice", "create_voice_log")).toEqual({
+            allowed: false,
+            remaining: 0,
+            retryAfterMs: 5,
+        });
+        expect(store.hit).toHaveBeenCalledWith("create_voice_log_alice", { limit: 10, windowMs: 60_000 }, 1_000_000);
+    });
+
+    it("rejects an unknown store", async () => {
+        vi.stubEnv("RATE_LIMIT_STORE", "missing");
+        await expect(rateLimit.checkRateLimit("alice", "create_ai_request")).rejects.toThrow(/Unknown RATE_LIMIT_STORE/);
+    });
+});
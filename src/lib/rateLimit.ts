@@ -0,0 +1,193 @@
+/**
+ * Per-User Rate Limiting
+ *
+ * Sliding-window limits on the AI routes, checked in the entitlement
+ * middleware. Quotas cap a month; this caps bursts - Pro users have no
+ * monthly quota, so without it one runaway client could call the AI routes
+ * without limit.
+ *
+ * Each user and action keeps the times of its recent requests. A request is
+ * allowed while fewer than `limit` of them are in the last `windowMs`;
+ * otherwise the caller is told when the oldest one leaves the window.
+ *
+ * Environment:
+ * - RATE_LIMIT_STORE          Backing store ("memory" | "firestore"), default "memory".
+ *                             Use "firestore" when the app runs on more than one instance
+ * - RATE_LIMIT_AI_PER_MINUTE  AI requests per user per minute, default 20
+ * - RATE_LIMIT_VOICE_PER_MINUTE  Voice logs per user per minute, default 10
+ *
+ * Firestore store: /rateLimits/{action}_{userId}  (server only)
+ */
+
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import { UsageReservation } from "@/types";
+
+// ============================================
+// Types
+// ============================================
+
+export type RateLimitedAction = UsageReservation["action"];
+
+export interface RateLimitRule {
+    limit: number;      // Requests allowed per window
+    windowMs: number;
+}
+
+export interface RateLimitResult {
+    allowed: boolean;
+    remaining: number;
+    retryAfterMs?: number; // When not allowed: until a request leaves the window
+}
+
+/**
+ * Where the request times are kept. hit() records a request if the rule
+ * allows it - checking and recording must be atomic.
+ */
+export interface RateLimitStore {
+    hit(key: string, rule: RateLimitRule, now: number): Promise<RateLimitResult>;
+}
+
+export type RateLimitStoreFactory = () => RateLimitStore;
+
+// ============================================
+// Rules
+// ============================================
+
+const MINUTE_MS = 60 * 1000;
+
+function perMinute(envName: string, fallback: number): RateLimitRule {
+    const limit = Number(process.env[envName]);
+    return {
+        limit: Number.isInteger(limit) && limit > 0 ? limit : fallback,
+        windowMs: MINUTE_MS,
+    };
+}
+
+export function getRateLimitRule(action: RateLimitedAction): RateLimitRule {
+    return action === "create_voice_log"
+        ? perMinute("RATE_LIMIT_VOICE_PER_MINUTE", 10)
+        : perMinute("RATE_LIMIT_AI_PER_MINUTE", 20);
+}
+
+/**
+ * Apply the sliding window to a user's recent request times
+ * @param hits - Times of earlier requests (any order, may include expired ones)
+ * @returns The result, and the hits to keep (with this request when allowed)
+ */
+export function applySlidingWindow(
+    hits: number[],
+    rule: RateLimitRule,
+    now: number
+): { result: RateLimitResult; hits: number[] } {
+    const recent = hits.filter(time => time > now - rule.windowMs).sort((a, b) => a - b);
+
+    if (recent.length >= rule.limit) {
+        return {
+            result: {
+                allowed: false,
+                remaining: 0,
+                retryAfterMs: Math.max(recent[recent.length - rule.limit] + rule.windowMs - now, 1),
+            },
+            hits: recent,
+        };
+    }
+
+    return {
+        result: { allowed: true, remaining: rule.limit - recent.length - 1 },
+        hits: [...recent, now],
+    };
+}
+
+// ============================================
+// Stores
+// ============================================
+
+/**
+ * Keeps request times in this server instance's memory
+ */
+function createMemoryStore(): RateLimitStore {
+    const windows = new Map<string, number[]>();
+
+    return {
+        async hit(key, rule, now) {
+            const { result, hits } = applySlidingWindow(windows.get(key) || [], rule, now);
+            windows.set(key, hits);
+
+            // Drop windows that have fully expired, so idle users don't accumulate
+            if (windows.size > 10000) {
+                for (const [otherKey, times] of windows) {
+                    if (times.every(time => time <= now - rule.windowMs)) windows.delete(otherKey);
+                }
+            }
+            return result;
+        },
+    };
+}
+
+/**
+ * Keeps request times in Firestore, shared by every server instance
+ */
+function createFirestoreStore(): RateLimitStore {
+    return {
+        async hit(key, rule, now) {
+            const db = getAdminDb();
+            const ref = db.collection("rateLimits").doc(key);
+
+            return db.runTransaction(async (transaction) => {
+                const snap = await transaction.get(ref);
+                const stored: number[] = snap.exists ? snap.data()?.hits || [] : [];
+                const { result, hits } = applySlidingWindow(stored, rule, now);
+
+                if (result.allowed) {
+                    transaction.set(ref, {
+                        hits,
+                        expiresAt: now + rule.windowMs, // For a TTL policy on the collection
+                    });
+                }
+                return result;
+            });
+        },
+    };
+}
+
+const stores: Record<string, RateLimitStoreFactory> = {
+    memory: createMemoryStore,
+    firestore: createFirestoreStore,
+};
+
+/**
+ * Register an additional store (e.g. Redis).
+ * Select it with RATE_LIMIT_STORE=<name>.
+ */
+export function registerRateLimitStore(name: string, factory: RateLimitStoreFactory): void {
+    stores[name] = factory;
+    activeStore = null;
+}
+
+let activeStore: RateLimitStore | null = null;
+
+function getStore(): RateLimitStore {
+    if (!activeStore) {
+        const name = process.env.RATE_LIMIT_STORE || "memory";
+        const factory = stores[name];
+        if (!factory) {
+            throw new Error(`Unknown RATE_LIMIT_STORE "${name}". Available: ${Object.keys(stores).join(", ")}`);
+        }
+        activeStore = factory();
+    }
+    return activeStore;
+}
+
+// ============================================
+// Rate Limiting
+// ============================================
+
+/**
+ * Count a request against the user's rate limit for an action
+ * @param userId - Verified user
+ * @param action - Rate-limited action
+ * @returns Whether the request may go ahead, and if not, how long to wait
+ */
+export async function checkRateLimit(userId: string, action: RateLimitedAction): Promise<RateLimitResult> {
+    return getStore().hit(`${action}_${userId}`, getRateLimitRule(action), Date.now());
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import {
+    cleanRecurrence,
+    describeRecurrence,
+    getFirstDueDate,
+    getNextDueDate,
+    getNextOccurrenceDate,
+} from "@/lib/recurrenceUtils";
+
+// 2024-01-01 is a Monday
+
+describe("getNextDueDate", () => {
+    it("steps daily and weekly rules by their interval", () => {
+        expect(getNextDueDate({ frequency: "daily", interval: 3 }, "2024-01-30")).toBe("2024-02-02");
+        expect(getNextDueDate({ frequency: "weekly", interval: 2 }, "2024-01-01T09:00:00.000Z")).toBe("2024-01-15");
+    });
+
+    it("picks the next listed weekday, skipping weeks outside the interval", () => {
+        const mondayThursday = { frequency: "weekly" as const, interval: 1, daysOfWeek: [1, 4] };
+        expect(getNextDueDate(mondayThursday, "2024-01-01")).toBe("2024-01-04");
+        expect(getNextDueDate(mondayThursday, "2024-01-04")).toBe("2024-01-08");
+        expect(getNextDueDate({ ...mondayThursday, interval: 2 }, "2024-01-04")).toBe("2024-01-15");
+    });
+
+    it("clamps monthly and yearly dates to short months", () => {
+        expect(getNextDueDate({ frequency: "monthly", interval: 1 }, "2024-01-31")).toBe("2024-02-29");
+        expect(getNextDueDate({ frequency: "monthly", interval: 1, dayOfMonth: 31 }, "2024-02-29")).toBe("2024-03-31");
+        expect(getNextDueDate({ frequency: "yearly", interval: 1 }, "2024-02-29")).toBe("2025-02-28");
+    });
+
+    it("ends the series after the until date", () => {
+        const rule = { frequency: "daily" as const, interval: 1, until: "2024-01-05" };
+        expect(getNextDueDate(rule, "2024-01-04")).toBe("2024-01-05");
+        expect(getNextDueDate(rule, "2024-01-05")).toBeNull();
+    });
+});
+
+describe("getFirstDueDate", () => {
+    it("uses today when it matches the rule", () => {
+        expect(getFirstDueDate({ frequency: "weekly", interval: 1, daysOfWeek: [1] }, "2024-01-01")).toBe("2024-01-01");
+        expect(getFirstDueDate({ frequency: "daily", interval: 5 }, "2024-01-01")).toBe("2024-01-01");
+    });
+
+    it("otherwise picks the next matching day, ignoring the interval", () => {
+        expect(getFirstDueDate({ frequency: "weekly", interval: 3, daysOfWeek: [5] }, "2024-01-01")).toBe("2024-01-05");
+        expect(getFirstDueDate({ frequency: "monthly", interval: 2, dayOfMonth: 15 }, "2024-01-20")).toBe("2024-02-15");
+    });
+});
+
+describe("getNextOccurrenceDate", () => {
+    const weekly = { frequency: "weekly" as const, interval: 1 };
+
+    it("follows the due date of the completed occurrence", () => {
+        expect(getNextOccurrenceDate(weekly, "2024-01-01", "2024-01-03")).toBe("2024-01-08");
+    });
+
+    it("skips occurrences that are already past", () => {
+        expect(getNextOccurrenceDate(weekly, "2024-01-01", "2024-01-20")).toBe("2024-01-22");
+    });
+
+    it("starts from today without a due date", () => {
+        expect(getNextOccurrenceDate(weekly, undefined, "2024-01-03")).toBe("2024-01-10");
+    });
+
+    it("returns null once the series has ended", () => {
+        expect(getNextOccurrenceDate({ ...weekly, until: "2024-01-10" }, "2024-01-01", "2024-01-20")).toBeNull();
+    });
+});
+
+describe("cleanRecurrence", () => {
+    it("drops unset fields and fixes the interval", () => {
+        expect(cleanRecurrence({ frequency: "daily", interval: 0, daysOfWeek: [], until: undefined })).toEqual({
+            frequency: "daily",
+            interval: 1,
+        });
+        expect(cleanRecurrence({ frequency: "weekly", interval: 2.7, daysOfWeek: [4, 1, 4], until: "2024-06-01T00:00:00Z" })).toEqual({
+            frequency: "weekly",
+            interval: 2,
+            daysOfWeek: [1, 4],
+            until: "2024-06-01",
+        });
+    });
+});
+
+describe("describeRecurrence", () => {
+    it("summarizes each frequency", () => {
+        expect(describeRecurrence({ frequency: "daily", interval: 1 })).toBe("Every day");
+        expect(describeRecurrence({ frequency: "weekly", interval: 1, daysOfWeek: [1] })).toBe("Every Monday");
+        expect(describeRecurrence({ frequency: "weekly", interval: 2, daysOfWeek: [1, 4] })).toBe("Every 2 weeks on Monday, Thursday");
+        expect(describeRecurrence({ frequency: "monthly", interval: 1, dayOfMonth: 1 })).toBe("Monthly on day 1");
+        expect(describeRecurrence({ frequency: "yearly", interval: 3, until: "2030-01-01" })).toBe("Every 3 years until 2030-01-01");
+    });
+});
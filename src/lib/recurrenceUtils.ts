@@ -0,0 +1,152 @@
+import { RecurrenceRule } from "@/types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Dates are handled as UTC calendar days so the local timezone never shifts them
+function parseDay(date: string): Date {
+    const [year, month, day] = date.slice(0, 10).split("-").map(Number);
+    return new Date(Date.UTC(year, month - 1, day));
+}
+
+function formatDay(date: Date): string {
+    return date.toISOString().split("T")[0];
+}
+
+function daysInMonth(year: number, month: number): number {
+    return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+function addMonths(date: Date, months: number, dayOfMonth: number): Date {
+    const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+    const day = Math.min(dayOfMonth, daysInMonth(target.getUTCFullYear(), target.getUTCMonth()));
+    return new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth(), day));
+}
+
+// Index of the (Sunday-based) week a date falls in, for "every N weeks"
+function weekIndex(date: Date): number {
+    return Math.floor((date.getTime() / DAY_MS + 4) / 7);
+}
+
+/**
+ * Removes unset fields so the rule can be written to Firestore
+ * @param rule - Rule from the classifier, creator or UI
+ * @returns Rule with only defined fields and a valid interval
+ */
+export function cleanRecurrence(rule: RecurrenceRule): RecurrenceRule {
+    const clean: RecurrenceRule = {
+        frequency: rule.frequency,
+        interval: Math.max(1, Math.floor(rule.interval || 1)),
+    };
+    if (rule.daysOfWeek?.length) clean.daysOfWeek = [...new Set(rule.daysOfWeek)].sort();
+    if (rule.dayOfMonth) clean.dayOfMonth = rule.dayOfMonth;
+    if (rule.until) clean.until = rule.until.slice(0, 10);
+    return clean;
+}
+
+/**
+ * Calculates the occurrence after a given date
+ * @param rule - Recurrence rule
+ * @param fromDate - Date of the current occurrence (YYYY-MM-DD or ISO string)
+ * @returns Next due date (YYYY-MM-DD), or null once the rule's end date has passed
+ */
+export function getNextDueDate(rule: RecurrenceRule, fromDate: string): string | null {
+    const from = parseDay(fromDate);
+    const interval = Math.max(1, rule.interval || 1);
+    let next: Date;
+
+    switch (rule.frequency) {
+        case "daily":
+            next = new Date(from.getTime() + interval * DAY_MS);
+            break;
+        case "weekly":
+            if (rule.daysOfWeek?.length) {
+                // Next listed weekday, only in weeks that are a multiple of the interval away
+                const startWeek = weekIndex(from);
+                next = new Date(from.getTime() + DAY_MS);
+                while (
+                    !rule.daysOfWeek.includes(next.getUTCDay()) ||
+                    (weekIndex(next) - startWeek) % interval !== 0
+                ) {
+                    next = new Date(next.getTime() + DAY_MS);
+                }
+            } else {
+                next = new Date(from.getTime() + interval * 7 * DAY_MS);
+            }
+            break;
+        case "monthly":
+            next = addMonths(from, interval, rule.dayOfMonth ?? from.getUTCDate());
+            break;
+        case "yearly":
+            next = addMonths(from, interval * 12, from.getUTCDate());
+            break;
+    }
+
+    if (rule.until && formatDay(next) > rule.until.slice(0, 10)) {
+        return null;
+    }
+    return formatDay(next);
+}
+
+/**
+ * First due date on or after today, for recurring tasks created without a date
+ * @param rule - Recurrence rule
+ * @param today - Today's date (YYYY-MM-DD)
+ */
+export function getFirstDueDate(rule: RecurrenceRule, today: string): string {
+    const date = parseDay(today);
+    const matchesToday =
+        (rule.frequency !== "weekly" || !rule.daysOfWeek?.length || rule.daysOfWeek.includes(date.getUTCDay())) &&
+        (rule.frequency !== "monthly" || !rule.dayOfMonth || rule.dayOfMonth === date.getUTCDate());
+
+    return matchesToday ? today : getNextDueDate({ ...rule, interval: 1, until: undefined }, today) ?? today;
+}
+
+/**
+ * Next occurrence for a task completed today - skips occurrences that are already past
+ * @param rule - Recurrence rule
+ * @param dueDate - Due date of the occurrence being completed (may be missing)
+ * @param today - Today's date (YYYY-MM-DD)
+ * @returns Next due date, or null if the series has ended
+ */
+export function getNextOccurrenceDate(rule: RecurrenceRule, dueDate: string | null | undefined, today: string): string | null {
+    let next = getNextDueDate(rule, dueDate || today);
+    // Bounded so a bad rule can never spin forever
+    for (let i = 0; next && next < today && i < 1000; i++) {
+        next = getNextDueDate(rule, next);
+    }
+    return next;
+}
+
+/**
+ * Human-readable summary of a rule
+ * @param rule - Recurrence rule
+ * @returns e.g. "Every Monday", "Every 2 weeks on Monday, Thursday", "Monthly on day 1"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+    const interval = Math.max(1, rule.interval || 1);
+    let text: string;
+
+    switch (rule.frequency) {
+        case "daily":
+            text = interval === 1 ? "Every day" : `Every ${interval} days`;
+            break;
+        case "weekly": {
+            const days = rule.daysOfWeek?.map(d => DAY_NAMES[d]).join(", ");
+            if (interval === 1) {
+                text = days ? `Every ${days}` : "Every week";
+            } else {
+                text = `Every ${interval} weeks${days ? ` on ${days}` : ""}`;
+            }
+            break;
+        }
+        case "monthly":
+            text = `${interval === 1 ? "Monthly" : `Every ${interval} months`}${rule.dayOfMonth ? ` on day ${rule.dayOfMonth}` : ""}`;
+            break;
+        case "yearly":
+            text = interval === 1 ? "Every year" : `Every ${interval} years`;
+            break;
+    }
+
+    return rule.until ? `${text} until ${rule.until.slice(0, 10)}` : text;
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { redactPII } from "@/lib/redactUtils";
+
+describe("redactPII", () => {
+    it("removes contact details", () => {
+        expect(redactPII("Email jane.doe@example.com or call +1 555-123-4567 tomorrow"))
+            .toBe("Email [email] or call [phone] tomorrow");
+    });
+
+    it("removes secrets before their digits are treated as numbers", () => {
+        const token = `ghp_${"a1B2".repeat(9)}`;
+        expect(redactPII(`Connect repo with ${token}`)).toBe("Connect repo with [secret]");
+        expect(redactPII("Authorization: Bearer abc.def-123")).toBe("Authorization: Bearer [secret]");
+    });
+
+    it("removes card numbers, IP addresses and URL query strings", () => {
+        expect(redactPII("Card 4242 4242 4242 4242 failed")).toBe("Card [number] failed");
+        expect(redactPII("Server 192.168.1.20 is down")).toBe("Server [ip] is down");
+        expect(redactPII("Sync https://cal.example.com/feed.ics?token=abc123"))
+            .toBe("Sync https://cal.example.com/feed.ics?[redacted]");
+    });
+
+    it("keeps the task wording", () => {
+        expect(redactPII("Buy 2 cartons of milk on Friday at 5pm")).toBe("Buy 2 cartons of milk on Friday at 5pm");
+    });
+
+    it("cuts off long text", () => {
+        expect(redactPII("a".repeat(20), 10)).toBe(`${"a".repeat(10)}…`);
+    });
+});
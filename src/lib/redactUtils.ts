@@ -0,0 +1,32 @@
+// Applied in order - secrets before numbers, so a key's digits aren't half-replaced
+const REDACTIONS: [RegExp, string][] = [
+    // API keys and tokens with well-known prefixes (GitHub, Stripe, Google)
+    [/\b(?:gh[pousr]_[A-Za-z0-9]{20,}|(?:sk|rk|pk|whsec)_(?:live_|test_)?[A-Za-z0-9]{10,}|AIza[0-9A-Za-z_-]{30,})\b/g, "[secret]"],
+    // Bearer tokens and JWTs
+    [/\bBearer\s+[A-Za-z0-9._~+/-]+=*/gi, "Bearer [secret]"],
+    [/\beyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]+/g, "[secret]"],
+    [/[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g, "[email]"],
+    // Query strings often carry tokens (calendar links, signed URLs)
+    [/(https?:\/\/[^\s?#]+)\?[^\s#]+/gi, "$1?[redacted]"],
+    [/\b\d{1,3}(?:\.\d{1,3}){3}\b/g, "[ip]"],
+    // Card numbers and other long digit runs (13-19 digits, spaces or dashes allowed)
+    [/\b\d(?:[ -]?\d){12,18}\b/g, "[number]"],
+    // Phone numbers: optional +country code, 7+ digits with separators
+    [/(?:\+\d{1,3}[ .-]?)?(?:\(\d{2,4}\)[ .-]?)?\d{2,4}[ .-]\d{3,4}[ .-]?\d{0,4}\b/g, "[phone]"],
+];
+
+/**
+ * Remove personal data from text before it is stored for debugging: email
+ * addresses, phone and card numbers, IP addresses, API keys and URL query
+ * strings. Task wording is kept - it's what misclassifications are judged on.
+ * @param text - User text, transcript or error message
+ * @param maxLength - Longer text is cut off
+ * @returns Redacted text
+ */
+export function redactPII(text: string, maxLength: number = 1000): string {
+    let redacted = text;
+    for (const [pattern, replacement] of REDACTIONS) {
+        redacted = redacted.replace(pattern, replacement);
+    }
+    return redacted.length > maxLength ? `${redacted.slice(0, maxLength)}…` : redacted;
+}
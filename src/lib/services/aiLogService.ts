@@ -0,0 +1,44 @@
+/**
+ * AI Log Service
+ *
+ * Client-side access to the AI observability log. Every AI response carries an
+ * aiLogId; when the user undoes or rejects what the AI did, the result is
+ * reported against that log so misclassifications can be found later.
+ * Logs are only written and read by API routes (see aiLogServiceServer.ts).
+ *
+ * Collection structure: /aiLogs/{logId}
+ */
+
+import { apiPost } from "@/lib/apiClient";
+import { AiCorrection, AiLog, AiLogFilter } from "@/types";
+
+/**
+ * Report that the user didn't accept an AI result. Best effort - never throws,
+ * since the user's own action has already succeeded.
+ * @param userId - Signed-in user
+ * @param aiLogId - aiLogId returned with the AI result
+ * @param type - "undone" (operation undone) or "rejected" (proposal not applied)
+ * @param detail - What was undone or rejected
+ */
+export async function reportAiCorrection(
+    userId: string,
+    aiLogId: string,
+    type: AiCorrection["type"],
+    detail?: string
+): Promise<void> {
+    try {
+        await apiPost("/api/ai-correction", { userId, aiLogId, type, ...(detail ? { detail } : {}) }, { maxRetries: 1 });
+    } catch (error) {
+        console.error("Failed to report AI correction:", error);
+    }
+}
+
+/**
+ * Most recent AI logs, newest first (admins only - other users get a 403)
+ * @param userId - Signed-in admin
+ * @param filter - Which logs to list
+ */
+export async function getAiLogs(userId: string, filter: AiLogFilter): Promise<AiLog[]> {
+    const { logs } = await apiPost<{ logs: AiLog[] }>("/api/ai-logs", { userId, filter });
+    return logs;
+}
@@ -0,0 +1,146 @@
+/**
+ * AI Log Service (Server-Side)
+ *
+ * Observability for the AI routes: one log per request with every agent
+ * call (model, latency, tokens), whether the answers parsed, the final intent
+ * and - reported later by the client - whether the user undid or rejected
+ * the result. User text is PII-redacted before it is stored.
+ * Uses Firebase Admin SDK - only use in API routes.
+ *
+ * Collection structure: /aiLogs/{logId}  (server only - read through /api/ai-logs by admins)
+ */
+
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import { AiCorrection, AiLog, AiLogFilter } from "@/types";
+import { AiTrace, runWithAiTrace } from "@/lib/aiTrace";
+import { redactPII } from "@/lib/redactUtils";
+import { storeReservationResponse } from "@/lib/entitlementsServer";
+
+const MAX_LOGS_PER_PAGE = 100;
+
+export class AiLogError extends Error {
+    constructor(
+        message: string,
+        public statusCode: number = 400
+    ) {
+        super(message);
+        this.name = "AiLogError";
+    }
+}
+
+function logsCollection() {
+    return getAdminDb().collection("aiLogs");
+}
+
+function buildLog(trace: AiTrace, route: string, status: number): AiLog {
+    return {
+        id: trace.id,
+        route,
+        ...(trace.userId ? { userId: trace.userId } : {}),
+        ...(trace.spaceId ? { spaceId: trace.spaceId } : {}),
+        ...(trace.input ? { input: redactPII(trace.input) } : {}),
+        ...(trace.intent ? { intent: trace.intent } : {}),
+        ...(trace.confidence !== undefined ? { confidence: trace.confidence } : {}),
+        calls: trace.calls.map(call => (call.error ? { ...call, error: redactPII(call.error, 500) } : call)),
+        parses: trace.parses,
+        parseFailed: trace.parses.some(parse => !parse.success),
+        totalTokens: trace.calls.reduce((sum, call) => sum + (call.totalTokens || 0), 0),
+        latencyMs: Date.now() - trace.startedAt,
+        status,
+        createdAt: trace.startedAt,
+    };
+}
+
+// ============================================
+// Recording
+// ============================================
+
+/**
+ * Handle an AI route's request inside a trace, then store its AI log.
+ * Requests that never reached a model (auth, quota, validation) aren't logged.
+ * When the request's quota was committed, its response is also kept on the
+ * reservation for retries (see reserveUsageServer).
+ * Logging failures are only reported - the response is returned either way.
+ * @param route - Route path, e.g. "/api/parse-task"
+ * @param handler - The route's handler
+ */
+export async function withAiLog(route: string, handler: () => Promise<Response>): Promise<Response> {
+    return runWithAiTrace(async (trace) => {
+        let status = 500;
+        try {
+            const response = await handler();
+            status = response.status;
+            // Answer retries of this request (same Idempotency-Key) with the same response
+            if (trace.committedReservation && response.ok) {
+                try {
+                    await storeReservationResponse(trace.committedReservation, await response.clone().text());
+                } catch (error) {
+                    console.error("[AI Log] Failed to keep response for retries:", error);
+                }
+            }
+            return response;
+        } finally {
+            if (trace.calls.length > 0) {
+                try {
+                    await logsCollection().doc(trace.id).set(buildLog(trace, route, status));
+                } catch (error) {
+                    console.error("[AI Log] Failed to store AI log:", error);
+                }
+            }
+        }
+    });
+}
+
+/**
+ * Mark a request's result as not accepted by the user
+ * @param logId - aiLogId returned with the result
+ * @param userId - Verified user - must be the one who made the request
+ * @param correction - What the user did
+ */
+export async function recordAiCorrection(
+    logId: string,
+    userId: string,
+    correction: Omit<AiCorrection, "at">
+): Promise<void> {
+    const ref = logsCollection().doc(logId);
+    const snap = await ref.get();
+    // The log is stored before the response is sent, but storing it may have failed
+    if (!snap.exists) {
+        throw new AiLogError("AI log not found", 404);
+    }
+    if ((snap.data() as AiLog).userId !== userId) {
+        throw new AiLogError("You can only correct your own AI requests", 403);
+    }
+
+    const at = Date.now();
+    await ref.update({
+        correction: {
+            type: correction.type,
+            ...(correction.detail ? { detail: redactPII(correction.detail, 200) } : {}),
+            at,
+        },
+        correctedAt: at,
+    });
+}
+
+// ============================================
+// Inspection (admins)
+// ============================================
+
+/**
+ * Most recent AI logs, newest first
+ * @param filter - "corrected": undone or rejected by the user; "parse_failed": an agent never produced valid output
+ * @param limit - At most MAX_LOGS_PER_PAGE
+ */
+export async function getAiLogs(filter: AiLogFilter, limit: number = 50): Promise<AiLog[]> {
+    const count = Math.min(Math.max(limit, 1), MAX_LOGS_PER_PAGE);
+    const query =
+        filter === "corrected"
+            ? logsCollection().where("correctedAt", ">", 0).orderBy("correctedAt", "desc")
+            : filter === "parse_failed"
+                ? logsCollection().where("parseFailed", "==", true).orderBy("createdAt", "desc")
+                : logsCollection().orderBy("createdAt", "desc");
+
+    const snapshot = await query.limit(count).get();
+    return snapshot.docs.map(doc => ({ ...(doc.data() as Omit<AiLog, "id">), id: doc.id }));
+}
@@ -0,0 +1,26 @@
+/**
+ * Billing Service
+ *
+ * Client side of Pro subscriptions. Payment happens on the provider's hosted
+ * pages; the plan changes when its webhook reaches /api/billing-webhook,
+ * so the client never writes the tier.
+ */
+
+import { apiPost } from "@/lib/apiClient";
+
+/**
+ * Send the user to checkout for the Pro plan. They come back to
+ * /account?checkout=success (or =cancelled).
+ */
+export async function startCheckout(userId: string): Promise<void> {
+    const { url } = await apiPost<{ url: string }>("/api/create-checkout", { userId }, { maxRetries: 0 });
+    window.location.assign(url);
+}
+
+/**
+ * Send the user to the billing portal to update payment details or cancel
+ */
+export async function openBillingPortal(userId: string): Promise<void> {
+    const { url } = await apiPost<{ url: string }>("/api/billing-portal", { userId }, { maxRetries: 0 });
+    window.location.assign(url);
+}
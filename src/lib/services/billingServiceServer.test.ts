@@ -0,0 +1,61 @@
+import { createHmac } from "crypto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/firebaseAdmin", () => ({ getAdminDb: vi.fn() }));
+
+const { BillingError, verifyWebhookSignature } = await import("@/lib/services/billingServiceServer");
+
+const SECRET = "whsec_test";
+const NOW = 1_700_000_000_000;
+const PAYLOAD = '{"id":"evt_1","type":"checkout.session.completed"}';
+
+function sign(payload: string, timestamp: number = NOW / 1000, secret: string = SECRET): string {
+    return createHmac("sha256", secret).update(`${timestamp}.${payload}`).digest("hex");
+}
+
+function verify(header: string | null, payload: string = PAYLOAD) {
+    return () => verifyWebhookSignature(payload, header, NOW);
+}
+
+describe("verifyWebhookSignature", () => {
+    beforeEach(() => {
+        vi.stubEnv("STRIPE_WEBHOOK_SECRET", SECRET);
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it("accepts a fresh signature of the exact payload", () => {
+        expect(verify(`t=${NOW / 1000},v1=${sign(PAYLOAD)}`)).not.toThrow();
+    });
+
+    it("accepts any matching v1 signature, as sent while the secret is rolled", () => {
+        const header = `t=${NOW / 1000},v1=${sign(PAYLOAD, NOW / 1000, "whsec_old")},v1=${sign(PAYLOAD)}`;
+        expect(verify(header)).not.toThrow();
+    });
+
+    it("rejects a missing, tampered or foreign signature", () => {
+        expect(verify(null)).toThrow("Missing webhook signature");
+        expect(verify(`t=${NOW / 1000}`)).toThrow("Missing webhook signature");
+        expect(verify(`t=${NOW / 1000},v1=${sign(PAYLOAD)}`, PAYLOAD.replace("evt_1", "evt_2"))).toThrow("Invalid webhook signature");
+        expect(verify(`t=${NOW / 1000},v1=${sign(PAYLOAD, NOW / 1000, "whsec_other")}`)).toThrow("Invalid webhook signature");
+        expect(verify(`t=${NOW / 1000},v1=abc`)).toThrow("Invalid webhook signature");
+    });
+
+    it("rejects a signature outside the five-minute window", () => {
+        const stale = NOW / 1000 - 301;
+        expect(verify(`t=${stale},v1=${sign(PAYLOAD, stale)}`)).toThrow("Webhook signature has expired");
+    });
+
+    it("fails with 503 when no secret is configured", () => {
+        vi.stubEnv("STRIPE_WEBHOOK_SECRET", "");
+        try {
+            verify(`t=${NOW / 1000},v1=${sign(PAYLOAD)}`)();
+            expect.unreachable();
+        } catch (error) {
+            expect(error).toBeInstanceOf(BillingError);
+            expect((error as InstanceType<typeof BillingError>).statusCode).toBe(503);
+        }
+    });
+});
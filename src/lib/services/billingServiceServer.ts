@@ -0,0 +1,362 @@
+/**
+ * Billing Service (Server-Side)
+ *
+ * Pro subscriptions through Stripe: checkout and billing portal sessions, and
+ * the signed webhook events that move a user's plan between Free and Pro.
+ * Talks to the REST API directly; STRIPE_API_URL points it at the local
+ * simulator (scripts/mock-billing.ts).
+ * Uses Firebase Admin SDK - only use in API routes.
+ *
+ * Collection structure:
+ * - /userPlans/{userId}          (tier and billing fields - never written by clients)
+ * - /billingEvents/{eventId}     (webhook events already applied)
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import { z } from "zod";
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import { VerifiedUser } from "@/lib/auth/verifyToken";
+import { createDefaultPlan, enforceSpaceLimitServer, getUserPlanServer } from "@/lib/entitlementsServer";
+import { UserPlan } from "@/types";
+
+const DEFAULT_API_URL = "https://api.stripe.com";
+
+// Signed webhooks older than this are rejected (replay protection)
+const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+export class BillingError extends Error {
+    constructor(
+        message: string,
+        public statusCode: number = 502
+    ) {
+        super(message);
+        this.name = "BillingError";
+    }
+}
+
+// Envelope of a webhook event - data.object is read per event type below
+export const BillingEventSchema = z.object({
+    id: z.string().min(1),
+    type: z.string(),
+    created: z.number(), // Seconds
+    data: z.object({
+        object: z.record(z.string(), z.unknown()),
+    }),
+});
+
+export type BillingEvent = z.infer<typeof BillingEventSchema>;
+
+const CheckoutSessionSchema = z.object({
+    client_reference_id: z.string().nullish(),
+    customer: z.string().nullish(),
+    subscription: z.string().nullish(),
+    payment_status: z.string().nullish(),
+    metadata: z.record(z.string(), z.string()).nullish(),
+});
+
+const SubscriptionSchema = z.object({
+    id: z.string(),
+    customer: z.string(),
+    status: z.string(),
+    cancel_at_period_end: z.boolean().nullish(),
+    current_period_end: z.number().nullish(),
+    // Newer API versions keep the period on the items
+    items: z.object({
+        data: z.array(z.object({ current_period_end: z.number().nullish() })),
+    }).nullish(),
+    metadata: z.record(z.string(), z.string()).nullish(),
+});
+
+const InvoiceSchema = z.object({
+    customer: z.string(),
+    subscription: z.string().nullish(),
+    lines: z.object({
+        data: z.array(z.object({ period: z.object({ end: z.number() }).nullish() })),
+    }).nullish(),
+});
+
+// What an event changes on the plan of one user
+interface PlanChange {
+    userId: string;
+    updates: Partial<UserPlan>;
+    subscriptionId?: string; // Events about an older subscription don't end the current one
+}
+
+async function billingFetch<T>(path: string, params: Record<string, string>): Promise<T> {
+    const secretKey = process.env.STRIPE_SECRET_KEY;
+    if (!secretKey) {
+        throw new BillingError("Billing isn't configured on this server.", 503);
+    }
+
+    const baseUrl = (process.env.STRIPE_API_URL || DEFAULT_API_URL).replace(/\/$/, "");
+    let res: Response;
+    try {
+        res = await fetch(`${baseUrl}${path}`, {
+            method: "POST",
+            headers: {
+                Authorization: `Bearer ${secretKey}`,
+                "Content-Type": "application/x-www-form-urlencoded",
+            },
+            body: new URLSearchParams(params).toString(),
+            cache: "no-store",
+        });
+    } catch (error) {
+        console.error("[Billing] Request failed:", error);
+        throw new BillingError("Couldn't reach the payment provider. Please try again.");
+    }
+
+    if (!res.ok) {
+        console.error("[Billing] Unexpected response:", res.status, path, await res.text().catch(() => ""));
+        throw new BillingError("The payment provider returned an error. Please try again.");
+    }
+    return res.json() as Promise<T>;
+}
+
+/**
+ * Starts a Pro subscription checkout for the user
+ * @param user - Verified user
+ * @param origin - Origin of the app, for the return URLs
+ * @returns URL of the hosted checkout page
+ */
+export async function createCheckoutSession(user: VerifiedUser, origin: string): Promise<string> {
+    const priceId = process.env.STRIPE_PRO_PRICE_ID;
+    if (!priceId) {
+        throw new BillingError("Billing isn't configured on this server.", 503);
+    }
+
+    const plan = await getUserPlanServer(user.uid);
+    if (plan.tier === "pro" && plan.subscriptionStatus !== "canceled") {
+        throw new BillingError("You're already on the Pro plan.", 409);
+    }
+
+    const params: Record<string, string> = {
+        mode: "subscription",
+        "line_items[0][price]": priceId,
+        "line_items[0][quantity]": "1",
+        client_reference_id: user.uid,
+        "metadata[userId]": user.uid,
+        "subscription_data[metadata][userId]": user.uid,
+        success_url: `${origin}/account?checkout=success`,
+        cancel_url: `${origin}/account?checkout=cancelled`,
+    };
+    if (plan.billingCustomerId) {
+        params.customer = plan.billingCustomerId;
+    } else if (user.email) {
+        params.customer_email = user.email;
+    }
+
+    const session = await billingFetch<{ url: string }>("/v1/checkout/sessions", params);
+    return session.url;
+}
+
+/**
+ * Opens the provider's billing portal, where the user updates payment details or cancels
+ * @param userId - Verified user
+ * @param origin - Origin of the app, for the return URL
+ * @returns URL of the portal
+ */
+export async function createPortalSession(userId: string, origin: string): Promise<string> {
+    const plan = await getUserPlanServer(userId);
+    if (!plan.billingCustomerId) {
+        throw new BillingError("There's no subscription to manage yet.", 400);
+    }
+
+    const session = await billingFetch<{ url: string }>("/v1/billing_portal/sessions", {
+        customer: plan.billingCustomerId,
+        return_url: `${origin}/account`,
+    });
+    return session.url;
+}
+
+/**
+ * Checks the Stripe-Signature header of a webhook: an HMAC-SHA256 of
+ * "{timestamp}.{payload}" with the endpoint secret, sent recently
+ * @param payload - Raw request body, exactly as received
+ * @param header - Value of the Stripe-Signature header ("t=...,v1=...")
+ * @param now - Current time, for the replay window
+ * @throws BillingError if the signature is missing, stale or wrong
+ */
+export function verifyWebhookSignature(payload: string, header: string | null, now: number = Date.now()): void {
+    const secret = process.env.STRIPE_WEBHOOK_SECRET;
+    if (!secret) {
+        throw new BillingError("Billing webhooks aren't configured on this server.", 503);
+    }
+
+    const pairs = (header || "").split(",").map(part => part.trim().split("="));
+    const timestamp = Number(pairs.find(([key]) => key === "t")?.[1]);
+    const signatures = pairs.filter(([key, value]) => key === "v1" && value).map(([, value]) => value);
+    if (!timestamp || signatures.length === 0) {
+        throw new BillingError("Missing webhook signature", 400);
+    }
+    if (Math.abs(now / 1000 - timestamp) > WEBHOOK_TOLERANCE_SECONDS) {
+        throw new BillingError("Webhook signature has expired", 400);
+    }
+
+    const expected = createHmac("sha256", secret).update(`${timestamp}.${payload}`).digest();
+    const valid = signatures.some(signature => {
+        const given = Buffer.from(signature, "hex");
+        return given.length === expected.length && timingSafeEqual(given, expected);
+    });
+    if (!valid) {
+        throw new BillingError("Invalid webhook signature", 400);
+    }
+}
+
+async function findUserIdByCustomer(customerId: string): Promise<string | null> {
+    const snap = await getAdminDb()
+        .collection("userPlans")
+        .where("billingCustomerId", "==", customerId)
+        .limit(1)
+        .get();
+    return snap.empty ? null : snap.docs[0].id;
+}
+
+// The subscription has ended - Pro features stop, usage limits apply again
+function downgrade(): Partial<UserPlan> {
+    return { tier: "free", subscriptionStatus: "canceled", cancelAtPeriodEnd: false, downgradedAt: Date.now() };
+}
+
+function getSubscriptionChange(subscription: z.infer<typeof SubscriptionSchema>, deleted: boolean): Partial<UserPlan> | null {
+    const periodEnd = subscription.current_period_end ?? subscription.items?.data[0]?.current_period_end;
+    const details: Partial<UserPlan> = {
+        billingCustomerId: subscription.customer,
+        subscriptionId: subscription.id,
+        cancelAtPeriodEnd: !!subscription.cancel_at_period_end,
+        ...(periodEnd ? { currentPeriodEnd: periodEnd * 1000 } : {}),
+    };
+
+    if (deleted) {
+        return { ...details, ...downgrade() };
+    }
+
+    switch (subscription.status) {
+        case "active":
+        case "trialing":
+            return { ...details, tier: "pro", subscriptionStatus: "active" };
+        case "past_due":
+            // Payment is being retried - Pro continues until the provider gives up
+            return { ...details, tier: "pro", subscriptionStatus: "past_due" };
+        case "canceled":
+        case "unpaid":
+        case "incomplete_expired":
+            return { ...details, ...downgrade() };
+        default:
+            // "incomplete" - the first payment hasn't gone through yet
+            return null;
+    }
+}
+
+/**
+ * Works out which user an event is about and how their plan changes
+ * @returns null for events that don't affect plans
+ */
+async function getPlanChange(event: BillingEvent): Promise<PlanChange | null> {
+    switch (event.type) {
+        case "checkout.session.completed": {
+            const session = CheckoutSessionSchema.parse(event.data.object);
+            const userId = session.client_reference_id || session.metadata?.userId;
+            if (!userId) return null;
+
+            const paid = session.payment_status === "paid" || session.payment_status === "no_payment_required";
+            return {
+                userId,
+                updates: {
+                    ...(session.customer ? { billingCustomerId: session.customer } : {}),
+                    ...(session.subscription ? { subscriptionId: session.subscription } : {}),
+                    ...(paid ? { tier: "pro", subscriptionStatus: "active" } : {}),
+                },
+            };
+        }
+
+        case "customer.subscription.created":
+        case "customer.subscription.updated":
+        case "customer.subscription.deleted": {
+            const subscription = SubscriptionSchema.parse(event.data.object);
+            const userId = subscription.metadata?.userId || await findUserIdByCustomer(subscription.customer);
+            const updates = getSubscriptionChange(subscription, event.type === "customer.subscription.deleted");
+            if (!userId || !updates) return null;
+            return { userId, updates, subscriptionId: subscription.id };
+        }
+
+        case "invoice.paid": {
+            // Renewal - the next period is paid for
+            const invoice = InvoiceSchema.parse(event.data.object);
+            const userId = await findUserIdByCustomer(invoice.customer);
+            if (!userId) return null;
+            const periodEnd = invoice.lines?.data[0]?.period?.end;
+            return {
+                userId,
+                updates: {
+                    tier: "pro",
+                    subscriptionStatus: "active",
+                    ...(periodEnd ? { currentPeriodEnd: periodEnd * 1000 } : {}),
+                },
+                subscriptionId: invoice.subscription ?? undefined,
+            };
+        }
+
+        case "invoice.payment_failed": {
+            const invoice = InvoiceSchema.parse(event.data.object);
+            const userId = await findUserIdByCustomer(invoice.customer);
+            if (!userId) return null;
+            return {
+                userId,
+                updates: { subscriptionStatus: "past_due" },
+                subscriptionId: invoice.subscription ?? undefined,
+            };
+        }
+
+        default:
+            return null;
+    }
+}
+
+/**
+ * Applies a verified webhook event to the user's plan. Each event is applied
+ * once (providers retry deliveries), and an event older than the last one
+ * applied doesn't overwrite it (deliveries can arrive out of order).
+ * The plan's space limit is then applied - also on a redelivered event, in
+ * case applying it failed the first time.
+ * @param event - Event whose signature was checked with verifyWebhookSignature
+ * @returns What happened to it
+ */
+export async function handleBillingEvent(event: BillingEvent): Promise<"applied" | "duplicate" | "ignored"> {
+    const change = await getPlanChange(event);
+    if (!change) return "ignored";
+
+    const db = getAdminDb();
+    const eventRef = db.collection("billingEvents").doc(event.id);
+    const planRef = db.collection("userPlans").doc(change.userId);
+    const eventAt = event.created * 1000;
+
+    const result = await db.runTransaction<"applied" | "duplicate" | "ignored">(async (transaction) => {
+        const [eventSnap, planSnap] = await Promise.all([transaction.get(eventRef), transaction.get(planRef)]);
+        if (eventSnap.exists) return "duplicate";
+
+        const plan = planSnap.exists ? (planSnap.data() as UserPlan) : createDefaultPlan(change.userId);
+        const record = { type: event.type, userId: change.userId, receivedAt: Date.now() };
+
+        const stale = plan.billingEventAt !== undefined && eventAt < plan.billingEventAt;
+        const otherSubscription = !!change.subscriptionId && !!plan.subscriptionId &&
+            change.subscriptionId !== plan.subscriptionId && change.updates.tier !== "pro";
+        if (stale || otherSubscription) {
+            transaction.set(eventRef, { ...record, skipped: true });
+            return "ignored";
+        }
+
+        const updates: Partial<UserPlan> = { ...change.updates };
+        // Only an actual end of Pro counts as a downgrade
+        if (updates.downgradedAt && plan.tier !== "pro") {
+            delete updates.downgradedAt;
+        }
+
+        transaction.set(planRef, { ...plan, ...updates, billingEventAt: eventAt, updatedAt: Date.now() });
+        transaction.set(eventRef, record);
+        return "applied";
+    });
+
+    if (result !== "ignored") {
+        await enforceSpaceLimitServer(change.userId);
+    }
+    return result;
+}
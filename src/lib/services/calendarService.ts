@@ -0,0 +1,69 @@
+/**
+ * Calendar Service
+ *
+ * Client side of the ICS calendar integration (Pro). Calendars are fetched
+ * and parsed on the server - see calendarServiceServer.ts.
+ */
+
+import { CalendarEvent } from "@/types";
+import { apiPost } from "@/lib/apiClient";
+
+// What the account page shows - the feed token itself never reaches the client
+export interface CalendarSettingsView {
+    feedUrl: string;          // Subscribe to this in a calendar app
+    importUrl: string | null; // Calendar the classifier reads today's events from
+}
+
+/**
+ * The browser's IANA timezone, so calendar times land on the user's clock
+ */
+export function getTimeZone(): string {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * The feed URL and subscribed calendar - the feed is created on first use
+ */
+export async function getCalendarSettings(userId: string): Promise<CalendarSettingsView> {
+    return apiPost<CalendarSettingsView>("/api/calendar-settings", { userId, action: "get" });
+}
+
+/**
+ * Replace the feed URL - calendar apps subscribed to the old one stop updating
+ */
+export async function rotateCalendarFeed(userId: string): Promise<CalendarSettingsView> {
+    return apiPost<CalendarSettingsView>(
+        "/api/calendar-settings",
+        { userId, action: "rotate_feed" },
+        { maxRetries: 0 }
+    );
+}
+
+/**
+ * Subscribe to a calendar (ICS link) for "after standup"-style times, or remove it with null
+ */
+export async function setCalendarImportUrl(userId: string, importUrl: string | null): Promise<CalendarSettingsView> {
+    return apiPost<CalendarSettingsView>(
+        "/api/calendar-settings",
+        { userId, action: "set_import_url", importUrl },
+        { maxRetries: 1 }
+    );
+}
+
+/**
+ * Upcoming events from an .ics file or a calendar link, for picking which become tasks
+ * @param source - Contents of an .ics file, or its URL (https:// or webcal://)
+ * @param days - How far ahead to look
+ */
+export async function getCalendarEvents(
+    userId: string,
+    source: { ics: string } | { url: string },
+    days: number = 30
+): Promise<CalendarEvent[]> {
+    const data = await apiPost<{ events: CalendarEvent[] }>(
+        "/api/import-calendar",
+        { userId, ...source, timeZone: getTimeZone(), days },
+        { maxRetries: 1 }
+    );
+    return data.events;
+}
@@ -0,0 +1,77 @@
+import { Readable } from "stream";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/firebaseAdmin", () => ({ getAdminDb: vi.fn() }));
+vi.mock("dns/promises", () => ({ lookup: vi.fn() }));
+vi.mock("http", () => ({ default: { get: vi.fn() } }));
+
+const { lookup } = await import("dns/promises");
+const http = (await import("http")).default;
+const { fetchCalendar, MAX_CALENDAR_BYTES } = await import("@/lib/services/calendarServiceServer");
+
+const calendar = "BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n";
+
+function respond(body: Iterable<Buffer>, statusCode = 200, headers: Record<string, string> = {}) {
+    return Object.assign(Readable.from(body), { statusCode, headers });
+}
+
+// The address the request connects to, as the pinned lookup reports it
+function connectedAddress(options: { lookup: (...args: unknown[]) => void }): unknown {
+    let connected: unknown;
+    options.lookup("calendar.example.com", { all: false }, (_error: unknown, address: unknown) => {
+        connected = address;
+    });
+    return connected;
+}
+
+beforeEach(() => {
+    vi.mocked(lookup).mockReset();
+    vi.mocked(http.get).mockReset();
+});
+
+describe("fetchCalendar", () => {
+    it("connects to the address that was checked instead of resolving the host again", async () => {
+        vi.mocked(lookup).mockResolvedValue([{ address: "203.0.113.10", family: 4 }] as never);
+        let connected: unknown;
+        vi.mocked(http.get).mockImplementation(((_url: URL, options: never, callback: (res: unknown) => void) => {
+            connected = connectedAddress(options);
+            callback(respond([Buffer.from(calendar)]));
+            return { on: vi.fn() };
+        }) as never);
+
+        await expect(fetchCalendar("http://calendar.example.com/pinned.ics")).resolves.toBe(calendar);
+        expect(connected).toBe("203.0.113.10");
+        expect(lookup).toHaveBeenCalledTimes(1);
+    });
+
+    it("checks the address a redirect points to", async () => {
+        vi.mocked(lookup)
+            .mockResolvedValueOnce([{ address: "203.0.113.10", family: 4 }] as never)
+            .mockResolvedValueOnce([{ address: "10.0.0.5", family: 4 }] as never);
+        vi.mocked(http.get).mockImplementation(((_url: URL, _options: never, callback: (res: unknown) => void) => {
+            callback(respond([], 302, { location: "http://rebound.example.com/calendar.ics" }));
+            return { on: vi.fn() };
+        }) as never);
+
+        await expect(fetchCalendar("http://calendar.example.com/redirect.ics")).rejects.toMatchObject({ statusCode: 400 });
+        expect(http.get).toHaveBeenCalledTimes(1);
+    });
+
+    it("stops reading a body without content-length once it passes the limit", async () => {
+        vi.mocked(lookup).mockResolvedValue([{ address: "203.0.113.10", family: 4 }] as never);
+        let chunksRead = 0;
+        function* endless() {
+            for (;;) {
+                chunksRead++;
+                yield Buffer.alloc(512 * 1024, "A");
+            }
+        }
+        vi.mocked(http.get).mockImplementation(((_url: URL, _options: never, callback: (res: unknown) => void) => {
+            callback(respond(endless()));
+            return { on: vi.fn() };
+        }) as never);
+
+        await expect(fetchCalendar("http://calendar.example.com/endless.ics")).rejects.toMatchObject({ statusCode: 413 });
+        expect(chunksRead).toBeLessThanOrEqual(MAX_CALENDAR_BYTES / (512 * 1024) + 2);
+    });
+});
@@ -0,0 +1,351 @@
+/**
+ * Calendar Service (Server-Side)
+ *
+ * ICS calendar integration (Pro): the feed of tasks with a due date that
+ * calendar apps subscribe to, and the user's own calendar - its events can be
+ * imported as tasks and are shown to the classifier as today's context.
+ * Uses Firebase Admin SDK - only use in API routes.
+ *
+ * Collection structure: /calendarSettings/{userId}  (server only - holds the feed token)
+ */
+
+import { randomBytes } from "crypto";
+import { LookupAddress } from "dns";
+import { lookup } from "dns/promises";
+import http, { IncomingMessage } from "http";
+import https from "https";
+import { BlockList, isIP, LookupFunction } from "net";
+import { FieldValue } from "firebase-admin/firestore";
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import { CalendarEvent, CalendarSettings } from "@/types";
+import { buildICS, getDateInTimeZone, getUpcomingEvents, IcsEvent, parseICS } from "@/lib/icsUtils";
+import { canPerformServer } from "@/lib/entitlementsServer";
+import { getSpacesForUser } from "@/lib/services/spaceServiceServer";
+import { getOpenTasksServer } from "@/lib/services/taskServiceServer";
+
+const FETCH_TIMEOUT_MS = 10 * 1000;
+// Calendar hosts commonly redirect (e.g. to a CDN) - each hop is checked
+const MAX_REDIRECTS = 5;
+
+// Larger calendars are rejected - also the limit for uploaded files
+export const MAX_CALENDAR_BYTES = 2 * 1024 * 1024;
+
+// A subscribed calendar is fetched at most this often per URL (the classifier reads it on every request)
+const CACHE_TTL_MS = 10 * 60 * 1000;
+const MAX_CACHED_CALENDARS = 100;
+
+const calendarCache = new Map<string, { text: string; fetchedAt: number }>();
+
+export class CalendarError extends Error {
+    constructor(
+        message: string,
+        public statusCode: number = 400
+    ) {
+        super(message);
+        this.name = "CalendarError";
+    }
+}
+
+function settingsRef(userId: string) {
+    return getAdminDb().collection("calendarSettings").doc(userId);
+}
+
+function createFeedToken(): string {
+    return randomBytes(24).toString("base64url");
+}
+
+// Addresses calendar links must not reach: the server's own network, loopback,
+// link-local (cloud metadata) and IPv4 addresses embedded in IPv6. One list per
+// family: a BlockList also checks IPv4 addresses against its IPv6 subnets as
+// ::ffff:a.b.c.d, which ::/80 would match for every IPv4 address.
+const PRIVATE_IPV4_ADDRESSES = new BlockList();
+const PRIVATE_IPV6_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+    ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+    ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 3],
+] as const) {
+    PRIVATE_IPV4_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+    ["::", 80],             // Unspecified, loopback, IPv4-compatible and IPv4-mapped (::ffff:0:0/96)
+    ["::ffff:0:0:0", 96],   // IPv4-translated
+    ["64:ff9b::", 96],      // NAT64
+    ["64:ff9b:1::", 48],
+    ["fc00::", 7],          // Unique local
+    ["fe80::", 10],         // Link-local
+    ["fec0::", 10],         // Site-local
+    ["ff00::", 8],          // Multicast
+] as const) {
+    PRIVATE_IPV6_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+function isPrivateAddress(address: string): boolean {
+    const family = isIP(address);
+    if (family === 4) return PRIVATE_IPV4_ADDRESSES.check(address, "ipv4");
+    return family === 0 || PRIVATE_IPV6_ADDRESSES.check(address, "ipv6");
+}
+
+// Checked before resolving - names that only make sense inside the server's network
+function isPrivateHost(hostname: string): boolean {
+    const host = hostname.toLowerCase().replace(/^\[|\]$/g, "");
+    if (isIP(host)) return isPrivateAddress(host);
+    return host === "localhost" || host.endsWith(".localhost") || host.endsWith(".internal");
+}
+
+/**
+ * Checks where a calendar link really points: its host must only resolve to
+ * public addresses (a public name can point at 169.254.169.254)
+ * @returns The checked addresses - connect to these, not to a new lookup
+ * @throws CalendarError otherwise
+ */
+async function assertPublicUrl(url: URL): Promise<LookupAddress[]> {
+    if ((url.protocol !== "https:" && url.protocol !== "http:") || isPrivateHost(url.hostname)) {
+        throw new CalendarError("Enter the calendar's ICS link (https:// or webcal://)");
+    }
+
+    let addresses: LookupAddress[];
+    try {
+        addresses = await lookup(url.hostname.replace(/^\[|\]$/g, ""), { all: true, verbatim: true });
+    } catch (error) {
+        console.error("[Calendar] Couldn't resolve host:", error);
+        throw new CalendarError("Couldn't reach the calendar. Check the link and try again.", 502);
+    }
+    if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+        throw new CalendarError("Enter the calendar's ICS link (https:// or webcal://)");
+    }
+    return addresses;
+}
+
+/**
+ * Requests a calendar link from the addresses assertPublicUrl checked. fetch()
+ * would resolve the host again, and a second answer can point somewhere else
+ * (DNS rebinding).
+ */
+function requestCalendar(url: URL, addresses: LookupAddress[], signal: AbortSignal): Promise<IncomingMessage> {
+    const checkedLookup: LookupFunction = (_hostname, options, callback) => {
+        if (options.all) callback(null, addresses);
+        else callback(null, addresses[0].address, addresses[0].family);
+    };
+    return new Promise((resolve, reject) => {
+        const req = (url.protocol === "https:" ? https : http).get(url, {
+            headers: { Accept: "text/calendar" },
+            lookup: checkedLookup,
+            signal,
+        }, resolve);
+        req.on("error", reject);
+    });
+}
+
+/**
+ * Reads a calendar response, stopping as soon as it passes MAX_CALENDAR_BYTES
+ * (content-length is optional, so it can't be trusted to catch a huge body)
+ * @throws CalendarError if it's too large
+ */
+async function readCalendarBody(res: IncomingMessage): Promise<string> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of res as AsyncIterable<Buffer>) {
+        size += chunk.length;
+        if (size > MAX_CALENDAR_BYTES) {
+            res.destroy();
+            throw new CalendarError("That calendar is too large to import.", 413);
+        }
+        chunks.push(chunk);
+    }
+    return Buffer.concat(chunks).toString("utf8");
+}
+
+/**
+ * Checks a calendar link and turns webcal:// into https://
+ * @throws CalendarError if it isn't a public http(s) URL
+ */
+export function normalizeCalendarUrl(input: string): string {
+    let url: URL;
+    try {
+        url = new URL(input.trim().replace(/^webcals?:\/\//i, "https://"));
+    } catch {
+        throw new CalendarError("Enter the calendar's ICS link (https:// or webcal://)");
+    }
+    if ((url.protocol !== "https:" && url.protocol !== "http:") || isPrivateHost(url.hostname)) {
+        throw new CalendarError("Enter the calendar's ICS link (https:// or webcal://)");
+    }
+    return url.toString();
+}
+
+/**
+ * Downloads an ICS calendar, cached for a few minutes per URL. Redirects are
+ * followed by hand so every hop's address is checked, and each request
+ * connects to the address that was checked.
+ * @param url - Link from normalizeCalendarUrl
+ * @returns Contents of the calendar
+ */
+export async function fetchCalendar(url: string): Promise<string> {
+    const cached = calendarCache.get(url);
+    if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+        return cached.text;
+    }
+
+    const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+    let target = new URL(url);
+    let res: IncomingMessage;
+    for (let redirects = 0; ; redirects++) {
+        const addresses = await assertPublicUrl(target);
+        try {
+            res = await requestCalendar(target, addresses, signal);
+        } catch (error) {
+            console.error("[Calendar] Request failed:", error);
+            throw new CalendarError("Couldn't reach the calendar. Check the link and try again.", 502);
+        }
+
+        const status = res.statusCode ?? 0;
+        const location = res.headers.location;
+        if (status < 300 || status >= 400 || !location) break;
+        res.resume();
+        if (redirects >= MAX_REDIRECTS) {
+            throw new CalendarError("The calendar link redirects too many times.", 502);
+        }
+        target = new URL(location, target);
+    }
+
+    const status = res.statusCode ?? 0;
+    if (status < 200 || status >= 300) {
+        res.resume();
+        console.error("[Calendar] Unexpected response:", status);
+        throw new CalendarError(status === 404 || status === 403
+            ? "The calendar wasn't found. Check that the link is the calendar's secret ICS address."
+            : "The calendar returned an error. Please try again.", 502);
+    }
+    if (Number(res.headers["content-length"] || 0) > MAX_CALENDAR_BYTES) {
+        res.destroy();
+        throw new CalendarError("That calendar is too large to import.", 413);
+    }
+
+    let text: string;
+    try {
+        text = await readCalendarBody(res);
+    } catch (error) {
+        if (error instanceof CalendarError) throw error;
+        console.error("[Calendar] Reading the response failed:", error);
+        throw new CalendarError("Couldn't reach the calendar. Check the link and try again.", 502);
+    }
+    readCalendar(text);
+
+    if (calendarCache.size >= MAX_CACHED_CALENDARS) {
+        const oldest = calendarCache.keys().next().value;
+        if (oldest) calendarCache.delete(oldest);
+    }
+    calendarCache.set(url, { text, fetchedAt: Date.now() });
+    return text;
+}
+
+/**
+ * Parses an ICS calendar from a file or a link
+ * @param text - Contents of the calendar
+ * @param timeZone - The user's IANA timezone
+ * @throws CalendarError if it isn't an ICS calendar
+ */
+export function readCalendar(text: string, timeZone?: string): IcsEvent[] {
+    if (!/BEGIN:VCALENDAR/i.test(text)) {
+        throw new CalendarError("That isn't an ICS calendar (.ics).");
+    }
+    return parseICS(text, timeZone);
+}
+
+/**
+ * The user's calendar settings - created with a feed token on first use
+ */
+export async function getCalendarSettings(userId: string): Promise<CalendarSettings> {
+    const ref = settingsRef(userId);
+    return getAdminDb().runTransaction(async (transaction) => {
+        const snap = await transaction.get(ref);
+        if (snap.exists) {
+            return snap.data() as CalendarSettings;
+        }
+
+        const settings: CalendarSettings = { userId, feedToken: createFeedToken(), updatedAt: Date.now() };
+        transaction.set(ref, settings);
+        return settings;
+    });
+}
+
+/**
+ * Replaces the feed token - apps subscribed to the old feed URL stop receiving tasks
+ */
+export async function rotateFeedToken(userId: string): Promise<CalendarSettings> {
+    await getCalendarSettings(userId);
+    await settingsRef(userId).update({ feedToken: createFeedToken(), updatedAt: Date.now() });
+    return getCalendarSettings(userId);
+}
+
+/**
+ * Sets the calendar whose events the classifier sees, or removes it with null.
+ * The link is fetched once to check that it is a calendar.
+ */
+export async function setImportUrl(userId: string, importUrl: string | null): Promise<CalendarSettings> {
+    await getCalendarSettings(userId);
+
+    if (importUrl) {
+        const url = normalizeCalendarUrl(importUrl);
+        await fetchCalendar(url);
+        await settingsRef(userId).update({ importUrl: url, updatedAt: Date.now() });
+    } else {
+        await settingsRef(userId).update({ importUrl: FieldValue.delete(), updatedAt: Date.now() });
+    }
+    return getCalendarSettings(userId);
+}
+
+/**
+ * The user a feed token belongs to
+ * @returns User ID, or null if the token is unknown (e.g. rotated)
+ */
+export async function getUserIdForFeedToken(feedToken: string): Promise<string | null> {
+    const snap = await getAdminDb()
+        .collection("calendarSettings")
+        .where("feedToken", "==", feedToken)
+        .limit(1)
+        .get();
+    return snap.empty ? null : (snap.docs[0].data() as CalendarSettings).userId;
+}
+
+/**
+ * ICS feed of the user's open tasks with a due date, across all their spaces.
+ * Tasks assigned to someone else are left out.
+ * @param userId - Owner of the feed
+ * @param origin - Origin of the app, for links back to the spaces
+ */
+export async function buildTaskFeed(userId: string, origin: string): Promise<string> {
+    const spaces = await getSpacesForUser(userId);
+    const tasks = (await Promise.all(spaces.map(space => getOpenTasksServer(space.id))))
+        .flat()
+        .filter(task => task.dueDate && (!task.assigneeId || task.assigneeId === userId));
+
+    return buildICS(tasks, {
+        name: "Smera tasks",
+        host: new URL(origin).host,
+        origin,
+        spaceNames: Object.fromEntries(spaces.map(space => [space.id, space.name])),
+    });
+}
+
+/**
+ * Today's events from the user's subscribed calendar, for the classifier.
+ * Never throws - the classifier just works without them.
+ * @param userId - Verified user
+ * @param timeZone - The user's IANA timezone, for what "today" is
+ */
+export async function getTodaysEvents(userId: string, timeZone?: string): Promise<CalendarEvent[]> {
+    try {
+        const snap = await settingsRef(userId).get();
+        const importUrl = snap.exists ? (snap.data() as CalendarSettings).importUrl : undefined;
+        if (!importUrl) return [];
+
+        const entitlement = await canPerformServer(userId, "access_calendar_integration");
+        if (!entitlement.allowed) return [];
+
+        const events = readCalendar(await fetchCalendar(importUrl), timeZone);
+        return getUpcomingEvents(events, getDateInTimeZone(timeZone), 1);
+    } catch (error) {
+        console.error("[Calendar] Failed to load today's events:", error);
+        return [];
+    }
+}
@@ -0,0 +1,48 @@
+/**
+ * Conversation Service
+ *
+ * Client-side read access to clarification conversations, used to restore an
+ * unanswered question when the space page loads. Conversations are written by
+ * /api/parse-task (see conversationServiceServer.ts).
+ *
+ * Collection structure: /spaces/{spaceId}/conversations/{conversationId}
+ */
+
+import { collection, getDocs, query, where } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { Conversation } from "@/types";
+
+// Matches CONVERSATION_TTL_MS on the server
+const CONVERSATION_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Get the user's most recent open conversation in a space, if any
+ */
+export async function getOpenConversation(
+    spaceId: string,
+    userId: string
+): Promise<Conversation | null> {
+    const snapshot = await getDocs(
+        query(
+            collection(db, "spaces", spaceId, "conversations"),
+            where("ownerId", "==", userId),
+            where("status", "==", "open")
+        )
+    );
+
+    // Sorted here to avoid requiring a composite index
+    const conversations = snapshot.docs
+        .map(d => ({ ...(d.data() as Omit<Conversation, "id">), id: d.id }))
+        .filter(c => Date.now() - c.updatedAt <= CONVERSATION_TTL_MS)
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+
+    return conversations[0] ?? null;
+}
+
+/**
+ * The question the user still has to answer
+ */
+export function getPendingQuestion(conversation: Conversation): string | null {
+    const lastTurn = conversation.turns[conversation.turns.length - 1];
+    return lastTurn?.role === "assistant" ? lastTurn.content : null;
+}
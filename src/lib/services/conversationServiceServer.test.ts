@@ -0,0 +1,42 @@
+import { describe, expect, it, vi } from "vitest";
+import { PendingTask } from "@/types";
+
+vi.mock("@/lib/firebaseAdmin", () => ({ getAdminDb: vi.fn() }));
+
+const { mergePendingTask } = await import("@/lib/services/conversationServiceServer");
+
+const pendingTask: PendingTask = {
+    title: "Deploy the API",
+    description: "Blue-green rollout",
+    priority: "high",
+    tags: ["backend"],
+    checklist: ["Run migrations"],
+    blockedBy: ["task1"],
+    recurrence: { frequency: "weekly", interval: 1 },
+    assigneeId: "user2",
+    suggestedImprovements: ["Which region?"],
+};
+
+describe("mergePendingTask", () => {
+    it("keeps the pending task's fields the answer left out", () => {
+        expect(mergePendingTask({ title: "Deploy the API to staging", tags: [] }, pendingTask)).toEqual({
+            title: "Deploy the API to staging",
+            description: "Blue-green rollout",
+            priority: "high",
+            tags: ["backend"],
+            checklist: ["Run migrations"],
+            blockedBy: ["task1"],
+            recurrence: { frequency: "weekly", interval: 1 },
+            assigneeId: "user2",
+        });
+    });
+
+    it("lets the answer override them", () => {
+        const merged = mergePendingTask({ priority: "low", blockedBy: ["task9"], assigneeId: "user3" }, pendingTask);
+        expect(merged).toMatchObject({ title: "Deploy the API", priority: "low", blockedBy: ["task9"], assigneeId: "user3" });
+    });
+
+    it("uses the answer alone without a pending task", () => {
+        expect(mergePendingTask({ title: "Buy milk" }, undefined)).toMatchObject({ title: "Buy milk", tags: undefined });
+    });
+});
@@ -0,0 +1,165 @@
+/**
+ * Conversation Service (Server-Side)
+ *
+ * Persists clarification conversations so a follow-up answer resumes the right
+ * pending task across reloads, devices and the voice path.
+ * Uses Firebase Admin SDK - only use in API routes.
+ *
+ * Collection structure: /spaces/{spaceId}/conversations/{conversationId}
+ */
+
+import { FieldValue } from "firebase-admin/firestore";
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import { Conversation, ConversationTurn, PendingTask, Space } from "@/types";
+import { canEditTasks, getSpaceRole } from "@/lib/memberUtils";
+
+// Open conversations older than this are treated as abandoned
+export const CONVERSATION_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Only the most recent turns are fed back to the classifier
+const HISTORY_TURNS = 6;
+
+function getConversationsCollection(spaceId: string) {
+    return getAdminDb().collection("spaces").doc(spaceId).collection("conversations");
+}
+
+/**
+ * Remove undefined fields - Firestore rejects them
+ */
+function cleanPendingTask(pendingTask: PendingTask): PendingTask {
+    return Object.fromEntries(
+        Object.entries(pendingTask).filter(([, value]) => value !== undefined)
+    ) as PendingTask;
+}
+
+/**
+ * Load an open, unexpired conversation owned by the user
+ */
+export async function getOpenConversation(
+    spaceId: string,
+    conversationId: string,
+    userId: string
+): Promise<Conversation | null> {
+    const snap = await getConversationsCollection(spaceId).doc(conversationId).get();
+    if (!snap.exists) return null;
+
+    const conversation = { ...(snap.data() as Omit<Conversation, "id">), id: snap.id };
+
+    if (conversation.ownerId !== userId) return null;
+    if (conversation.status !== "open") return null;
+    if (Date.now() - conversation.updatedAt > CONVERSATION_TTL_MS) return null;
+
+    return conversation;
+}
+
+/**
+ * Record a clarifying question: appends to the open conversation or starts a new one.
+ * Returns the conversation ID, or null if the space doesn't belong to the user.
+ */
+export async function recordClarification(params: {
+    spaceId: string;
+    userId: string;
+    conversation: Conversation | null;
+    userText: string;
+    question: string;
+    pendingTask?: PendingTask;
+}): Promise<string | null> {
+    const { spaceId, userId, conversation, userText, question, pendingTask } = params;
+    const now = Date.now();
+    const turns: ConversationTurn[] = [
+        { role: "user", content: userText, timestamp: now },
+        { role: "assistant", content: question, timestamp: now + 1 },
+    ];
+
+    if (conversation) {
+        await getConversationsCollection(spaceId).doc(conversation.id).update({
+            turns: FieldValue.arrayUnion(...turns),
+            ...(pendingTask ? { pendingTask: cleanPendingTask({ ...conversation.pendingTask, ...pendingTask }) } : {}),
+            updatedAt: now,
+        });
+        return conversation.id;
+    }
+
+    // Admin SDK bypasses rules, so check the user can edit the space before writing under it
+    const spaceSnap = await getAdminDb().collection("spaces").doc(spaceId).get();
+    const space = spaceSnap.data() as Space | undefined;
+    if (!space || !canEditTasks(getSpaceRole(space, userId), space)) {
+        return null;
+    }
+
+    const docRef = getConversationsCollection(spaceId).doc();
+    const newConversation: Omit<Conversation, "id"> = {
+        spaceId,
+        ownerId: userId,
+        status: "open",
+        turns,
+        createdAt: now,
+        updatedAt: now,
+        ...(pendingTask ? { pendingTask: cleanPendingTask(pendingTask) } : {}),
+    };
+
+    await docRef.set(newConversation);
+    return docRef.id;
+}
+
+/**
+ * Close a conversation once its pending task has been resolved
+ */
+export async function resolveConversation(
+    spaceId: string,
+    conversationId: string,
+    userText?: string
+): Promise<void> {
+    const updates: Record<string, unknown> = {
+        status: "resolved",
+        updatedAt: Date.now(),
+    };
+
+    if (userText) {
+        const turn: ConversationTurn = { role: "user", content: userText, timestamp: Date.now() };
+        updates.turns = FieldValue.arrayUnion(turn);
+    }
+
+    await getConversationsCollection(spaceId).doc(conversationId).update(updates);
+}
+
+/**
+ * Format recent turns for the classifier's conversationHistory
+ */
+export function formatConversationHistory(conversation: Conversation): string[] {
+    return conversation.turns
+        .slice(-HISTORY_TURNS)
+        .map(turn => `${turn.role === "user" ? "User" : "Assistant"}: ${turn.content}`);
+}
+
+/**
+ * Fill in what an answer to a clarifying question left out from the pending
+ * task it belongs to - the same for typed (parse-task) and spoken (voice-log) answers
+ * @param details - Task fields read from the answer
+ * @param pendingTask - Task waiting on the answer
+ * @returns Merged fields (title missing if neither has one)
+ */
+export function mergePendingTask(
+    details: Partial<Omit<PendingTask, "suggestedImprovements">> | undefined,
+    pendingTask: PendingTask | undefined
+): Partial<Omit<PendingTask, "suggestedImprovements">> {
+    return {
+        title: details?.title || pendingTask?.title,
+        description: details?.description || pendingTask?.description,
+        priority: details?.priority || pendingTask?.priority,
+        tags: details?.tags?.length ? details.tags : pendingTask?.tags,
+        checklist: details?.checklist?.length ? details.checklist : pendingTask?.checklist,
+        blockedBy: details?.blockedBy?.length ? details.blockedBy : pendingTask?.blockedBy,
+        recurrence: details?.recurrence || pendingTask?.recurrence,
+        assigneeId: details?.assigneeId || pendingTask?.assigneeId,
+    };
+}
+
+/**
+ * Prefix a follow-up answer with the pending task it belongs to
+ */
+export function enrichFollowUpText(conversation: Conversation | null, text: string): string {
+    return conversation?.pendingTask?.title
+        ? `${conversation.pendingTask.title}: ${text}`
+        : text;
+}
@@ -0,0 +1,53 @@
+/**
+ * GitHub Service
+ *
+ * Client side of the read-only GitHub integration (Pro). GitHub is only
+ * called from the server - see githubServiceServer.ts.
+ */
+
+import { GitHubLink, GitHubRepo } from "@/types";
+import { apiPost } from "@/lib/apiClient";
+
+/**
+ * Connect a repository to a space, or disconnect it with null (owner only)
+ * @returns The connected repository
+ */
+export async function connectRepository(
+    userId: string,
+    spaceId: string,
+    repository: string | null
+): Promise<GitHubRepo | null> {
+    const data = await apiPost<{ githubRepo: GitHubRepo | null }>(
+        "/api/connect-github",
+        { userId, spaceId, repository },
+        { maxRetries: 1 }
+    );
+    return data.githubRepo;
+}
+
+/**
+ * Look up issues or PRs of the connected repository ("423", "PR #423", a URL).
+ * The caller saves them on the task.
+ */
+export async function resolveGitHubLinks(userId: string, spaceId: string, reference: string): Promise<GitHubLink[]> {
+    const data = await apiPost<{ links: GitHubLink[] }>(
+        "/api/link-github",
+        { userId, spaceId, reference },
+        { maxRetries: 1 }
+    );
+    return data.links;
+}
+
+/**
+ * Ask the server to refresh the linked issues and PRs of a space.
+ * Changes arrive through the task subscription.
+ * @returns Number of links whose state changed (0 if refreshed recently)
+ */
+export async function syncGitHubLinks(userId: string, spaceId: string): Promise<number> {
+    const data = await apiPost<{ changed: number }>(
+        "/api/sync-github",
+        { userId, spaceId },
+        { maxRetries: 0 }
+    );
+    return data.changed;
+}
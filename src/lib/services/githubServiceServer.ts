@@ -0,0 +1,225 @@
+/**
+ * GitHub Service (Server-Side)
+ *
+ * Read-only access to the GitHub REST API for spaces with a connected repository:
+ * resolving issue/PR mentions into task links and refreshing their state.
+ * GITHUB_API_URL points the client at a local mock of the API; GITHUB_TOKEN
+ * (optional) raises the rate limit. The token is shared by every user, so
+ * only public repositories can be connected - it must not expose what only
+ * the server's token can read.
+ * Uses Firebase Admin SDK - only use in API routes.
+ *
+ * Collection structure:
+ * - /spaces/{spaceId}                             (githubRepo)
+ * - /spaces/{spaceId}/tasks/{taskId}              (githubLinks)
+ * - /spaces/{spaceId}/tasks/{taskId}/updates/...  (state changes)
+ */
+
+import { FieldValue } from "firebase-admin/firestore";
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import { GitHubLink, GitHubRef, GitHubRepo, Task } from "@/types";
+import { describeLinkChange, isInRepository } from "@/lib/githubUtils";
+import { canPerformServer } from "@/lib/entitlementsServer";
+import { getSpaceForUser } from "@/lib/services/spaceServiceServer";
+
+const DEFAULT_API_URL = "https://api.github.com";
+
+// Linked items are refreshed at most this often per space
+export const SYNC_INTERVAL_MS = 5 * 60 * 1000;
+
+export class GitHubError extends Error {
+    constructor(
+        message: string,
+        public statusCode: number = 502
+    ) {
+        super(message);
+        this.name = "GitHubError";
+    }
+}
+
+// Fields of GET /repos/{owner}/{repo}/issues/{number} that links use
+interface GitHubIssueResponse {
+    number: number;
+    title: string;
+    html_url: string;
+    state: "open" | "closed";
+    updated_at: string;
+    pull_request?: { merged_at: string | null };
+}
+
+async function githubFetch<T>(path: string): Promise<T> {
+    const baseUrl = (process.env.GITHUB_API_URL || DEFAULT_API_URL).replace(/\/$/, "");
+    const headers: Record<string, string> = {
+        Accept: "application/vnd.github+json",
+        "X-GitHub-Api-Version": "2022-11-28",
+    };
+    if (process.env.GITHUB_TOKEN) {
+        headers.Authorization = `Bearer ${process.env.GITHUB_TOKEN}`;
+    }
+
+    let res: Response;
+    try {
+        res = await fetch(`${baseUrl}${path}`, { headers, cache: "no-store" });
+    } catch (error) {
+        console.error("[GitHub] Request failed:", error);
+        throw new GitHubError("Couldn't reach GitHub. Please try again.");
+    }
+
+    if (res.status === 404) {
+        throw new GitHubError("Not found on GitHub. Only public repositories can be connected.", 404);
+    }
+    if (!res.ok) {
+        console.error("[GitHub] Unexpected response:", res.status, path);
+        throw new GitHubError(res.status === 403 || res.status === 429
+            ? "GitHub rate limit reached. Please try again later."
+            : "GitHub returned an error. Please try again.");
+    }
+    return res.json() as Promise<T>;
+}
+
+function repoPath(repo: Pick<GitHubRepo, "owner" | "repo">): string {
+    return `/repos/${encodeURIComponent(repo.owner)}/${encodeURIComponent(repo.repo)}`;
+}
+
+function toLink(issue: GitHubIssueResponse): GitHubLink {
+    const isPull = !!issue.pull_request;
+    return {
+        kind: isPull ? "pull" : "issue",
+        number: issue.number,
+        title: issue.title,
+        url: issue.html_url,
+        state: isPull && issue.pull_request?.merged_at ? "merged" : issue.state,
+        updatedAt: Date.parse(issue.updated_at) || Date.now(),
+    };
+}
+
+/**
+ * Check a repository exists and is public
+ * @returns Owner and name as GitHub spells them
+ * @throws GitHubError if it doesn't exist or is private
+ */
+export async function getRepository(owner: string, repo: string): Promise<{ owner: string; repo: string }> {
+    const data = await githubFetch<{ name: string; owner: { login: string }; private: boolean }>(
+        repoPath({ owner, repo })
+    );
+    // GITHUB_TOKEN may read private repositories the user has no access to
+    if (data.private !== false) {
+        throw new GitHubError("Only public repositories can be connected.", 403);
+    }
+    return { owner: data.owner.login, repo: data.name };
+}
+
+/**
+ * Look up an issue or pull request (the issues endpoint returns both)
+ * @throws GitHubError if it doesn't exist
+ */
+export async function getGitHubLink(repo: Pick<GitHubRepo, "owner" | "repo">, number: number): Promise<GitHubLink> {
+    return toLink(await githubFetch<GitHubIssueResponse>(`${repoPath(repo)}/issues/${number}`));
+}
+
+/**
+ * Resolve mentions into links. Mentions of other repositories and numbers
+ * that don't exist are skipped.
+ */
+export async function resolveGitHubMentions(
+    repo: Pick<GitHubRepo, "owner" | "repo">,
+    refs: GitHubRef[]
+): Promise<GitHubLink[]> {
+    const links: GitHubLink[] = [];
+    for (const ref of refs.filter(r => isInRepository(r, repo))) {
+        try {
+            links.push(await getGitHubLink(repo, ref.number));
+        } catch (error) {
+            console.warn(`[GitHub] Skipping #${ref.number}:`, error instanceof Error ? error.message : error);
+        }
+    }
+    return links;
+}
+
+/**
+ * Refresh the state of every linked issue and PR in a space. A state change is
+ * written to the link and added to the task's timeline; the task itself is left
+ * for the user to complete.
+ * @returns Number of links whose state changed
+ */
+export async function syncGitHubLinks(spaceId: string, repo: GitHubRepo): Promise<number> {
+    const db = getAdminDb();
+    const spaceRef = db.collection("spaces").doc(spaceId);
+    const tasksSnap = await spaceRef.collection("tasks").get();
+    const linked = tasksSnap.docs
+        .map(d => ({ ...(d.data() as Omit<Task, "id">), id: d.id }))
+        .filter(task => !task.deletedAt && task.githubLinks?.length);
+
+    // Each issue or PR is fetched once, even if several tasks link it
+    const numbers = [...new Set(linked.flatMap(task => task.githubLinks!.map(link => link.number)))];
+    const latest = new Map<number, GitHubLink>();
+    for (const number of numbers) {
+        try {
+            latest.set(number, await getGitHubLink(repo, number));
+        } catch (error) {
+            console.warn(`[GitHub] Couldn't refresh #${number}:`, error instanceof Error ? error.message : error);
+        }
+    }
+
+    let changed = 0;
+    for (const task of linked) {
+        const taskRef = spaceRef.collection("tasks").doc(task.id);
+        changed += await db.runTransaction(async (tx) => {
+            // Re-read so links added or removed since the query aren't overwritten
+            const snap = await tx.get(taskRef);
+            const links = (snap.data()?.githubLinks || []) as GitHubLink[];
+            const now = Date.now();
+            const changes = links.filter(link => {
+                const current = latest.get(link.number);
+                return current && current.state !== link.state;
+            });
+            if (changes.length === 0) return 0;
+
+            tx.update(taskRef, {
+                githubLinks: links.map(link => latest.get(link.number) || link),
+                updatedAt: now,
+                updateCount: FieldValue.increment(changes.length),
+                syncVersion: FieldValue.increment(1),
+            });
+            for (const link of changes) {
+                const current = latest.get(link.number)!;
+                tx.set(taskRef.collection("updates").doc(), {
+                    timestamp: now,
+                    type: "field_update",
+                    content: describeLinkChange(current),
+                    field: "githubLinks",
+                    oldValue: link.state,
+                    newValue: current.state,
+                });
+            }
+            return changes.length;
+        });
+    }
+
+    await spaceRef.update({ "githubRepo.lastSyncedAt": Date.now() });
+    return changed;
+}
+
+/**
+ * Links for the mentions in a message, if the space has a connected repository
+ * and the user's plan includes the integration. Never throws - a message is
+ * handled the same without its links.
+ */
+export async function resolveSpaceMentions(
+    spaceId: string | undefined,
+    userId: string,
+    refs: GitHubRef[] | undefined
+): Promise<GitHubLink[]> {
+    if (!spaceId || !refs?.length) return [];
+
+    try {
+        const { space } = await getSpaceForUser(spaceId, userId);
+        if (!space.githubRepo) return [];
+        const entitlement = await canPerformServer(userId, "access_github_integration");
+        if (!entitlement.allowed) return [];
+        return await resolveGitHubMentions(space.githubRepo, refs);
+    } catch (error) {
+        console.error("[GitHub] Failed to resolve mentions:", error);
+        return [];
+    }
+}
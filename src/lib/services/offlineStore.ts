@@ -0,0 +1,246 @@
+/**
+ * Offline Store
+ *
+ * IndexedDB-backed storage that keeps a space usable without a connection:
+ * - The last synced task list of each space, shown while offline
+ * - Task changes made offline, applied optimistically and replayed in order
+ *   on reconnect, merged field by field with what changed on the server
+ * - Voice recordings made offline, transcribed once the connection returns
+ *
+ * Client only. Where IndexedDB isn't available (e.g. during server rendering)
+ * reads return nothing and queueing throws, so a change is never shown as saved
+ * when it can't be kept.
+ */
+
+import { QueuedMutation, QueuedVoiceRecording, SyncConflict, Task } from "@/types";
+import { createTask, deleteTask, getTaskFromServer, updateTask } from "@/lib/services/taskService";
+
+const DB_NAME = "smera-offline";
+const DB_VERSION = 1;
+const TASK_CACHE_STORE = "taskCache";
+const MUTATION_STORE = "mutations";
+const VOICE_STORE = "voiceRecordings";
+
+// ============================================
+// Database
+// ============================================
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function isAvailable(): boolean {
+    return typeof indexedDB !== "undefined";
+}
+
+function assertAvailable(): void {
+    if (!isAvailable()) {
+        throw new Error("Offline storage isn't available in this browser");
+    }
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                db.createObjectStore(TASK_CACHE_STORE, { keyPath: "spaceId" });
+                db.createObjectStore(MUTATION_STORE, { keyPath: "id", autoIncrement: true });
+                db.createObjectStore(VOICE_STORE, { keyPath: "id", autoIncrement: true });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+}
+
+/**
+ * Run a single request against an object store and resolve with its result
+ */
+async function runRequest<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    makeRequest: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const request = makeRequest(db.transaction(storeName, mode).objectStore(storeName));
+        request.onsuccess = () => resolve(request.result as T);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+// ============================================
+// Task Cache
+// ============================================
+
+/**
+ * Remember the last synced tasks of a space
+ */
+export async function cacheTasks(spaceId: string, tasks: Task[]): Promise<void> {
+    if (!isAvailable()) return;
+    await runRequest(TASK_CACHE_STORE, "readwrite", (store) =>
+        store.put({ spaceId, tasks, cachedAt: Date.now() })
+    );
+}
+
+/**
+ * Last synced tasks of a space, or null if it was never cached
+ */
+export async function getCachedTasks(spaceId: string): Promise<Task[] | null> {
+    if (!isAvailable()) return null;
+    const entry = await runRequest<{ tasks: Task[] } | undefined>(TASK_CACHE_STORE, "readonly", (store) =>
+        store.get(spaceId)
+    );
+    return entry?.tasks ?? null;
+}
+
+// ============================================
+// Mutation Queue
+// ============================================
+
+/**
+ * Queued changes of a space, oldest first
+ */
+export async function getQueuedMutations(spaceId: string): Promise<QueuedMutation[]> {
+    if (!isAvailable()) return [];
+    const all = await runRequest<QueuedMutation[]>(MUTATION_STORE, "readonly", (store) => store.getAll());
+    return all.filter(m => m.spaceId === spaceId).sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+}
+
+async function removeQueuedMutation(id: number): Promise<void> {
+    await runRequest(MUTATION_STORE, "readwrite", (store) => store.delete(id));
+}
+
+/**
+ * Queue a change made offline.
+ * Changes to a task that was itself created offline are folded into its queued create,
+ * so replaying doesn't report the task's own creation as a conflict.
+ * @returns The space's queue after the change
+ * @throws If IndexedDB isn't available - the change can't be kept
+ */
+export async function queueMutation(
+    mutation: Omit<QueuedMutation, "id" | "queuedAt">
+): Promise<QueuedMutation[]> {
+    assertAvailable();
+
+    const queue = await getQueuedMutations(mutation.spaceId);
+    const pendingCreate = queue.find(m => m.type === "create" && m.taskId === mutation.taskId);
+
+    if (pendingCreate?.task && mutation.type === "update") {
+        await runRequest(MUTATION_STORE, "readwrite", (store) =>
+            store.put({ ...pendingCreate, task: { ...pendingCreate.task, ...mutation.updates } })
+        );
+    } else if (pendingCreate && mutation.type === "delete") {
+        // Never reached the server - drop it entirely
+        for (const queued of queue.filter(m => m.taskId === mutation.taskId)) {
+            await removeQueuedMutation(queued.id!);
+        }
+    } else {
+        await runRequest(MUTATION_STORE, "readwrite", (store) =>
+            store.add({ ...mutation, queuedAt: Date.now() })
+        );
+    }
+
+    return getQueuedMutations(mutation.spaceId);
+}
+
+/**
+ * Replay a space's queued changes in order.
+ * An update with base values is merged field by field; only the fields that were
+ * also edited on the server are reported. A delete (or an update without base values)
+ * is a conflict when the task changed on the server after the change was made
+ * (its updatedAt moved past baseUpdatedAt) - the server version wins.
+ * Stops at the first network error and leaves the rest queued.
+ * @returns Changes that weren't applied
+ */
+export async function replayQueuedMutations(spaceId: string): Promise<SyncConflict[]> {
+    const conflicts: SyncConflict[] = [];
+    // Later changes to a task follow whatever happened to its earlier ones
+    const outcomes = new Map<string, "applied" | "conflict">();
+    const titles = new Map<string, string>();
+
+    for (const mutation of await getQueuedMutations(spaceId)) {
+        try {
+            if (mutation.type === "create" && mutation.task) {
+                // createTask stamps fresh createdAt/updatedAt; the ID was generated offline
+                await createTask(spaceId, mutation.task, mutation.taskId);
+                outcomes.set(mutation.taskId, "applied");
+            } else if (outcomes.get(mutation.taskId) === "conflict") {
+                conflicts.push({ mutation, taskTitle: titles.get(mutation.taskId) || "Task", reason: "changed" });
+            } else {
+                const serverTask = await getTaskFromServer(spaceId, mutation.taskId);
+                if (serverTask) titles.set(mutation.taskId, serverTask.title);
+                // Updates that carry their base values are merged field by field instead
+                const changedElsewhere = !!serverTask && outcomes.get(mutation.taskId) !== "applied" &&
+                    !mutation.baseValues && serverTask.updatedAt > (mutation.baseUpdatedAt ?? 0);
+
+                if (!serverTask || serverTask.deletedAt) {
+                    // Already trashed elsewhere - a queued delete has nothing left to do
+                    if (mutation.type !== "delete") {
+                        conflicts.push({ mutation, taskTitle: serverTask?.title || "Deleted task", reason: "deleted" });
+                    }
+                    outcomes.set(mutation.taskId, "conflict");
+                } else if (changedElsewhere) {
+                    conflicts.push({ mutation, taskTitle: serverTask.title, reason: "changed" });
+                    outcomes.set(mutation.taskId, "conflict");
+                } else if (mutation.type === "update" && mutation.updates) {
+                    const fieldConflicts = await updateTask(spaceId, mutation.taskId, mutation.updates, mutation.baseValues);
+                    if (fieldConflicts.length > 0) {
+                        conflicts.push({ mutation, taskTitle: serverTask.title, reason: "changed", fieldConflicts });
+                    }
+                    outcomes.set(mutation.taskId, "applied");
+                } else if (mutation.type === "delete") {
+                    await deleteTask(spaceId, mutation.taskId);
+                    outcomes.set(mutation.taskId, "applied");
+                }
+            }
+        } catch (error) {
+            if ((error as { code?: string }).code !== "permission-denied") {
+                console.error("Offline replay stopped:", error);
+                break;
+            }
+            conflicts.push({ mutation, taskTitle: mutation.task?.title || mutation.updates?.title || "Task", reason: "denied" });
+            outcomes.set(mutation.taskId, "conflict");
+        }
+
+        await removeQueuedMutation(mutation.id!);
+    }
+
+    return conflicts;
+}
+
+// ============================================
+// Voice Recordings
+// ============================================
+
+/**
+ * Keep a voice log recorded offline until it can be transcribed
+ * @throws If IndexedDB isn't available - the recording can't be kept
+ */
+export async function queueVoiceRecording(spaceId: string, blob: Blob, mimeType: string): Promise<void> {
+    assertAvailable();
+    await runRequest(VOICE_STORE, "readwrite", (store) =>
+        store.add({ spaceId, blob, mimeType, queuedAt: Date.now() })
+    );
+}
+
+/**
+ * Oldest queued voice recording of a space. It stays queued until
+ * removeQueuedVoiceRecording is called, so a failed transcription can be retried.
+ */
+export async function getQueuedVoiceRecording(spaceId: string): Promise<QueuedVoiceRecording | null> {
+    if (!isAvailable()) return null;
+    const all = await runRequest<QueuedVoiceRecording[]>(VOICE_STORE, "readonly", (store) => store.getAll());
+    return all.filter(r => r.spaceId === spaceId).sort((a, b) => (a.id ?? 0) - (b.id ?? 0))[0] ?? null;
+}
+
+/**
+ * Remove a queued voice recording once it has been transcribed
+ */
+export async function removeQueuedVoiceRecording(id: number): Promise<void> {
+    await runRequest(VOICE_STORE, "readwrite", (store) => store.delete(id));
+}
@@ -0,0 +1,276 @@
+/**
+ * Space Service
+ *
+ * Client-side space operations:
+ * - Listing the spaces a user owns or was invited to
+ * - Trash handling. Deleting a space from the home page only marks it with
+ *   deletedAt; it can be restored until it is purged (manually or once it
+ *   passes the plan's trash retention window).
+ * - Sharing. Membership changes go through API routes (see spaceServiceServer.ts).
+ * - Archiving. Archived spaces are read-only and don't count towards the plan's
+ *   space limit; spaces over the limit are archived when Pro ends. Archiving
+ *   goes through /api/archive-space, which checks the limit.
+ *
+ * Collection structure: /spaces/{spaceId}, /invitations/{invitationId}
+ */
+
+import {
+    collection,
+    doc,
+    getDocs,
+    addDoc,
+    updateDoc,
+    deleteDoc,
+    deleteField,
+    writeBatch,
+    onSnapshot,
+    query,
+    where,
+    Unsubscribe,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { apiPost } from "@/lib/apiClient";
+import { normalizeEmail } from "@/lib/memberUtils";
+import { deleteTaskTimeline } from "@/lib/services/taskService";
+import { Space, SpaceInvitation, SpaceMember } from "@/types";
+
+// Firestore batches are limited to 500 writes
+const BATCH_LIMIT = 500;
+
+// ============================================
+// Spaces
+// ============================================
+
+/**
+ * Subscribe to the spaces a user owns or is a member of (including trashed ones).
+ * Spaces created before sharing have no memberIds, so owned spaces are queried separately.
+ * Returns an unsubscribe function
+ */
+export function subscribeToSpaces(
+    userId: string,
+    onSpaces: (spaces: Space[]) => void,
+    onError?: (error: Error) => void
+): Unsubscribe {
+    let owned: Space[] = [];
+    let shared: Space[] = [];
+    const emit = () => {
+        const byId = new Map([...shared, ...owned].map(space => [space.id, space]));
+        // Client-side sort avoids requiring a composite index
+        onSpaces([...byId.values()].sort((a, b) => (b.createdAt || 0) - (a.createdAt || 0)));
+    };
+    const toSpaces = (docs: { id: string; data: () => unknown }[]) =>
+        docs.map(d => ({ ...(d.data() as Omit<Space, "id">), id: d.id }));
+
+    const unsubscribeOwned = onSnapshot(
+        query(collection(db, "spaces"), where("ownerId", "==", userId)),
+        (snapshot) => {
+            owned = toSpaces(snapshot.docs);
+            emit();
+        },
+        (error) => onError?.(error)
+    );
+    const unsubscribeShared = onSnapshot(
+        query(collection(db, "spaces"), where("memberIds", "array-contains", userId)),
+        (snapshot) => {
+            shared = toSpaces(snapshot.docs);
+            emit();
+        },
+        (error) => onError?.(error)
+    );
+
+    return () => {
+        unsubscribeOwned();
+        unsubscribeShared();
+    };
+}
+
+/**
+ * Create a space owned by the user
+ */
+export async function createSpace(
+    owner: { uid: string; email: string | null; displayName: string | null },
+    name: string
+): Promise<string> {
+    const now = Date.now();
+    const ownerMember: SpaceMember = {
+        userId: owner.uid,
+        email: owner.email ? normalizeEmail(owner.email) : "",
+        role: "owner",
+        joinedAt: now,
+        ...(owner.displayName ? { displayName: owner.displayName } : {}),
+    };
+
+    const docRef = await addDoc(collection(db, "spaces"), {
+        name,
+        theme: "blue",
+        ownerId: owner.uid,
+        members: { [owner.uid]: ownerMember },
+        memberIds: [owner.uid],
+        createdAt: now,
+    });
+    return docRef.id;
+}
+
+// ============================================
+// Trash
+// ============================================
+
+/**
+ * Move a space (and implicitly its tasks) to the trash.
+ * Clearing memberIds takes it away from collaborators; members keeps their roles for a restore.
+ */
+export async function trashSpace(spaceId: string): Promise<void> {
+    await updateDoc(doc(db, "spaces", spaceId), { deletedAt: Date.now(), memberIds: [] });
+}
+
+/**
+ * Take a space out of the trash, giving collaborators their access back
+ */
+export async function restoreSpace(space: Space): Promise<void> {
+    await updateDoc(doc(db, "spaces", space.id), {
+        deletedAt: deleteField(),
+        ...(space.members ? { memberIds: Object.keys(space.members) } : {}),
+    });
+}
+
+/**
+ * Permanently delete a space together with its tasks and their timelines.
+ * Clarification conversations are server-only and are left for their TTL.
+ */
+export async function purgeSpace(spaceId: string): Promise<void> {
+    const tasksSnap = await getDocs(collection(db, "spaces", spaceId, "tasks"));
+
+    for (const taskDoc of tasksSnap.docs) {
+        await deleteTaskTimeline(spaceId, taskDoc.id);
+    }
+
+    for (let i = 0; i < tasksSnap.docs.length; i += BATCH_LIMIT) {
+        const batch = writeBatch(db);
+        for (const taskDoc of tasksSnap.docs.slice(i, i + BATCH_LIMIT)) {
+            batch.delete(taskDoc.ref);
+        }
+        await batch.commit();
+    }
+
+    await deleteDoc(doc(db, "spaces", spaceId));
+}
+
+// ============================================
+// Archiving
+// ============================================
+
+/**
+ * Archive a space (owner only) - read-only until it's unarchived
+ */
+export async function archiveSpace(userId: string, spaceId: string): Promise<void> {
+    await apiPost("/api/archive-space", { userId, action: "archive", spaceId }, { maxRetries: 1 });
+}
+
+/**
+ * Make an archived space editable again - fails when the plan's space limit is reached
+ */
+export async function unarchiveSpace(userId: string, spaceId: string): Promise<void> {
+    await apiPost("/api/archive-space", { userId, action: "unarchive", spaceId }, { maxRetries: 1 });
+}
+
+/**
+ * Choose which spaces stay editable on the Free plan - the user's other spaces are archived
+ */
+export async function keepSpaces(userId: string, spaceIds: string[]): Promise<void> {
+    await apiPost("/api/archive-space", { userId, action: "keep", spaceIds }, { maxRetries: 1 });
+}
+
+// ============================================
+// Sharing
+// ============================================
+
+/**
+ * Subscribe to pending invitations sent to an email
+ */
+export function subscribeToInvitations(
+    email: string,
+    onInvitations: (invitations: SpaceInvitation[]) => void
+): Unsubscribe {
+    return onSnapshot(
+        query(
+            collection(db, "invitations"),
+            where("email", "==", normalizeEmail(email)),
+            where("status", "==", "pending")
+        ),
+        (snapshot) => {
+            onInvitations(snapshot.docs.map(d => ({ ...(d.data() as Omit<SpaceInvitation, "id">), id: d.id })));
+        },
+        (error) => console.error("Invitation subscription error:", error)
+    );
+}
+
+/**
+ * Subscribe to the pending invitations the owner sent for a space
+ */
+export function subscribeToSpaceInvitations(
+    spaceId: string,
+    ownerId: string,
+    onInvitations: (invitations: SpaceInvitation[]) => void
+): Unsubscribe {
+    return onSnapshot(
+        query(
+            collection(db, "invitations"),
+            where("spaceId", "==", spaceId),
+            where("invitedBy", "==", ownerId),
+            where("status", "==", "pending")
+        ),
+        (snapshot) => {
+            onInvitations(snapshot.docs.map(d => ({ ...(d.data() as Omit<SpaceInvitation, "id">), id: d.id })));
+        },
+        (error) => console.error("Space invitation subscription error:", error)
+    );
+}
+
+/**
+ * Invite someone to a space (owner only)
+ */
+export async function inviteMember(
+    userId: string,
+    spaceId: string,
+    email: string,
+    role: SpaceInvitation["role"]
+): Promise<SpaceInvitation> {
+    const data = await apiPost<{ invitation: SpaceInvitation }>(
+        "/api/invite-member",
+        { userId, spaceId, email, role },
+        { maxRetries: 1 }
+    );
+    return data.invitation;
+}
+
+/**
+ * Accept or decline an invitation
+ * @returns The space ID
+ */
+export async function respondToInvitation(userId: string, invitationId: string, accept: boolean): Promise<string> {
+    const data = await apiPost<{ spaceId: string }>(
+        "/api/respond-invitation",
+        { userId, invitationId, accept },
+        { maxRetries: 1 }
+    );
+    return data.spaceId;
+}
+
+/**
+ * Withdraw a pending invitation (owner only)
+ */
+export async function revokeInvitation(userId: string, invitationId: string): Promise<void> {
+    await apiPost("/api/revoke-invitation", { userId, invitationId }, { maxRetries: 1 });
+}
+
+/**
+ * Change a member's role, or remove them (removing yourself leaves the space)
+ */
+export async function updateMember(
+    userId: string,
+    spaceId: string,
+    memberId: string,
+    change: { role: SpaceInvitation["role"] } | { remove: true }
+): Promise<void> {
+    await apiPost("/api/update-member", { userId, spaceId, memberId, ...change }, { maxRetries: 1 });
+}
@@ -0,0 +1,372 @@
+/**
+ * Space Service (Server-Side)
+ *
+ * Membership and invitations for shared spaces. Membership changes go through
+ * API routes so an invitation can't be forged into access. Archiving too, so
+ * unarchiving can't get around the plan's space limit.
+ * Uses Firebase Admin SDK - only use in API routes.
+ *
+ * Collection structure:
+ * - /spaces/{spaceId}             (members, memberIds, archivedAt)
+ * - /invitations/{invitationId}
+ */
+
+import { FieldValue } from "firebase-admin/firestore";
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import { VerifiedUser } from "@/lib/auth/verifyToken";
+import { Space, SpaceInvitation, SpaceMember, SpaceRole } from "@/types";
+import { getSpaceMembers, getSpaceRole, normalizeEmail } from "@/lib/memberUtils";
+import { getSpacesCountingTowardsLimit } from "@/lib/spaceLimitUtils";
+import { canCreateSpaceServer, getOwnedSpacesServer, getPlanLimits, getUserPlanServer } from "@/lib/entitlementsServer";
+
+// Firestore batches are limited to 500 writes
+const BATCH_LIMIT = 500;
+
+export class SpaceAccessError extends Error {
+    constructor(
+        message: string,
+        public statusCode: number = 403
+    ) {
+        super(message);
+        this.name = "SpaceAccessError";
+    }
+}
+
+function getSpaceRef(spaceId: string) {
+    return getAdminDb().collection("spaces").doc(spaceId);
+}
+
+function getInvitationsCollection() {
+    return getAdminDb().collection("invitations");
+}
+
+/**
+ * Load a space the user can access
+ * @throws SpaceAccessError if the space is missing, trashed or not shared with the user
+ */
+export async function getSpaceForUser(
+    spaceId: string,
+    userId: string
+): Promise<{ space: Space; role: SpaceRole }> {
+    const snap = await getSpaceRef(spaceId).get();
+    if (!snap.exists) {
+        throw new SpaceAccessError("Space not found", 404);
+    }
+
+    const space = { ...(snap.data() as Omit<Space, "id">), id: snap.id };
+    const role = getSpaceRole(space, userId);
+    if (!role || (space.deletedAt && role !== "owner")) {
+        throw new SpaceAccessError("You don't have access to this space", 403);
+    }
+
+    return { space, role };
+}
+
+/**
+ * Members of a space, for resolving assignees in the agents.
+ * Returns an empty list if the space is missing or the user has no access to it.
+ */
+export async function getSpaceMembersServer(spaceId: string, userId: string): Promise<SpaceMember[]> {
+    try {
+        const { space } = await getSpaceForUser(spaceId, userId);
+        return getSpaceMembers(space);
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Spaces the user owns or was invited to, without trashed ones
+ */
+export async function getSpacesForUser(userId: string): Promise<Space[]> {
+    const spaces = getAdminDb().collection("spaces");
+    const [owned, shared] = await Promise.all([
+        spaces.where("ownerId", "==", userId).get(),
+        spaces.where("memberIds", "array-contains", userId).get(),
+    ]);
+
+    const byId = new Map<string, Space>();
+    for (const snap of [...owned.docs, ...shared.docs]) {
+        byId.set(snap.id, { ...(snap.data() as Omit<Space, "id">), id: snap.id });
+    }
+    return [...byId.values()].filter(space => !space.deletedAt);
+}
+
+/**
+ * Spaces created before sharing have no members map, and their tasks have no
+ * deletedAt field (collaborators only query deletedAt == null). Fill both in.
+ */
+async function prepareSpaceForSharing(space: Space, owner: VerifiedUser): Promise<void> {
+    if (!space.members?.[space.ownerId]) {
+        const ownerMember: SpaceMember = {
+            userId: space.ownerId,
+            email: owner.email ? normalizeEmail(owner.email) : "",
+            role: "owner",
+            joinedAt: space.createdAt || Date.now(),
+            ...(owner.name ? { displayName: owner.name } : {}),
+        };
+        await getSpaceRef(space.id).update({
+            [`members.${space.ownerId}`]: ownerMember,
+            memberIds: FieldValue.arrayUnion(space.ownerId),
+        });
+    }
+
+    const tasksSnap = await getSpaceRef(space.id).collection("tasks").get();
+    const legacy = tasksSnap.docs.filter(d => d.data().deletedAt === undefined);
+    for (let i = 0; i < legacy.length; i += BATCH_LIMIT) {
+        const batch = getAdminDb().batch();
+        for (const taskDoc of legacy.slice(i, i + BATCH_LIMIT)) {
+            batch.update(taskDoc.ref, { deletedAt: null });
+        }
+        await batch.commit();
+    }
+}
+
+/**
+ * Invite someone to a space by email (owner only)
+ * @returns The new invitation
+ */
+export async function inviteMember(params: {
+    spaceId: string;
+    owner: VerifiedUser;
+    email: string;
+    role: SpaceInvitation["role"];
+}): Promise<SpaceInvitation> {
+    const { spaceId, owner, role } = params;
+    const email = normalizeEmail(params.email);
+
+    const { space, role: ownerRole } = await getSpaceForUser(spaceId, owner.uid);
+    if (ownerRole !== "owner") {
+        throw new SpaceAccessError("Only the space owner can invite members", 403);
+    }
+    if (owner.email && normalizeEmail(owner.email) === email) {
+        throw new SpaceAccessError("You already own this space", 400);
+    }
+    if (getSpaceMembers(space).some(m => m.email === email)) {
+        throw new SpaceAccessError("This person is already a member", 409);
+    }
+
+    const pending = await getInvitationsCollection()
+        .where("spaceId", "==", spaceId)
+        .where("email", "==", email)
+        .where("status", "==", "pending")
+        .get();
+    if (!pending.empty) {
+        throw new SpaceAccessError("An invitation is already pending for this email", 409);
+    }
+
+    await prepareSpaceForSharing(space, owner);
+
+    const docRef = getInvitationsCollection().doc();
+    const invitation: Omit<SpaceInvitation, "id"> = {
+        spaceId,
+        spaceName: space.name,
+        email,
+        role,
+        invitedBy: owner.uid,
+        status: "pending",
+        createdAt: Date.now(),
+        ...(owner.name ? { invitedByName: owner.name } : {}),
+    };
+    await docRef.set(invitation);
+
+    return { ...invitation, id: docRef.id };
+}
+
+/**
+ * Accept or decline an invitation addressed to the user's email
+ * @returns The space ID
+ */
+export async function respondToInvitation(params: {
+    invitationId: string;
+    user: VerifiedUser;
+    accept: boolean;
+}): Promise<string> {
+    const { invitationId, user, accept } = params;
+    const invitationRef = getInvitationsCollection().doc(invitationId);
+
+    return getAdminDb().runTransaction(async (tx) => {
+        const snap = await tx.get(invitationRef);
+        if (!snap.exists) {
+            throw new SpaceAccessError("Invitation not found", 404);
+        }
+
+        const invitation = snap.data() as Omit<SpaceInvitation, "id">;
+        if (!user.email || normalizeEmail(user.email) !== invitation.email) {
+            throw new SpaceAccessError("This invitation was sent to a different email", 403);
+        }
+        // Anyone can sign up with an address they don't own - only a verified one proves it
+        if (!user.emailVerified) {
+            throw new SpaceAccessError("Verify your email address to respond to this invitation", 403);
+        }
+        if (invitation.status !== "pending") {
+            throw new SpaceAccessError("This invitation is no longer valid", 410);
+        }
+
+        const spaceRef = getSpaceRef(invitation.spaceId);
+        const spaceSnap = await tx.get(spaceRef);
+        if (!spaceSnap.exists || spaceSnap.data()?.deletedAt) {
+            throw new SpaceAccessError("This space no longer exists", 410);
+        }
+
+        const now = Date.now();
+        tx.update(invitationRef, { status: accept ? "accepted" : "declined", respondedAt: now });
+
+        if (accept) {
+            const member: SpaceMember = {
+                userId: user.uid,
+                email: invitation.email,
+                role: invitation.role,
+                joinedAt: now,
+                ...(user.name ? { displayName: user.name } : {}),
+            };
+            tx.update(spaceRef, {
+                [`members.${user.uid}`]: member,
+                memberIds: FieldValue.arrayUnion(user.uid),
+            });
+        }
+
+        return invitation.spaceId;
+    });
+}
+
+/**
+ * Withdraw a pending invitation (owner only)
+ */
+export async function revokeInvitation(invitationId: string, ownerId: string): Promise<void> {
+    const invitationRef = getInvitationsCollection().doc(invitationId);
+    const snap = await invitationRef.get();
+    if (!snap.exists) {
+        throw new SpaceAccessError("Invitation not found", 404);
+    }
+
+    const invitation = snap.data() as Omit<SpaceInvitation, "id">;
+    const { role } = await getSpaceForUser(invitation.spaceId, ownerId);
+    if (role !== "owner") {
+        throw new SpaceAccessError("Only the space owner can revoke invitations", 403);
+    }
+    if (invitation.status !== "pending") return;
+
+    await invitationRef.update({ status: "revoked", respondedAt: Date.now() });
+}
+
+/**
+ * Change a member's role or remove them. The owner manages everyone else;
+ * any member can remove themselves (leave the space).
+ */
+export async function updateMember(params: {
+    spaceId: string;
+    actorId: string;
+    memberId: string;
+    role?: SpaceInvitation["role"];
+    remove?: boolean;
+}): Promise<void> {
+    const { spaceId, actorId, memberId, role, remove } = params;
+    const { space, role: actorRole } = await getSpaceForUser(spaceId, actorId);
+
+    if (memberId === space.ownerId) {
+        throw new SpaceAccessError("The owner's role can't be changed", 400);
+    }
+    if (!space.members?.[memberId]) {
+        throw new SpaceAccessError("Member not found", 404);
+    }
+
+    const leaving = remove && memberId === actorId;
+    if (actorRole !== "owner" && !leaving) {
+        throw new SpaceAccessError("Only the space owner can manage members", 403);
+    }
+
+    if (remove) {
+        await getSpaceRef(spaceId).update({
+            [`members.${memberId}`]: FieldValue.delete(),
+            memberIds: FieldValue.arrayRemove(memberId),
+        });
+        return;
+    }
+
+    if (role) {
+        await getSpaceRef(spaceId).update({ [`members.${memberId}.role`]: role });
+    }
+}
+
+// ============================================
+// Archiving
+// ============================================
+
+async function getOwnedSpace(spaceId: string, ownerId: string): Promise<Space> {
+    const { space, role } = await getSpaceForUser(spaceId, ownerId);
+    if (role !== "owner") {
+        throw new SpaceAccessError("Only the space owner can archive it", 403);
+    }
+    if (space.deletedAt) {
+        throw new SpaceAccessError("Restore the space from the trash first", 400);
+    }
+    return space;
+}
+
+/**
+ * Archive a space (owner only) - it becomes read-only for everyone and stops
+ * counting towards the owner's space limit
+ */
+export async function archiveSpace(spaceId: string, ownerId: string): Promise<void> {
+    const space = await getOwnedSpace(spaceId, ownerId);
+    if (space.archivedAt) return;
+
+    await getSpaceRef(spaceId).update({ archivedAt: Date.now(), archivedReason: "owner" });
+}
+
+/**
+ * Make an archived space editable again (owner only), if the plan has room for it
+ */
+export async function unarchiveSpace(spaceId: string, ownerId: string): Promise<void> {
+    const space = await getOwnedSpace(spaceId, ownerId);
+    if (!space.archivedAt) return;
+
+    const active = getSpacesCountingTowardsLimit(await getOwnedSpacesServer(ownerId), ownerId);
+    const entitlement = await canCreateSpaceServer(ownerId, active.length);
+    if (!entitlement.allowed) {
+        throw new SpaceAccessError(entitlement.reason || "Space limit reached", 403);
+    }
+
+    await getSpaceRef(spaceId).update({
+        archivedAt: FieldValue.delete(),
+        archivedReason: FieldValue.delete(),
+    });
+}
+
+/**
+ * Choose which spaces stay editable on a plan with a space limit (owner only).
+ * The chosen spaces become active and the owner's other spaces are archived
+ * until they upgrade.
+ * @param spaceIds - Spaces to keep, at most the plan's limit
+ */
+export async function keepSpaces(ownerId: string, spaceIds: string[]): Promise<void> {
+    const { maxSpaces } = getPlanLimits((await getUserPlanServer(ownerId)).tier);
+    if (maxSpaces === null) {
+        throw new SpaceAccessError("Your plan has no space limit", 400);
+    }
+    if (spaceIds.length > maxSpaces) {
+        throw new SpaceAccessError(`Your plan includes ${maxSpaces} active spaces - choose up to ${maxSpaces}`, 400);
+    }
+
+    const spaces = await getOwnedSpacesServer(ownerId);
+    if (spaceIds.some(id => !spaces.some(space => space.id === id))) {
+        throw new SpaceAccessError("You can only keep your own spaces", 403);
+    }
+
+    const db = getAdminDb();
+    const batch = db.batch();
+    const now = Date.now();
+    for (const space of spaces) {
+        const keep = spaceIds.includes(space.id);
+        if (keep && space.archivedAt) {
+            batch.update(getSpaceRef(space.id), {
+                archivedAt: FieldValue.delete(),
+                archivedReason: FieldValue.delete(),
+            });
+        } else if (!keep && !space.archivedAt) {
+            batch.update(getSpaceRef(space.id), { archivedAt: now, archivedReason: "plan_limit" });
+        }
+    }
+    await batch.commit();
+}
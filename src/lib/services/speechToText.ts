@@ -5,7 +5,8 @@
  * Uses Web Speech API with Gemini fallback for processing.
  */
 
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import { getGeminiModel } from "@/lib/gemini";
+import { parseTaskActions, TaskAction } from "@/lib/agents/actionParser";
 
 export interface TranscriptionResult {
     transcript: string;
@@ -26,13 +27,7 @@ export async function transcribeWithGemini(
     audioBase64: string,
     mimeType: string
 ): Promise<TranscriptionResult> {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-        throw new Error("GEMINI_API_KEY is not configured");
-    }
-    
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash" });
+    const model = getGeminiModel("transcription");
     
     // Prepare audio part
     const audioPart = {
@@ -80,139 +75,16 @@ Do not add any commentary, timestamps, or speaker labels.`;
 
 /**
  * Parse a voice log transcript into structured actions
- * This uses Gemini to understand natural language voice commands
+ * Shares the multi-action parser with typed input in /api/parse-task
  */
 export async function parseVoiceLogActions(
     transcript: string,
-    existingTasks: { id: string; title: string; status: string }[]
+    existingTasks: { id: string; title: string; status: string; tags?: string[] }[]
 ): Promise<VoiceLogAction[]> {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-        console.error("[Voice Log] GEMINI_API_KEY is not configured");
-        throw new Error("GEMINI_API_KEY is not configured");
-    }
-    
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash" });
-    
-    const taskList = existingTasks.length > 0 
-        ? existingTasks.map(t => `- "${t.title}" (ID: ${t.id}, Status: ${t.status})`).join("\n")
-        : "No existing tasks in this space yet.";
-    
-    const prompt = `You are an AI assistant parsing voice commands for a task management app called Smera.
-
-USER'S VOICE INPUT: "${transcript}"
-
-EXISTING TASKS IN THIS SPACE:
-${taskList}
-
-YOUR JOB: Convert the user's voice input into separate, individual actions.
-
-ACTION TYPES:
-1. **CREATE** - User mentions NEW work they need to do. DEFAULT ACTION for any task/work mentioned.
-2. **UPDATE** - ONLY when user explicitly references an existing task BY NAME to modify it
-3. **COMPLETE** - ONLY when user explicitly says an existing task BY NAME is done/finished
-
-⚠️ CRITICAL RULES - READ CAREFULLY:
-
-1. **EACH distinct piece of work = ONE CREATE action.** If user mentions multiple things, create MULTIPLE actions.
-   Example: "I need to fix the login bug and also review the PR" → TWO CREATE actions
-
-2. **CREATE is the default.** If user says:
-   - "I need to...", "I have to...", "Create a task for...", "Add...", "Make a task..."
-   - Describes ANY work that needs doing
-   → Always CREATE a new task
-
-3. **UPDATE/COMPLETE only for EXPLICIT references:**
-   - User must mention an existing task by its exact or very similar name
-   - "Mark the database migration as done" → COMPLETE (if "database migration" task exists)
-   - "Set the auth task to high priority" → UPDATE (if "auth" task exists)
-
-4. **NEVER merge unrelated tasks.** Two separate topics = two separate CREATE actions.
-
-5. **Do NOT assume user wants to update.** A new description of work is ALWAYS a new task, even if vaguely related to existing tasks.
-
-OUTPUT RULES:
-- "high priority", "urgent", "important", "priority", "tonight", "today" → priority: "high"
-- "low priority" → priority: "low"  
-- Default priority is "medium"
-- For dates: "tomorrow" = ${new Date(Date.now() + 86400000).toISOString().split("T")[0]}, "tonight"/"today" = ${new Date().toISOString().split("T")[0]}
-
-OUTPUT FORMAT (JSON only, no markdown):
-{
-  "actions": [
-    {
-      "type": "CREATE",
-      "task": {
-        "title": "Clear, concise task title",
-        "description": "Brief description if user provided context",
-        "dueDate": null,
-        "priority": "medium"
-      }
-    }
-  ]
-}
-
-For UPDATE/COMPLETE, include taskId from the existing tasks list:
-{
-  "actions": [
-    {
-      "type": "COMPLETE",
-      "taskId": "the-task-id-from-list-above"
-    }
-  ]
-}
-
-Return ONLY valid JSON:`;
-
-    try {
-        console.log("[Voice Log] Sending to Gemini for action parsing...");
-        const result = await model.generateContent(prompt);
-        const response = await result.response;
-        let text = response.text().trim();
-        
-        console.log("[Voice Log] Raw Gemini response:", text);
-        
-        // Remove markdown code blocks if present
-        text = text.replace(/```json\n?/gi, "").replace(/```\n?/g, "").trim();
-        
-        // Try to find JSON in the response if it's wrapped in other text
-        const jsonMatch = text.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-            text = jsonMatch[0];
-        }
-        
-        console.log("[Voice Log] Cleaned JSON:", text);
-        
-        const parsed = JSON.parse(text);
-        const actions = parsed.actions || [];
-        
-        console.log("[Voice Log] Parsed actions count:", actions.length);
-        
-        return actions;
-    } catch (error) {
-        console.error("[Voice Log] Failed to parse voice log:", error);
-        console.error("[Voice Log] This may indicate a JSON parsing issue or API error");
-        // Return empty array but log the error for debugging
-        return [];
-    }
+    return parseTaskActions(transcript, existingTasks, "voice");
 }
 
 /**
  * Supported action types from voice logs
  */
-export interface VoiceLogAction {
-    type: "CREATE" | "UPDATE" | "COMPLETE";
-    task?: {
-        title: string;
-        description?: string;
-        dueDate?: string | null;
-        priority?: "low" | "medium" | "high";
-    };
-    taskId?: string;
-    updates?: {
-        status?: "todo" | "in-progress" | "done";
-        priority?: "low" | "medium" | "high";
-        note?: string;
-    };
-}
+export type VoiceLogAction = TaskAction;
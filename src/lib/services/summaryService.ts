@@ -0,0 +1,60 @@
+/**
+ * Summary Service
+ *
+ * Fetches the daily plan from /api/daily-summary (Pro only) and caches it
+ * in localStorage for the rest of the day.
+ */
+
+import { DailySummary } from "@/types";
+import { apiPost } from "@/lib/apiClient";
+
+function getCacheKey(userId: string, date: string): string {
+    return `daily_summary_${userId}_${date}`;
+}
+
+/**
+ * Today's date (YYYY-MM-DD) in the browser's timezone
+ */
+export function getLocalDate(): string {
+    const now = new Date();
+    const month = String(now.getMonth() + 1).padStart(2, "0");
+    const day = String(now.getDate()).padStart(2, "0");
+    return `${now.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Today's plan if it was already fetched on this device
+ */
+export function getCachedDailySummary(userId: string): DailySummary | null {
+    try {
+        const stored = localStorage.getItem(getCacheKey(userId, getLocalDate()));
+        return stored ? (JSON.parse(stored) as DailySummary) : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Build today's plan across all of the user's spaces.
+ * Replaces any cached plan, and drops the ones from earlier days.
+ */
+export async function getDailySummary(userId: string): Promise<DailySummary> {
+    const today = getLocalDate();
+    const data = await apiPost<{ summary: DailySummary }>(
+        "/api/daily-summary",
+        { userId, today },
+        { maxRetries: 1 }
+    );
+
+    try {
+        const prefix = `daily_summary_${userId}_`;
+        Object.keys(localStorage)
+            .filter(key => key.startsWith(prefix))
+            .forEach(key => localStorage.removeItem(key));
+        localStorage.setItem(getCacheKey(userId, today), JSON.stringify(data.summary));
+    } catch (error) {
+        console.warn("Failed to cache daily summary:", error);
+    }
+
+    return data.summary;
+}
@@ -2,28 +2,42 @@
  * Task Service
  * 
  * Handles all task CRUD operations with Firestore.
- * Tasks are stored as subcollections under spaces.
+ * Tasks are stored as subcollections under spaces, and each task's activity
+ * timeline as a subcollection under the task, so task snapshots stay small and
+ * the timeline can be loaded page by page.
  * 
- * Collection structure: /spaces/{spaceId}/tasks/{taskId}
+ * Collection structure: /spaces/{spaceId}/tasks/{taskId}/updates/{updateId}
  */
 
 import {
     collection,
     doc,
-    addDoc,
     updateDoc,
-    deleteDoc,
+    deleteField,
     getDocs,
     getDoc,
+    getDocFromServer,
     onSnapshot,
     query,
+    where,
     orderBy,
+    documentId,
+    limit,
+    startAfter,
     writeBatch,
+    arrayUnion,
+    arrayRemove,
+    increment,
+    runTransaction,
     Timestamp,
+    Transaction,
     Unsubscribe,
 } from "firebase/firestore";
-import { db } from "@/lib/firebase";
-import { Task, TaskUpdate } from "@/types";
+import { auth, db } from "@/lib/firebase";
+import { ChecklistItem, FieldConflict, GitHubLink, RecurrenceRule, Task, TaskUpdate } from "@/types";
+import { cleanRecurrence, describeRecurrence, getNextOccurrenceDate } from "@/lib/recurrenceUtils";
+import { findFieldConflicts } from "@/lib/conflictUtils";
+import { getLocalDate } from "@/lib/services/summaryService";
 
 // ============================================
 // Type Definitions
@@ -35,8 +49,12 @@ export interface TaskServiceError {
 }
 
 export type TaskChangeCallback = (tasks: Task[]) => void;
+export type TimelineChangeCallback = (updates: TaskUpdate[]) => void;
 export type TaskErrorCallback = (error: TaskServiceError) => void;
 
+// Firestore batches are limited to 500 writes
+const BATCH_LIMIT = 500;
+
 // ============================================
 // Helper Functions
 // ============================================
@@ -55,6 +73,45 @@ function getTaskDoc(spaceId: string, taskId: string) {
     return doc(db, "spaces", spaceId, "tasks", taskId);
 }
 
+/**
+ * Get the timeline collection reference for a task
+ */
+function getTimelineCollection(spaceId: string, taskId: string) {
+    return collection(db, "spaces", spaceId, "tasks", taskId, "updates");
+}
+
+/**
+ * Convert a timeline entry to Firestore data - its ID is the document ID
+ */
+function updateToDoc(update: Omit<TaskUpdate, "id">): Record<string, unknown> {
+    const doc: Record<string, unknown> = {
+        timestamp: update.timestamp,
+        type: update.type,
+        content: update.content,
+    };
+    
+    if (update.field !== undefined) doc.field = update.field;
+    if (update.oldValue !== undefined) doc.oldValue = update.oldValue;
+    if (update.newValue !== undefined) doc.newValue = update.newValue;
+    
+    return doc;
+}
+
+/**
+ * Convert Firestore timeline document to TaskUpdate object
+ */
+function docToUpdate(docId: string, data: Record<string, unknown>): TaskUpdate {
+    return {
+        id: docId,
+        timestamp: data.timestamp as number,
+        type: data.type as TaskUpdate["type"],
+        content: data.content as string,
+        field: data.field as string | undefined,
+        oldValue: data.oldValue as string | undefined,
+        newValue: data.newValue as string | undefined,
+    };
+}
+
 /**
  * Convert Firestore document to Task object
  */
@@ -67,11 +124,24 @@ function docToTask(docId: string, data: Record<string, unknown>): Task {
         dueDate: data.dueDate as string | null | undefined,
         dueTime: data.dueTime as string | undefined,
         priority: data.priority as "low" | "medium" | "high" | undefined,
-        status: data.status as "todo" | "in-progress" | "done",
+        status: data.status as "todo" | "in-progress" | "blocked" | "done",
         createdAt: data.createdAt as number,
         updatedAt: data.updatedAt as number,
-        updates: (data.updates as TaskUpdate[]) || [],
+        updates: data.updates as TaskUpdate[] | undefined, // Only until migrateTaskTimeline runs
+        updateCount: data.updateCount as number | undefined,
         suggestedImprovements: data.suggestedImprovements as string[] | undefined,
+        tags: data.tags as string[] | undefined,
+        checklist: data.checklist as ChecklistItem[] | undefined,
+        blockedBy: data.blockedBy as string[] | undefined,
+        blocks: data.blocks as string[] | undefined,
+        recurrence: data.recurrence as RecurrenceRule | undefined,
+        previousOccurrenceId: data.previousOccurrenceId as string | undefined,
+        nextOccurrenceId: data.nextOccurrenceId as string | undefined,
+        deletedAt: data.deletedAt as number | null | undefined,
+        deletedBy: data.deletedBy as string | undefined,
+        assigneeId: data.assigneeId as string | null | undefined,
+        syncVersion: data.syncVersion as number | undefined,
+        githubLinks: data.githubLinks as GitHubLink[] | undefined,
     };
 }
 
@@ -91,7 +161,19 @@ function taskToDoc(task: Partial<Task>): Record<string, unknown> {
     if (task.createdAt !== undefined) doc.createdAt = task.createdAt;
     if (task.updatedAt !== undefined) doc.updatedAt = task.updatedAt;
     if (task.updates !== undefined) doc.updates = task.updates;
+    if (task.updateCount !== undefined) doc.updateCount = task.updateCount;
     if (task.suggestedImprovements !== undefined) doc.suggestedImprovements = task.suggestedImprovements;
+    if (task.tags !== undefined) doc.tags = task.tags;
+    if (task.checklist !== undefined) doc.checklist = task.checklist;
+    if (task.blockedBy !== undefined) doc.blockedBy = task.blockedBy;
+    if (task.blocks !== undefined) doc.blocks = task.blocks;
+    // null clears the schedule ("does not repeat")
+    if (task.recurrence !== undefined) doc.recurrence = task.recurrence ? cleanRecurrence(task.recurrence) : null;
+    if (task.previousOccurrenceId !== undefined) doc.previousOccurrenceId = task.previousOccurrenceId;
+    if (task.nextOccurrenceId !== undefined) doc.nextOccurrenceId = task.nextOccurrenceId;
+    if (task.deletedAt !== undefined) doc.deletedAt = task.deletedAt;
+    if (task.assigneeId !== undefined) doc.assigneeId = task.assigneeId;
+    if (task.githubLinks !== undefined) doc.githubLinks = task.githubLinks;
     
     return doc;
 }
@@ -100,80 +182,348 @@ function taskToDoc(task: Partial<Task>): Record<string, unknown> {
 // CRUD Operations
 // ============================================
 
+/**
+ * Generate a task ID on the client, so a task created offline keeps its ID once synced
+ */
+export function generateTaskId(spaceId: string): string {
+    return doc(getTasksCollection(spaceId)).id;
+}
+
 /**
  * Create a new task in a space
+ * Timeline entries passed in updates are written to the task's timeline subcollection.
+ * @param taskId - Pre-generated ID (see generateTaskId); a new one is assigned if omitted
  */
 export async function createTask(
     spaceId: string,
-    taskData: Omit<Task, "id" | "createdAt" | "updatedAt">
+    taskData: Omit<Task, "id" | "createdAt" | "updatedAt">,
+    taskId?: string
 ): Promise<Task> {
     const now = Date.now();
+    const initialUpdates = taskData.updates || [];
     
     const newTask = {
         ...taskData,
         spaceId,
         createdAt: now,
         updatedAt: now,
-        updates: taskData.updates || [],
+        updates: undefined,
+        updateCount: initialUpdates.length,
+        deletedAt: null, // Collaborators only see tasks with an explicit null
     };
     
-    const docRef = await addDoc(getTasksCollection(spaceId), taskToDoc(newTask));
+    const taskRef = taskId ? getTaskDoc(spaceId, taskId) : doc(getTasksCollection(spaceId));
+    const batch = writeBatch(db);
+    batch.set(taskRef, taskToDoc(newTask));
+    for (const update of initialUpdates) {
+        batch.set(doc(getTimelineCollection(spaceId, taskRef.id)), updateToDoc(update));
+    }
+    await batch.commit();
     
     return {
         ...newTask,
-        id: docRef.id,
+        id: taskRef.id,
     } as Task;
 }
 
 /**
- * Update an existing task
+ * Update an existing task as a field-level merge against the server copy.
+ * With base values (the edited fields as they were when the edit started), fields
+ * changed elsewhere in the meantime are left alone and returned as conflicts;
+ * without them the edit overwrites. Timeline entries are added with addTaskUpdate.
+ * Completing a recurring task also creates its next occurrence.
+ * @returns Fields that weren't written because they were edited elsewhere
  */
 export async function updateTask(
     spaceId: string,
     taskId: string,
-    updates: Partial<Task>
-): Promise<void> {
+    updates: Partial<Task>,
+    base?: Partial<Task>
+): Promise<FieldConflict[]> {
     const taskRef = getTaskDoc(spaceId, taskId);
     
-    await updateDoc(taskRef, {
-        ...taskToDoc(updates),
-        updatedAt: Date.now(),
+    return runTransaction(db, async (transaction) => {
+        const taskSnap = await transaction.get(taskRef);
+        if (!taskSnap.exists()) {
+            throw new Error("Task not found");
+        }
+        
+        const current = docToTask(taskSnap.id, taskSnap.data());
+        const conflicts = base ? findFieldConflicts(base, current, updates) : [];
+        const merged: Partial<Task> = { ...updates };
+        for (const conflict of conflicts) {
+            delete merged[conflict.field];
+        }
+        
+        if (merged.status === "done") {
+            const recurrence = merged.recurrence !== undefined ? merged.recurrence : current.recurrence;
+            
+            // Only on the transition to done, and only once per occurrence - written in this
+            // transaction, so two devices completing it at once can't both pass the check
+            if (recurrence && current.status !== "done" && !current.nextOccurrenceId) {
+                completeRecurringTask(transaction, spaceId, { ...current, ...merged, recurrence });
+                return conflicts;
+            }
+        }
+        
+        transaction.update(taskRef, {
+            ...taskToDoc(merged),
+            updatedAt: Date.now(),
+            syncVersion: increment(1),
+        });
+        return conflicts;
+    });
+}
+
+/**
+ * Mark a recurring task done and create the next occurrence, in the
+ * transaction that checked it had none yet.
+ * Both timelines link the chain; the new task points back via previousOccurrenceId.
+ */
+function completeRecurringTask(
+    transaction: Transaction,
+    spaceId: string,
+    task: Task & { recurrence: RecurrenceRule }
+): void {
+    const now = Date.now();
+    // Due dates are the user's calendar days - the UTC date can already be tomorrow (or still yesterday)
+    const today = getLocalDate();
+    const nextDueDate = getNextOccurrenceDate(task.recurrence, task.dueDate, today);
+    const taskRef = getTaskDoc(spaceId, task.id);
+    const fields = taskToDoc({ ...task, updates: undefined });
+    
+    // Series has reached its end date - just complete it
+    if (!nextDueDate) {
+        transaction.update(taskRef, {
+            ...fields,
+            updateCount: increment(1),
+            updatedAt: now,
+            syncVersion: increment(1),
+        });
+        transaction.set(doc(getTimelineCollection(spaceId, task.id)), updateToDoc(
+            { timestamp: now, type: "note", content: "Last occurrence - this task no longer repeats" }
+        ));
+        return;
+    }
+    
+    const nextRef = doc(getTasksCollection(spaceId));
+    const nextTask: Omit<Task, "id"> = {
+        spaceId,
+        title: task.title,
+        description: task.description,
+        dueDate: nextDueDate,
+        dueTime: task.dueTime,
+        priority: task.priority,
+        status: "todo",
+        tags: task.tags,
+        checklist: task.checklist?.map(item => ({ id: item.id, title: item.title, done: false })),
+        recurrence: task.recurrence,
+        previousOccurrenceId: task.id,
+        assigneeId: task.assigneeId,
+        deletedAt: null,
+        createdAt: now,
+        updatedAt: now,
+        updateCount: 1,
+    };
+    
+    transaction.set(nextRef, taskToDoc(nextTask));
+    transaction.set(doc(getTimelineCollection(spaceId, nextRef.id)), updateToDoc({
+        timestamp: now,
+        type: "note",
+        content: `${describeRecurrence(task.recurrence)} - continues from the occurrence completed ${today}`,
+    }));
+    transaction.update(taskRef, {
+        ...fields,
+        nextOccurrenceId: nextRef.id,
+        updateCount: increment(1),
+        updatedAt: now,
+        syncVersion: increment(1),
     });
+    transaction.set(doc(getTimelineCollection(spaceId, task.id)), updateToDoc({
+        timestamp: now,
+        type: "field_update",
+        field: "dueDate",
+        content: `Completed - next occurrence due ${nextDueDate}`,
+        oldValue: task.dueDate ? task.dueDate.slice(0, 10) : "none",
+        newValue: nextDueDate,
+    }));
 }
 
 /**
- * Add a timeline entry to a task
+ * Add a timeline entry to a task.
+ * Each entry is its own document, so entries added on two devices at the same
+ * time are both kept.
  */
 export async function addTaskUpdate(
     spaceId: string,
     taskId: string,
     update: Omit<TaskUpdate, "id">
+): Promise<TaskUpdate> {
+    const updateRef = doc(getTimelineCollection(spaceId, taskId));
+    
+    const batch = writeBatch(db);
+    batch.set(updateRef, updateToDoc(update));
+    batch.update(getTaskDoc(spaceId, taskId), {
+        updateCount: increment(1),
+        updatedAt: Date.now(),
+        syncVersion: increment(1),
+    });
+    await batch.commit();
+    
+    return { ...update, id: updateRef.id };
+}
+
+/**
+ * Set the tasks that block a task, keeping each blocker's "blocks" list in sync
+ */
+export async function setTaskDependencies(
+    spaceId: string,
+    taskId: string,
+    blockedBy: string[],
+    previousBlockedBy: string[] = []
 ): Promise<void> {
+    const next = [...new Set(blockedBy)].filter(id => id !== taskId);
+    const added = next.filter(id => !previousBlockedBy.includes(id));
+    const removed = previousBlockedBy.filter(id => !next.includes(id));
+    const now = Date.now();
+
+    const batch = writeBatch(db);
+    batch.update(getTaskDoc(spaceId, taskId), { blockedBy: next, updatedAt: now, syncVersion: increment(1) });
+    for (const blockerId of added) {
+        batch.update(getTaskDoc(spaceId, blockerId), { blocks: arrayUnion(taskId), updatedAt: now });
+    }
+    for (const blockerId of removed) {
+        batch.update(getTaskDoc(spaceId, blockerId), { blocks: arrayRemove(taskId), updatedAt: now });
+    }
+    await batch.commit();
+}
+
+/**
+ * Move a task to the trash, removing it from the dependencies of related tasks.
+ * The task keeps its own blockedBy/blocks so restoreTask can re-link them;
+ * purgeTasks deletes it for good. deletedBy lets an editor undo their own delete.
+ */
+export async function deleteTask(spaceId: string, taskId: string): Promise<void> {
     const taskRef = getTaskDoc(spaceId, taskId);
     const taskSnap = await getDoc(taskRef);
-    
-    if (!taskSnap.exists()) {
-        throw new Error("Task not found");
+    const data = taskSnap.exists() ? taskSnap.data() : {};
+    const blockedBy = (data.blockedBy as string[]) || [];
+    const blocks = (data.blocks as string[]) || [];
+    const now = Date.now();
+    const trashed = { deletedAt: now, deletedBy: auth.currentUser?.uid ?? deleteField(), updatedAt: now };
+
+    if (blockedBy.length === 0 && blocks.length === 0) {
+        await updateDoc(taskRef, trashed);
+        return;
+    }
+
+    // Related tasks may already be gone - only touch the ones that still exist
+    const related = await Promise.all(
+        [...blockedBy, ...blocks].map(async (id) => ({ id, exists: (await getDoc(getTaskDoc(spaceId, id))).exists() }))
+    );
+    const existing = new Set(related.filter(r => r.exists).map(r => r.id));
+
+    const batch = writeBatch(db);
+    for (const id of blockedBy.filter(id => existing.has(id))) {
+        batch.update(getTaskDoc(spaceId, id), { blocks: arrayRemove(taskId) });
+    }
+    for (const id of blocks.filter(id => existing.has(id))) {
+        batch.update(getTaskDoc(spaceId, id), { blockedBy: arrayRemove(taskId) });
+    }
+    batch.update(taskRef, trashed);
+    await batch.commit();
+}
+
+/**
+ * Permanently delete trashed tasks
+ */
+export async function purgeTasks(spaceId: string, taskIds: string[]): Promise<void> {
+    if (taskIds.length === 0) return;
+
+    for (const taskId of taskIds) {
+        await deleteTaskTimeline(spaceId, taskId);
+    }
+
+    const batch = writeBatch(db);
+    for (const taskId of taskIds) {
+        batch.delete(getTaskDoc(spaceId, taskId));
+    }
+    await batch.commit();
+}
+
+/**
+ * Delete a task's timeline subcollection (Firestore doesn't delete it with the task)
+ */
+export async function deleteTaskTimeline(spaceId: string, taskId: string): Promise<void> {
+    const timelineSnap = await getDocs(getTimelineCollection(spaceId, taskId));
+
+    for (let i = 0; i < timelineSnap.docs.length; i += BATCH_LIMIT) {
+        const batch = writeBatch(db);
+        for (const entry of timelineSnap.docs.slice(i, i + BATCH_LIMIT)) {
+            batch.delete(entry.ref);
+        }
+        await batch.commit();
+    }
+}
+
+/**
+ * Get the tasks in a space's trash, most recently deleted first
+ */
+export async function getTrashedTasks(spaceId: string): Promise<Task[]> {
+    const snapshot = await getDocs(
+        query(getTasksCollection(spaceId), where("deletedAt", ">", 0))
+    );
+
+    return snapshot.docs
+        .map((doc) => docToTask(doc.id, doc.data()))
+        .sort((a, b) => (b.deletedAt || 0) - (a.deletedAt || 0));
+}
+
+/**
+ * Put fields back to earlier values without side effects (no recurrence spawn).
+ * Fields whose earlier value was unset are removed from the document.
+ */
+export async function restoreTaskFields(
+    spaceId: string,
+    taskId: string,
+    values: Partial<Task>,
+    fields: (keyof Task)[]
+): Promise<void> {
+    const restored = taskToDoc(values);
+    for (const field of fields) {
+        if (!(field in restored)) restored[field] = deleteField();
     }
     
-    const currentUpdates = (taskSnap.data().updates as TaskUpdate[]) || [];
-    const newUpdate: TaskUpdate = {
-        ...update,
-        id: Date.now().toString(),
-    };
-    
-    await updateDoc(taskRef, {
-        updates: [...currentUpdates, newUpdate],
+    await updateDoc(getTaskDoc(spaceId, taskId), {
+        ...restored,
         updatedAt: Date.now(),
+        syncVersion: increment(1),
     });
 }
 
 /**
- * Delete a task
+ * Bring a trashed (or purged) task back under its original ID, re-linking
+ * dependencies with the related tasks that still exist. The document is
+ * rewritten, which also drops deletedBy.
  */
-export async function deleteTask(spaceId: string, taskId: string): Promise<void> {
-    const taskRef = getTaskDoc(spaceId, taskId);
-    await deleteDoc(taskRef);
+export async function restoreTask(spaceId: string, task: Task): Promise<void> {
+    const related = await Promise.all(
+        [...(task.blockedBy || []), ...(task.blocks || [])].map(async (id) => ({ id, exists: (await getDoc(getTaskDoc(spaceId, id))).exists() }))
+    );
+    const existing = new Set(related.filter(r => r.exists).map(r => r.id));
+    const blockedBy = (task.blockedBy || []).filter(id => existing.has(id));
+    const blocks = (task.blocks || []).filter(id => existing.has(id));
+    const now = Date.now();
+
+    const batch = writeBatch(db);
+    for (const id of blockedBy) {
+        batch.update(getTaskDoc(spaceId, id), { blocks: arrayUnion(task.id) });
+    }
+    for (const id of blocks) {
+        batch.update(getTaskDoc(spaceId, id), { blockedBy: arrayUnion(task.id) });
+    }
+    batch.set(getTaskDoc(spaceId, task.id), taskToDoc({ ...task, blockedBy, blocks, deletedAt: null, updatedAt: now }));
+    await batch.commit();
 }
 
 /**
@@ -204,6 +554,112 @@ export async function getTask(spaceId: string, taskId: string): Promise<Task | n
     return docToTask(snapshot.id, snapshot.data());
 }
 
+/**
+ * Get a single task from the server, bypassing the offline cache
+ * (used to detect conflicts when replaying offline changes)
+ */
+export async function getTaskFromServer(spaceId: string, taskId: string): Promise<Task | null> {
+    const snapshot = await getDocFromServer(getTaskDoc(spaceId, taskId));
+    return snapshot.exists() ? docToTask(snapshot.id, snapshot.data()) : null;
+}
+
+// ============================================
+// Timeline
+// ============================================
+
+/**
+ * Newest-first timeline query, optionally continuing after an entry
+ */
+function timelineQuery(spaceId: string, taskId: string, pageSize: number, after?: TaskUpdate) {
+    const ordering = [orderBy("timestamp", "desc"), orderBy(documentId(), "desc")];
+    return after
+        ? query(getTimelineCollection(spaceId, taskId), ...ordering, startAfter(after.timestamp, after.id), limit(pageSize))
+        : query(getTimelineCollection(spaceId, taskId), ...ordering, limit(pageSize));
+}
+
+/**
+ * Subscribe to the newest page of a task's timeline, newest first
+ * Returns an unsubscribe function
+ */
+export function subscribeToTaskTimeline(
+    spaceId: string,
+    taskId: string,
+    pageSize: number,
+    onUpdates: TimelineChangeCallback,
+    onError?: TaskErrorCallback
+): Unsubscribe {
+    return onSnapshot(
+        timelineQuery(spaceId, taskId, pageSize),
+        (snapshot) => {
+            onUpdates(snapshot.docs.map((doc) => docToUpdate(doc.id, doc.data())));
+        },
+        (error) => {
+            console.error("Timeline subscription error:", error);
+            if (onError) {
+                onError({
+                    code: error.code === "permission-denied" ? "PERMISSION_DENIED" : "NETWORK_ERROR",
+                    message: "Failed to load the activity timeline.",
+                });
+            }
+        }
+    );
+}
+
+/**
+ * Get the page of timeline entries older than an entry, newest first
+ */
+export async function getOlderTaskUpdates(
+    spaceId: string,
+    taskId: string,
+    before: TaskUpdate,
+    pageSize: number
+): Promise<TaskUpdate[]> {
+    const snapshot = await getDocs(timelineQuery(spaceId, taskId, pageSize, before));
+    return snapshot.docs.map((doc) => docToUpdate(doc.id, doc.data()));
+}
+
+/**
+ * Move a task's embedded timeline array (the format before the timeline subcollection)
+ * into the subcollection. Works in transaction-sized chunks and does nothing once the
+ * array is gone, so several clients can run it at the same time.
+ * Not an edit: updatedAt and syncVersion are left alone.
+ * @returns Number of entries moved
+ */
+export async function migrateTaskTimeline(spaceId: string, taskId: string): Promise<number> {
+    const taskRef = getTaskDoc(spaceId, taskId);
+    let moved = 0;
+    let remaining = 0;
+    
+    do {
+        const result = await runTransaction(db, async (transaction) => {
+            const taskSnap = await transaction.get(taskRef);
+            const embedded = (taskSnap.exists() ? taskSnap.data().updates as TaskUpdate[] | undefined : undefined) || [];
+            if (embedded.length === 0) return { moved: 0, remaining: 0 };
+            
+            // One write is left for the task itself
+            const chunk = embedded.slice(0, BATCH_LIMIT - 1);
+            const rest = embedded.slice(chunk.length);
+            // Entries keep their IDs (so open timelines don't show them twice) unless one is repeated
+            const usedIds = new Set<string>();
+            for (const update of chunk) {
+                const timeline = getTimelineCollection(spaceId, taskId);
+                const updateRef = update.id && !usedIds.has(update.id) ? doc(timeline, update.id) : doc(timeline);
+                usedIds.add(updateRef.id);
+                transaction.set(updateRef, updateToDoc(update));
+            }
+            transaction.update(taskRef, {
+                updates: rest.length > 0 ? rest : deleteField(),
+                updateCount: increment(chunk.length),
+            });
+            return { moved: chunk.length, remaining: rest.length };
+        });
+        moved += result.moved;
+        remaining = result.remaining;
+    } while (remaining > 0);
+    
+    return moved;
+}
+
 // ============================================
 // Real-time Subscriptions
 // ============================================
@@ -217,18 +673,27 @@ export function subscribeToTasks(
     onTasks: TaskChangeCallback,
     onError?: TaskErrorCallback
 ): Unsubscribe {
-    const q = query(
-        getTasksCollection(spaceId),
-        orderBy("createdAt", "desc")
-    );
-    
-    return onSnapshot(
-        q,
+    let unsubscribe: Unsubscribe;
+
+    const listen = (activeOnly: boolean) => onSnapshot(
+        // Rules aren't filters: collaborators may only query tasks that are provably not trashed
+        activeOnly
+            ? query(getTasksCollection(spaceId), where("deletedAt", "==", null))
+            : query(getTasksCollection(spaceId), orderBy("createdAt", "desc")),
         (snapshot) => {
-            const tasks = snapshot.docs.map((doc) => docToTask(doc.id, doc.data()));
+            // Trashed tasks stay in the collection until purged
+            const tasks = snapshot.docs
+                .map((doc) => docToTask(doc.id, doc.data()))
+                .filter((task) => !task.deletedAt);
+            // Client-side sort avoids requiring a composite index for the active-only query
+            if (activeOnly) tasks.sort((a, b) => b.createdAt - a.createdAt);
             onTasks(tasks);
         },
         (error) => {
+            if (!activeOnly && error.code === "permission-denied") {
+                unsubscribe = listen(true);
+                return;
+            }
             console.error("Task subscription error:", error);
             if (onError) {
                 onError({
@@ -238,6 +703,9 @@ export function subscribeToTasks(
             }
         }
     );
+
+    unsubscribe = listen(false);
+    return () => unsubscribe();
 }
 
 // ============================================
@@ -264,6 +732,7 @@ export async function migrateLocalTasks(
                 ...task,
                 spaceId,
                 id: taskRef.id, // New ID in Firestore
+                deletedAt: null,
             }));
             success++;
         } catch (error) {
@@ -0,0 +1,44 @@
+/**
+ * Task Service (Server-Side)
+ *
+ * Read-only task access for API routes that look across spaces.
+ * Uses Firebase Admin SDK - only use in API routes.
+ *
+ * Collection structure:
+ * - /spaces/{spaceId}/tasks/{taskId}
+ * - /spaces/{spaceId}/tasks/{taskId}/updates/{updateId}  (timeline)
+ */
+
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import { Task, TaskUpdate } from "@/types";
+
+/**
+ * Tasks of a space that aren't done or in the trash.
+ * Filtered here rather than in the query so legacy tasks without deletedAt are included.
+ */
+export async function getOpenTasksServer(spaceId: string): Promise<Task[]> {
+    const snap = await getAdminDb().collection("spaces").doc(spaceId).collection("tasks").get();
+    return snap.docs
+        .map(d => ({ ...(d.data() as Omit<Task, "id">), id: d.id, spaceId }))
+        .filter(task => task.status !== "done" && !task.deletedAt);
+}
+
+/**
+ * Newest entries of a task's timeline, oldest first. Includes the embedded
+ * array of tasks whose timeline wasn't moved to the subcollection yet.
+ * @param limit - Entries to load at most
+ */
+export async function getTaskTimelineServer(spaceId: string, taskId: string, limit: number): Promise<TaskUpdate[]> {
+    const taskRef = getAdminDb().collection("spaces").doc(spaceId).collection("tasks").doc(taskId);
+    const [taskSnap, timelineSnap] = await Promise.all([
+        taskRef.get(),
+        taskRef.collection("updates").orderBy("timestamp", "desc").limit(limit).get(),
+    ]);
+
+    const embedded = ((taskSnap.data() as Task | undefined)?.updates || []);
+    const stored = timelineSnap.docs.map(d => ({ ...(d.data() as Omit<TaskUpdate, "id">), id: d.id }));
+    return [...embedded, ...stored]
+        .sort((a, b) => b.timestamp - a.timestamp)
+        .slice(0, limit)
+        .reverse();
+}
@@ -0,0 +1,30 @@
+/**
+ * Usage Service
+ *
+ * Client-side read access to the usage ledger: one entry per AI request or
+ * voice log charged to the user's quota. Entries are written by the API
+ * routes when they commit a quota reservation (see entitlementsServer.ts).
+ *
+ * Collection structure: /userPlans/{userId}/usageLedger/{entryId}
+ */
+
+import { collection, getDocs, orderBy, query, where } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { UsageLedgerEntry } from "@/types";
+
+/**
+ * Get the user's ledger entries since a point in time, oldest first
+ * @param userId - Signed-in user
+ * @param since - Start of the period (ms)
+ */
+export async function getUsageLedger(userId: string, since: number): Promise<UsageLedgerEntry[]> {
+    const snapshot = await getDocs(
+        query(
+            collection(db, "userPlans", userId, "usageLedger"),
+            where("createdAt", ">=", since),
+            orderBy("createdAt", "asc")
+        )
+    );
+
+    return snapshot.docs.map(d => ({ ...(d.data() as Omit<UsageLedgerEntry, "id">), id: d.id }));
+}
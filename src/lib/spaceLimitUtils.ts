@@ -0,0 +1,37 @@
+import { Space } from "@/types";
+
+type LimitedSpace = Pick<Space, "id" | "ownerId" | "createdAt" | "deletedAt" | "archivedAt">;
+
+/**
+ * Whether a space is archived - read-only for everyone in it
+ * @param space - Space to check
+ */
+export function isSpaceArchived(space: Pick<Space, "archivedAt">): boolean {
+    return !!space.archivedAt;
+}
+
+/**
+ * Spaces that count towards a user's space limit: owned, not trashed and not archived
+ * @param spaces - Spaces the user can see (shared ones are skipped)
+ * @param userId - Owner whose limit applies
+ */
+export function getSpacesCountingTowardsLimit<T extends LimitedSpace>(spaces: T[], userId: string): T[] {
+    return spaces.filter(space => space.ownerId === userId && !space.deletedAt && !space.archivedAt);
+}
+
+/**
+ * The downgrade policy: which of a user's spaces become read-only when their
+ * plan allows fewer spaces than they have. The most recently created ones stay
+ * editable; the owner can choose others afterwards.
+ * @param spaces - Spaces counting towards the limit (getSpacesCountingTowardsLimit)
+ * @param maxSpaces - Plan's space limit (null = unlimited)
+ * @returns IDs of the spaces to archive
+ */
+export function getSpacesOverLimit(spaces: LimitedSpace[], maxSpaces: number | null): string[] {
+    if (maxSpaces === null || spaces.length <= maxSpaces) return [];
+
+    return [...spaces]
+        .sort((a, b) => (b.createdAt || 0) - (a.createdAt || 0))
+        .slice(maxSpaces)
+        .map(space => space.id);
+}
@@ -0,0 +1,131 @@
+import { Task } from "@/types";
+import { getOpenBlockers } from "@/lib/dependencyUtils";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days without changes before an open task counts as stale
+const STALE_AFTER_DAYS = 7;
+
+export interface RankedTask {
+    task: Task;
+    score: number;
+    reasons: string[]; // Short, human-readable ("Due today", "High priority")
+}
+
+function plural(count: number, word: string): string {
+    return `${count} ${word}${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * Whole days from one YYYY-MM-DD date to another (negative if "to" is earlier)
+ */
+function daysBetween(from: string, to: string): number {
+    return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
+
+/**
+ * Scores how urgent an open task is today, from its due date, priority,
+ * staleness and dependencies. Tasks waiting on open blockers are pushed down.
+ * @param task - Open task to score
+ * @param tasks - Tasks the blockers are looked up in
+ * @param today - Today's date (YYYY-MM-DD) in the user's timezone
+ * @param now - Current time, for staleness
+ * @returns Score (higher is more urgent) and the reasons behind it
+ */
+export function scoreTask(task: Task, tasks: Task[], today: string, now: number = Date.now()): RankedTask {
+    let score = 0;
+    const reasons: string[] = [];
+
+    const dueDate = task.dueDate ? task.dueDate.slice(0, 10) : null;
+    const daysLeft = dueDate ? daysBetween(today, dueDate) : NaN;
+    if (daysLeft < 0) {
+        score += 50 + Math.min(-daysLeft, 10) * 3;
+        reasons.push(`Overdue by ${plural(-daysLeft, "day")}`);
+    } else if (daysLeft === 0) {
+        score += 45;
+        reasons.push("Due today");
+    } else if (daysLeft === 1) {
+        score += 30;
+        reasons.push("Due tomorrow");
+    } else if (daysLeft <= 7) {
+        score += 15;
+        reasons.push(`Due in ${daysLeft} days`);
+    }
+
+    if (task.priority === "high") {
+        score += 25;
+        reasons.push("High priority");
+    } else if (task.priority === "medium") {
+        score += 10;
+    }
+
+    if (task.status === "in-progress") {
+        score += 10;
+        reasons.push("Already in progress");
+    }
+
+    const idleDays = Math.floor((now - (task.updatedAt || task.createdAt)) / DAY_MS);
+    if (idleDays >= STALE_AFTER_DAYS) {
+        score += Math.min(idleDays, 30) / 2;
+        reasons.push(`Untouched for ${plural(idleDays, "day")}`);
+    }
+
+    const waiting = tasks.filter(t => t.status !== "done" && t.blockedBy?.includes(task.id)).length;
+    if (waiting > 0) {
+        score += 8 * Math.min(waiting, 3);
+        reasons.push(`Unblocks ${plural(waiting, "task")}`);
+    }
+
+    const openBlockers = getOpenBlockers(task, tasks);
+    if (openBlockers.length > 0) {
+        score -= 40;
+        reasons.push(`Waiting on ${plural(openBlockers.length, "blocker")}`);
+    } else if (task.status === "blocked") {
+        score -= 40;
+        reasons.push("Marked as blocked");
+    }
+
+    return { task, score, reasons };
+}
+
+/**
+ * Picks the open tasks to work on today, most urgent first.
+ * Done and trashed tasks, and tasks assigned to someone else, are left out.
+ * @param tasks - Tasks across all of the user's spaces
+ * @param today - Today's date (YYYY-MM-DD) in the user's timezone
+ * @param userId - The user the plan is for
+ * @param limit - Maximum number of tasks
+ * @param now - Current time, for staleness
+ */
+export function rankTasksForToday(
+    tasks: Task[],
+    today: string,
+    userId: string,
+    limit: number = 5,
+    now: number = Date.now()
+): RankedTask[] {
+    return tasks
+        .filter(t => t.status !== "done" && !t.deletedAt && (!t.assigneeId || t.assigneeId === userId))
+        .map(t => scoreTask(t, tasks, today, now))
+        .sort((a, b) =>
+            b.score - a.score ||
+            (a.task.dueDate || "9999").localeCompare(b.task.dueDate || "9999") ||
+            a.task.createdAt - b.task.createdAt
+        )
+        .slice(0, limit);
+}
+
+/**
+ * Plain plan for when the AI summary isn't available
+ * @param ranked - Tasks from rankTasksForToday
+ */
+export function buildFallbackSummary(ranked: RankedTask[]): string {
+    if (ranked.length === 0) {
+        return "Nothing open right now - a good day to plan what's next.";
+    }
+
+    const [first, ...rest] = ranked;
+    const lead = `Start with "${first.task.title}"${first.reasons[0] ? ` (${first.reasons[0].toLowerCase()})` : ""}.`;
+    if (rest.length === 0) return lead;
+    return `${lead} Then ${rest.slice(0, 2).map(r => `"${r.task.title}"`).join(" and ")}.`;
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { collectTags, normalizeTag, normalizeTags } from "@/lib/tagUtils";
+
+describe("normalizeTag", () => {
+    it("lowercases, trims, drops the leading # and joins words", () => {
+        expect(normalizeTag("  #Work ")).toBe("work");
+        expect(normalizeTag("##Side   Project")).toBe("side-project");
+    });
+
+    it("cuts long tags to 32 characters", () => {
+        expect(normalizeTag("a".repeat(40))).toHaveLength(32);
+    });
+});
+
+describe("normalizeTags", () => {
+    it("drops empty tags and duplicates, keeping the first position", () => {
+        expect(normalizeTags(["Home", "#", "work", "#home", "  "])).toEqual(["home", "work"]);
+    });
+
+    it("returns an empty list without tags", () => {
+        expect(normalizeTags(undefined)).toEqual([]);
+        expect(normalizeTags(null)).toEqual([]);
+    });
+});
+
+describe("collectTags", () => {
+    it("sorts by usage, then alphabetically", () => {
+        const tasks = [{ tags: ["work", "urgent"] }, { tags: ["home", "work"] }, { tags: undefined }, { tags: ["errands"] }];
+        expect(collectTags(tasks)).toEqual(["work", "errands", "home", "urgent"]);
+    });
+});
@@ -0,0 +1,44 @@
+import { Task } from "@/types";
+
+const MAX_TAG_LENGTH = 32;
+
+/**
+ * Normalizes a single tag: lowercase, trimmed, leading "#" removed, inner whitespace as "-"
+ * @param tag - Raw tag from user input or the model
+ * @returns Normalized tag, or an empty string if nothing usable remains
+ */
+export function normalizeTag(tag: string): string {
+    return tag
+        .trim()
+        .replace(/^#+/, "")
+        .toLowerCase()
+        .replace(/\s+/g, "-")
+        .slice(0, MAX_TAG_LENGTH);
+}
+
+/**
+ * Normalizes and de-duplicates a list of tags, preserving order
+ * @param tags - Raw tags (may be undefined)
+ * @returns Clean tag list (empty if none)
+ */
+export function normalizeTags(tags?: string[] | null): string[] {
+    if (!tags) return [];
+    return [...new Set(tags.map(normalizeTag).filter(Boolean))];
+}
+
+/**
+ * Collects every tag used in a set of tasks, most used first
+ * @param tasks - Tasks to scan
+ * @returns Distinct tags sorted by usage count, then alphabetically
+ */
+export function collectTags(tasks: Pick<Task, "tags">[]): string[] {
+    const counts = new Map<string, number>();
+    for (const task of tasks) {
+        for (const tag of task.tags || []) {
+            counts.set(tag, (counts.get(tag) || 0) + 1);
+        }
+    }
+    return [...counts.entries()]
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .map(([tag]) => tag);
+}
@@ -0,0 +1,30 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * When a trashed item will be purged
+ * @param deletedAt - Timestamp the item was moved to the trash
+ * @param retentionDays - Plan's trash retention window (PlanLimits.trashRetentionDays)
+ * @returns Purge timestamp
+ */
+export function getPurgeDate(deletedAt: number, retentionDays: number): number {
+    return deletedAt + retentionDays * DAY_MS;
+}
+
+/**
+ * Whether a trashed item has outlived the retention window
+ * @param deletedAt - Timestamp the item was moved to the trash
+ * @param retentionDays - Plan's trash retention window
+ */
+export function isPastRetention(deletedAt: number, retentionDays: number): boolean {
+    return Date.now() >= getPurgeDate(deletedAt, retentionDays);
+}
+
+/**
+ * Whole days left before a trashed item is purged
+ * @param deletedAt - Timestamp the item was moved to the trash
+ * @param retentionDays - Plan's trash retention window
+ * @returns Days remaining (0 once due)
+ */
+export function getDaysUntilPurge(deletedAt: number, retentionDays: number): number {
+    return Math.max(0, Math.ceil((getPurgeDate(deletedAt, retentionDays) - Date.now()) / DAY_MS));
+}
@@ -0,0 +1,74 @@
+import { UsageLedgerEntry } from "@/types";
+
+// Quota units used - a long recording counts as several voice logs
+export interface DailyUsage {
+    date: string;           // YYYY-MM-DD, local time
+    aiRequests: number;
+    voiceLogs: number;
+}
+
+export interface RouteUsage {
+    route: string;
+    requests: number;
+    units: number;
+    tokens: number;
+}
+
+function toLocalDate(timestamp: number): string {
+    const date = new Date(timestamp);
+    const month = String(date.getMonth() + 1).padStart(2, "0");
+    const day = String(date.getDate()).padStart(2, "0");
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Start of the current usage period - quotas reset on the first of each month
+ * @param now - Current time
+ */
+export function getUsagePeriodStart(now: number = Date.now()): number {
+    const date = new Date(now);
+    return new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+}
+
+/**
+ * Usage per day of a period, with a row for every day so quiet days show as gaps
+ * @param entries - Ledger entries in the period
+ * @param periodStart - First day of the period
+ * @param now - Last day of the period
+ */
+export function groupUsageByDay(entries: UsageLedgerEntry[], periodStart: number, now: number = Date.now()): DailyUsage[] {
+    const days = new Map<string, DailyUsage>();
+    const cursor = new Date(periodStart);
+    while (cursor.getTime() <= now) {
+        const date = toLocalDate(cursor.getTime());
+        days.set(date, { date, aiRequests: 0, voiceLogs: 0 });
+        cursor.setDate(cursor.getDate() + 1);
+    }
+
+    for (const entry of entries) {
+        const day = days.get(toLocalDate(entry.createdAt));
+        if (!day) continue;
+        if (entry.action === "create_voice_log") {
+            day.voiceLogs += entry.units;
+        } else {
+            day.aiRequests += entry.units;
+        }
+    }
+    return [...days.values()];
+}
+
+/**
+ * Usage per API route, most used first
+ * @param entries - Ledger entries to add up
+ */
+export function groupUsageByRoute(entries: UsageLedgerEntry[]): RouteUsage[] {
+    const routes = new Map<string, RouteUsage>();
+    for (const entry of entries) {
+        const route = routes.get(entry.route) || { route: entry.route, requests: 0, units: 0, tokens: 0 };
+        route.requests++;
+        route.units += entry.units;
+        route.tokens += entry.tokens || 0;
+        routes.set(entry.route, route);
+    }
+    return [...routes.values()].sort((a, b) => b.requests - a.requests);
+}
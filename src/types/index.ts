@@ -19,17 +19,56 @@ export interface PlanLimits {
     hasGitHubIntegration: boolean;
     hasCalendarIntegration: boolean;
     hasDailySummary: boolean;
+    trashRetentionDays: number; // Trashed tasks and spaces are purged after this
 }
 
+// Subscription state from the billing provider - "past_due" keeps Pro while payment is retried
+export type SubscriptionStatus = "active" | "past_due" | "canceled";
+
 export interface UserPlan {
     userId: string;
     tier: PlanTier;
     voiceLogsUsed: number;
     voiceLogsResetAt: number; // Timestamp for monthly reset
-    aiRequestsUsed: number; // Text-based AI requests (parse-task, enhance-description)
+    aiRequestsUsed: number; // Text-based AI requests (parse-task, enhance/generate-description, daily summary)
     aiRequestsResetAt: number; // Timestamp for monthly reset
     createdAt: number;
     updatedAt: number;
+
+    // Billing - written only by /api/billing-webhook (see billingServiceServer.ts)
+    billingCustomerId?: string;
+    subscriptionId?: string;
+    subscriptionStatus?: SubscriptionStatus;
+    currentPeriodEnd?: number;   // End of the paid period
+    cancelAtPeriodEnd?: boolean; // Cancelled, still Pro until currentPeriodEnd
+    billingEventAt?: number;     // Creation time of the last applied event - older ones are ignored
+    downgradedAt?: number;       // Last time the subscription ended
+}
+
+// One charge against a monthly quota, taken before the AI call and settled after it.
+// Requests retried with the same Idempotency-Key share one reservation - a retry only runs after a refund.
+export interface UsageReservation {
+    id: string;                 // "{userId}_{idempotencyKey}", or random without a key
+    userId: string;
+    action: "create_voice_log" | "create_ai_request";
+    units: number;              // Quota charged - more than 1 for expensive calls (e.g. long audio)
+    status: "reserved" | "committed" | "refunded";
+    attempts: number;           // Requests charged with this key - never reset
+    chargedAt: number;          // When the usage counter was last incremented
+    createdAt: number;
+    updatedAt: number;
+    responseBody?: string;      // JSON returned once committed - replayed to retries with the same key
+}
+
+// Append-only record of one charged request, written when its reservation is committed
+export interface UsageLedgerEntry {
+    id: string;                 // Reservation ID - one entry per charge
+    action: UsageReservation["action"];
+    units: number;
+    route: string;              // API route that used the quota, e.g. "/api/parse-task"
+    spaceId?: string;
+    tokens?: number;            // Model tokens used by the request, when the provider reports them
+    createdAt: number;
 }
 
 // Plan limits configuration
@@ -41,6 +80,7 @@ export const PLAN_LIMITS: Record<PlanTier, PlanLimits> = {
         hasGitHubIntegration: false,
         hasCalendarIntegration: false,
         hasDailySummary: false,
+        trashRetentionDays: 7,
     },
     pro: {
         maxVoiceLogs: null,
@@ -49,6 +89,7 @@ export const PLAN_LIMITS: Record<PlanTier, PlanLimits> = {
         hasGitHubIntegration: true,
         hasCalendarIntegration: true,
         hasDailySummary: true,
+        trashRetentionDays: 30,
     },
 };
 
@@ -58,12 +99,48 @@ export const PLAN_LIMITS: Record<PlanTier, PlanLimits> = {
 
 export type SpaceTheme = "blue" | "purple" | "pink" | "emerald" | "amber" | "cyan" | "default";
 
+export type SpaceRole = "owner" | "editor" | "viewer";
+
+// "plan_limit": over the Free plan's space limit, archived when Pro ended and restored on upgrade
+export type SpaceArchiveReason = "plan_limit" | "owner";
+
+export interface SpaceMember {
+    userId: string;
+    email: string;
+    displayName?: string;
+    role: SpaceRole;
+    joinedAt: number;
+}
+
 export interface Space {
     id: string;
     name: string;
     theme: SpaceTheme;
     createdAt: number;
     ownerId: string;
+    deletedAt?: number; // Set while the space is in the trash
+    archivedAt?: number; // Read-only and not counted towards the owner's space limit - set server-side
+    archivedReason?: SpaceArchiveReason;
+    
+    // Sharing - spaces created before sharing only have ownerId (see memberUtils.getSpaceMembers)
+    members?: Record<string, SpaceMember>; // Keyed by userId, includes the owner
+    memberIds?: string[]; // Keys of members, for array-contains queries
+    
+    githubRepo?: GitHubRepo | null; // Connected repository (Pro) - null disconnects
+}
+
+// Invitation to join a space - written by /api/invite-member, answered via /api/respond-invitation
+export interface SpaceInvitation {
+    id: string;
+    spaceId: string;
+    spaceName: string;
+    email: string; // Lowercase
+    role: Exclude<SpaceRole, "owner">;
+    invitedBy: string;
+    invitedByName?: string;
+    status: "pending" | "accepted" | "declined" | "revoked";
+    createdAt: number;
+    respondedAt?: number;
 }
 
 // ============================================
@@ -80,6 +157,29 @@ export interface TaskUpdate {
     newValue?: string;
 }
 
+export interface ChecklistItem {
+    id: string;
+    title: string;
+    done: boolean;
+    completedAt?: number;
+}
+
+// Checklist edits produced by the updater agent, applied with applyChecklistChanges
+export interface ChecklistChanges {
+    completedItemIds?: string[];
+    reopenedItemIds?: string[];
+    addedItems?: string[];
+}
+
+// Repeat schedule for a task - see recurrenceUtils.ts
+export interface RecurrenceRule {
+    frequency: "daily" | "weekly" | "monthly" | "yearly";
+    interval: number;       // Every N days/weeks/months/years
+    daysOfWeek?: number[];  // Weekly only, 0 = Sunday
+    dayOfMonth?: number;    // Monthly only, 1-31 (clamped to short months)
+    until?: string;         // Last possible due date (YYYY-MM-DD)
+}
+
 export interface Task {
     id: string;
     spaceId: string;
@@ -88,15 +188,268 @@ export interface Task {
     dueDate?: string | null;
     dueTime?: string; // e.g., "14:00" or "2:00 PM"
     priority?: "low" | "medium" | "high";
-    status: "todo" | "in-progress" | "done";
+    status: "todo" | "in-progress" | "blocked" | "done";
     createdAt: number;
     updatedAt: number;
-    updates?: TaskUpdate[]; // Activity timeline
+    // Activity timeline - stored in /spaces/{spaceId}/tasks/{taskId}/updates and loaded page by page
+    // (see useTaskTimeline). An embedded array is the pre-subcollection format, moved out by
+    // migrateTaskTimeline; on create it seeds the subcollection.
+    updates?: TaskUpdate[];
+    updateCount?: number; // Entries in the timeline subcollection
     
     // AI-suggested improvements - optional questions user can answer to enrich the task
     suggestedImprovements?: string[];
     
-    // Future: Sync metadata
-    // syncVersion?: number;
-    // lastSyncedAt?: number;
+    // Free-form labels (lowercase, de-duplicated - see normalizeTags)
+    tags?: string[];
+    
+    // Concrete steps for the task - progress is shown on the space page
+    checklist?: ChecklistItem[];
+    
+    // Dependencies within the space - kept symmetric by setTaskDependencies
+    blockedBy?: string[]; // Tasks that must be done before this one
+    blocks?: string[];    // Tasks waiting on this one
+    
+    // Recurring tasks - completing one spawns the next occurrence (see taskService.updateTask)
+    recurrence?: RecurrenceRule | null; // null clears an existing schedule
+    previousOccurrenceId?: string;
+    nextOccurrenceId?: string;
+    
+    deletedAt?: number | null; // Set while the task is in the trash - null (not missing) keeps it visible to collaborators
+    deletedBy?: string;        // Who moved it to the trash - editors can restore only their own
+    
+    assigneeId?: string | null; // Space member responsible for the task - null unassigns
+    
+    // Incremented by every update - lets an open editor notice the task changed under it
+    syncVersion?: number;
+    
+    // Issues and pull requests in the space's connected repository
+    githubLinks?: GitHubLink[];
+}
+
+// ============================================
+// Conversation Types (clarification follow-ups)
+// ============================================
+
+export interface ConversationTurn {
+    role: "user" | "assistant";
+    content: string;
+    timestamp: number;
+}
+
+// Task details gathered so far while waiting for the user's answer
+export interface PendingTask {
+    title: string;
+    description?: string;
+    priority?: "low" | "medium" | "high";
+    tags?: string[];
+    checklist?: string[]; // Step titles, turned into ChecklistItems on create
+    blockedBy?: string[];
+    recurrence?: RecurrenceRule;
+    assigneeId?: string;
+    suggestedImprovements?: string[];
+}
+
+export interface Conversation {
+    id: string;
+    spaceId: string;
+    ownerId: string;
+    status: "open" | "resolved";
+    pendingTask?: PendingTask;
+    turns: ConversationTurn[];
+    createdAt: number;
+    updatedAt: number;
+}
+
+// ============================================
+// Undo History (AI-applied changes)
+// ============================================
+
+// A reversible change made by /api/parse-task or a confirmed voice/text preview
+export interface TaskOperation {
+    id: string;
+    type: "update" | "delete";
+    source: "text" | "voice";
+    taskId: string;
+    summary: string;        // e.g. 'Completed "Write report"'
+    before: Partial<Task>;  // Previous values of the changed fields - the whole task for deletes
+    after: Partial<Task>;   // Values that were applied (empty for deletes)
+    timestamp: number;
+    aiLogId?: string;       // AI request that proposed it - undoing it is reported as a correction
+}
+
+// ============================================
+// GitHub Integration
+// ============================================
+
+// Repository connected to a space - written by /api/connect-github
+export interface GitHubRepo {
+    owner: string;
+    repo: string;
+    connectedBy: string;
+    connectedAt: number;
+    lastSyncedAt?: number; // Last time /api/sync-github refreshed the linked items
+}
+
+// Issue or pull request number mentioned in text ("PR #423", a GitHub URL)
+export interface GitHubRef {
+    number: number;
+    owner?: string; // Only when the mention names a repository
+    repo?: string;
+}
+
+// Issue or pull request linked to a task - state is refreshed by /api/sync-github
+export interface GitHubLink {
+    kind: "issue" | "pull";
+    number: number;
+    title: string;
+    url: string;
+    state: "open" | "closed" | "merged";
+    updatedAt: number;
+}
+
+// ============================================
+// Calendar Integration
+// ============================================
+
+// One occurrence of an event from an imported ICS calendar, in the user's timezone
+export interface CalendarEvent {
+    uid: string;        // UID of the VEVENT - shared by all occurrences of a recurring event
+    title: string;
+    date: string;       // YYYY-MM-DD
+    startTime?: string; // HH:MM, missing for all-day events
+    endTime?: string;
+    location?: string;
+    description?: string;
+}
+
+// Per-user calendar settings - server only, managed through /api/calendar-settings
+export interface CalendarSettings {
+    userId: string;
+    feedToken: string;  // Secret in the ICS feed URL - rotating it revokes old subscriptions
+    importUrl?: string; // ICS calendar whose events the classifier sees as context
+    updatedAt: number;
+}
+
+// ============================================
+// Daily Summary
+// ============================================
+
+// An open task picked for today, with why it made the cut
+export interface DailyPlanItem {
+    taskId: string;
+    spaceId: string;
+    spaceName: string;
+    title: string;
+    reason: string;
+    dueDate?: string | null;
+    priority?: Task["priority"];
 }
+
+// "What should I work on today?" - written by /api/daily-summary
+export interface DailySummary {
+    summary: string;        // Short plan for the day
+    items: DailyPlanItem[]; // Best first
+    openTaskCount: number;  // Open tasks across all the user's spaces
+    generatedAt: number;
+}
+
+// ============================================
+// Concurrent Edits
+// ============================================
+
+// A field changed elsewhere while it was being edited here - "mine" is only
+// written once the user picks it over "theirs" (see conflictUtils.ts)
+export interface FieldConflict {
+    field: keyof Task;
+    mine: unknown;
+    theirs: unknown;
+}
+
+// ============================================
+// Offline Queue
+// ============================================
+
+// A task change made while offline, replayed in order once the connection returns
+export interface QueuedMutation {
+    id?: number;                // IndexedDB key, assigned when queued
+    spaceId: string;
+    taskId: string;             // Created offline: a Firestore ID generated on the client
+    type: "create" | "update" | "delete";
+    task?: Task;                // create
+    updates?: Partial<Task>;    // update
+    baseUpdatedAt?: number;     // update/delete: the task's updatedAt when the change was made
+    baseValues?: Partial<Task>; // update: the edited fields' values when the change was made
+    queuedAt: number;
+}
+
+// A queued mutation that wasn't applied on replay
+export interface SyncConflict {
+    mutation: QueuedMutation;
+    taskTitle: string;
+    reason: "changed" | "deleted" | "denied"; // Edited elsewhere, gone, or no longer allowed
+    fieldConflicts?: FieldConflict[]; // "changed" update: only these fields weren't applied
+}
+
+// A voice log recorded while offline, transcribed once the connection returns
+export interface QueuedVoiceRecording {
+    id?: number;
+    spaceId: string;
+    blob: Blob;
+    mimeType: string;
+    queuedAt: number;
+}
+
+// ============================================
+// AI Observability
+// ============================================
+
+// One model call made while handling an AI request
+export interface AiCallLog {
+    agent: string;              // AgentName, "unknown" for calls without one
+    provider: string;
+    model: string;
+    latencyMs: number;
+    promptTokens?: number;
+    outputTokens?: number;
+    totalTokens?: number;
+    error?: string;             // The call threw (network, quota, safety block...)
+}
+
+// Whether an agent's answer matched its schema (see structuredOutput.ts)
+export interface AiParseLog {
+    agent: string;
+    success: boolean;
+    attempts: number;           // Model calls, including repairs
+    errorCode?: string;         // NO_JSON, INVALID_JSON or SCHEMA_MISMATCH
+}
+
+// The user didn't accept what the AI did - a likely misclassification
+export interface AiCorrection {
+    type: "undone" | "rejected"; // Undid an applied change / dropped proposed actions in the preview
+    detail?: string;            // e.g. 'Kept 1 of 3 actions' (redacted)
+    at: number;
+}
+
+// One AI request, recorded server-side in /aiLogs by withAiLog
+export interface AiLog {
+    id: string;
+    route: string;
+    userId?: string;
+    spaceId?: string;
+    input?: string;             // User text or transcript - PII redacted and truncated
+    intent?: string;            // Final intent (parse-task) or proposed action types (voice-log)
+    confidence?: number;
+    calls: AiCallLog[];
+    parses: AiParseLog[];
+    parseFailed: boolean;       // Some agent never produced valid output
+    totalTokens: number;
+    latencyMs: number;
+    status: number;             // HTTP status of the response
+    correction?: AiCorrection;
+    correctedAt?: number;       // Set with correction, for querying
+    createdAt: number;
+}
+
+// Admin view filters: undone or rejected by the user / some agent never produced valid output
+export type AiLogFilter = "corrected" | "parse_failed" | "all";